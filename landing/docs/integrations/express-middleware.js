@@ -16,14 +16,72 @@
  *   app.get('/api/data', optionalAgent, (req, res) => {
  *     if (req.agent) console.log('Verified agent:', req.agent.name);
  *   });
+ *
+ *   // Check a whole list of agents in one call (e.g. when rendering a marketplace page)
+ *   const agents = await verifyMany(listing.map(item => item.agent_did)); // { [did]: agent data or null }
+ *
+ *   // Agents can also send the signed token from GET /verify/{did} as X-Agent-Verification;
+ *   // it is checked offline against the service's published keys, with no API call per request.
+ *
+ *   // Optional: drop cached agents as soon as they change (POST /webhooks with this URL)
+ *   app.post('/agent-identity/webhook', express.raw({ type: 'application/json' }),
+ *     agentIdentityWebhook(process.env.AGENT_IDENTITY_WEBHOOK_SECRET));
  */
 
+const crypto = require('crypto');
+
 const AGENT_IDENTITY_API = 'https://agent-identity.onrender.com';
 
 // Cache verified agents for 5 minutes to reduce API calls
 const cache = new Map();
 const CACHE_TTL = 5 * 60 * 1000;
 
+// Service signing keys (JWK Set), refetched at most every 5 minutes when a token names an unknown key
+let jwks = { keys: [], fetchedAt: 0 };
+
+async function getSigningKey(kid) {
+  let jwk = jwks.keys.find(k => k.kid === kid);
+  if (!jwk && Date.now() - jwks.fetchedAt > CACHE_TTL) {
+    const response = await fetch(`${AGENT_IDENTITY_API}/.well-known/jwks.json`);
+    if (response.ok) {
+      jwks = { keys: (await response.json()).keys || [], fetchedAt: Date.now() };
+      jwk = jwks.keys.find(k => k.kid === kid);
+    }
+  }
+  return jwk ? crypto.createPublicKey({ key: jwk, format: 'jwk' }) : null;
+}
+
+/**
+ * Check a signed verification token (from GET /verify/{did}) offline
+ * @param {string} token - Compact JWS from the X-Agent-Verification header
+ * @param {string} did - The DID the token must be about
+ * @returns {Promise<object|null>} Agent data (as GET /verify/{did} returned it) or null if not verified
+ */
+async function verifyAgentToken(token, did) {
+  try {
+    const [header, payload, signature] = token.split('.');
+    const { alg, typ, kid } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (alg !== 'EdDSA' || typ !== 'agent-verification+jwt') return null;
+
+    const key = await getSigningKey(kid);
+    if (!key || !crypto.verify(null, Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, 'base64url'))) {
+      return null;
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (claims.exp * 1000 <= Date.now() || claims.sub !== did) return null;
+    return claims.verification.verified ? claims.verification : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Agent from the request: its signed token if it sent one, otherwise looked up by DID
+function agentForRequest(req, did) {
+  const token = req.headers['x-agent-verification'];
+  return token ? verifyAgentToken(token, did) : verifyAgent(did);
+}
+
 /**
  * Verify an agent DID against the Agent Identity API
  * @param {string} did - The agent's DID
@@ -59,6 +117,60 @@ async function verifyAgent(did) {
   }
 }
 
+// Most DIDs the API accepts per POST /verify/batch
+const BATCH_SIZE = 500;
+
+/**
+ * Verify many agent DIDs, with one API call per 500 DIDs not already cached
+ * Each DID counts against the API's limit of 1000 verifications per minute per IP.
+ * @param {string[]} dids - Agent DIDs
+ * @returns {Promise<object>} Agent data (or null if not verified) keyed by DID
+ */
+async function verifyMany(dids) {
+  const agents = {};
+  const uncached = [];
+  for (const did of new Set(dids)) {
+    const cached = cache.get(did);
+    if (cached && Date.now() < cached.expires) {
+      agents[did] = cached.data;
+    } else {
+      uncached.push(did);
+    }
+  }
+
+  for (let i = 0; i < uncached.length; i += BATCH_SIZE) {
+    const batch = uncached.slice(i, i + BATCH_SIZE);
+    try {
+      const response = await fetch(`${AGENT_IDENTITY_API}/verify/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dids: batch })
+      });
+
+      if (!response.ok) {
+        console.error(`[AgentIdentity] API error: ${response.status}`);
+        batch.forEach(did => { agents[did] = null; });
+        continue;
+      }
+
+      const { results } = await response.json();
+      for (const result of results) {
+        const data = result.verified ? result : null;
+        agents[result.did] = data;
+        // DIDs that couldn't be checked this time aren't cached
+        if (!result.error) {
+          cache.set(result.did, { data, expires: Date.now() + CACHE_TTL });
+        }
+      }
+    } catch (error) {
+      console.error('[AgentIdentity] Batch verification failed:', error.message);
+      batch.forEach(did => { agents[did] = null; });
+    }
+  }
+
+  return agents;
+}
+
 /**
  * Middleware: Require verified Agent Identity
  * Returns 401 if agent is not verified.
@@ -74,7 +186,7 @@ async function requireAgent(req, res, next) {
     });
   }
 
-  const agent = await verifyAgent(agentDid);
+  const agent = await agentForRequest(req, agentDid);
   
   if (!agent) {
     return res.status(401).json({
@@ -98,7 +210,7 @@ async function optionalAgent(req, res, next) {
   const agentDid = req.headers['x-agent-did'] || req.headers['x-agent-identity'];
   
   if (agentDid) {
-    const agent = await verifyAgent(agentDid);
+    const agent = await agentForRequest(req, agentDid);
     if (agent) {
       req.agent = agent;
     }
@@ -134,6 +246,37 @@ function requireReputation(minReputation) {
   };
 }
 
+/**
+ * Webhook receiver: verifies the signature and evicts the agent from the cache
+ * Mount it with express.raw() so the signature is checked against the exact body.
+ * @param {string} secret - The webhook secret returned when the subscription was created
+ */
+function agentIdentityWebhook(secret) {
+  return (req, res) => {
+    const body = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    const header = req.headers['x-webhook-signature'] || '';
+    const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=')));
+    const timestamp = parseInt(parts.t, 10);
+
+    // Reject stale signatures (5 minutes) so captured deliveries can't be replayed later
+    if (!parts.v1 || !timestamp || Math.abs(Date.now() / 1000 - timestamp) > 300) {
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    if (parts.v1.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(parts.v1), Buffer.from(expected))) {
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
+    const event = JSON.parse(body);
+    if (event.agent) {
+      cache.delete(event.agent.did);
+    }
+    res.json({ received: true });
+  };
+}
+
 // Clean up cache periodically
 setInterval(() => {
   const now = Date.now();
@@ -146,7 +289,10 @@ setInterval(() => {
 
 module.exports = {
   verifyAgent,
+  verifyMany,
+  verifyAgentToken,
   requireAgent,
   optionalAgent,
-  requireReputation
+  requireReputation,
+  agentIdentityWebhook
 };
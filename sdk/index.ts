@@ -23,11 +23,39 @@
  */
 
 import { ed25519 } from '@noble/curves/ed25519';
-import { bytesToHex, hexToBytes } from '@noble/curves/abstract/utils';
+import { sha256 } from '@noble/hashes/sha256';
+import { hmac } from '@noble/hashes/hmac';
+import { bytesToHex, hexToBytes, concatBytes } from '@noble/curves/abstract/utils';
 
 export interface AgentIdentityConfig {
   apiUrl: string;
   apiKey?: string;
+  agent?: AgentCredentials;  // Default identity for agent-authenticated calls
+}
+
+export interface AgentCredentials {
+  did: string;
+  privateKey: string;  // hex
+}
+
+export interface AuthChallenge {
+  nonce: string;
+  did: string;
+  audience: string;
+  expires_at: string;
+}
+
+export type AgentTokenScope = 'read' | 'write';
+
+// Token response from /auth/token
+export interface AgentTokens {
+  access_token: string;     // EdDSA JWT, sent as Authorization: Bearer
+  token_type: 'Bearer';
+  expires_in: number;       // seconds
+  scope: string;            // space-separated
+  refresh_token: string;    // single use; each refresh returns a new one
+  refresh_token_expires_at: string;
+  did: string;
 }
 
 export interface RegisterOptions {
@@ -35,34 +63,68 @@ export interface RegisterOptions {
   owner?: string;
   metadata?: Record<string, any>;
   publicKey?: string;  // Optional - if not provided, a new keypair is generated
+  didMethod?: 'agent' | 'key' | 'web';  // Default: agent
+  did?: string;        // Register an existing did:key (its key is used as the public key)
+  webDomain?: string;  // did:web domain, e.g. 'example.com'
+  webPath?: string;    // Optional did:web path, e.g. 'agents/alice'
+  parent?: AgentCredentials;  // Register a worker of this agent; the request is authenticated as the parent
 }
 
 export interface AgentInfo {
   id: string;
   did: string;
+  did_method?: 'agent' | 'key' | 'web';
+  did_document_url?: string;  // did:web only - where the agent's domain must host did_document
+  did_web_verified?: boolean;  // did:web only - false until verifyDidWeb finds the hosted document
   name: string;
   owner_id: string | null;
   public_key: string;
   private_key?: string;  // Only returned on creation
   metadata: Record<string, any>;
   status: string;
+  agent_type?: 'main' | 'worker';
+  parent_did?: string | null;
   created_at: string;
   did_document?: object;
+  claim_code?: string;             // root agents, only returned on creation
+  claim_code_expires_at?: string;
+}
+
+export interface ClaimCode {
+  did: string;
+  claim_code: string;
+  claim_code_expires_at: string;
+  claim_instructions: string;
 }
 
 export interface VerificationResult {
   verified: boolean;
   agent_id: string;
   did: string;
+  key_id: string | null;
+  key_status: 'current' | 'retired' | null;
   verified_at: string;
   error?: string;
 }
 
+export interface KeyRotationResult {
+  success: boolean;
+  agent_id: string;
+  did: string;
+  key_id: string;
+  previous_key_id: string;
+  public_key: string;
+  rotated_at: string;
+  did_document: object;
+}
+
 export interface ReputationInfo {
   agent_id: string;
   did: string;
   reputation: {
-    score: number;
+    score: number;        // 0-5
+    confidence: number;   // 0-1, grows with recent event volume
+    algorithm: string;    // reputation model version, e.g. v2
     event_count: number;
     verification_count: number;
     age_days: number;
@@ -75,16 +137,413 @@ export interface ReputationInfo {
   }>;
 }
 
+export type AgentStatus = 'active' | 'suspended' | 'revoked' | 'deactivated';
+
+export interface StatusChangeResult {
+  success: boolean;
+  agent_id: string;
+  did: string;
+  previous_status: string;
+  status: AgentStatus;
+  status_reason: string | null;
+  status_changed_at: string;
+  cascaded?: Array<{ did: string; previous_status: string; status: AgentStatus }>;  // cascade only
+  cascade_skipped?: Array<{ did: string; status: string }>;  // descendants that couldn't transition
+}
+
+export interface AgentTreeNode {
+  id: string;
+  did: string;
+  name: string;
+  agent_type: 'main' | 'worker';
+  status: string;
+  depth: number;          // levels below the tree's root
+  reputation: number;
+  reputation_algorithm: string;
+  tasks_completed: number;
+  created_at: string;
+  children: AgentTreeNode[];
+}
+
+export interface AgentTree {
+  tree: AgentTreeNode;
+  summary: {
+    agent_count: number;
+    depth: number;
+    truncated: boolean;   // deeper agents were left out
+    total_tasks: number;
+    worst_reputation: { did: string; score: number };
+    average_reputation: number;
+    status_counts: Record<string, number>;
+  };
+  limits: { max_depth: number; max_children: number };
+}
+
+export interface DIDResolutionResult {
+  didDocument: Record<string, any> | null;
+  didResolutionMetadata: { contentType?: string; error?: string; errorMessage?: string };
+  didDocumentMetadata: {
+    created?: string;
+    updated?: string;
+    deactivated?: boolean;
+    versionId?: string;
+    [key: string]: any;
+  };
+}
+
 export interface ClaimOptions {
-  agentId: string;
+  agentId: string;     // the agent's DID when signing
   claimType: string;
   claimValue?: string;
-  message?: string;
-  signature?: string;
+  signature?: string;  // over the canonical claim payload
+  privateKey?: string; // sign the claim with this key instead of passing signature
+  agent?: AgentCredentials;  // or make the claim with agent auth (default: config.agent)
+  signedAt?: string;   // within 5 minutes of submitting; claims are checked against the current key
   verifierId?: string;
   expiresInDays?: number;
 }
 
+export interface WorkReport {
+  period?: string;  // YYYY-MM-DD, default today
+  tasksCompleted?: number;
+  corrections?: number;
+  positiveFeedback?: number;
+  errors?: number;
+  tasks?: ConfirmedTask[];  // tasks confirmed by the counterparty; weighted far above self-reported counts
+}
+
+export type TaskOutcome = 'completed' | 'corrected' | 'failed';
+
+export interface TaskDetails {
+  taskId: string;
+  outcome: TaskOutcome;
+  positiveFeedback?: boolean;
+}
+
+// A task countersigned by the agent it was done for (see countersignTask), or a receipt a platform issued
+export type ConfirmedTask =
+  | { task_id: string; outcome: TaskOutcome; positive_feedback: boolean; countersigned_by: string; countersignature: string }
+  | { receipt_id: string };
+
+export interface TaskReceipt {
+  id: string;
+  agent_id: string;
+  task_id: string;
+  outcome: TaskOutcome;
+  positive_feedback: boolean;
+  countersigner: string;  // api_key:<id> for platform receipts
+  signature: string | null;
+  report_id: string | null;
+  created_at: string;
+}
+
+export interface WorkReportResult {
+  success: boolean;
+  agent_id: string;
+  did: string;
+  period: string;
+  delta: number;               // self-reported plus verified
+  self_reported_delta: number;
+  verified: {
+    report_id: string;
+    tasks: number;
+    tasks_completed: number;
+    corrections: number;
+    positive_feedback: number;
+    errors: number;
+    delta: number;
+  } | null;
+  old_reputation: number;
+  new_reputation: number;
+  reputation: number;
+  confidence: number;
+  algorithm: string;
+  recorded_at: string;
+}
+
+export interface EndorsementOptions {
+  rating: number;           // 1-5; 3 is neutral
+  context: string;          // tag for the interaction, e.g. 'code-review'
+  interactionRef?: string;  // optional reference to the interaction (task ID, URL, ...)
+}
+
+export interface Endorsement {
+  id: string;
+  rater_id: string;
+  rater_did: string;
+  subject_id: string;
+  subject_did: string;
+  rating: number;
+  context: string;
+  interaction_ref: string | null;
+  period: string;   // YYYY-MM
+  weight: number;   // rater's reputation weight (0-1)
+  signature: string;
+  created_at: string;
+}
+
+export interface ReputationWeights {
+  tasks_completed: number;
+  corrections: number;
+  positive_feedback: number;
+  errors: number;
+  cap: number;
+}
+
+// The scoring model a proof was computed with (as served by the API)
+export interface ReputationModel {
+  version: string;
+  description: string;
+  base: number;
+  min: number;
+  max: number;
+  eventWeights: Record<string, number>;
+  workReport: ReputationWeights;
+  verifiedWorkReport: ReputationWeights;
+  endorsement: number;
+  halfLifeDays: number | null;
+  confidenceScale: number;
+}
+
+export interface ReputationChainEvent {
+  id: number;
+  agent_id: string;
+  seq: number;
+  event_type: string;
+  score_delta: number;
+  description: string | null;
+  metadata: Record<string, any>;
+  prev_hash: string;
+  hash: string;
+  created_at: string;
+}
+
+export interface ReputationChainHead {
+  agent_id: string;
+  seq: number;
+  hash: string;
+}
+
+export interface ReputationProof {
+  agent_id: string;
+  did: string;
+  computed_at: string;
+  model: ReputationModel;
+  reputation: {
+    score: number;
+    confidence: number;
+    algorithm: string;
+    event_count: number;
+  };
+  head: ReputationChainHead | null;
+  events: ReputationChainEvent[];
+  checkpoint: {
+    id: number;
+    root: string;
+    agent_count: number;
+    event_count: number;
+    issuer: string;
+    signature: string;
+    created_at: string;
+    inclusion: { head: ReputationChainHead; leaf_index: number; tree_size: number; path: string[] } | null;
+  } | null;
+  issuer: { did: string; public_key: string };
+}
+
+export interface ReputationProofCheck {
+  valid: boolean;
+  error?: string;
+  score?: number;
+  confidence?: number;
+  checkpointed_seq?: number | null;  // events up to here are committed to by a signed checkpoint
+}
+
+export interface LogEntry {
+  leaf_index: number;
+  entry_type: 'registration' | 'key_rotation' | 'revocation';
+  did: string;
+  public_key: string;
+  key_id: string;
+  leaf_hash: string;
+  created_at: string;
+}
+
+// Signed commitment to the first tree_size entries of the transparency log
+export interface TreeHead {
+  tree_size: number;
+  root_hash: string;
+  issuer: string;
+  signature: string;
+  created_at: string;
+}
+
+export interface DidLogProof {
+  did: string;
+  tree_size: number;
+  root_hash: string;
+  entries: Array<LogEntry & { audit_path: string[] }>;
+  tree_head: TreeHead;
+}
+
+export interface LogConsistencyProof {
+  first: number;
+  second: number;
+  first_root: string;
+  second_root: string;
+  proof: string[];
+}
+
+export interface LogCheck {
+  valid: boolean;
+  error?: string;
+}
+
+export interface DidLogCheck extends LogCheck {
+  public_key?: string;   // the DID's current key according to the log
+  key_id?: string;
+  revoked?: boolean;
+}
+
+export interface EndorsementResult extends Endorsement {
+  delta: number;
+  reputation: number;
+  reputation_algorithm: string;
+}
+
+export interface EndorsementList {
+  agent_id: string;
+  did: string;
+  count: number;
+  average_rating: number | null;
+  endorsements: Endorsement[];
+}
+
+export interface AgentSearchOptions {
+  q?: string;                         // words that all appear in the name
+  name?: string;                      // name prefix
+  agentType?: string;
+  status?: AgentStatus | AgentStatus[];
+  owner?: string;
+  claimTypes?: string[];              // holds an unexpired verification of every one
+  registeredAfter?: string | Date;
+  registeredBefore?: string | Date;
+  metadata?: Record<string, string>;  // top-level metadata values
+  minReputation?: number;
+  maxReputation?: number;
+  sort?: 'created_at' | 'reputation' | 'activity' | 'name';
+  order?: 'asc' | 'desc';             // default desc (asc for name)
+  algorithm?: string;                 // reputation model version
+  limit?: number;
+  cursor?: string;                    // next_cursor of the previous page
+}
+
+export interface AgentSearchPage {
+  agents: AgentInfo[];
+  pagination: { total: number; limit: number; next_cursor: string | null };
+}
+
+export type ReportCategory = 'spam' | 'impersonation' | 'fraud' | 'malicious_output' | 'harassment' | 'policy_violation' | 'other';
+
+export interface AbuseReportOptions {
+  category: ReportCategory;
+  description: string;
+  evidence?: string[];  // URLs or excerpts, at most 10
+}
+
+export interface AbuseReport {
+  id: string;
+  agent_id: string;
+  agent_did: string;
+  category: ReportCategory;
+  description: string;
+  evidence: string[];
+  status: 'open' | 'reviewing' | 'actioned' | 'dismissed';
+  agent_response: string | null;
+  agent_responded_at: string | null;
+  resolution_action: 'dismiss' | 'warn' | 'flag' | 'suspend' | null;
+  resolution_note: string | null;
+  penalty: number | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookEventType = 'registration' | 'claim' | 'ownership_change' | 'work_report' | 'status_change' | 'key_rotation' | 'verification';
+
+export interface WebhookOptions {
+  url: string;
+  eventTypes?: WebhookEventType[];  // default: every event type
+  dids?: string[];                  // only these agents
+  owners?: string[];                // only agents with this owner or account ID
+  description?: string;
+}
+
+export interface Webhook {
+  id: string;
+  owner_id: string;
+  url: string;
+  secret?: string;                  // only returned by createWebhook
+  event_types: WebhookEventType[];
+  dids: string[];
+  owners: string[];
+  description: string | null;
+  created_at: string;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType | 'ping';
+  created_at: string;
+  agent: { id: string; did: string; name: string; status: string; agent_type: string; parent_did: string | null } | null;
+  data: Record<string, any>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  payload: WebhookEvent;
+  status: 'pending' | 'delivered' | 'dead';
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  created_at: string;
+}
+
+export interface WebhookSignatureCheck {
+  valid: boolean;
+  error?: string;
+  event?: WebhookEvent;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: {
+    id: string;
+    claim: { type: string; value: string | null; verifier: string | null; method: 'signature' | 'agent_auth' };
+  };
+  proof?: {
+    type: 'DataIntegrityProof';
+    cryptosuite: 'eddsa-jcs-2022';
+    created: string;
+    verificationMethod: string;
+    proofPurpose: 'assertionMethod';
+    proofValue: string;
+  };
+}
+
+export interface CredentialCheck {
+  valid: boolean;
+  error?: string;
+  credential?: VerifiableCredential;
+}
+
 export interface ClaimResult {
   verified: boolean;
   verification_id: string;
@@ -92,18 +551,161 @@ export interface ClaimResult {
   did: string;
   claim_type: string;
   claim_value?: string;
-  signature_verified: boolean | null;
+  signature_verified: boolean;
+  verification_method: 'signature' | 'agent_auth';
   verified_at: string;
   expires_at: string | null;
+  credential: VerifiableCredential;
+  credential_jwt: string;
+}
+
+export interface IssuerInfo {
+  did: string;
+  key_id: string;
+  public_key: string;
+  did_document: object;
+  jwks_uri: string;
+}
+
+export interface Jwk {
+  kty: string;
+  crv: string;
+  x: string;
+  kid: string;
+  use?: string;
+  alg?: string;
+}
+
+// GET /verify/:did result; token is the same result signed by the service
+export interface AgentVerification {
+  verified: boolean;
+  did: string;
+  did_web_verified?: boolean;  // did:web only; verified stays false until the domain serves the agent's key
+  did_document_url?: string;   // did:web only
+  name?: string;
+  status?: string;
+  revoked?: boolean;
+  revoked_at?: string | null;
+  status_reason?: string | null;
+  status_changed_at?: string | null;
+  reputation?: number;
+  reputation_confidence?: number;
+  reputation_algorithm?: string;
+  tasks_completed?: number;
+  registered_at?: string;
+  flags?: number;
+  verification_url?: string;
+  message?: string;
+  token: string;
+  token_expires_at: string;
+}
+
+// POST /verify/batch entry: a GET /verify/:did result, or an error for a DID that couldn't be checked
+export type BatchVerificationResult = AgentVerification | { did: string; verified: false; error: string; message?: string };
+
+export interface BatchVerification {
+  results: BatchVerificationResult[];  // request order, repeats removed
+  summary: { requested: number; verified: number; not_verified: number; not_registered: number; errors: number };
+}
+
+export interface VerificationTokenCheck {
+  valid: boolean;
+  error?: string;
+  verification?: Omit<AgentVerification, 'token' | 'token_expires_at'>;
+  issued_at?: string;
+  expires_at?: string;
+}
+
+// A capability in a delegation: resource, action and caveats (UCAN-style)
+export interface Capability {
+  with: string;                    // resource; a trailing * covers everything under it
+  can: string;                     // action; * or ns/* cover more
+  nb?: Record<string, unknown>;    // caveats; re-delegations keep them and may add more
+}
+
+export interface DelegationOptions {
+  audience: string;                // DID of the worker receiving the capabilities
+  capabilities: Capability[];
+  expiresIn?: number;              // seconds (default 1 hour, never past the proof's expiry)
+  notBefore?: Date;
+  proof?: string;                  // the delegation being re-delegated (omit for a root agent)
+}
+
+// A delegation's claims, root first in a chain
+export interface DelegationLink {
+  iss: string;
+  aud: string;
+  att: Capability[];
+  iat: number;
+  exp: number;
+  nbf?: number;
+}
+
+// What verifyDelegationChain needs about each agent in a chain (as returned by get)
+export interface DelegationAgent {
+  public_key: string;
+  parent_did?: string | null;
+  status?: string;
+}
+
+export interface DelegationCheck {
+  valid: boolean;
+  error?: string;
+  root?: string;
+  audience?: string;
+  capabilities?: Capability[];
+  expires_at?: string;
+  chain?: DelegationLink[];
+}
+
+export interface DelegationVerification {
+  valid: boolean;
+  error?: string;
+  root?: string;
+  audience?: string;
+  capabilities?: Capability[];
+  expires_at?: string;
+  authorized?: boolean;            // only when a capability was asked about
+  chain?: { issuer: string; audience: string; capabilities: Capability[]; issued_at: string; not_before: string | null; expires_at: string }[];
+}
+
+export interface SignRequestOptions {
+  method: string;
+  url: string;          // full target URI, e.g. https://clawid.co/agents/me
+  body?: string;        // exact body bytes that will be sent
+  keyId: string;        // agent DID, or DID URL of its current key (did:agent:...#key-1)
+  privateKey: string;   // hex
+  nonce?: string;       // single-use nonce from /auth/challenge (required by /auth/token)
+  created?: number;     // seconds since epoch (default: now)
+  expires?: number;     // seconds since epoch
+}
+
+export interface SignedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface HttpSignatureCheck {
+  valid: boolean;
+  error?: string;
+  keyid?: string;
+  created?: number;
+  nonce?: string;
 }
 
 export class AgentIdentity {
   private apiUrl: string;
   private apiKey?: string;
+  private agent?: AgentCredentials;
+  // Token sessions from getAccessToken, by DID; agentRequest uses them instead of signing
+  private tokens = new Map<string, { tokens: AgentTokens; expiresAt: number; refreshing?: Promise<AgentTokens> }>();
 
   constructor(config: AgentIdentityConfig) {
     this.apiUrl = config.apiUrl.replace(/\/$/, '');
     this.apiKey = config.apiKey;
+    this.agent = config.agent;
   }
 
   private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
@@ -112,8 +714,13 @@ export class AgentIdentity {
       ...options.headers as Record<string, string>
     };
 
+    // An agent access token takes the Authorization header; the API key moves to X-API-Key
     if (this.apiKey) {
-      headers['Authorization'] = `Bearer ${this.apiKey}`;
+      if (headers['Authorization']) {
+        headers['X-API-Key'] = this.apiKey;
+      } else {
+        headers['Authorization'] = `Bearer ${this.apiKey}`;
+      }
     }
 
     const response = await fetch(`${this.apiUrl}${path}`, {
@@ -131,103 +738,718 @@ export class AgentIdentity {
   }
 
   /**
-   * Register a new agent identity
+   * Make an agent-authenticated request
+   * Uses the agent's access token once getAccessToken has been called, otherwise signs the request
    */
-  async register(options: RegisterOptions): Promise<AgentInfo> {
-    return this.request<AgentInfo>('/agents/register', {
-      method: 'POST',
-      body: JSON.stringify({
-        name: options.name,
-        owner_id: options.owner,
-        metadata: options.metadata,
-        public_key: options.publicKey
-      })
-    });
+  private async agentRequest<T>(path: string, options: RequestInit = {}, agent = this.agent): Promise<T> {
+    if (!agent) {
+      throw new Error('Agent credentials required: pass { did, privateKey } or set config.agent');
+    }
+
+    const accessToken = await this.sessionToken(agent.did);
+    if (accessToken) {
+      return this.request<T>(path, {
+        ...options,
+        headers: { ...options.headers as Record<string, string>, Authorization: `Bearer ${accessToken}` }
+      });
+    }
+    return this.signedRequest<T>(path, options, agent);
   }
 
   /**
-   * Get an agent by ID or DID
+   * Make a signed agent request
+   * Fetches a single-use nonce from /auth/challenge and signs it with the method, path, body hash
+   * and audience, so each signature is valid for exactly one request.
    */
-  async get(idOrDid: string): Promise<AgentInfo> {
-    return this.request<AgentInfo>(`/agents/${encodeURIComponent(idOrDid)}`);
+  private async signedRequest<T>(path: string, options: RequestInit, agent: AgentCredentials): Promise<T> {
+    const challenge = await this.createChallenge(agent.did);
+    const method = options.method || 'GET';
+    const body = typeof options.body === 'string' ? JSON.parse(options.body) : undefined;
+    const message = AgentIdentity.createAgentAuthMessage(agent.did, challenge.nonce, method, path, body, challenge.audience);
+
+    return this.request<T>(path, {
+      ...options,
+      method,
+      headers: {
+        ...options.headers as Record<string, string>,
+        'X-Agent-DID': agent.did,
+        'X-Agent-Nonce': challenge.nonce,
+        'X-Agent-Signature': AgentIdentity.sign(message, agent.privateKey)
+      }
+    });
   }
 
   /**
-   * Verify an agent's signature
+   * Get a single-use auth nonce for an agent (agentRequest does this automatically)
    */
-  async verify(idOrDid: string, message: string, signature: string): Promise<VerificationResult> {
-    return this.request<VerificationResult>(`/agents/${encodeURIComponent(idOrDid)}/verify`, {
+  async createChallenge(did: string): Promise<AuthChallenge> {
+    return this.request<AuthChallenge>('/auth/challenge', {
       method: 'POST',
-      body: JSON.stringify({ message, signature })
+      body: JSON.stringify({ did })
     });
   }
 
+  // A live access token for did from getAccessToken, refreshed when it is about to expire
+  private async sessionToken(did: string): Promise<string | null> {
+    const session = this.tokens.get(did);
+    if (!session) return null;
+    if (session.expiresAt - 30 * 1000 > Date.now()) return session.tokens.access_token;
+
+    // One refresh at a time: a second use of the same refresh token would revoke the session
+    session.refreshing ??= this.refreshAccessToken(session.tokens.refresh_token);
+    try {
+      return (await session.refreshing).access_token;
+    } catch {
+      // Expired or revoked: fall back to signed requests
+      if (this.tokens.get(did) === session) this.tokens.delete(did);
+      return null;
+    }
+  }
+
+  private keepTokens(tokens: AgentTokens): AgentTokens {
+    this.tokens.set(tokens.did, { tokens, expiresAt: Date.now() + tokens.expires_in * 1000 });
+    return tokens;
+  }
+
   /**
-   * Get an agent's reputation
+   * Prove key possession once and get a short-lived access token with a refresh token
+   * Later agent-authenticated calls for this agent use (and refresh) the token instead of signing.
    */
-  async getReputation(idOrDid: string): Promise<ReputationInfo> {
-    return this.request<ReputationInfo>(`/agents/${encodeURIComponent(idOrDid)}/reputation`);
+  async getAccessToken(agent = this.agent, scope?: AgentTokenScope[]): Promise<AgentTokens> {
+    if (!agent) {
+      throw new Error('Agent credentials required: pass { did, privateKey } or set config.agent');
+    }
+    return this.keepTokens(await this.signedRequest<AgentTokens>('/auth/token', {
+      method: 'POST',
+      body: JSON.stringify({ grant_type: 'agent_signature', scope: scope?.join(' ') })
+    }, agent));
   }
 
   /**
-   * Verify a claim about an agent
+   * Exchange a refresh token for new tokens; the old refresh token can't be used again
    */
-  async verifyClaim(options: ClaimOptions): Promise<ClaimResult> {
-    return this.request<ClaimResult>('/verify', {
+  async refreshAccessToken(refreshToken: string, scope?: AgentTokenScope[]): Promise<AgentTokens> {
+    return this.keepTokens(await this.request<AgentTokens>('/auth/token', {
       method: 'POST',
-      body: JSON.stringify({
-        agent_id: options.agentId,
-        claim_type: options.claimType,
-        claim_value: options.claimValue,
-        message: options.message,
-        signature: options.signature,
-        verifier_id: options.verifierId,
-        expires_in_days: options.expiresInDays
-      })
+      body: JSON.stringify({ grant_type: 'refresh_token', refresh_token: refreshToken, scope: scope?.join(' ') })
+    }));
+  }
+
+  /**
+   * Revoke an access or refresh token, ending its session (both tokens stop working)
+   */
+  async revokeToken(token: string): Promise<void> {
+    for (const [did, session] of this.tokens) {
+      if (session.tokens.access_token === token || session.tokens.refresh_token === token) {
+        this.tokens.delete(did);
+      }
+    }
+    await this.request('/auth/revoke', {
+      method: 'POST',
+      body: JSON.stringify({ token })
     });
   }
 
   /**
-   * Get all claims for an agent
+   * Get the authenticated agent's own profile
    */
-  async getClaims(idOrDid: string): Promise<{ agent_id: string; did: string; claims: any[]; total: number }> {
-    return this.request(`/verify/${encodeURIComponent(idOrDid)}/claims`);
+  async me(agent?: AgentCredentials): Promise<AgentInfo> {
+    return this.agentRequest<AgentInfo>('/agents/me', {}, agent);
   }
 
   /**
-   * List all agents
+   * Get the authenticated agent's sub-agents
+   * Pass depth to include workers' workers too (default 1: direct workers only)
    */
-  async list(limit = 50, offset = 0): Promise<{ agents: AgentInfo[]; pagination: { total: number; limit: number; offset: number } }> {
-    return this.request(`/agents?limit=${limit}&offset=${offset}`);
+  async getSubagents(agent?: AgentCredentials, depth?: number): Promise<{ parent_did: string; depth: number; subagents: Array<AgentInfo & { depth: number }>; count: number }> {
+    const query = depth !== undefined ? `?depth=${depth}` : '';
+    return this.agentRequest(`/agents/me/subagents${query}`, {}, agent);
   }
 
-  // --- Crypto utilities (for local signing) ---
+  /**
+   * Get an agent's subtree of workers with tree-wide aggregates
+   * The authenticated agent must be the agent itself or one of its ancestors.
+   */
+  async getTree(idOrDid: string, depth?: number, agent?: AgentCredentials): Promise<AgentTree> {
+    const query = depth !== undefined ? `?depth=${depth}` : '';
+    return this.agentRequest<AgentTree>(`/agents/${encodeURIComponent(idOrDid)}/tree${query}`, {}, agent);
+  }
 
   /**
-   * Generate a new Ed25519 keypair
+   * Have the service fetch a did:web agent's hosted DID document and check it lists the agent's current key
+   * Until this succeeds (and again after each key rotation) the agent's DID is reported unverified.
    */
-  static generateKeyPair(): { publicKey: string; privateKey: string } {
-    const privateKey = ed25519.utils.randomPrivateKey();
-    const publicKey = ed25519.getPublicKey(privateKey);
-    
-    return {
-      privateKey: bytesToHex(privateKey),
-      publicKey: bytesToHex(publicKey)
-    };
+  async verifyDidWeb(agent: AgentCredentials | undefined = this.agent): Promise<{ did: string; did_document_url: string; did_web_verified: true; did_web_verified_at: string }> {
+    if (!agent) {
+      throw new Error('Agent credentials required: pass { did, privateKey } or set config.agent');
+    }
+    return this.agentRequest(`/agents/${encodeURIComponent(agent.did)}/did-web/verify`, { method: 'POST' }, agent);
   }
 
   /**
-   * Sign a message with a private key
+   * Issue the authenticated agent a new claim code, replacing any earlier one
+   * Only for unclaimed root agents, e.g. after the owner released it or the old code expired.
    */
-  static sign(message: string, privateKeyHex: string): string {
-    const messageBytes = new TextEncoder().encode(message);
-    const privateKey = hexToBytes(privateKeyHex);
-    const signature = ed25519.sign(messageBytes, privateKey);
-    return bytesToHex(signature);
+  async issueClaimCode(agent?: AgentCredentials): Promise<ClaimCode> {
+    return this.agentRequest<ClaimCode>('/agents/me/claim-code', { method: 'POST' }, agent);
   }
 
   /**
-   * Verify a signature locally (without API call)
+   * Register a new agent identity
+   * With parent, registers a worker of that agent (the parent authenticates the request)
+   */
+  async register(options: RegisterOptions): Promise<AgentInfo> {
+    const request: RequestInit = {
+      method: 'POST',
+      body: JSON.stringify({
+        name: options.name,
+        owner_id: options.owner,
+        metadata: options.metadata,
+        public_key: options.publicKey,
+        did_method: options.didMethod,
+        did: options.did,
+        web_domain: options.webDomain,
+        web_path: options.webPath,
+        parent_did: options.parent?.did
+      })
+    };
+    return options.parent
+      ? this.agentRequest<AgentInfo>('/agents/register', request, options.parent)
+      : this.request<AgentInfo>('/agents/register', request);
+  }
+
+  /**
+   * Get an agent by ID or DID
+   */
+  async get(idOrDid: string): Promise<AgentInfo> {
+    return this.request<AgentInfo>(`/agents/${encodeURIComponent(idOrDid)}`);
+  }
+
+  /**
+   * Resolve a DID to its DID Document and metadata
+   * Resolution errors (notFound, invalidDid, ...) are returned in didResolutionMetadata rather than thrown
+   */
+  async resolve(did: string): Promise<DIDResolutionResult> {
+    const response = await fetch(`${this.apiUrl}/1.0/identifiers/${encodeURIComponent(did)}`, {
+      headers: { Accept: 'application/ld+json;profile="https://w3id.org/did-resolution"' }
+    });
+    return await response.json() as DIDResolutionResult;
+  }
+
+  /**
+   * Verify an agent's signature
+   * Checked against the current key. signedAt more than 5 minutes ago only verifies a signature the
+   * service recorded (a signed claim), against the key that was valid when it was recorded.
+   */
+  async verify(idOrDid: string, message: string, signature: string, signedAt?: string): Promise<VerificationResult> {
+    return this.request<VerificationResult>(`/agents/${encodeURIComponent(idOrDid)}/verify`, {
+      method: 'POST',
+      body: JSON.stringify({ message, signature, signed_at: signedAt })
+    });
+  }
+
+  /**
+   * Rotate an agent's key
+   * The current private key signs a statement naming the new public key; the DID stays the same.
+   */
+  async rotateKey(did: string, currentPrivateKeyHex: string, newPublicKeyHex: string): Promise<KeyRotationResult> {
+    const timestamp = new Date().toISOString();
+    const previousPublicKey = bytesToHex(ed25519.getPublicKey(hexToBytes(currentPrivateKeyHex)));
+    const message = createPayload('rotate_key', {
+      did,
+      previous_public_key: previousPublicKey,
+      new_public_key: newPublicKeyHex,
+      timestamp
+    });
+
+    return this.request<KeyRotationResult>(`/agents/${encodeURIComponent(did)}/rotate-key`, {
+      method: 'POST',
+      body: JSON.stringify({
+        new_public_key: newPublicKeyHex,
+        timestamp,
+        signature: AgentIdentity.sign(message, currentPrivateKeyHex)
+      })
+    });
+  }
+
+  /**
+   * Change an agent's lifecycle status, signed with the agent's current key over a fresh challenge nonce
+   * Revoked and deactivated are permanent, and a suspension by the owner or a moderator can't be
+   * lifted with the agent key. Pass cascade to apply a suspension, revocation or deactivation to
+   * the agent's whole subtree of workers too, or to reactivate the workers its cascade suspended.
+   */
+  async changeStatus(did: string, privateKeyHex: string, status: AgentStatus, reason?: string, cascade = false): Promise<StatusChangeResult> {
+    const { nonce } = await this.createChallenge(did);
+    const timestamp = new Date().toISOString();
+    const message = createPayload('change_status', {
+      did,
+      status,
+      reason: reason ?? null,
+      timestamp,
+      nonce,
+      ...(cascade && { cascade: true })
+    });
+
+    return this.request<StatusChangeResult>(`/agents/${encodeURIComponent(did)}/status`, {
+      method: 'POST',
+      body: JSON.stringify({
+        status,
+        reason: reason ?? null,
+        timestamp,
+        nonce,
+        signature: AgentIdentity.sign(message, privateKeyHex),
+        ...(cascade && { cascade: true })
+      })
+    });
+  }
+
+  /**
+   * Revoke an agent's identity permanently (and its subtree's, with cascade)
+   */
+  async revoke(did: string, privateKeyHex: string, reason?: string, cascade = false): Promise<StatusChangeResult> {
+    return this.changeStatus(did, privateKeyHex, 'revoked', reason, cascade);
+  }
+
+  /**
+   * Get an agent's reputation
+   * Pass algorithm (e.g. 'v1') to score with another model version
+   */
+  async getReputation(idOrDid: string, algorithm?: string): Promise<ReputationInfo> {
+    const query = algorithm ? `?algorithm=${encodeURIComponent(algorithm)}` : '';
+    return this.request<ReputationInfo>(`/agents/${encodeURIComponent(idOrDid)}/reputation${query}`);
+  }
+
+  /**
+   * Get an agent's hash-chained reputation history with the latest signed checkpoint
+   * Check it offline with verifyReputationProof.
+   */
+  async getReputationProof(idOrDid: string, algorithm?: string): Promise<ReputationProof> {
+    const query = algorithm ? `?algorithm=${encodeURIComponent(algorithm)}` : '';
+    return this.request<ReputationProof>(`/agents/${encodeURIComponent(idOrDid)}/reputation/proof${query}`);
+  }
+
+  /**
+   * Submit a work report (counts of tasks, corrections, positive feedback and errors), signed over a fresh challenge nonce
+   * Add report.tasks (from countersignTask or issueTaskReceipt) for counterparty-confirmed work.
+   */
+  async submitWorkReport(did: string, privateKeyHex: string, report: WorkReport): Promise<WorkReportResult> {
+    const { nonce } = await this.createChallenge(did);
+    const fields = {
+      did,
+      period: report.period ?? new Date().toISOString().split('T')[0],
+      tasks_completed: report.tasksCompleted ?? 0,
+      corrections: report.corrections ?? 0,
+      positive_feedback: report.positiveFeedback ?? 0,
+      errors: report.errors ?? 0,
+      tasks: report.tasks,
+      timestamp: new Date().toISOString(),
+      nonce
+    };
+    const { signature } = signPayload('work_report', fields, privateKeyHex);
+
+    return this.request<WorkReportResult>(`/agents/${encodeURIComponent(did)}/work-report`, {
+      method: 'POST',
+      body: JSON.stringify({ ...fields, signature })
+    });
+  }
+
+  /**
+   * Confirm a task an agent did for your platform, authenticated by this client's API key
+   * The agent lists { receipt_id } in its next work report's tasks.
+   */
+  async issueTaskReceipt(agentIdOrDid: string, task: TaskDetails): Promise<TaskReceipt> {
+    return this.request<TaskReceipt>(`/agents/${encodeURIComponent(agentIdOrDid)}/task-receipts`, {
+      method: 'POST',
+      body: JSON.stringify({
+        task_id: task.taskId,
+        outcome: task.outcome,
+        positive_feedback: task.positiveFeedback ?? false
+      })
+    });
+  }
+
+  /**
+   * Endorse another agent, signed by the rater
+   * One endorsement per rater and agent per month (UTC); agents of the same parent or account can't endorse each other.
+   */
+  async endorse(raterDid: string, privateKeyHex: string, subjectDid: string, options: EndorsementOptions): Promise<EndorsementResult> {
+    const fields = {
+      did: raterDid,
+      subject: subjectDid,
+      rating: options.rating,
+      context: options.context,
+      interaction_ref: options.interactionRef ?? null,
+      period: new Date().toISOString().slice(0, 7)
+    };
+    const { signature } = signPayload('endorsement', fields, privateKeyHex);
+
+    return this.request<EndorsementResult>(`/agents/${encodeURIComponent(subjectDid)}/endorsements`, {
+      method: 'POST',
+      body: JSON.stringify({
+        rater_did: raterDid,
+        rating: fields.rating,
+        context: fields.context,
+        interaction_ref: fields.interaction_ref,
+        signature
+      })
+    });
+  }
+
+  /**
+   * Endorsements an agent has received, newest first
+   */
+  async getEndorsements(idOrDid: string, limit?: number): Promise<EndorsementList> {
+    const query = limit ? `?limit=${limit}` : '';
+    return this.request<EndorsementList>(`/agents/${encodeURIComponent(idOrDid)}/endorsements${query}`);
+  }
+
+  /**
+   * Report an agent for abuse
+   * Signed as the agent in config.agent (or the one passed), otherwise authenticated by this client's API key.
+   */
+  async reportAgent(idOrDid: string, report: AbuseReportOptions, agent = this.agent): Promise<AbuseReport> {
+    const path = `/agents/${encodeURIComponent(idOrDid)}/reports`;
+    const options = {
+      method: 'POST',
+      body: JSON.stringify({
+        category: report.category,
+        description: report.description,
+        evidence: report.evidence ?? []
+      })
+    };
+    return agent ? this.agentRequest<AbuseReport>(path, options, agent) : this.request<AbuseReport>(path, options);
+  }
+
+  /**
+   * Abuse reports against the authenticated agent (open and under review, or all with includeResolved)
+   */
+  async getMyReports(includeResolved = false, agent?: AgentCredentials): Promise<{ did: string; reports: AbuseReport[]; total: number }> {
+    return this.agentRequest(`/agents/me/reports${includeResolved ? '?status=all' : ''}`, {}, agent);
+  }
+
+  /**
+   * Respond to an open abuse report against the authenticated agent
+   */
+  async respondToReport(reportId: string, response: string, agent?: AgentCredentials): Promise<AbuseReport> {
+    return this.agentRequest<AbuseReport>(`/agents/me/reports/${encodeURIComponent(reportId)}/response`, {
+      method: 'POST',
+      body: JSON.stringify({ response })
+    }, agent);
+  }
+
+  /**
+   * Subscribe a URL to agent events (needs an admin API key)
+   * Save the returned secret: it signs every delivery and is not shown again.
+   */
+  async createWebhook(options: WebhookOptions): Promise<Webhook> {
+    return this.request<Webhook>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify({
+        url: options.url,
+        event_types: options.eventTypes ?? [],
+        dids: options.dids ?? [],
+        owners: options.owners ?? [],
+        description: options.description ?? null
+      })
+    });
+  }
+
+  async listWebhooks(): Promise<{ webhooks: Webhook[]; total: number }> {
+    return this.request('/webhooks');
+  }
+
+  async deleteWebhook(id: string): Promise<{ success: boolean; id: string; deleted_at: string }> {
+    return this.request(`/webhooks/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Send a signed ping event to a webhook now and return the delivery
+   */
+  async testWebhook(id: string): Promise<WebhookDelivery> {
+    return this.request<WebhookDelivery>(`/webhooks/${encodeURIComponent(id)}/test`, { method: 'POST' });
+  }
+
+  /**
+   * A webhook's delivery log, newest first; status 'dead' lists the dead letters
+   */
+  async getWebhookDeliveries(id: string, status?: WebhookDelivery['status'], limit = 50, offset = 0): Promise<{ deliveries: WebhookDelivery[]; total: number; limit: number; offset: number }> {
+    const query = `?limit=${limit}&offset=${offset}${status ? `&status=${status}` : ''}`;
+    return this.request(`/webhooks/${encodeURIComponent(id)}/deliveries${query}`);
+  }
+
+  /**
+   * Redeliver a dead letter with a fresh set of retries
+   */
+  async retryWebhookDelivery(id: string, deliveryId: string): Promise<WebhookDelivery> {
+    return this.request<WebhookDelivery>(`/webhooks/${encodeURIComponent(id)}/deliveries/${encodeURIComponent(deliveryId)}/retry`, { method: 'POST' });
+  }
+
+  /**
+   * Get the transparency log's signed tree head
+   */
+  async getTreeHead(): Promise<TreeHead> {
+    return this.request<TreeHead>('/log/sth');
+  }
+
+  /**
+   * Get transparency log entries start (inclusive) to end (exclusive), at most 100 at a time
+   */
+  async getLogEntries(start: number, end?: number): Promise<{ entries: LogEntry[]; start: number; end: number }> {
+    const query = end !== undefined ? `&end=${end}` : '';
+    return this.request(`/log/entries?start=${start}${query}`);
+  }
+
+  /**
+   * Get a DID's transparency log entries with inclusion proofs (check them with verifyDidLogProof)
+   * Pass treeSize to prove against a tree head you already hold.
+   */
+  async getDidLogProof(did: string, treeSize?: number): Promise<DidLogProof> {
+    const query = treeSize !== undefined ? `&tree_size=${treeSize}` : '';
+    return this.request<DidLogProof>(`/log/proof/inclusion?did=${encodeURIComponent(did)}${query}`);
+  }
+
+  /**
+   * Get a proof that the log at tree size second (default: now) extends the log at first
+   * Check it with verifyLogConsistency against tree heads you hold.
+   */
+  async getLogConsistencyProof(first: number, second?: number): Promise<LogConsistencyProof> {
+    const query = second !== undefined ? `&second=${second}` : '';
+    return this.request<LogConsistencyProof>(`/log/proof/consistency?first=${first}${query}`);
+  }
+
+  /**
+   * Verify a claim about an agent
+   * Pass privateKey to have the agent sign the claim, or a signature made with signPayload('claim', ...);
+   * without either, the claim is sent with agent auth as options.agent (or config.agent).
+   */
+  async verifyClaim(options: ClaimOptions): Promise<ClaimResult> {
+    const signature = options.signature ?? (options.privateKey
+      ? signPayload('claim', {
+          did: options.agentId,
+          claim_type: options.claimType,
+          claim_value: options.claimValue ?? null,
+          signed_at: options.signedAt ?? null
+        }, options.privateKey).signature
+      : undefined);
+
+    const request: RequestInit = {
+      method: 'POST',
+      body: JSON.stringify({
+        agent_id: options.agentId,
+        claim_type: options.claimType,
+        claim_value: options.claimValue,
+        signature,
+        signed_at: options.signedAt,
+        verifier_id: options.verifierId,
+        expires_in_days: options.expiresInDays
+      })
+    };
+    return signature
+      ? this.request<ClaimResult>('/verify', request)
+      : this.agentRequest<ClaimResult>('/verify', request, options.agent ?? this.agent);
+  }
+
+  /**
+   * Get all claims for an agent, each with its verifiable credential
+   */
+  async getClaims(idOrDid: string): Promise<{ agent_id: string; did: string; claims: Array<Record<string, any> & { credential: VerifiableCredential | null; credential_jwt: string | null }>; total: number }> {
+    return this.request(`/verify/${encodeURIComponent(idOrDid)}/claims`);
+  }
+
+  /**
+   * Get the service issuer's DID and public key (fetch once, then verify credentials offline)
+   */
+  async getIssuer(): Promise<IssuerInfo> {
+    return this.request<IssuerInfo>('/verify/issuer');
+  }
+
+  /**
+   * Check whether an agent is registered and in good standing
+   * The response includes a signed token: cache it or pass it on, and check it with verifyVerificationToken.
+   */
+  async getVerification(did: string): Promise<AgentVerification> {
+    return this.request<AgentVerification>(`/verify/${encodeURIComponent(did)}`);
+  }
+
+  /**
+   * Check many DIDs with POST /verify/batch, in batches of batchSize (the service allows up to 500).
+   * Every DID counts against the verification rate limit (1000 per minute per IP).
+   */
+  async verifyMany(dids: string[], batchSize = 500): Promise<BatchVerification> {
+    const unique = [...new Set(dids)];
+    const combined: BatchVerification = {
+      results: [],
+      summary: { requested: 0, verified: 0, not_verified: 0, not_registered: 0, errors: 0 }
+    };
+    for (let i = 0; i < unique.length; i += batchSize) {
+      const batch = await this.request<BatchVerification>('/verify/batch', {
+        method: 'POST',
+        body: JSON.stringify({ dids: unique.slice(i, i + batchSize) })
+      });
+      combined.results.push(...batch.results);
+      for (const key of Object.keys(combined.summary) as (keyof BatchVerification['summary'])[]) {
+        combined.summary[key] += batch.summary[key];
+      }
+    }
+    return combined;
+  }
+
+  /**
+   * Get the service's signing keys (JWK Set), for checking verification tokens offline
+   */
+  async getJwks(): Promise<{ keys: Jwk[] }> {
+    return this.request<{ keys: Jwk[] }>('/.well-known/jwks.json');
+  }
+
+  /**
+   * Check a delegation chain with the service, which also checks each agent's standing
+   * Pass audience to require it was delegated to that DID, and capability to ask whether it grants one.
+   */
+  async verifyDelegation(token: string, options: { audience?: string; capability?: Capability } = {}): Promise<DelegationVerification> {
+    return this.request<DelegationVerification>('/delegations/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token, audience: options.audience, capability: options.capability })
+    });
+  }
+
+  /**
+   * Check a delegation chain locally, fetching each agent's current key and parent from the API
+   */
+  async checkDelegation(token: string, now = new Date()): Promise<DelegationCheck> {
+    const agents: Record<string, DelegationAgent> = {};
+    for (const link of delegationLinks(token) || []) {
+      for (const did of [link.iss, link.aud]) {
+        if (agents[did]) continue;
+        try {
+          agents[did] = await this.get(did);
+        } catch (e) {
+          // Left out: the chain check reports it as unknown
+        }
+      }
+    }
+    return verifyDelegationChain(token, agents, now);
+  }
+
+  /**
+   * List all agents
+   */
+  async list(limit = 50, offset = 0): Promise<{ agents: AgentInfo[]; pagination: { total: number; limit: number; offset: number; next_cursor: string | null } }> {
+    return this.request(`/agents?limit=${limit}&offset=${offset}`);
+  }
+
+  /**
+   * Search the agent directory; pass pagination.next_cursor back (with the same options) for the next page
+   */
+  async search(options: AgentSearchOptions = {}): Promise<AgentSearchPage> {
+    const params = new URLSearchParams();
+    const set = (key: string, value: string | number | undefined) => {
+      if (value !== undefined) params.set(key, String(value));
+    };
+    const date = (value?: string | Date) => value instanceof Date ? value.toISOString() : value;
+
+    set('q', options.q);
+    set('name', options.name);
+    set('agent_type', options.agentType);
+    set('status', Array.isArray(options.status) ? options.status.join(',') : options.status);
+    set('owner', options.owner);
+    set('claim_type', options.claimTypes?.join(','));
+    set('registered_after', date(options.registeredAfter));
+    set('registered_before', date(options.registeredBefore));
+    for (const [key, value] of Object.entries(options.metadata || {})) {
+      set(`metadata[${key}]`, value);
+    }
+    set('min_reputation', options.minReputation);
+    set('max_reputation', options.maxReputation);
+    set('sort', options.sort);
+    set('order', options.order);
+    set('algorithm', options.algorithm);
+    set('limit', options.limit);
+    set('cursor', options.cursor);
+
+    const query = params.toString();
+    return this.request(`/agents${query ? `?${query}` : ''}`);
+  }
+
+  // --- Crypto utilities (for local signing) ---
+
+  /**
+   * Generate a new Ed25519 keypair
+   */
+  static generateKeyPair(): { publicKey: string; privateKey: string } {
+    const privateKey = ed25519.utils.randomPrivateKey();
+    const publicKey = ed25519.getPublicKey(privateKey);
+    
+    return {
+      privateKey: bytesToHex(privateKey),
+      publicKey: bytesToHex(publicKey)
+    };
+  }
+
+  /**
+   * Sign a message with a private key
+   */
+  static sign(message: string, privateKeyHex: string): string {
+    const messageBytes = new TextEncoder().encode(message);
+    const privateKey = hexToBytes(privateKeyHex);
+    const signature = ed25519.sign(messageBytes, privateKey);
+    return bytesToHex(signature);
+  }
+
+  /**
+   * Build the canonical payload signed for agent authentication
+   * A missing or empty body hashes as the empty string.
+   */
+  static createAgentAuthMessage(did: string, nonce: string, method: string, path: string, body: unknown, audience: string): string {
+    const hasBody = body !== undefined && body !== null && !(typeof body === 'object' && Object.keys(body).length === 0);
+    const bodyHash = bytesToHex(sha256(new TextEncoder().encode(hasBody ? canonicalize(body) : '')));
+    return createPayload('agent_auth', {
+      did,
+      nonce,
+      method: method.toUpperCase(),
+      path,
+      body_hash: bodyHash,
+      audience
+    });
+  }
+
+  /**
+   * Sign an HTTP request with HTTP Message Signatures (RFC 9421, Ed25519)
+   * Covers @method, @target-uri and (with a body) content-digest. Returns the headers to add:
+   * Signature-Input, Signature and Content-Digest.
+   */
+  static signRequest(options: SignRequestOptions): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const components = ['@method', '@target-uri'];
+    const values: Record<string, string> = {
+      '@method': options.method.toUpperCase(),
+      '@target-uri': options.url
+    };
+
+    if (options.body) {
+      headers['Content-Digest'] = contentDigest(options.body);
+      components.push('content-digest');
+      values['content-digest'] = headers['Content-Digest'];
+    }
+
+    const serializedParams = serializeSignatureParams(components, {
+      created: options.created ?? Math.floor(Date.now() / 1000),
+      expires: options.expires,
+      keyid: options.keyId,
+      alg: 'ed25519',
+      nonce: options.nonce
+    });
+    const signature = ed25519.sign(
+      new TextEncoder().encode(createSignatureBase(components, values, serializedParams)),
+      hexToBytes(options.privateKey)
+    );
+
+    headers['Signature-Input'] = `sig1=${serializedParams}`;
+    headers['Signature'] = `sig1=:${base64Encode(signature)}:`;
+    return headers;
+  }
+
+  /**
+   * Verify a signature locally (without API call)
    */
   static verifyLocal(message: string, signatureHex: string, publicKeyHex: string): boolean {
     try {
@@ -241,9 +1463,848 @@ export class AgentIdentity {
   }
 }
 
+// --- Verifiable credential verification (offline) ---
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58btcDecode(input: string): Uint8Array {
+  let value = 0n;
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58 character: ${char}`);
+    value = value * 58n + BigInt(digit);
+  }
+  let hex = value > 0n ? value.toString(16) : '';
+  if (hex.length % 2) hex = '0' + hex;
+  let leadingZeros = 0;
+  while (leadingZeros < input.length && input[leadingZeros] === '1') leadingZeros++;
+  return hexToBytes('00'.repeat(leadingZeros) + hex);
+}
+
+// Ed25519 public key (hex) from a did:key, or null
+function parseDIDKey(did: string): string | null {
+  if (!did.startsWith('did:key:z')) return null;
+  try {
+    const bytes = base58btcDecode(did.slice('did:key:z'.length));
+    if (bytes.length !== 34 || bytes[0] !== 0xed || bytes[1] !== 0x01) return null;
+    return bytesToHex(bytes.slice(2));
+  } catch (e) {
+    return null;
+  }
+}
+
+function base64urlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+// --- Canonical signed payloads ---
+
+/**
+ * RFC 8785 (JCS) canonical JSON, byte-identical to the server's canonicalize
+ */
+export function canonicalize(value: unknown): string {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error('Cannot canonicalize a non-finite number');
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  const object = value as Record<string, unknown>;
+  const keys = Object.keys(object).filter(k => object[k] !== undefined).sort();
+  return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalize(object[k])}`).join(',')}}`;
+}
+
+export const PAYLOAD_VERSION = 1;
+
+export type PayloadAction = 'agent_auth' | 'rotate_key' | 'change_status' | 'work_report' | 'claim' | 'endorsement' | 'task_receipt' | 'reputation_checkpoint' | 'tree_head';
+
+/**
+ * Canonical form of a signed payload: the fields plus action and version
+ */
+export function createPayload(action: PayloadAction, fields: Record<string, unknown>): string {
+  return canonicalize({ ...fields, action, version: PAYLOAD_VERSION });
+}
+
+/**
+ * Sign a payload in its canonical form; returns the exact string signed and the signature (hex)
+ */
+export function signPayload(action: PayloadAction, fields: Record<string, unknown>, privateKeyHex: string): { payload: string; signature: string } {
+  const payload = createPayload(action, fields);
+  return { payload, signature: AgentIdentity.sign(payload, privateKeyHex) };
+}
+
+/**
+ * Verify a signature over a payload's canonical form
+ */
+export function verifyPayload(action: PayloadAction, fields: Record<string, unknown>, signatureHex: string, publicKeyHex: string): boolean {
+  return AgentIdentity.verifyLocal(createPayload(action, fields), signatureHex, publicKeyHex);
+}
+
+/**
+ * Countersign a task another agent did for you; the worker includes the result in its work report's tasks
+ */
+export function countersignTask(counterpartyDid: string, privateKeyHex: string, workerDid: string, task: TaskDetails): ConfirmedTask {
+  const fields = {
+    did: counterpartyDid,
+    agent: workerDid,
+    task_id: task.taskId,
+    outcome: task.outcome,
+    positive_feedback: task.positiveFeedback ?? false
+  };
+  return {
+    task_id: fields.task_id,
+    outcome: fields.outcome,
+    positive_feedback: fields.positive_feedback,
+    countersigned_by: counterpartyDid,
+    countersignature: signPayload('task_receipt', fields, privateKeyHex).signature
+  };
+}
+
+function checkValidity(validFrom: string | undefined, validUntil: string | undefined, now: Date): CredentialCheck {
+  if (validFrom && new Date(validFrom).getTime() > now.getTime()) {
+    return { valid: false, error: 'Credential is not yet valid' };
+  }
+  if (validUntil && new Date(validUntil).getTime() <= now.getTime()) {
+    return { valid: false, error: 'Credential has expired' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Verify a JSON-LD credential (eddsa-jcs-2022 proof) against the issuer's public key, without calling the API
+ * The key comes from getIssuer, fetched once and kept; never from the credential's own issuer.
+ */
+export function verifyCredential(credential: VerifiableCredential, issuerPublicKeyHex: string, now = new Date()): CredentialCheck {
+  try {
+    if (!issuerPublicKeyHex) {
+      return { valid: false, error: 'Issuer public key required' };
+    }
+
+    const { proof, ...unsecured } = credential;
+    if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'eddsa-jcs-2022') {
+      return { valid: false, error: 'Unsupported or missing proof' };
+    }
+    if (!proof.verificationMethod.startsWith(`${credential.issuer}#`) || !proof.proofValue.startsWith('z')) {
+      return { valid: false, error: 'Malformed proof' };
+    }
+
+    const { proofValue, ...proofConfig } = proof;
+    const encoder = new TextEncoder();
+    const hashData = concatBytes(
+      sha256(encoder.encode(canonicalize({ ...proofConfig, '@context': unsecured['@context'] }))),
+      sha256(encoder.encode(canonicalize(unsecured)))
+    );
+    if (!ed25519.verify(base58btcDecode(proofValue.slice(1)), hashData, hexToBytes(issuerPublicKeyHex))) {
+      return { valid: false, error: 'Invalid proof signature' };
+    }
+
+    return checkValidity(credential.validFrom, credential.validUntil, now);
+  } catch (e) {
+    return { valid: false, error: 'Malformed credential' };
+  }
+}
+
+/**
+ * Verify a JWT-VC (typ vc+jwt) against the issuer's public key, without calling the API
+ * The key comes from getIssuer, fetched once and kept; never from the token's iss.
+ */
+export function verifyCredentialJwt(jwt: string, issuerPublicKeyHex: string, now = new Date()): CredentialCheck {
+  try {
+    if (!issuerPublicKeyHex) {
+      return { valid: false, error: 'Issuer public key required' };
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = jwt.split('.');
+    const decoder = new TextDecoder();
+    const header = JSON.parse(decoder.decode(base64urlDecode(encodedHeader)));
+    if (header.alg !== 'EdDSA') {
+      return { valid: false, error: 'Unsupported algorithm' };
+    }
+    // The issuer key signs access and verification tokens too
+    if (header.typ !== 'vc+jwt') {
+      return { valid: false, error: 'Not a credential' };
+    }
+
+    const payload = JSON.parse(decoder.decode(base64urlDecode(encodedPayload)));
+
+    const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+    if (!ed25519.verify(base64urlDecode(encodedSignature), signingInput, hexToBytes(issuerPublicKeyHex))) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    const check = checkValidity(
+      payload.nbf ? new Date(payload.nbf * 1000).toISOString() : undefined,
+      payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined,
+      now
+    );
+    return { ...check, credential: payload.vc };
+  } catch (e) {
+    return { valid: false, error: 'Malformed credential' };
+  }
+}
+
+/**
+ * Verify a signed verification result (the token from getVerification) without calling the API
+ * keys: the service's JWK Set (getJwks, matched by kid) or its public key (hex), fetched once and kept;
+ * never taken from the token's iss. Pass did to make sure the token is about the agent you expect.
+ */
+export function verifyVerificationToken(token: string, keys: { keys: Jwk[] } | string, did?: string, now = new Date()): VerificationTokenCheck {
+  try {
+    const [encodedHeader, encodedPayload, encodedSignature, ...rest] = token.split('.');
+    if (!encodedSignature || rest.length > 0) {
+      return { valid: false, error: 'Malformed token' };
+    }
+
+    const decoder = new TextDecoder();
+    const header = JSON.parse(decoder.decode(base64urlDecode(encodedHeader)));
+    if (header.alg !== 'EdDSA' || header.typ !== 'agent-verification+jwt') {
+      return { valid: false, error: 'Not a verification token' };
+    }
+
+    const payload = JSON.parse(decoder.decode(base64urlDecode(encodedPayload)));
+    let publicKey: string | null = null;
+    if (typeof keys === 'string') {
+      publicKey = keys;
+    } else if (keys) {
+      const jwk = keys.keys.find(k => k.kid === header.kid && k.kty === 'OKP' && k.crv === 'Ed25519');
+      publicKey = jwk ? bytesToHex(base64urlDecode(jwk.x)) : null;
+    }
+    if (!publicKey) {
+      return { valid: false, error: 'No key found for this token' };
+    }
+
+    const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+    if (!ed25519.verify(base64urlDecode(encodedSignature), signingInput, hexToBytes(publicKey))) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now.getTime()) {
+      return { valid: false, error: 'Token has expired' };
+    }
+    if (did && (payload.sub !== did || payload.verification?.did !== did)) {
+      return { valid: false, error: 'Token is for another DID' };
+    }
+
+    return {
+      valid: true,
+      verification: payload.verification,
+      issued_at: new Date(payload.iat * 1000).toISOString(),
+      expires_at: new Date(payload.exp * 1000).toISOString()
+    };
+  } catch (e) {
+    return { valid: false, error: 'Malformed token' };
+  }
+}
+
+// --- Capability delegation ---
+
+const DELEGATION_TOKEN_TYPE = 'delegation+jwt';
+const MAX_DELEGATION_DEPTH = 8;
+
+function base64urlEncode(bytes: Uint8Array): string {
+  return base64Encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function encodeJson(value: unknown): string {
+  return base64urlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeJson(segment: string): any {
+  return JSON.parse(new TextDecoder().decode(base64urlDecode(segment)));
+}
+
+// Claims of a delegation and each proof behind it, root first, without checking signatures
+function delegationLinks(token: string): (DelegationLink & { prf?: string })[] | null {
+  const links: (DelegationLink & { prf?: string })[] = [];
+  try {
+    for (let current: string | undefined = token; current; current = links[0].prf) {
+      if (links.length === MAX_DELEGATION_DEPTH) return null;
+      const [header, payload] = current.split('.');
+      if (decodeJson(header).typ !== DELEGATION_TOKEN_TYPE) return null;
+      links.unshift(decodeJson(payload));
+    }
+    return links;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Whether capability parent covers child: the same or a narrower resource and action, keeping every
+ * caveat of the parent with the same value
+ */
+export function capabilityCovers(parent: Capability, child: Capability): boolean {
+  const resource = parent.with === child.with
+    || (parent.with.endsWith('*') && child.with.startsWith(parent.with.slice(0, -1)));
+  const action = parent.can === '*' || parent.can === child.can
+    || (parent.can.endsWith('/*') && child.can.startsWith(parent.can.slice(0, -1)));
+  if (!resource || !action) return false;
+
+  const childCaveats = child.nb || {};
+  return Object.entries(parent.nb || {}).every(([key, value]) =>
+    key in childCaveats && canonicalize(childCaveats[key]) === canonicalize(value));
+}
+
+/**
+ * Delegate capabilities to a worker, signed with the delegating agent's key
+ * A root agent delegates on its own authority; a worker passes the delegation it received as proof
+ * and can only narrow it.
+ */
+export function createDelegation(issuer: AgentCredentials, options: DelegationOptions): string {
+  const iat = Math.floor(Date.now() / 1000);
+  let exp = iat + (options.expiresIn ?? 60 * 60);
+  if (options.proof) {
+    const proof = delegationLinks(options.proof);
+    if (!proof) throw new Error('Malformed proof delegation');
+    exp = Math.min(exp, proof[proof.length - 1].exp);
+  }
+
+  const payload = {
+    iss: issuer.did,
+    aud: options.audience,
+    att: options.capabilities,
+    iat,
+    exp,
+    ...(options.notBefore && { nbf: Math.floor(options.notBefore.getTime() / 1000) }),
+    ...(options.proof && { prf: options.proof })
+  };
+  const signingInput = `${encodeJson({ alg: 'EdDSA', typ: DELEGATION_TOKEN_TYPE })}.${encodeJson(payload)}`;
+  const signature = ed25519.sign(new TextEncoder().encode(signingInput), hexToBytes(issuer.privateKey));
+  return `${signingInput}.${base64urlEncode(signature)}`;
+}
+
+/**
+ * Verify a delegation and every proof behind it back to the root agent, without calling the API
+ * agents: current public key and parent (and optionally status) of every DID in the chain;
+ * checkDelegation fetches them for you.
+ */
+export function verifyDelegationChain(token: string, agents: Record<string, DelegationAgent>, now = new Date()): DelegationCheck {
+  const links = delegationLinks(token);
+  if (!links) {
+    return { valid: false, error: 'Malformed delegation' };
+  }
+
+  // The tokens themselves, root first, for their signatures
+  const tokens = [token];
+  for (let i = links.length - 1; i > 0; i--) tokens.unshift(links[i].prf!);
+
+  const seconds = Math.floor(now.getTime() / 1000);
+  const usable = (did: string) => {
+    const status = agents[did]?.status;
+    return status === undefined || status === 'active' || status === 'flagged';
+  };
+
+  for (let i = 0; i < links.length; i++) {
+    const link = links[i];
+    const proof = i > 0 ? links[i - 1] : null;
+    const issuer = agents[link.iss];
+    if (!issuer) {
+      return { valid: false, error: `Unknown issuer: ${link.iss}` };
+    }
+    if (!usable(link.iss)) {
+      return { valid: false, error: `Issuer ${link.iss} is ${issuer.status}` };
+    }
+    const wellFormed = Array.isArray(link.att) && link.att.length > 0
+      && link.att.every(cap => typeof cap?.with === 'string' && typeof cap?.can === 'string')
+      && typeof link.exp === 'number';
+    if (!wellFormed) {
+      return { valid: false, error: `Malformed delegation from ${link.iss}` };
+    }
+
+    const [header, payload, signature] = tokens[i].split('.');
+    let signed = false;
+    try {
+      signed = decodeJson(header).alg === 'EdDSA'
+        && ed25519.verify(base64urlDecode(signature), new TextEncoder().encode(`${header}.${payload}`), hexToBytes(issuer.public_key));
+    } catch (e) {
+      signed = false;
+    }
+    if (!signed) {
+      return { valid: false, error: `Delegation from ${link.iss}: invalid signature` };
+    }
+    if (link.exp <= seconds) {
+      return { valid: false, error: `Delegation from ${link.iss} has expired` };
+    }
+    if (typeof link.nbf === 'number' && link.nbf > seconds) {
+      return { valid: false, error: `Delegation from ${link.iss} is not yet valid` };
+    }
+
+    if (!proof && issuer.parent_did) {
+      return { valid: false, error: `Chain does not start at a root agent: ${link.iss} has a parent` };
+    }
+    const audience = agents[link.aud];
+    if (!audience || audience.parent_did !== link.iss) {
+      return { valid: false, error: `${link.aud} is not a worker of ${link.iss}` };
+    }
+    if (!usable(link.aud)) {
+      return { valid: false, error: `Audience ${link.aud} is ${audience.status}` };
+    }
+
+    if (proof) {
+      if (proof.aud !== link.iss) {
+        return { valid: false, error: `Proof was delegated to ${proof.aud}, not ${link.iss}` };
+      }
+      if (link.exp > proof.exp) {
+        return { valid: false, error: `Delegation from ${link.iss} outlives its proof` };
+      }
+      const widened = link.att.find(cap => !proof.att.some(granted => capabilityCovers(granted, cap)));
+      if (widened) {
+        return { valid: false, error: `Delegation from ${link.iss} exceeds its proof: ${widened.can} on ${widened.with}` };
+      }
+    }
+  }
+
+  const leaf = links[links.length - 1];
+  return {
+    valid: true,
+    root: links[0].iss,
+    audience: leaf.aud,
+    capabilities: leaf.att,
+    expires_at: new Date(leaf.exp * 1000).toISOString(),
+    chain: links.map(({ prf, ...link }) => link)
+  };
+}
+
+// --- HTTP Message Signatures (RFC 9421) ---
+
+interface SignatureParams {
+  created?: number;
+  expires?: number;
+  keyid?: string;
+  alg?: string;
+  nonce?: string;
+}
+
+function base64Encode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function contentDigest(body: string): string {
+  return `sha-256=:${base64Encode(sha256(new TextEncoder().encode(body)))}:`;
+}
+
+function serializeSignatureParams(components: string[], params: SignatureParams): string {
+  let serialized = `(${components.map(c => `"${c}"`).join(' ')})`;
+  if (params.created !== undefined) serialized += `;created=${params.created}`;
+  if (params.expires !== undefined) serialized += `;expires=${params.expires}`;
+  if (params.keyid !== undefined) serialized += `;keyid="${params.keyid}"`;
+  if (params.alg !== undefined) serialized += `;alg="${params.alg}"`;
+  if (params.nonce !== undefined) serialized += `;nonce="${params.nonce}"`;
+  return serialized;
+}
+
+function createSignatureBase(components: string[], values: Record<string, string>, serializedParams: string): string {
+  const lines = components.map(name => `"${name}": ${values[name]}`);
+  lines.push(`"@signature-params": ${serializedParams}`);
+  return lines.join('\n');
+}
+
+// First member of a Signature-Input header (single signature, as signRequest produces)
+function parseSignatureInput(header: string): { label: string; components: string[]; params: SignatureParams; serializedParams: string } | null {
+  const match = header.trim().match(/^([a-z*][a-z0-9_.*-]*)=(\(([^)]*)\)([^,]*))/);
+  if (!match) return null;
+
+  const components = match[3].trim() === '' ? [] : match[3].trim().split(/\s+/).map(item => item.replace(/^"|"$/g, ''));
+  const params: SignatureParams = {};
+  for (const param of match[4].split(';').slice(1)) {
+    const [key, rawValue = ''] = param.trim().split(/=(.*)/s);
+    const value = rawValue.replace(/^"|"$/g, '');
+    if (key === 'created' || key === 'expires') params[key] = parseInt(value, 10);
+    else if (key === 'keyid' || key === 'alg' || key === 'nonce') params[key] = value;
+  }
+  return { label: match[1], components, params, serializedParams: match[2] };
+}
+
+/**
+ * Verify an HTTP Message Signature (RFC 9421) made by signRequest, without calling the API
+ * The public key may be omitted when keyid is a did:key. Otherwise resolve the agent's DID first
+ * (AgentIdentity.resolve) and pass its current key.
+ */
+export function verifyRequest(request: SignedRequest, publicKeyHex?: string, now = new Date(), maxAgeSeconds = 300): HttpSignatureCheck {
+  try {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) headers[name.toLowerCase()] = value;
+
+    const input = headers['signature-input'] && parseSignatureInput(headers['signature-input']);
+    const signatureMatch = input && (headers['signature'] || '').split(',')
+      .map(member => member.trim().match(/^([a-z*][a-z0-9_.*-]*)=:([A-Za-z0-9+/=]*):$/))
+      .find(match => match && match[1] === input.label);
+    if (!input || !signatureMatch) {
+      return { valid: false, error: 'Missing or malformed signature headers' };
+    }
+
+    const { components, params } = input;
+    const required = request.body ? ['@method', '@target-uri', 'content-digest'] : ['@method', '@target-uri'];
+    if (!required.every(c => components.includes(c))) {
+      return { valid: false, error: `Signature must cover: ${required.join(', ')}` };
+    }
+    if (params.alg && params.alg !== 'ed25519') {
+      return { valid: false, error: 'Unsupported algorithm' };
+    }
+    if (!params.keyid) {
+      return { valid: false, error: 'Signature keyid is required' };
+    }
+    if (params.created === undefined || Math.abs(now.getTime() / 1000 - params.created) > maxAgeSeconds) {
+      return { valid: false, error: 'Signature created missing or too old' };
+    }
+    if (params.expires !== undefined && params.expires <= now.getTime() / 1000) {
+      return { valid: false, error: 'Signature expired' };
+    }
+
+    const values: Record<string, string> = {};
+    for (const component of components) {
+      if (component === '@method') values[component] = request.method.toUpperCase();
+      else if (component === '@target-uri') values[component] = request.url;
+      else if (component.startsWith('@') || headers[component] === undefined) {
+        return { valid: false, error: `Unsupported or missing component: ${component}` };
+      } else values[component] = headers[component].trim();
+    }
+    if (values['content-digest'] !== undefined && values['content-digest'] !== contentDigest(request.body || '')) {
+      return { valid: false, error: 'Content-Digest does not match the body' };
+    }
+
+    const publicKey = publicKeyHex || parseDIDKey(params.keyid.split('#')[0]);
+    if (!publicKey) {
+      return { valid: false, error: 'Public key required' };
+    }
+
+    const base = new TextEncoder().encode(createSignatureBase(components, values, input.serializedParams));
+    const signature = Uint8Array.from(atob(signatureMatch[2]), c => c.charCodeAt(0));
+    if (!ed25519.verify(signature, base, hexToBytes(publicKey))) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    return { valid: true, keyid: params.keyid, created: params.created, nonce: params.nonce };
+  } catch (e) {
+    return { valid: false, error: 'Malformed signature' };
+  }
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+function sha256Hex(data: Uint8Array): string {
+  return bytesToHex(sha256(data));
+}
+
+// Hash of a reputation event at its chain position (the server's hashReputationEvent)
+function hashReputationEvent(event: ReputationChainEvent, seq: number, prevHash: string): string {
+  return sha256Hex(new TextEncoder().encode(canonicalize({
+    agent_id: event.agent_id,
+    seq,
+    prev_hash: prevHash,
+    event_type: event.event_type,
+    score_delta: event.score_delta,
+    description: event.description ?? null,
+    metadata: JSON.parse(JSON.stringify(event.metadata || {})),
+    created_at: new Date(event.created_at).toISOString()
+  })));
+}
+
+// RFC 9162 Merkle hashing, as in the server's utils/merkle.ts
+function merkleLeafHash(data: string): string {
+  return sha256Hex(concatBytes(new Uint8Array([0]), new TextEncoder().encode(data)));
+}
+
+function merkleNodeHash(left: string, right: string): string {
+  return sha256Hex(concatBytes(new Uint8Array([1]), hexToBytes(left), hexToBytes(right)));
+}
+
+function verifyMerkleInclusion(leaf: string, index: number, treeSize: number, path: string[], root: string): boolean {
+  if (index < 0 || index >= treeSize) return false;
+  let fn = index;
+  let sn = treeSize - 1;
+  let hash = leaf;
+  for (const sibling of path) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      hash = merkleNodeHash(sibling, hash);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      hash = merkleNodeHash(hash, sibling);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && hash === root;
+}
+
+/**
+ * Check a consistency proof (RFC 9162 section 2.1.4.2)
+ */
+function verifyMerkleConsistency(first: number, second: number, proof: string[], firstRoot: string, secondRoot: string): boolean {
+  if (first < 0 || first > second) return false;
+  if (first === second) return proof.length === 0 && firstRoot === secondRoot;
+  if (first === 0) return proof.length === 0;
+  if (proof.length === 0) return false;
+
+  const path = (first & (first - 1)) === 0 ? [firstRoot, ...proof] : proof;
+  let fn = first - 1;
+  let sn = second - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      fr = merkleNodeHash(c, fr);
+      sr = merkleNodeHash(c, sr);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = merkleNodeHash(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return fr === firstRoot && sr === secondRoot && sn === 0;
+}
+
+// Stars an event is worth under a model (the server's eventValue)
+function reputationEventValue(event: ReputationChainEvent, model: ReputationModel): number {
+  const round3 = (value: number) => Math.round(value * 1000) / 1000;
+  const metadata = event.metadata || {};
+  if (event.event_type === 'work_report' || event.event_type === 'verified_work_report') {
+    const weights = event.event_type === 'verified_work_report' ? model.verifiedWorkReport : model.workReport;
+    const delta = (metadata.tasks_completed || 0) * weights.tasks_completed
+      + (metadata.corrections || 0) * weights.corrections
+      + (metadata.positive_feedback || 0) * weights.positive_feedback
+      + (metadata.errors || 0) * weights.errors;
+    return round3(Math.max(-weights.cap, Math.min(weights.cap, delta)));
+  }
+  if (event.event_type === 'endorsement') {
+    return round3(model.endorsement * (((metadata.rating || 3) - 3) / 2) * (metadata.weight || 0));
+  }
+  const weight = model.eventWeights[event.event_type];
+  return weight !== undefined ? weight : (event.score_delta || 0) / 100;
+}
+
+/**
+ * Verify a reputation proof (from getReputationProof) without trusting the service:
+ * re-hashes the event chain, recomputes the score from the events with the proof's model,
+ * and checks the checkpoint's signature and the Merkle inclusion of the agent's chain head.
+ * The issuer key is required (GET /verify/issuer, fetched once and kept); proof.issuer and
+ * checkpoint.issuer are not used, since they come from the same response. Check
+ * proof.model.version against the algorithm you expect.
+ */
+export function verifyReputationProof(proof: ReputationProof, issuerPublicKeyHex: string): ReputationProofCheck {
+  try {
+    // 1. The chain links up and every event matches its hash
+    let head: ReputationChainHead | null = null;
+    for (const event of proof.events) {
+      const seq: number = head ? head.seq + 1 : 1;
+      const prevHash: string = head ? head.hash : GENESIS_HASH;
+      if (event.agent_id !== proof.agent_id || event.seq !== seq || event.prev_hash !== prevHash) {
+        return { valid: false, error: `Chain broken before event ${seq}` };
+      }
+      if (event.hash !== hashReputationEvent(event, seq, prevHash)) {
+        return { valid: false, error: `Event ${seq} does not match its hash` };
+      }
+      head = { agent_id: event.agent_id, seq, hash: event.hash };
+    }
+    if ((head?.hash ?? null) !== (proof.head?.hash ?? null)) {
+      return { valid: false, error: 'Chain does not end at the stated head' };
+    }
+
+    // 2. The score follows from the events
+    const model = proof.model;
+    const now = new Date(proof.computed_at).getTime();
+    let total = 0;
+    let volume = 0;
+    for (const event of proof.events) {
+      const ageMs = Math.max(0, now - new Date(event.created_at).getTime());
+      const decay = model.halfLifeDays ? Math.pow(0.5, ageMs / (24 * 60 * 60 * 1000) / model.halfLifeDays) : 1;
+      total += reputationEventValue(event, model) * decay;
+      volume += decay;
+    }
+    const score = Math.round(Math.max(model.min, Math.min(model.max, model.base + total)) * 100) / 100;
+    const confidence = Math.round((1 - Math.exp(-volume / model.confidenceScale)) * 100) / 100;
+    if (score !== proof.reputation.score || confidence !== proof.reputation.confidence
+      || proof.events.length !== proof.reputation.event_count || model.version !== proof.reputation.algorithm) {
+      return { valid: false, error: 'Score does not match the events', score, confidence };
+    }
+
+    // 3. A signed checkpoint commits to the chain (up to its head at the time)
+    const checkpoint = proof.checkpoint;
+    if (!checkpoint || !checkpoint.inclusion) {
+      return { valid: true, score, confidence, checkpointed_seq: null };
+    }
+
+    if (!issuerPublicKeyHex) {
+      return { valid: false, error: 'Issuer public key required' };
+    }
+    const signed = verifyPayload('reputation_checkpoint', {
+      root: checkpoint.root,
+      agent_count: checkpoint.agent_count,
+      event_count: checkpoint.event_count,
+      issuer: checkpoint.issuer,
+      created_at: new Date(checkpoint.created_at).toISOString()
+    }, checkpoint.signature, issuerPublicKeyHex);
+    if (!signed) {
+      return { valid: false, error: 'Invalid checkpoint signature' };
+    }
+
+    const { inclusion } = checkpoint;
+    const checkpointed = inclusion.head;
+    const leaf = merkleLeafHash(canonicalize({ agent_id: checkpointed.agent_id, seq: checkpointed.seq, hash: checkpointed.hash }));
+    if (checkpointed.agent_id !== proof.agent_id || inclusion.tree_size !== checkpoint.agent_count
+      || !verifyMerkleInclusion(leaf, inclusion.leaf_index, inclusion.tree_size, inclusion.path, checkpoint.root)) {
+      return { valid: false, error: 'Invalid checkpoint inclusion proof' };
+    }
+    if (proof.events[checkpointed.seq - 1]?.hash !== checkpointed.hash) {
+      return { valid: false, error: 'History differs from the checkpoint' };
+    }
+
+    return { valid: true, score, confidence, checkpointed_seq: checkpointed.seq };
+  } catch (e) {
+    return { valid: false, error: 'Malformed proof' };
+  }
+}
+
+/**
+ * Verify a transparency log tree head's signature
+ * The issuer key has to come from somewhere you trust (GET /verify/issuer, fetched once and kept),
+ * never from the head itself: a head naming its own did:key issuer proves nothing.
+ */
+export function verifyTreeHead(head: TreeHead, issuerPublicKeyHex: string): LogCheck {
+  try {
+    if (!issuerPublicKeyHex) {
+      return { valid: false, error: 'Issuer public key required' };
+    }
+    const signed = verifyPayload('tree_head', {
+      tree_size: head.tree_size,
+      root_hash: head.root_hash,
+      issuer: head.issuer,
+      created_at: new Date(head.created_at).toISOString()
+    }, head.signature, issuerPublicKeyHex);
+    return signed ? { valid: true } : { valid: false, error: 'Invalid tree head signature' };
+  } catch (e) {
+    return { valid: false, error: 'Malformed tree head' };
+  }
+}
+
+/**
+ * Verify a DID's transparency log proof (from getDidLogProof) against a signed tree head:
+ * every entry hashes to its leaf and is included in the tree. Returns the DID's current key
+ * according to the log; if it differs from the key you were shown, the service is presenting
+ * a key it hasn't logged. treeHead is one you already hold (checked with verifyLogConsistency),
+ * not the one in the response.
+ */
+export function verifyDidLogProof(proof: DidLogProof, treeHead: TreeHead, issuerPublicKeyHex: string): DidLogCheck {
+  const headCheck = verifyTreeHead(treeHead, issuerPublicKeyHex);
+  if (!headCheck.valid) return headCheck;
+  if (treeHead.tree_size !== proof.tree_size) {
+    return { valid: false, error: 'Proof is for a different tree size' };
+  }
+  if (proof.entries.length === 0) {
+    return { valid: false, error: 'No log entries for this DID' };
+  }
+
+  try {
+    let current: LogEntry | null = null;
+    let revoked = false;
+    let lastIndex = -1;
+    for (const entry of proof.entries) {
+      const leaf = merkleLeafHash(canonicalize({
+        entry_type: entry.entry_type,
+        did: entry.did,
+        public_key: entry.public_key,
+        key_id: entry.key_id,
+        created_at: new Date(entry.created_at).toISOString()
+      }));
+      if (entry.did !== proof.did || leaf !== entry.leaf_hash) {
+        return { valid: false, error: `Log entry ${entry.leaf_index} does not match its leaf hash` };
+      }
+      if (!verifyMerkleInclusion(leaf, entry.leaf_index, treeHead.tree_size, entry.audit_path, treeHead.root_hash)) {
+        return { valid: false, error: `Log entry ${entry.leaf_index} is not in the tree` };
+      }
+      if (entry.leaf_index <= lastIndex) {
+        return { valid: false, error: 'Log entries out of order' };
+      }
+      lastIndex = entry.leaf_index;
+      if (entry.entry_type === 'revocation') revoked = true;
+      else current = entry;
+    }
+
+    if (!current) {
+      return { valid: false, error: 'No key registered for this DID' };
+    }
+    return { valid: true, public_key: current.public_key, key_id: current.key_id, revoked };
+  } catch (e) {
+    return { valid: false, error: 'Malformed proof' };
+  }
+}
+
+/**
+ * Verify that a newer signed tree head extends an older one (the log was only appended to)
+ * proof comes from getLogConsistencyProof(older.tree_size, newer.tree_size).
+ */
+export function verifyLogConsistency(older: TreeHead, newer: TreeHead, proof: string[], issuerPublicKeyHex: string): LogCheck {
+  for (const head of [older, newer]) {
+    const check = verifyTreeHead(head, issuerPublicKeyHex);
+    if (!check.valid) return check;
+  }
+  try {
+    return verifyMerkleConsistency(older.tree_size, newer.tree_size, proof, older.root_hash, newer.root_hash)
+      ? { valid: true }
+      : { valid: false, error: 'Inconsistent tree heads' };
+  } catch (e) {
+    return { valid: false, error: 'Malformed proof' };
+  }
+}
+
 // Export convenience functions
+/**
+ * Verify a webhook delivery from its raw body and X-Webhook-Signature header
+ * Use the exact bytes received (not re-serialized JSON). Deliveries are retried, so also
+ * skip event IDs (X-Webhook-Id) you have already handled.
+ */
+export function verifyWebhook(body: string, signatureHeader: string, secret: string, now = new Date(), toleranceSeconds = 300): WebhookSignatureCheck {
+  const parts: Record<string, string> = {};
+  for (const part of (signatureHeader || '').split(',')) {
+    const [key, value] = part.trim().split('=');
+    if (key && value) parts[key] = value;
+  }
+
+  const timestamp = parseInt(parts.t, 10);
+  if (!/^\d+$/.test(parts.t || '') || !/^[0-9a-f]{64}$/.test(parts.v1 || '')) {
+    return { valid: false, error: 'Missing or malformed signature header' };
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, error: 'Signature timestamp outside tolerance' };
+  }
+
+  const expected = hmac(sha256, new TextEncoder().encode(secret), new TextEncoder().encode(`${timestamp}.${body}`));
+  const received = hexToBytes(parts.v1);
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ received[i];
+  if (diff !== 0) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  try {
+    return { valid: true, event: JSON.parse(body) as WebhookEvent };
+  } catch {
+    return { valid: false, error: 'Body is not JSON' };
+  }
+}
+
 export const generateKeyPair = AgentIdentity.generateKeyPair;
 export const sign = AgentIdentity.sign;
 export const verifyLocal = AgentIdentity.verifyLocal;
+export const signRequest = AgentIdentity.signRequest;
 
 export default AgentIdentity;
@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { Store } from './db/store';
+import { createAgentsRouter } from './routes/agents';
+import { createVerifyRouter } from './routes/verify';
+import { createResolverRouter } from './routes/resolver';
+import { createApiKeysRouter } from './routes/api-keys';
+import { createAuthRouter } from './routes/auth';
+import { createModerationRouter } from './routes/moderation';
+import { createWebhooksRouter } from './routes/webhooks';
+import { createLogRouter } from './routes/log';
+import { createDelegationsRouter } from './routes/delegations';
+import { createTransfersRouter } from './routes/transfers';
+import { apiKeyAuth } from './middleware/apiKeys';
+import { getIssuerJwks } from './utils/jws';
+
+/**
+ * API routes shared by every server, on top of whichever Store backs it
+ */
+
+export const API_ENDPOINTS: Record<string, string> = {
+  'POST /agents/register': 'Register a new agent identity',
+  'GET /agents': 'Search agents by name, type, status, owner, claims, registration date, metadata and reputation (cursor-paginated)',
+  'GET /agents/stats': 'Aggregate statistics',
+  'GET /agents/:id': 'Get agent profile by ID or DID',
+  'POST /agents/:id/verify': 'Verify agent signature',
+  'POST /agents/:id/rotate-key': 'Rotate agent key (signed by current key)',
+  'POST /agents/:id/did-web/verify': 'Check a did:web agent\'s hosted DID document lists its key (agent auth)',
+  'POST /agents/:id/status': 'Suspend, reactivate, revoke or deactivate, optionally across the subtree (signed or owner)',
+  'GET /agents/:id/tree': 'Worker subtree with tree-wide aggregates (agent, ancestor or owner)',
+  'GET /agents/:id/reputation': 'Get agent reputation score',
+  'GET /agents/:id/reputation/proof': 'Hash-chained reputation history with a signed checkpoint proof',
+  'POST /agents/:id/work-report': 'Submit work performance (signed)',
+  'POST /agents/:id/task-receipts': 'Confirm a task an agent did for your platform (API key)',
+  'POST /agents/:id/reports': 'Report a misbehaving agent (agent auth or API key)',
+  'GET /agents/me/reports': 'Open reports against you (agent auth)',
+  'POST /agents/me/reports/:reportId/response': 'Respond to a report against you (agent auth)',
+  'POST /agents/:id/endorsements': 'Rate another agent (signed by the rater)',
+  'GET /agents/:id/endorsements': 'Endorsements an agent has received',
+  'GET /agents/me': 'Own agent profile (agent auth)',
+  'GET /agents/me/subagents': 'Own sub-agents, optionally several levels deep (agent auth)',
+  'POST /agents/claim': 'Link an agent to your account with its claim code',
+  'POST /agents/me/claim-code': 'Issue a new claim code while unclaimed (agent auth)',
+  'GET /agents/my': 'Agents linked to your account',
+  'POST /agents/:id/transfer': 'Offer an agent you own to another account',
+  'POST /agents/:id/release': 'Unlink an agent you own from your account',
+  'GET /agents/:id/ownership': 'Ownership history and transfers of an agent you own',
+  'GET /transfers': 'Pending transfers to and from your account',
+  'POST /transfers/:id/accept': 'Accept an agent offered to your account',
+  'POST /transfers/:id/cancel': 'Withdraw or decline a pending transfer',
+  'POST /verify': 'Verify a claim and issue a verifiable credential',
+  'GET /verify/:did': 'Check whether an agent is registered and in good standing',
+  'POST /verify/batch': 'Check up to 500 DIDs in one request (each counts against the verification rate limit)',
+  'GET /verify/issuer': 'Credential issuer DID and public key',
+  'GET /.well-known/jwks.json': 'Issuer public keys (JWK Set) for signed verification results',
+  'GET /verify/:id/claims': 'Get verified claims for an agent',
+  'GET /1.0/identifiers/:did': 'Resolve a DID (DID Resolution)',
+  'POST /auth/challenge': 'Get a single-use nonce for agent authentication',
+  'POST /auth/token': 'Exchange a signed request or refresh token for an agent access token',
+  'POST /auth/revoke': 'Revoke an agent refresh or access token',
+  'GET /moderation/reports': 'Report queue (moderators)',
+  'GET /moderation/reports/:id': 'Report with the agent\'s standing (moderators)',
+  'POST /moderation/reports/:id/review': 'Take a report for review (moderators)',
+  'POST /moderation/reports/:id/resolve': 'Dismiss, warn, flag or suspend, with optional penalty (moderators)',
+  'POST /moderation/agents/:id/reinstate': 'Lift a flag or suspension (moderators)',
+  'POST /webhooks': 'Subscribe to agent events (account auth)',
+  'GET /webhooks': 'List your webhooks',
+  'GET /webhooks/:id': 'Get a webhook',
+  'DELETE /webhooks/:id': 'Delete a webhook',
+  'POST /webhooks/:id/test': 'Send a signed ping event',
+  'GET /webhooks/:id/deliveries': 'Delivery log and dead letters (?status=dead)',
+  'POST /webhooks/:id/deliveries/:deliveryId/retry': 'Redeliver a dead letter',
+  'POST /delegations/verify': 'Check a worker capability delegation chain back to the root agent',
+  'GET /log/sth': 'Signed tree head of the key transparency log',
+  'GET /log/entries': 'Transparency log entries (?start=&end=)',
+  'GET /log/proof/inclusion': 'A DID\'s log entries with inclusion proofs (?did=&tree_size=)',
+  'GET /log/proof/consistency': 'Consistency proof between tree sizes (?first=&second=)',
+  'POST /api-keys': 'Create an API key (account auth)',
+  'GET /api-keys': 'List your API keys with usage',
+  'GET /api-keys/:id/usage': 'Daily usage per scope for an API key',
+  'DELETE /api-keys/:id': 'Revoke an API key'
+};
+
+export function createApiRouter(store: Store): Router {
+  const router = Router();
+  const agentsRouter = createAgentsRouter(store);
+  const verifyRouter = createVerifyRouter(store);
+
+  // Identify the calling API key, if any; routes enforce scopes with requireScope
+  router.use(['/agents', '/agent', '/verify', '/1.0/identifiers', '/api-keys', '/moderation', '/webhooks', '/log', '/delegations', '/transfers'], apiKeyAuth(store));
+
+  // Convenience route: /agents/verify/:did (same as /verify/:did)
+  router.get('/agents/verify/:did', (req, res, next) => {
+    req.url = `/${encodeURIComponent(req.params.did)}`;
+    verifyRouter(req, res, next);
+  });
+
+  // Agent profile page route (linked from verification_url)
+  router.get('/agent/:did', (req, res, next) => {
+    req.url = `/${encodeURIComponent(req.params.did)}`;
+    agentsRouter(req, res, next);
+  });
+
+  // Issuer keys for checking signed tokens offline
+  router.get('/.well-known/jwks.json', (req, res) => {
+    res.set('Cache-Control', 'public, max-age=3600').json(getIssuerJwks());
+  });
+
+  router.use('/agents', agentsRouter);
+  router.use('/verify', verifyRouter);
+  router.use('/1.0/identifiers', createResolverRouter(store));
+  router.use('/api-keys', createApiKeysRouter(store));
+  router.use('/auth', createAuthRouter(store));
+  router.use('/moderation', createModerationRouter(store));
+  router.use('/webhooks', createWebhooksRouter(store));
+  router.use('/log', createLogRouter(store));
+  router.use('/delegations', createDelegationsRouter(store));
+  router.use('/transfers', createTransfersRouter(store));
+
+  return router;
+}
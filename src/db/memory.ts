@@ -0,0 +1,791 @@
+import { applyContribution, eventContribution } from '../utils/reputation';
+import { chainLink } from '../utils/eventchain';
+import { Store, Agent, AgentKey, AgentStatusChange, AgentOwnershipChange, OwnershipTransfer, Verification, ReputationEvent, ReputationAggregate, ReputationChainHead, ReputationCheckpoint, LogEntry, TreeHead, Endorsement, TaskReceipt, AbuseReport, AbuseReportStats, WebhookSubscription, WebhookDelivery, ApiKey, ApiKeyUsage, AuthChallenge, AgentSession, AuthUser, SubtreeAgent, ConflictError } from './store';
+
+/**
+ * In-memory implementation of the Store, for development and tests
+ *
+ * Nothing is persisted; owner accounts are added with addSession().
+ */
+export interface MemoryStore extends Store {
+  // Register an access token for an owner account (stands in for Supabase Auth)
+  addSession(token: string, user: AuthUser): void;
+}
+
+export function createMemoryStore(): MemoryStore {
+  const agents = new Map<string, Agent>();
+  const agentKeys: AgentKey[] = [];
+  const statusHistory: AgentStatusChange[] = [];
+  const ownershipHistory: AgentOwnershipChange[] = [];
+  const ownershipTransfers = new Map<string, OwnershipTransfer>();
+  const verifications: Verification[] = [];
+  const reputationEvents: ReputationEvent[] = [];
+  const reputationAggregates = new Map<string, ReputationAggregate>();
+  const reputationCheckpoints: ReputationCheckpoint[] = [];
+  const endorsements: Endorsement[] = [];
+  const taskReceipts = new Map<string, TaskReceipt>();
+  const abuseReports = new Map<string, AbuseReport>();
+  const webhooks = new Map<string, WebhookSubscription>();
+  const webhookDeliveries = new Map<string, WebhookDelivery>();
+  const transparencyLog: LogEntry[] = [];
+  const treeHeads = new Map<number, TreeHead>();
+  const rateLimits = new Map<string, { count: number; windowStart: number }>();
+  const apiKeys = new Map<string, ApiKey>();
+  const apiKeyUsage: ApiKeyUsage[] = [];
+  const authChallenges = new Map<string, AuthChallenge>();
+  const agentSessions = new Map<string, AgentSession>();
+  const sessions = new Map<string, AuthUser>();
+  let nextId = 1;
+
+  const newestFirst = <T extends { created_at: string }>(a: T, b: T) => b.created_at.localeCompare(a.created_at);
+  const oldestFirst = <T extends { created_at: string }>(a: T, b: T) => a.created_at.localeCompare(b.created_at);
+  const confirmedTask = (receipt: Pick<TaskReceipt, 'agent_id' | 'countersigner' | 'task_id'>) => [...taskReceipts.values()]
+    .some(r => r.agent_id === receipt.agent_id && r.countersigner === receipt.countersigner && r.task_id === receipt.task_id);
+  const chainHead = (agentId: string): ReputationChainHead | null => {
+    const sealed = reputationEvents.filter(e => e.agent_id === agentId && e.hash !== null);
+    const last = sealed.reduce<ReputationEvent | null>((head, e) => !head || e.seq! > head.seq! ? e : head, null);
+    return last ? { agent_id: agentId, seq: last.seq!, hash: last.hash! } : null;
+  };
+  const findAgent = (predicate: (agent: Agent) => boolean): Agent | null => {
+    const found = [...agents.values()].find(predicate);
+    return found ? { ...found } : null;
+  };
+
+  const store: MemoryStore = {
+    // Agents
+    async createAgent(agent) {
+      const duplicate = findAgent(a => a.did === agent.did || (!!agent.claim_code && a.claim_code === agent.claim_code));
+      if (agents.has(agent.id) || duplicate) {
+        throw new ConflictError('Agent with this public key or DID already exists');
+      }
+
+      const now = new Date().toISOString();
+      const created: Agent = { ...agent, status_reason: null, status_changed_at: null, did_web_verified_at: null, created_at: now, updated_at: now };
+      agents.set(agent.id, created);
+      agentKeys.push({
+        id: nextId++,
+        agent_id: agent.id,
+        key_index: 1,
+        public_key: agent.public_key,
+        valid_from: now,
+        valid_until: null,
+        rotation_signature: null,
+        created_at: now
+      });
+      return { ...created };
+    },
+
+    async getAgentById(id) {
+      const agent = agents.get(id);
+      return agent ? { ...agent } : null;
+    },
+
+    async getAgentByDid(did) {
+      return findAgent(a => a.did === did);
+    },
+
+    async getAgentsByDids(dids) {
+      const wanted = new Set(dids);
+      return [...agents.values()].filter(a => wanted.has(a.did)).map(a => ({ ...a }));
+    },
+
+    async getAgentByClaimCode(claimCode) {
+      return findAgent(a => a.claim_code === claimCode);
+    },
+
+    async listAgents(limit, offset) {
+      const all = [...agents.values()].sort(newestFirst);
+      return { agents: all.slice(offset, offset + limit), total: all.length };
+    },
+
+    async searchAgents(search) {
+      const { model } = search;
+      const asOf = new Date(search.as_of).getTime();
+      const currentAggregate = (agent: Agent) => {
+        const aggregate = reputationAggregates.get(agent.id);
+        return aggregate?.algorithm === model.algorithm ? aggregate : null;
+      };
+      const scoreOf = (agent: Agent) => {
+        const aggregate = currentAggregate(agent);
+        const decay = aggregate?.last_event_at && model.half_life_days
+          ? Math.pow(0.5, Math.max(0, asOf - new Date(aggregate.last_event_at).getTime()) / (24 * 60 * 60 * 1000) / model.half_life_days)
+          : 1;
+        return Math.round(Math.max(model.min, Math.min(model.max, model.base + (aggregate?.score_sum || 0) * decay)) * 100) / 100;
+      };
+      const sortValueOf = (agent: Agent): string | number => {
+        switch (search.sort) {
+          case 'reputation': return scoreOf(agent);
+          case 'activity': return currentAggregate(agent)?.last_event_at || agent.created_at;
+          case 'name': return agent.name.toLowerCase();
+          default: return agent.created_at;
+        }
+      };
+      const metadataText = (value: unknown) => typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+      const holdsClaim = (agent: Agent, claimType: string) => verifications.some(v => v.agent_id === agent.id
+        && v.claim_type === claimType && (!v.expires_at || new Date(v.expires_at).getTime() > asOf));
+
+      const matches = [...agents.values()].filter(agent => {
+        const name = agent.name.toLowerCase();
+        const score = scoreOf(agent);
+        return agent.created_at <= search.as_of
+          && (search.terms || []).every(term => name.includes(term.toLowerCase()))
+          && (!search.name_prefix || name.startsWith(search.name_prefix.toLowerCase()))
+          && (!search.agent_type || agent.agent_type === search.agent_type)
+          && (!search.statuses?.length || search.statuses.includes(agent.status))
+          && (!search.owner_id || agent.owner_id === search.owner_id)
+          && (search.claim_types || []).every(claimType => holdsClaim(agent, claimType))
+          && (!search.registered_after || agent.created_at >= search.registered_after)
+          && (!search.registered_before || agent.created_at <= search.registered_before)
+          && Object.entries(search.metadata || {}).every(([key, value]) => key in agent.metadata && metadataText(agent.metadata[key]) === value)
+          && (search.min_reputation === undefined || score >= search.min_reputation)
+          && (search.max_reputation === undefined || score <= search.max_reputation);
+      });
+
+      const direction = search.order === 'asc' ? 1 : -1;
+      const compare = (a: { value: string | number; id: string }, b: { value: string | number; id: string }) =>
+        direction * (a.value < b.value ? -1 : a.value > b.value ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+      const keyed = matches
+        .map(agent => ({ agent, value: sortValueOf(agent), id: agent.id }))
+        .sort(compare)
+        .filter(row => !search.after || compare(row, search.after) > 0);
+
+      const offset = search.offset || 0;
+      return {
+        agents: keyed.slice(offset, offset + search.limit).map(row => ({ ...row.agent, sort_value: row.value, reputation_score: scoreOf(row.agent) })),
+        total: matches.length
+      };
+    },
+
+    async getAgentsByUser(userId) {
+      return [...agents.values()].filter(a => a.user_id === userId).sort(newestFirst);
+    },
+
+    async getChildAgents(parentDid) {
+      return [...agents.values()].filter(a => a.parent_did === parentDid).sort(newestFirst);
+    },
+
+    async getAgentSubtree(did, maxDepth) {
+      const subtree: SubtreeAgent[] = [];
+      let level = [did];
+      for (let depth = 1; level.length > 0 && (maxDepth === undefined || depth <= maxDepth); depth++) {
+        const parents = new Set(level);
+        const children = [...agents.values()].filter(a => a.parent_did && parents.has(a.parent_did)).sort(oldestFirst);
+        subtree.push(...children.map(a => ({ ...a, depth })));
+        level = children.map(a => a.did);
+      }
+      return subtree;
+    },
+
+    async updateAgent(id, updates) {
+      const agent = agents.get(id);
+      if (!agent) return null;
+
+      const updated = { ...agent, ...updates, id, updated_at: new Date().toISOString() };
+      agents.set(id, updated);
+      return { ...updated };
+    },
+
+    async getStats() {
+      const all = [...agents.values()];
+      const workers = all.filter(a => a.agent_type === 'worker').length;
+      const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
+      return {
+        total_agents: all.length,
+        main_agents: all.length - workers,
+        worker_agents: workers,
+        total_verifications: verifications.length,
+        registrations_24h: all.filter(a => new Date(a.created_at).getTime() > oneDayAgo).length
+      };
+    },
+
+    // Key history
+    async getAgentKeys(agentId) {
+      return agentKeys
+        .filter(k => k.agent_id === agentId)
+        .sort((a, b) => a.key_index - b.key_index)
+        .map(k => ({ ...k }));
+    },
+
+    async rotateAgentKey(agentId, keyIndex, newPublicKey, signature, rotatedAt) {
+      for (const key of agentKeys) {
+        if (key.agent_id === agentId && key.valid_until === null) {
+          key.valid_until = rotatedAt;
+        }
+      }
+
+      const key: AgentKey = {
+        id: nextId++,
+        agent_id: agentId,
+        key_index: keyIndex,
+        public_key: newPublicKey,
+        valid_from: rotatedAt,
+        valid_until: null,
+        rotation_signature: signature,
+        created_at: rotatedAt
+      };
+      agentKeys.push(key);
+      await store.updateAgent(agentId, { public_key: newPublicKey });
+      return { ...key };
+    },
+
+    // Ownership
+    async changeAgentOwner(agentId, fromUserId, toUserId, changedBy, transferId) {
+      const agent = agents.get(agentId);
+      if (!agent || agent.user_id !== fromUserId) return null;
+
+      const updated = (await store.updateAgent(agentId, { user_id: toUserId, claim_code: null, claim_code_expires_at: null }))!;
+      ownershipHistory.push({
+        id: nextId++,
+        agent_id: agentId,
+        from_user_id: fromUserId,
+        to_user_id: toUserId,
+        changed_by: changedBy,
+        transfer_id: transferId,
+        created_at: updated.updated_at
+      });
+      const subtree = await store.getAgentSubtree(agent.did);
+      for (const descendant of subtree) {
+        await store.updateAgent(descendant.id, { user_id: toUserId });
+      }
+      return subtree.length;
+    },
+
+    async getOwnershipHistory(agentId) {
+      return ownershipHistory.filter(change => change.agent_id === agentId).reverse();
+    },
+
+    async createOwnershipTransfer(transfer) {
+      const pending = [...ownershipTransfers.values()].some(t => t.agent_id === transfer.agent_id && t.status === 'pending');
+      if (pending) {
+        throw new ConflictError('This agent already has a pending transfer');
+      }
+
+      const created: OwnershipTransfer = { ...transfer, status: 'pending', resolved_by: null, resolved_at: null, created_at: new Date().toISOString() };
+      ownershipTransfers.set(transfer.id, created);
+      return { ...created };
+    },
+
+    async getOwnershipTransfer(id) {
+      const transfer = ownershipTransfers.get(id);
+      return transfer ? { ...transfer } : null;
+    },
+
+    async getOwnershipTransfersByAgent(agentId) {
+      return [...ownershipTransfers.values()]
+        .filter(t => t.agent_id === agentId)
+        .sort(newestFirst)
+        .map(t => ({ ...t }));
+    },
+
+    async getPendingOwnershipTransfers(userId) {
+      return [...ownershipTransfers.values()]
+        .filter(t => t.status === 'pending' && (t.from_user_id === userId || t.to_user_id === userId))
+        .sort(newestFirst)
+        .map(t => ({ ...t }));
+    },
+
+    async resolveOwnershipTransfer(id, status, resolvedBy, resolvedAt) {
+      const transfer = ownershipTransfers.get(id);
+      if (!transfer || transfer.status !== 'pending') return null;
+      Object.assign(transfer, { status, resolved_by: resolvedBy, resolved_at: resolvedAt });
+      return { ...transfer };
+    },
+
+    // Status lifecycle
+    async changeAgentStatus(agent, status, reason, changedBy, signature) {
+      const changedAt = new Date().toISOString();
+      const updated = await store.updateAgent(agent.id, { status, status_reason: reason, status_changed_at: changedAt });
+      if (!updated) return null;
+
+      statusHistory.push({
+        id: nextId++,
+        agent_id: agent.id,
+        from_status: agent.status,
+        to_status: status,
+        reason,
+        changed_by: changedBy,
+        signature,
+        created_at: changedAt
+      });
+      return updated;
+    },
+
+    async getStatusHistory(agentId) {
+      return statusHistory.filter(s => s.agent_id === agentId).reverse();
+    },
+
+    // Verifications
+    async createVerification(verification) {
+      verifications.push({ ...verification });
+      return verification;
+    },
+
+    async getVerificationsByAgent(agentId) {
+      const now = Date.now();
+      return verifications
+        .filter(v => v.agent_id === agentId && (!v.expires_at || new Date(v.expires_at).getTime() > now))
+        .sort((a, b) => b.verified_at.localeCompare(a.verified_at));
+    },
+
+    // Reputation events
+    async createReputationEvent(event) {
+      const createdAt = new Date().toISOString();
+      const created: ReputationEvent = {
+        ...event,
+        metadata: event.metadata || {},
+        id: nextId++,
+        ...chainLink({ ...event, created_at: createdAt }, chainHead(event.agent_id)),
+        created_at: createdAt
+      };
+      reputationEvents.push(created);
+      const current = reputationAggregates.get(event.agent_id) || null;
+      reputationAggregates.set(event.agent_id, applyContribution(current, event.agent_id, eventContribution(created), created.created_at));
+      return created;
+    },
+
+    async getReputationEvents(agentId, limit) {
+      return reputationEvents.filter(e => e.agent_id === agentId).reverse().slice(0, limit);
+    },
+
+    async getReputationChain(agentId) {
+      return reputationEvents
+        .filter(e => e.agent_id === agentId && e.hash !== null)
+        .sort((a, b) => a.seq! - b.seq!)
+        .map(e => ({ ...e }));
+    },
+
+    async getReputationChainHead(agentId) {
+      return chainHead(agentId);
+    },
+
+    async getReputationChainHeads() {
+      return [...new Set(reputationEvents.map(e => e.agent_id))]
+        .map(chainHead)
+        .filter((head): head is ReputationChainHead => head !== null);
+    },
+
+    async getUnsealedReputationEvents(limit) {
+      return reputationEvents.filter(e => e.hash === null).slice(0, limit).map(e => ({ ...e }));
+    },
+
+    async sealReputationEvent(id, seq, prevHash, hash) {
+      const event = reputationEvents.find(e => e.id === id);
+      if (!event || event.hash !== null) return false;
+      Object.assign(event, { seq, prev_hash: prevHash, hash });
+      return true;
+    },
+
+    async createReputationCheckpoint(checkpoint) {
+      const created = { ...checkpoint, id: reputationCheckpoints.length + 1 };
+      reputationCheckpoints.push(created);
+      return { ...created };
+    },
+
+    async getLatestReputationCheckpoint() {
+      const latest = reputationCheckpoints[reputationCheckpoints.length - 1];
+      return latest ? { ...latest } : null;
+    },
+
+    async getReputationAggregate(agentId) {
+      const aggregate = reputationAggregates.get(agentId);
+      return aggregate ? { ...aggregate } : null;
+    },
+
+    async getReputationAggregates(agentIds) {
+      return agentIds.flatMap(id => {
+        const aggregate = reputationAggregates.get(id);
+        return aggregate ? [{ ...aggregate }] : [];
+      });
+    },
+
+    async saveReputationAggregate(aggregate) {
+      reputationAggregates.set(aggregate.agent_id, { ...aggregate });
+    },
+
+    // Endorsements
+    async createEndorsement(endorsement) {
+      const duplicate = endorsements.some(e =>
+        e.rater_id === endorsement.rater_id && e.subject_id === endorsement.subject_id && e.period === endorsement.period);
+      if (duplicate) {
+        throw new ConflictError('Rater already endorsed this agent in this period');
+      }
+      const created: Endorsement = { ...endorsement, created_at: new Date().toISOString() };
+      endorsements.push(created);
+      return { ...created };
+    },
+
+    async getEndorsementsForAgent(subjectId, limit) {
+      return endorsements.filter(e => e.subject_id === subjectId).sort(newestFirst).slice(0, limit);
+    },
+
+    async getEndorsementStats(subjectId) {
+      const ratings = endorsements.filter(e => e.subject_id === subjectId).map(e => e.rating);
+      return {
+        count: ratings.length,
+        average_rating: ratings.length ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null
+      };
+    },
+
+    // Task receipts
+    async createTaskReceipt(receipt) {
+      if (confirmedTask(receipt)) {
+        throw new ConflictError(`Task ${receipt.task_id} was already confirmed by ${receipt.countersigner}`);
+      }
+      const created: TaskReceipt = { ...receipt, created_at: new Date().toISOString() };
+      taskReceipts.set(created.id, created);
+      return { ...created };
+    },
+
+    async getTaskReceipt(id) {
+      const receipt = taskReceipts.get(id);
+      return receipt ? { ...receipt } : null;
+    },
+
+    async recordReportReceipts(reportId, receipts, claimIds) {
+      const duplicate = receipts.some((r, i) =>
+        confirmedTask(r) || receipts.findIndex(o => o.countersigner === r.countersigner && o.task_id === r.task_id) !== i);
+      if (duplicate) {
+        throw new ConflictError('A task in this report was already confirmed by the same countersigner');
+      }
+      const counted = claimIds.find(id => taskReceipts.get(id)?.report_id !== null);
+      if (counted) {
+        throw new ConflictError(`Receipt ${counted} was already counted`);
+      }
+
+      const now = new Date().toISOString();
+      for (const receipt of receipts) {
+        taskReceipts.set(receipt.id, { ...receipt, report_id: reportId, created_at: now });
+      }
+      for (const id of claimIds) {
+        taskReceipts.get(id)!.report_id = reportId;
+      }
+    },
+
+    async getTaskReceiptStats(agentId) {
+      const counted = [...taskReceipts.values()].filter(r => r.agent_id === agentId && r.report_id !== null);
+      return {
+        completed: counted.filter(r => r.outcome === 'completed').length,
+        corrected: counted.filter(r => r.outcome === 'corrected').length,
+        failed: counted.filter(r => r.outcome === 'failed').length,
+        positive_feedback: counted.filter(r => r.positive_feedback).length
+      };
+    },
+
+    // Abuse reports
+    async createAbuseReport(report) {
+      const now = new Date().toISOString();
+      const created: AbuseReport = {
+        ...report,
+        evidence: [...report.evidence],
+        status: 'open',
+        agent_response: null,
+        agent_responded_at: null,
+        resolution_action: null,
+        resolution_note: null,
+        penalty: null,
+        resolved_by: null,
+        resolved_at: null,
+        created_at: now,
+        updated_at: now
+      };
+      abuseReports.set(created.id, created);
+      return { ...created };
+    },
+
+    async getAbuseReport(id) {
+      const report = abuseReports.get(id);
+      return report ? { ...report } : null;
+    },
+
+    async listAbuseReports(filter, limit, offset) {
+      const matching = [...abuseReports.values()]
+        .filter(r => (!filter.status?.length || filter.status.includes(r.status))
+          && (!filter.category || r.category === filter.category)
+          && (!filter.agent_id || r.agent_id === filter.agent_id)
+          && (!filter.reporter || r.reporter === filter.reporter))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+      return { reports: matching.slice(offset, offset + limit).map(r => ({ ...r })), total: matching.length };
+    },
+
+    async updateAbuseReport(id, fromStatuses, updates) {
+      const report = abuseReports.get(id);
+      if (!report || !fromStatuses.includes(report.status)) return null;
+      const updated = { ...report, ...updates, updated_at: new Date().toISOString() };
+      abuseReports.set(id, updated);
+      return { ...updated };
+    },
+
+    async getAbuseReportStats(agentId) {
+      const reports = [...abuseReports.values()].filter(r => r.agent_id === agentId);
+      return {
+        open: reports.filter(r => r.status === 'open' || r.status === 'reviewing').length,
+        actioned: reports.filter(r => r.status === 'actioned').length,
+        dismissed: reports.filter(r => r.status === 'dismissed').length
+      };
+    },
+
+    async getAbuseReportStatsForAgents(agentIds) {
+      const stats = new Map<string, AbuseReportStats & { agent_id: string }>();
+      const wanted = new Set(agentIds);
+      for (const report of abuseReports.values()) {
+        if (!wanted.has(report.agent_id)) continue;
+        const row = stats.get(report.agent_id) || { agent_id: report.agent_id, open: 0, actioned: 0, dismissed: 0 };
+        if (report.status === 'open' || report.status === 'reviewing') row.open++;
+        else if (report.status === 'actioned') row.actioned++;
+        else if (report.status === 'dismissed') row.dismissed++;
+        stats.set(report.agent_id, row);
+      }
+      return [...stats.values()];
+    },
+
+    // Webhooks
+    async createWebhook(subscription) {
+      const created: WebhookSubscription = { ...subscription, created_at: new Date().toISOString() };
+      webhooks.set(created.id, created);
+      return { ...created };
+    },
+
+    async getWebhook(id) {
+      const subscription = webhooks.get(id);
+      return subscription ? { ...subscription } : null;
+    },
+
+    async getWebhooksByOwner(ownerId) {
+      return [...webhooks.values()].filter(w => w.owner_id === ownerId).sort(newestFirst).map(w => ({ ...w }));
+    },
+
+    async getAllWebhooks() {
+      return [...webhooks.values()].map(w => ({ ...w }));
+    },
+
+    async deleteWebhook(id) {
+      for (const delivery of [...webhookDeliveries.values()]) {
+        if (delivery.subscription_id === id) webhookDeliveries.delete(delivery.id);
+      }
+      return webhooks.delete(id);
+    },
+
+    async createWebhookDeliveries(deliveries) {
+      const now = new Date().toISOString();
+      for (const delivery of deliveries) {
+        webhookDeliveries.set(delivery.id, { ...delivery, created_at: now });
+      }
+    },
+
+    async getWebhookDelivery(id) {
+      const delivery = webhookDeliveries.get(id);
+      return delivery ? { ...delivery } : null;
+    },
+
+    async listWebhookDeliveries(subscriptionId, status, limit, offset) {
+      // Map order is insertion order, so reversing keeps same-millisecond deliveries newest first
+      const matching = [...webhookDeliveries.values()]
+        .filter(d => d.subscription_id === subscriptionId && (!status || d.status === status))
+        .reverse()
+        .sort(newestFirst);
+      return { deliveries: matching.slice(offset, offset + limit).map(d => ({ ...d })), total: matching.length };
+    },
+
+    async getDueWebhookDeliveries(now, limit) {
+      return [...webhookDeliveries.values()]
+        .filter(d => d.status === 'pending' && d.next_attempt_at !== null && d.next_attempt_at <= now)
+        .sort((a, b) => a.next_attempt_at!.localeCompare(b.next_attempt_at!))
+        .slice(0, limit)
+        .map(d => ({ ...d }));
+    },
+
+    async updateWebhookDelivery(id, updates) {
+      const delivery = webhookDeliveries.get(id);
+      if (!delivery) return null;
+      const updated = { ...delivery, ...updates };
+      webhookDeliveries.set(id, updated);
+      return { ...updated };
+    },
+
+    // Transparency log
+    async appendLogEntry(entry) {
+      const appended = { ...entry, leaf_index: transparencyLog.length };
+      transparencyLog.push(appended);
+      return { ...appended };
+    },
+
+    async getLogSize() {
+      return transparencyLog.length;
+    },
+
+    async getLogEntries(start, end) {
+      return transparencyLog.slice(start, end).map(e => ({ ...e }));
+    },
+
+    async getLogEntriesByDid(did) {
+      return transparencyLog.filter(e => e.did === did).map(e => ({ ...e }));
+    },
+
+    async getLogLeafHashes(treeSize) {
+      return transparencyLog.slice(0, treeSize).map(e => e.leaf_hash);
+    },
+
+    async createTreeHead(head) {
+      if (!treeHeads.has(head.tree_size)) treeHeads.set(head.tree_size, { ...head });
+      return { ...treeHeads.get(head.tree_size)! };
+    },
+
+    async getLatestTreeHead() {
+      const sizes = [...treeHeads.keys()];
+      return sizes.length > 0 ? { ...treeHeads.get(Math.max(...sizes))! } : null;
+    },
+
+    // Rate limits
+    async checkRateLimit(identifier, actionType, maxCount, windowMs) {
+      const key = `${identifier}:${actionType}`;
+      const now = Date.now();
+      const current = rateLimits.get(key);
+
+      if (!current || current.windowStart < now - windowMs) {
+        rateLimits.set(key, { count: 1, windowStart: now });
+        return true;
+      }
+      if (current.count >= maxCount) {
+        return false;
+      }
+      current.count++;
+      return true;
+    },
+
+    // API keys
+    async createApiKey(apiKey) {
+      if (apiKeys.has(apiKey.id) || [...apiKeys.values()].some(k => k.key_hash === apiKey.key_hash)) {
+        throw new ConflictError('API key already exists');
+      }
+      const created: ApiKey = { ...apiKey, created_at: new Date().toISOString(), last_used_at: null, usage_count: 0 };
+      apiKeys.set(apiKey.id, created);
+      return { ...created };
+    },
+
+    async getApiKeyById(id) {
+      const apiKey = apiKeys.get(id);
+      return apiKey ? { ...apiKey } : null;
+    },
+
+    async getApiKeyByHash(keyHash) {
+      const apiKey = [...apiKeys.values()].find(k => k.key_hash === keyHash);
+      return apiKey ? { ...apiKey } : null;
+    },
+
+    async getApiKeysByOwner(ownerId) {
+      return [...apiKeys.values()].filter(k => k.owner_id === ownerId).sort(newestFirst).map(k => ({ ...k }));
+    },
+
+    async deleteApiKey(id) {
+      for (let i = apiKeyUsage.length - 1; i >= 0; i--) {
+        if (apiKeyUsage[i].api_key_id === id) apiKeyUsage.splice(i, 1);
+      }
+      return apiKeys.delete(id);
+    },
+
+    async recordApiKeyUsage(id, scope, usedAt) {
+      const apiKey = apiKeys.get(id);
+      if (!apiKey) return;
+      apiKey.last_used_at = usedAt;
+      apiKey.usage_count++;
+
+      const date = usedAt.slice(0, 10);
+      const counter = apiKeyUsage.find(u => u.api_key_id === id && u.scope === scope && u.date === date);
+      if (counter) {
+        counter.count++;
+      } else {
+        apiKeyUsage.push({ api_key_id: id, scope, date, count: 1 });
+      }
+    },
+
+    async getApiKeyUsage(id) {
+      return apiKeyUsage
+        .filter(u => u.api_key_id === id)
+        .sort((a, b) => b.date.localeCompare(a.date) || a.scope.localeCompare(b.scope))
+        .map(u => ({ ...u }));
+    },
+
+    // Agent auth challenges
+    async createAuthChallenge(challenge) {
+      const now = new Date().toISOString();
+      for (const [nonce, existing] of authChallenges) {
+        if (existing.expires_at < now) authChallenges.delete(nonce);
+      }
+      const created: AuthChallenge = { ...challenge, used_at: null, created_at: now };
+      authChallenges.set(challenge.nonce, created);
+      return { ...created };
+    },
+
+    async getAuthChallenge(nonce) {
+      const challenge = authChallenges.get(nonce);
+      return challenge ? { ...challenge } : null;
+    },
+
+    async consumeAuthChallenge(nonce, usedAt) {
+      const challenge = authChallenges.get(nonce);
+      if (!challenge || challenge.used_at) return false;
+      challenge.used_at = usedAt;
+      return true;
+    },
+
+    async recordSignatureUse(challenge, usedAt) {
+      if (authChallenges.has(challenge.nonce)) return false;
+      authChallenges.set(challenge.nonce, { ...challenge, used_at: usedAt, created_at: usedAt });
+      return true;
+    },
+
+    // Agent token sessions
+    async createAgentSession(session) {
+      const now = new Date().toISOString();
+      for (const [id, existing] of agentSessions) {
+        if (existing.expires_at < now) agentSessions.delete(id);
+      }
+      const created: AgentSession = { ...session, scope: [...session.scope], previous_token_hash: null, refreshed_at: null, revoked_at: null, created_at: now };
+      agentSessions.set(session.id, created);
+      return { ...created, scope: [...created.scope] };
+    },
+
+    async getAgentSession(id) {
+      const session = agentSessions.get(id);
+      return session ? { ...session, scope: [...session.scope] } : null;
+    },
+
+    async getAgentSessionByRefreshToken(tokenHash) {
+      const session = [...agentSessions.values()].find(s => s.refresh_token_hash === tokenHash || s.previous_token_hash === tokenHash);
+      return session ? { ...session, scope: [...session.scope] } : null;
+    },
+
+    async rotateAgentSession(id, tokenHash, newTokenHash, refreshedAt) {
+      const session = agentSessions.get(id);
+      if (!session || session.revoked_at || session.refresh_token_hash !== tokenHash) return false;
+      session.previous_token_hash = tokenHash;
+      session.refresh_token_hash = newTokenHash;
+      session.refreshed_at = refreshedAt;
+      return true;
+    },
+
+    async revokeAgentSession(id, revokedAt) {
+      const session = agentSessions.get(id);
+      if (!session || session.revoked_at) return false;
+      session.revoked_at = revokedAt;
+      return true;
+    },
+
+    async revokeAgentSessions(agentId, revokedAt) {
+      for (const session of agentSessions.values()) {
+        if (session.agent_id === agentId && !session.revoked_at) session.revoked_at = revokedAt;
+      }
+    },
+
+    // Owner accounts
+    async getUserByToken(token) {
+      return sessions.get(token) || null;
+    },
+
+    addSession(token, user) {
+      sessions.set(token, user);
+    }
+  };
+
+  return store;
+}
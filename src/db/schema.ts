@@ -1,22 +1,29 @@
 import Database, { Database as DatabaseType } from 'better-sqlite3';
 import path from 'path';
+import fs from 'fs';
+import { CLAIM_CODE_TTL_MS } from '../utils/ownership';
 
-const DB_PATH = process.env.DB_PATH || path.join(__dirname, '../../data/identity.db');
+export const DB_PATH = process.env.DB_PATH || path.join(__dirname, '../../data/identity.db');
 
-// Ensure data directory exists
-import fs from 'fs';
-const dataDir = path.dirname(DB_PATH);
-if (!fs.existsSync(dataDir)) {
-  fs.mkdirSync(dataDir, { recursive: true });
-}
+/**
+ * Open the SQLite database, creating its directory if needed
+ */
+export function openDatabase(dbPath: string = DB_PATH): DatabaseType {
+  // Ensure data directory exists
+  const dataDir = path.dirname(dbPath);
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
 
-export const db: DatabaseType = new Database(DB_PATH);
+  const db = new Database(dbPath);
 
-// Enable WAL mode for better concurrent performance
-db.pragma('journal_mode = WAL');
+  // Enable WAL mode for better concurrent performance
+  db.pragma('journal_mode = WAL');
+  return db;
+}
 
 // Initialize schema
-export function initializeDatabase() {
+export function initializeDatabase(db: DatabaseType) {
   db.exec(`
     -- Agents table: core identity
     CREATE TABLE IF NOT EXISTS agents (
@@ -27,6 +34,14 @@ export function initializeDatabase() {
       did TEXT UNIQUE NOT NULL,
       metadata TEXT DEFAULT '{}',
       status TEXT DEFAULT 'active',
+      status_reason TEXT,
+      status_changed_at TEXT,
+      claim_code TEXT UNIQUE,
+      claim_code_expires_at TEXT,
+      user_id TEXT,
+      parent_did TEXT,
+      agent_type TEXT DEFAULT 'main',
+      did_web_verified_at TEXT,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now'))
     );
@@ -41,6 +56,8 @@ export function initializeDatabase() {
       verified_at TEXT DEFAULT (datetime('now')),
       expires_at TEXT,
       signature TEXT,
+      credential TEXT,
+      credential_jwt TEXT,
       FOREIGN KEY (agent_id) REFERENCES agents(id)
     );
 
@@ -56,6 +73,117 @@ export function initializeDatabase() {
       FOREIGN KEY (agent_id) REFERENCES agents(id)
     );
 
+    -- Reputation checkpoints: issuer-signed Merkle roots over every agent's event chain head
+    CREATE TABLE IF NOT EXISTS reputation_checkpoints (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      root TEXT NOT NULL,
+      agent_count INTEGER NOT NULL,
+      event_count INTEGER NOT NULL,
+      heads TEXT NOT NULL,
+      issuer TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    -- Reputation aggregates: running decayed sums per agent, updated with each event
+    CREATE TABLE IF NOT EXISTS reputation_aggregates (
+      agent_id TEXT PRIMARY KEY,
+      algorithm TEXT NOT NULL,
+      score_sum REAL DEFAULT 0,
+      volume REAL DEFAULT 0,
+      event_count INTEGER DEFAULT 0,
+      tasks_completed INTEGER DEFAULT 0,
+      last_event_at TEXT,
+      updated_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Endorsements: signed agent-to-agent ratings
+    CREATE TABLE IF NOT EXISTS endorsements (
+      id TEXT PRIMARY KEY,
+      rater_id TEXT NOT NULL,
+      rater_did TEXT NOT NULL,
+      subject_id TEXT NOT NULL,
+      subject_did TEXT NOT NULL,
+      rating INTEGER NOT NULL,
+      context TEXT NOT NULL,
+      interaction_ref TEXT,
+      period TEXT NOT NULL,
+      weight REAL NOT NULL,
+      signature TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE (rater_id, subject_id, period),
+      FOREIGN KEY (rater_id) REFERENCES agents(id),
+      FOREIGN KEY (subject_id) REFERENCES agents(id)
+    );
+
+    -- Task receipts: task claims confirmed by the counterparty, counted once in a work report
+    CREATE TABLE IF NOT EXISTS task_receipts (
+      id TEXT PRIMARY KEY,
+      agent_id TEXT NOT NULL,
+      task_id TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      positive_feedback INTEGER DEFAULT 0,
+      countersigner TEXT NOT NULL,
+      signature TEXT,
+      report_id TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE (agent_id, countersigner, task_id),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Abuse reports: reports of misbehaving agents, triaged in the moderation queue
+    CREATE TABLE IF NOT EXISTS abuse_reports (
+      id TEXT PRIMARY KEY,
+      agent_id TEXT NOT NULL,
+      agent_did TEXT NOT NULL,
+      reporter TEXT NOT NULL,
+      category TEXT NOT NULL,
+      description TEXT NOT NULL,
+      evidence TEXT DEFAULT '[]',
+      status TEXT DEFAULT 'open',
+      agent_response TEXT,
+      agent_responded_at TEXT,
+      resolution_action TEXT,
+      resolution_note TEXT,
+      penalty REAL,
+      resolved_by TEXT,
+      resolved_at TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Webhook subscriptions: platforms notified of agent events
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      owner_id TEXT NOT NULL,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      event_types TEXT DEFAULT '[]',
+      dids TEXT DEFAULT '[]',
+      owners TEXT DEFAULT '[]',
+      description TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    -- Webhook deliveries: one per event and subscription, retried until delivered or dead
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      subscription_id TEXT NOT NULL,
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT DEFAULT 'pending',
+      attempts INTEGER DEFAULT 0,
+      next_attempt_at TEXT,
+      last_attempt_at TEXT,
+      response_status INTEGER,
+      last_error TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (subscription_id) REFERENCES webhooks(id)
+    );
+
     -- API keys for authentication
     CREATE TABLE IF NOT EXISTS api_keys (
       id TEXT PRIMARY KEY,
@@ -64,49 +192,223 @@ export function initializeDatabase() {
       name TEXT,
       permissions TEXT DEFAULT '["read"]',
       created_at TEXT DEFAULT (datetime('now')),
-      last_used_at TEXT
+      last_used_at TEXT,
+      usage_count INTEGER DEFAULT 0
+    );
+
+    -- API key usage: one counter per key, scope and UTC day
+    CREATE TABLE IF NOT EXISTS api_key_usage (
+      api_key_id TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      date TEXT NOT NULL,
+      count INTEGER DEFAULT 0,
+      PRIMARY KEY (api_key_id, scope, date),
+      FOREIGN KEY (api_key_id) REFERENCES api_keys(id)
+    );
+
+    -- Rate limiting: one counter per identifier and action within a window
+    CREATE TABLE IF NOT EXISTS rate_limits (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      identifier TEXT NOT NULL,
+      action_type TEXT NOT NULL,
+      count INTEGER DEFAULT 1,
+      window_start TEXT NOT NULL,
+      UNIQUE (identifier, action_type)
+    );
+
+    -- Agent auth challenges: single-use nonces, kept until expiry so replays are rejected
+    CREATE TABLE IF NOT EXISTS auth_challenges (
+      nonce TEXT PRIMARY KEY,
+      did TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    -- Agent token sessions: refresh token hashes from POST /auth/token, rotated on every refresh
+    CREATE TABLE IF NOT EXISTS agent_sessions (
+      id TEXT PRIMARY KEY,
+      agent_id TEXT NOT NULL,
+      did TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      refresh_token_hash TEXT UNIQUE NOT NULL,
+      previous_token_hash TEXT,
+      expires_at TEXT NOT NULL,
+      refreshed_at TEXT,
+      revoked_at TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Key history: every public key an agent has used, for rotation
+    CREATE TABLE IF NOT EXISTS agent_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_id TEXT NOT NULL,
+      key_index INTEGER NOT NULL,
+      public_key TEXT NOT NULL,
+      valid_from TEXT NOT NULL,
+      valid_until TEXT,
+      rotation_signature TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE (agent_id, key_index),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Status history: every lifecycle change with who made it and why
+    CREATE TABLE IF NOT EXISTS agent_status_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_id TEXT NOT NULL,
+      from_status TEXT NOT NULL,
+      to_status TEXT NOT NULL,
+      reason TEXT,
+      changed_by TEXT NOT NULL,
+      signature TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Ownership history: every claim, transfer and release of an agent (and its subtree)
+    CREATE TABLE IF NOT EXISTS agent_ownership_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_id TEXT NOT NULL,
+      from_user_id TEXT,
+      to_user_id TEXT,
+      changed_by TEXT NOT NULL,
+      transfer_id TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Ownership transfers between accounts, pending until the recipient accepts
+    CREATE TABLE IF NOT EXISTS ownership_transfers (
+      id TEXT PRIMARY KEY,
+      agent_id TEXT NOT NULL,
+      from_user_id TEXT NOT NULL,
+      to_user_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      expires_at TEXT NOT NULL,
+      resolved_by TEXT,
+      resolved_at TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Transparency log: every registration, key rotation and revocation as an append-only
+    -- Merkle tree leaf (leaf_index from 0, in order)
+    CREATE TABLE IF NOT EXISTS transparency_log (
+      leaf_index INTEGER PRIMARY KEY,
+      entry_type TEXT NOT NULL,
+      did TEXT NOT NULL,
+      public_key TEXT NOT NULL,
+      key_id TEXT NOT NULL,
+      leaf_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    -- Signed tree heads: issuer-signed log roots, one per tree size
+    CREATE TABLE IF NOT EXISTS log_tree_heads (
+      tree_size INTEGER PRIMARY KEY,
+      root_hash TEXT NOT NULL,
+      issuer TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      created_at TEXT NOT NULL
     );
 
     -- Create indexes
     CREATE INDEX IF NOT EXISTS idx_agents_did ON agents(did);
     CREATE INDEX IF NOT EXISTS idx_agents_owner ON agents(owner_id);
+    CREATE INDEX IF NOT EXISTS idx_agents_created ON agents(created_at, id);
     CREATE INDEX IF NOT EXISTS idx_verifications_agent ON verifications(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_verifications_claim_type ON verifications(claim_type, agent_id);
     CREATE INDEX IF NOT EXISTS idx_reputation_agent ON reputation_events(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_agent_keys_agent ON agent_keys(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_status_history_agent ON agent_status_history(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_ownership_history_agent ON agent_ownership_history(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_ownership_transfers_agent ON ownership_transfers(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_ownership_transfers_from ON ownership_transfers(from_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_ownership_transfers_to ON ownership_transfers(to_user_id, status);
+    -- At most one pending transfer per agent
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_ownership_transfers_pending ON ownership_transfers(agent_id) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_auth_challenges_expires ON auth_challenges(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_agent_sessions_agent ON agent_sessions(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_agent_sessions_previous ON agent_sessions(previous_token_hash);
+    CREATE INDEX IF NOT EXISTS idx_endorsements_subject ON endorsements(subject_id);
+    CREATE INDEX IF NOT EXISTS idx_task_receipts_agent ON task_receipts(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_abuse_reports_agent ON abuse_reports(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_abuse_reports_status ON abuse_reports(status, created_at);
+    CREATE INDEX IF NOT EXISTS idx_webhooks_owner ON webhooks(owner_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_transparency_log_did ON transparency_log(did);
+
+    -- The transparency log is append-only
+    CREATE TRIGGER IF NOT EXISTS transparency_log_no_update BEFORE UPDATE ON transparency_log
+    BEGIN
+      SELECT RAISE(ABORT, 'the transparency log is append-only');
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS transparency_log_no_delete BEFORE DELETE ON transparency_log
+    BEGIN
+      SELECT RAISE(ABORT, 'the transparency log is append-only');
+    END;
+
+    -- Backfill key history for agents registered before key rotation existed
+    INSERT INTO agent_keys (agent_id, key_index, public_key, valid_from)
+    SELECT id, 1, public_key, strftime('%Y-%m-%dT%H:%M:%fZ', created_at)
+    FROM agents
+    WHERE id NOT IN (SELECT agent_id FROM agent_keys);
   `);
 
-  console.log('Database initialized at:', DB_PATH);
-}
+  // Columns added after the initial schema
+  addColumnIfMissing(db, 'agents', 'status_reason', 'TEXT');
+  addColumnIfMissing(db, 'agents', 'status_changed_at', 'TEXT');
+  addColumnIfMissing(db, 'agents', 'claim_code', 'TEXT');
+  addColumnIfMissing(db, 'agents', 'claim_code_expires_at', 'TEXT');
+  addColumnIfMissing(db, 'agents', 'user_id', 'TEXT');
+  addColumnIfMissing(db, 'agents', 'parent_did', 'TEXT');
+  addColumnIfMissing(db, 'agents', 'agent_type', "TEXT DEFAULT 'main'");
+  addColumnIfMissing(db, 'agents', 'did_web_verified_at', 'TEXT');
+  addColumnIfMissing(db, 'api_keys', 'usage_count', 'INTEGER DEFAULT 0');
+  addColumnIfMissing(db, 'verifications', 'credential', 'TEXT');
+  addColumnIfMissing(db, 'verifications', 'credential_jwt', 'TEXT');
+  addColumnIfMissing(db, 'reputation_events', 'seq', 'INTEGER');
+  addColumnIfMissing(db, 'reputation_events', 'prev_hash', 'TEXT');
+  addColumnIfMissing(db, 'reputation_events', 'hash', 'TEXT');
 
-// Agent types
-export interface Agent {
-  id: string;
-  name: string;
-  owner_id: string | null;
-  public_key: string;
-  did: string;
-  metadata: string;
-  status: string;
-  created_at: string;
-  updated_at: string;
-}
+  // Claim codes from before they expired: used ones are cleared, the rest get a full lifetime from now
+  db.prepare('UPDATE agents SET claim_code = NULL WHERE claim_code IS NOT NULL AND user_id IS NOT NULL').run();
+  db.prepare('UPDATE agents SET claim_code_expires_at = ? WHERE claim_code IS NOT NULL AND claim_code_expires_at IS NULL')
+    .run(new Date(Date.now() + CLAIM_CODE_TTL_MS).toISOString());
+
+  db.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_agents_claim_code ON agents(claim_code);
+    CREATE INDEX IF NOT EXISTS idx_agents_user ON agents(user_id);
+    CREATE INDEX IF NOT EXISTS idx_agents_parent ON agents(parent_did);
+    CREATE INDEX IF NOT EXISTS idx_api_keys_owner ON api_keys(owner_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_reputation_chain ON reputation_events(agent_id, seq);
+
+    -- Sealed reputation events are append-only
+    CREATE TRIGGER IF NOT EXISTS reputation_events_no_update BEFORE UPDATE ON reputation_events
+    WHEN OLD.hash IS NOT NULL
+    BEGIN
+      SELECT RAISE(ABORT, 'reputation events are append-only');
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS reputation_events_no_delete BEFORE DELETE ON reputation_events
+    WHEN OLD.hash IS NOT NULL
+    BEGIN
+      SELECT RAISE(ABORT, 'reputation events are append-only');
+    END;
+  `);
 
-export interface Verification {
-  id: string;
-  agent_id: string;
-  verifier_id: string | null;
-  claim_type: string;
-  claim_value: string | null;
-  verified_at: string;
-  expires_at: string | null;
-  signature: string | null;
+  console.log('Database initialized at:', db.name);
 }
 
-export interface ReputationEvent {
-  id: number;
-  agent_id: string;
-  event_type: string;
-  score_delta: number;
-  description: string | null;
-  metadata: string;
-  created_at: string;
+// CREATE TABLE IF NOT EXISTS doesn't alter existing databases, so add new columns explicitly
+// (SQLite can't add UNIQUE columns, so uniqueness is enforced by an index instead)
+function addColumnIfMissing(db: DatabaseType, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
 }
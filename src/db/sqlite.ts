@@ -0,0 +1,1037 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { openDatabase, initializeDatabase } from './schema';
+import { applyContribution, eventContribution } from '../utils/reputation';
+import { chainLink } from '../utils/eventchain';
+import { Store, Agent, AgentKey, AgentStatusChange, AgentOwnershipChange, OwnershipTransfer, Verification, ReputationEvent, ReputationAggregate, ReputationChainHead, ReputationCheckpoint, LogEntry, TreeHead, Endorsement, TaskReceipt, TaskReceiptStats, AbuseReport, AbuseReportStats, WebhookSubscription, WebhookDelivery, ApiKey, ApiKeyUsage, AuthChallenge, AgentSession, ConflictError } from './store';
+
+/**
+ * SQLite implementation of the Store (better-sqlite3, synchronous under the hood)
+ *
+ * JSON columns (metadata, credential, permissions) are stored as TEXT and parsed on read.
+ */
+
+// Rows written before timestamps were set from JS use SQLite's 'YYYY-MM-DD HH:MM:SS' (UTC)
+function toISO(value: string | null): string | null {
+  if (!value || value.includes('T')) return value;
+  return `${value.replace(' ', 'T')}Z`;
+}
+
+function parseJSON<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+// Match LIKE wildcards literally (with ESCAPE '\')
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+function toAgent(row: any): Agent | null {
+  if (!row) return null;
+  return {
+    ...row,
+    metadata: parseJSON(row.metadata, {}),
+    agent_type: row.agent_type || 'main',
+    status_changed_at: toISO(row.status_changed_at),
+    created_at: toISO(row.created_at),
+    updated_at: toISO(row.updated_at)
+  };
+}
+
+function toOwnershipTransfer(row: any): OwnershipTransfer | null {
+  if (!row) return null;
+  return { ...row, created_at: toISO(row.created_at) };
+}
+
+function toVerification(row: any): Verification {
+  return {
+    ...row,
+    verified_at: toISO(row.verified_at),
+    credential: parseJSON(row.credential, null)
+  };
+}
+
+function toReputationEvent(row: any): ReputationEvent {
+  return {
+    ...row,
+    metadata: parseJSON(row.metadata, {}),
+    created_at: toISO(row.created_at)
+  };
+}
+
+function toCheckpoint(row: any): ReputationCheckpoint | null {
+  if (!row) return null;
+  return { ...row, heads: parseJSON(row.heads, []) };
+}
+
+function toApiKey(row: any): ApiKey | null {
+  if (!row) return null;
+  return {
+    ...row,
+    permissions: parseJSON(row.permissions, ['read']),
+    usage_count: row.usage_count || 0,
+    created_at: toISO(row.created_at)
+  };
+}
+
+function toTaskReceipt(row: any): TaskReceipt | null {
+  if (!row) return null;
+  return {
+    ...row,
+    positive_feedback: !!row.positive_feedback,
+    created_at: toISO(row.created_at)
+  };
+}
+
+function toAbuseReport(row: any): AbuseReport | null {
+  if (!row) return null;
+  return {
+    ...row,
+    evidence: parseJSON(row.evidence, []),
+    created_at: toISO(row.created_at),
+    updated_at: toISO(row.updated_at)
+  };
+}
+
+function toWebhook(row: any): WebhookSubscription | null {
+  if (!row) return null;
+  return {
+    ...row,
+    event_types: parseJSON(row.event_types, []),
+    dids: parseJSON(row.dids, []),
+    owners: parseJSON(row.owners, []),
+    created_at: toISO(row.created_at)
+  };
+}
+
+function toWebhookDelivery(row: any): WebhookDelivery | null {
+  if (!row) return null;
+  return {
+    ...row,
+    payload: parseJSON(row.payload, {}),
+    created_at: toISO(row.created_at)
+  };
+}
+
+function toAgentSession(row: any): AgentSession | null {
+  if (!row) return null;
+  return {
+    ...row,
+    scope: parseJSON(row.scope, []),
+    created_at: toISO(row.created_at)
+  };
+}
+
+function isUniqueViolation(error: any): boolean {
+  return typeof error?.message === 'string' && error.message.includes('UNIQUE constraint');
+}
+
+// Owner accounts live in Supabase Auth; without credentials the SQLite server has no owner accounts
+let authClient: SupabaseClient | null = null;
+function getAuthClient(): SupabaseClient | null {
+  if (!authClient && process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) {
+    authClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
+  }
+  return authClient;
+}
+
+/**
+ * Create a Store backed by a SQLite database file
+ */
+export function createSqliteStore(db: DatabaseType = openDatabase()): Store {
+  initializeDatabase(db);
+
+  const saveAggregate = (aggregate: ReputationAggregate) => {
+    db.prepare(`
+      INSERT INTO reputation_aggregates (agent_id, algorithm, score_sum, volume, event_count, tasks_completed, last_event_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (agent_id) DO UPDATE SET
+        algorithm = excluded.algorithm, score_sum = excluded.score_sum, volume = excluded.volume,
+        event_count = excluded.event_count, tasks_completed = excluded.tasks_completed,
+        last_event_at = excluded.last_event_at, updated_at = excluded.updated_at
+    `).run(aggregate.agent_id, aggregate.algorithm, aggregate.score_sum, aggregate.volume, aggregate.event_count,
+      aggregate.tasks_completed, aggregate.last_event_at, aggregate.updated_at);
+  };
+
+  // Last sealed event in an agent's reputation chain
+  const chainHead = (agentId: string): ReputationChainHead | null => {
+    return (db.prepare(`
+      SELECT agent_id, seq, hash FROM reputation_events
+      WHERE agent_id = ? AND hash IS NOT NULL ORDER BY seq DESC LIMIT 1
+    `).get(agentId) as ReputationChainHead | undefined) || null;
+  };
+
+  const insertTaskReceipt = (receipt: Omit<TaskReceipt, 'created_at'>) => {
+    db.prepare(`
+      INSERT INTO task_receipts (id, agent_id, task_id, outcome, positive_feedback, countersigner, signature, report_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(receipt.id, receipt.agent_id, receipt.task_id, receipt.outcome, receipt.positive_feedback ? 1 : 0,
+      receipt.countersigner, receipt.signature, receipt.report_id, new Date().toISOString());
+  };
+
+  const store: Store = {
+    // Agents
+    async createAgent(agent) {
+      const now = new Date().toISOString();
+      try {
+        db.transaction(() => {
+          db.prepare(`
+            INSERT INTO agents (id, name, owner_id, public_key, did, metadata, status, claim_code, claim_code_expires_at, user_id, parent_did, agent_type, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(
+            agent.id, agent.name, agent.owner_id, agent.public_key, agent.did, JSON.stringify(agent.metadata),
+            agent.status, agent.claim_code, agent.claim_code_expires_at, agent.user_id, agent.parent_did, agent.agent_type, now, now
+          );
+          db.prepare(`
+            INSERT INTO agent_keys (agent_id, key_index, public_key, valid_from, created_at)
+            VALUES (?, 1, ?, ?, ?)
+          `).run(agent.id, agent.public_key, now, now);
+        })();
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('Agent with this public key or DID already exists');
+        }
+        throw error;
+      }
+      return (await store.getAgentById(agent.id))!;
+    },
+
+    async getAgentById(id) {
+      return toAgent(db.prepare('SELECT * FROM agents WHERE id = ?').get(id));
+    },
+
+    async getAgentByDid(did) {
+      return toAgent(db.prepare('SELECT * FROM agents WHERE did = ?').get(did));
+    },
+
+    async getAgentsByDids(dids) {
+      if (dids.length === 0) return [];
+      const rows = db.prepare(`SELECT * FROM agents WHERE did IN (${dids.map(() => '?').join(', ')})`).all(...dids);
+      return rows.map(row => toAgent(row)!);
+    },
+
+    async getAgentByClaimCode(claimCode) {
+      return toAgent(db.prepare('SELECT * FROM agents WHERE claim_code = ?').get(claimCode));
+    },
+
+    async listAgents(limit, offset) {
+      const rows = db.prepare('SELECT * FROM agents ORDER BY created_at DESC LIMIT ? OFFSET ?').all(limit, offset);
+      const { total } = db.prepare('SELECT COUNT(*) as total FROM agents').get() as { total: number };
+      return { agents: rows.map(row => toAgent(row)!), total };
+    },
+
+    async searchAgents(search) {
+      const { model } = search;
+      const decay = model.half_life_days
+        ? 'pow(0.5, MAX(0, julianday(?) - julianday(ra.last_event_at)) / ?)'
+        : '1';
+      const decayParams = model.half_life_days ? [search.as_of, model.half_life_days] : [];
+      const score = `ROUND(MAX(?, MIN(?, ? + COALESCE(ra.score_sum * ${decay}, 0))), 2)`;
+      const scoreParams = [model.min, model.max, model.base, ...decayParams];
+      const sortKey = {
+        created_at: { sql: 'a.created_at', params: [] as unknown[] },
+        activity: { sql: 'COALESCE(ra.last_event_at, a.created_at)', params: [] as unknown[] },
+        name: { sql: 'LOWER(a.name)', params: [] as unknown[] },
+        reputation: { sql: score, params: scoreParams }
+      }[search.sort];
+
+      const conditions = ['a.created_at <= ?'];
+      const params: unknown[] = [search.as_of];
+      for (const term of search.terms || []) {
+        conditions.push("a.name LIKE ? ESCAPE '\\'");
+        params.push(`%${escapeLike(term)}%`);
+      }
+      if (search.name_prefix) {
+        conditions.push("a.name LIKE ? ESCAPE '\\'");
+        params.push(`${escapeLike(search.name_prefix)}%`);
+      }
+      if (search.agent_type) {
+        conditions.push('a.agent_type = ?');
+        params.push(search.agent_type);
+      }
+      if (search.statuses?.length) {
+        conditions.push(`a.status IN (${search.statuses.map(() => '?').join(', ')})`);
+        params.push(...search.statuses);
+      }
+      if (search.owner_id) {
+        conditions.push('a.owner_id = ?');
+        params.push(search.owner_id);
+      }
+      for (const claimType of search.claim_types || []) {
+        conditions.push(`EXISTS (
+          SELECT 1 FROM verifications v
+          WHERE v.agent_id = a.id AND v.claim_type = ? AND (v.expires_at IS NULL OR v.expires_at > ?)
+        )`);
+        params.push(claimType, search.as_of);
+      }
+      if (search.registered_after) {
+        conditions.push('a.created_at >= ?');
+        params.push(search.registered_after);
+      }
+      if (search.registered_before) {
+        conditions.push('a.created_at <= ?');
+        params.push(search.registered_before);
+      }
+      for (const [key, value] of Object.entries(search.metadata || {})) {
+        // json_extract turns booleans into 1 and 0
+        conditions.push(`(CASE json_type(a.metadata, '$."' || ? || '"')
+          WHEN 'true' THEN 'true' WHEN 'false' THEN 'false'
+          ELSE CAST(json_extract(a.metadata, '$."' || ? || '"') AS TEXT) END) = ?`);
+        params.push(key, key, value);
+      }
+      if (search.min_reputation !== undefined) {
+        conditions.push(`${score} >= ?`);
+        params.push(...scoreParams, search.min_reputation);
+      }
+      if (search.max_reputation !== undefined) {
+        conditions.push(`${score} <= ?`);
+        params.push(...scoreParams, search.max_reputation);
+      }
+
+      const from = 'FROM agents a LEFT JOIN reputation_aggregates ra ON ra.agent_id = a.id AND ra.algorithm = ?';
+      const { total } = db.prepare(`SELECT COUNT(*) as total ${from} WHERE ${conditions.join(' AND ')}`)
+        .get(model.algorithm, ...params) as { total: number };
+
+      // Keyset: rows strictly after the previous page's last (sort value, id)
+      if (search.after) {
+        conditions.push(`(${sortKey.sql}, a.id) ${search.order === 'asc' ? '>' : '<'} (?, ?)`);
+        params.push(...sortKey.params, search.after.value, search.after.id);
+      }
+
+      const direction = search.order === 'asc' ? 'ASC' : 'DESC';
+      const rows = db.prepare(`
+        SELECT a.*, ${sortKey.sql} AS sort_value, ${score} AS reputation_score
+        ${from}
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY sort_value ${direction}, a.id ${direction}
+        LIMIT ? OFFSET ?
+      `).all(...sortKey.params, ...scoreParams, model.algorithm, ...params, search.limit, search.offset || 0) as any[];
+
+      return {
+        agents: rows.map(row => ({ ...toAgent(row)!, sort_value: row.sort_value, reputation_score: row.reputation_score })),
+        total
+      };
+    },
+
+    async getAgentsByUser(userId) {
+      const rows = db.prepare('SELECT * FROM agents WHERE user_id = ? ORDER BY created_at DESC').all(userId);
+      return rows.map(row => toAgent(row)!);
+    },
+
+    async getChildAgents(parentDid) {
+      const rows = db.prepare('SELECT * FROM agents WHERE parent_did = ? ORDER BY created_at DESC').all(parentDid);
+      return rows.map(row => toAgent(row)!);
+    },
+
+    async getAgentSubtree(did, maxDepth) {
+      const rows = db.prepare(`
+        WITH RECURSIVE subtree(did, depth) AS (
+          SELECT did, 1 FROM agents WHERE parent_did = ?
+          UNION ALL
+          SELECT a.did, s.depth + 1 FROM agents a JOIN subtree s ON a.parent_did = s.did
+          WHERE ? IS NULL OR s.depth < ?
+        )
+        SELECT agents.*, subtree.depth FROM subtree JOIN agents ON agents.did = subtree.did
+        ORDER BY subtree.depth ASC, agents.created_at ASC
+      `).all(did, maxDepth ?? null, maxDepth ?? null) as any[];
+      return rows.map(row => ({ ...toAgent(row)!, depth: row.depth }));
+    },
+
+    async updateAgent(id, updates) {
+      const { id: _id, created_at, ...fields } = updates;
+      const columns = Object.keys(fields) as (keyof typeof fields)[];
+      const values = columns.map(c => c === 'metadata' ? JSON.stringify(fields[c]) : fields[c]);
+
+      db.prepare(`UPDATE agents SET ${[...columns.map(c => `${c} = ?`), 'updated_at = ?'].join(', ')} WHERE id = ?`)
+        .run(...values, new Date().toISOString(), id);
+      return store.getAgentById(id);
+    },
+
+    async getStats() {
+      const agents = db.prepare(`
+        SELECT
+          COUNT(*) as total_agents,
+          COALESCE(SUM(CASE WHEN agent_type = 'worker' THEN 1 ELSE 0 END), 0) as worker_agents,
+          COALESCE(SUM(CASE WHEN datetime(created_at) > datetime(?) THEN 1 ELSE 0 END), 0) as registrations_24h
+        FROM agents
+      `).get(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()) as { total_agents: number; worker_agents: number; registrations_24h: number };
+      const { total_verifications } = db.prepare('SELECT COUNT(*) as total_verifications FROM verifications').get() as { total_verifications: number };
+
+      return {
+        total_agents: agents.total_agents,
+        main_agents: agents.total_agents - agents.worker_agents,
+        worker_agents: agents.worker_agents,
+        total_verifications,
+        registrations_24h: agents.registrations_24h
+      };
+    },
+
+    // Ownership
+    async changeAgentOwner(agentId, fromUserId, toUserId, changedBy, transferId) {
+      return db.transaction(() => {
+        const agent = db.prepare('SELECT did, user_id FROM agents WHERE id = ?').get(agentId) as { did: string; user_id: string | null } | undefined;
+        if (!agent || agent.user_id !== fromUserId) return null;
+
+        const now = new Date().toISOString();
+        db.prepare('UPDATE agents SET user_id = ?, claim_code = NULL, claim_code_expires_at = NULL, updated_at = ? WHERE id = ?')
+          .run(toUserId, now, agentId);
+        db.prepare(`
+          INSERT INTO agent_ownership_history (agent_id, from_user_id, to_user_id, changed_by, transfer_id, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(agentId, fromUserId, toUserId, changedBy, transferId, now);
+        return db.prepare(`
+          WITH RECURSIVE subtree(did) AS (
+            SELECT did FROM agents WHERE parent_did = ?
+            UNION ALL
+            SELECT a.did FROM agents a JOIN subtree s ON a.parent_did = s.did
+          )
+          UPDATE agents SET user_id = ?, updated_at = ? WHERE did IN (SELECT did FROM subtree)
+        `).run(agent.did, toUserId, now).changes;
+      })();
+    },
+
+    async getOwnershipHistory(agentId) {
+      const rows = db.prepare('SELECT * FROM agent_ownership_history WHERE agent_id = ? ORDER BY created_at DESC, id DESC')
+        .all(agentId) as AgentOwnershipChange[];
+      return rows.map(row => ({ ...row, created_at: toISO(row.created_at)! }));
+    },
+
+    async createOwnershipTransfer(transfer) {
+      const now = new Date().toISOString();
+      try {
+        db.prepare(`
+          INSERT INTO ownership_transfers (id, agent_id, from_user_id, to_user_id, status, expires_at, created_at)
+          VALUES (?, ?, ?, ?, 'pending', ?, ?)
+        `).run(transfer.id, transfer.agent_id, transfer.from_user_id, transfer.to_user_id, transfer.expires_at, now);
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('This agent already has a pending transfer');
+        }
+        throw error;
+      }
+      return (await store.getOwnershipTransfer(transfer.id))!;
+    },
+
+    async getOwnershipTransfer(id) {
+      return toOwnershipTransfer(db.prepare('SELECT * FROM ownership_transfers WHERE id = ?').get(id));
+    },
+
+    async getOwnershipTransfersByAgent(agentId) {
+      const rows = db.prepare('SELECT * FROM ownership_transfers WHERE agent_id = ? ORDER BY created_at DESC').all(agentId);
+      return rows.map(row => toOwnershipTransfer(row)!);
+    },
+
+    async getPendingOwnershipTransfers(userId) {
+      const rows = db.prepare(`
+        SELECT * FROM ownership_transfers
+        WHERE status = 'pending' AND (from_user_id = ? OR to_user_id = ?)
+        ORDER BY created_at DESC
+      `).all(userId, userId);
+      return rows.map(row => toOwnershipTransfer(row)!);
+    },
+
+    async resolveOwnershipTransfer(id, status, resolvedBy, resolvedAt) {
+      const { changes } = db.prepare(`
+        UPDATE ownership_transfers SET status = ?, resolved_by = ?, resolved_at = ?
+        WHERE id = ? AND status = 'pending'
+      `).run(status, resolvedBy, resolvedAt, id);
+      return changes > 0 ? store.getOwnershipTransfer(id) : null;
+    },
+
+    // Key history
+    async getAgentKeys(agentId) {
+      const rows = db.prepare('SELECT * FROM agent_keys WHERE agent_id = ? ORDER BY key_index ASC').all(agentId) as AgentKey[];
+      return rows.map(row => ({
+        ...row,
+        valid_from: toISO(row.valid_from)!,
+        valid_until: toISO(row.valid_until),
+        created_at: toISO(row.created_at)!
+      }));
+    },
+
+    async rotateAgentKey(agentId, keyIndex, newPublicKey, signature, rotatedAt) {
+      db.transaction(() => {
+        db.prepare('UPDATE agent_keys SET valid_until = ? WHERE agent_id = ? AND valid_until IS NULL')
+          .run(rotatedAt, agentId);
+        db.prepare(`
+          INSERT INTO agent_keys (agent_id, key_index, public_key, valid_from, rotation_signature, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(agentId, keyIndex, newPublicKey, rotatedAt, signature, rotatedAt);
+        db.prepare('UPDATE agents SET public_key = ?, updated_at = ? WHERE id = ?')
+          .run(newPublicKey, rotatedAt, agentId);
+      })();
+
+      const keys = await store.getAgentKeys(agentId);
+      return keys.find(k => k.key_index === keyIndex) || null;
+    },
+
+    // Status lifecycle
+    async changeAgentStatus(agent, status, reason, changedBy, signature) {
+      const changedAt = new Date().toISOString();
+      db.transaction(() => {
+        db.prepare(`
+          UPDATE agents SET status = ?, status_reason = ?, status_changed_at = ?, updated_at = ?
+          WHERE id = ?
+        `).run(status, reason, changedAt, changedAt, agent.id);
+        db.prepare(`
+          INSERT INTO agent_status_history (agent_id, from_status, to_status, reason, changed_by, signature, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(agent.id, agent.status, status, reason, changedBy, signature, changedAt);
+      })();
+      return store.getAgentById(agent.id);
+    },
+
+    async getStatusHistory(agentId) {
+      const rows = db.prepare('SELECT * FROM agent_status_history WHERE agent_id = ? ORDER BY created_at DESC, id DESC')
+        .all(agentId) as AgentStatusChange[];
+      return rows.map(row => ({ ...row, created_at: toISO(row.created_at)! }));
+    },
+
+    // Verifications
+    async createVerification(verification) {
+      db.prepare(`
+        INSERT INTO verifications (id, agent_id, verifier_id, claim_type, claim_value, verified_at, expires_at, signature, credential, credential_jwt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        verification.id,
+        verification.agent_id,
+        verification.verifier_id,
+        verification.claim_type,
+        verification.claim_value,
+        verification.verified_at,
+        verification.expires_at,
+        verification.signature,
+        verification.credential ? JSON.stringify(verification.credential) : null,
+        verification.credential_jwt
+      );
+      return verification;
+    },
+
+    async getVerificationsByAgent(agentId) {
+      const rows = db.prepare(`
+        SELECT * FROM verifications
+        WHERE agent_id = ?
+        AND (expires_at IS NULL OR expires_at > ?)
+        ORDER BY verified_at DESC
+      `).all(agentId, new Date().toISOString());
+      return rows.map(toVerification);
+    },
+
+    // Reputation events: the event and the agent's aggregate are written in one transaction
+    async createReputationEvent(event) {
+      return db.transaction(() => {
+        const createdAt = new Date().toISOString();
+        const link = chainLink({ ...event, created_at: createdAt }, chainHead(event.agent_id));
+        const result = db.prepare(`
+          INSERT INTO reputation_events (agent_id, seq, event_type, score_delta, description, metadata, prev_hash, hash, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(event.agent_id, link.seq, event.event_type, event.score_delta, event.description, JSON.stringify(event.metadata || {}),
+          link.prev_hash, link.hash, createdAt);
+        const created = toReputationEvent(db.prepare('SELECT * FROM reputation_events WHERE id = ?').get(result.lastInsertRowid));
+
+        const current = db.prepare('SELECT * FROM reputation_aggregates WHERE agent_id = ?').get(event.agent_id) as ReputationAggregate | undefined;
+        saveAggregate(applyContribution(current || null, event.agent_id, eventContribution(created), created.created_at));
+        return created;
+      })();
+    },
+
+    async getReputationEvents(agentId, limit) {
+      // LIMIT -1 is no limit in SQLite
+      const rows = db.prepare(`
+        SELECT * FROM reputation_events
+        WHERE agent_id = ?
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?
+      `).all(agentId, limit ?? -1);
+      return rows.map(toReputationEvent);
+    },
+
+    async getReputationChain(agentId) {
+      const rows = db.prepare('SELECT * FROM reputation_events WHERE agent_id = ? AND hash IS NOT NULL ORDER BY seq ASC').all(agentId);
+      return rows.map(toReputationEvent);
+    },
+
+    async getReputationChainHead(agentId) {
+      return chainHead(agentId);
+    },
+
+    async getReputationChainHeads() {
+      return db.prepare(`
+        SELECT e.agent_id, e.seq, e.hash FROM reputation_events e
+        JOIN (SELECT agent_id, MAX(seq) AS seq FROM reputation_events WHERE hash IS NOT NULL GROUP BY agent_id) h
+          ON e.agent_id = h.agent_id AND e.seq = h.seq
+      `).all() as ReputationChainHead[];
+    },
+
+    async getUnsealedReputationEvents(limit) {
+      const rows = db.prepare('SELECT * FROM reputation_events WHERE hash IS NULL ORDER BY created_at ASC, id ASC LIMIT ?').all(limit);
+      return rows.map(toReputationEvent);
+    },
+
+    async sealReputationEvent(id, seq, prevHash, hash) {
+      return db.prepare('UPDATE reputation_events SET seq = ?, prev_hash = ?, hash = ? WHERE id = ? AND hash IS NULL')
+        .run(seq, prevHash, hash, id).changes > 0;
+    },
+
+    async createReputationCheckpoint(checkpoint) {
+      const result = db.prepare(`
+        INSERT INTO reputation_checkpoints (root, agent_count, event_count, heads, issuer, signature, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(checkpoint.root, checkpoint.agent_count, checkpoint.event_count, JSON.stringify(checkpoint.heads),
+        checkpoint.issuer, checkpoint.signature, checkpoint.created_at);
+      return toCheckpoint(db.prepare('SELECT * FROM reputation_checkpoints WHERE id = ?').get(result.lastInsertRowid))!;
+    },
+
+    async getLatestReputationCheckpoint() {
+      return toCheckpoint(db.prepare('SELECT * FROM reputation_checkpoints ORDER BY id DESC LIMIT 1').get());
+    },
+
+    async getReputationAggregate(agentId) {
+      return (db.prepare('SELECT * FROM reputation_aggregates WHERE agent_id = ?').get(agentId) as ReputationAggregate | undefined) || null;
+    },
+
+    async getReputationAggregates(agentIds) {
+      if (agentIds.length === 0) return [];
+      return db.prepare(`SELECT * FROM reputation_aggregates WHERE agent_id IN (${agentIds.map(() => '?').join(', ')})`)
+        .all(...agentIds) as ReputationAggregate[];
+    },
+
+    async saveReputationAggregate(aggregate) {
+      saveAggregate(aggregate);
+    },
+
+    // Endorsements
+    async createEndorsement(endorsement) {
+      const created: Endorsement = { ...endorsement, created_at: new Date().toISOString() };
+      try {
+        db.prepare(`
+          INSERT INTO endorsements (id, rater_id, rater_did, subject_id, subject_did, rating, context, interaction_ref, period, weight, signature, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(created.id, created.rater_id, created.rater_did, created.subject_id, created.subject_did, created.rating,
+          created.context, created.interaction_ref, created.period, created.weight, created.signature, created.created_at);
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('Rater already endorsed this agent in this period');
+        }
+        throw error;
+      }
+      return created;
+    },
+
+    async getEndorsementsForAgent(subjectId, limit) {
+      return db.prepare('SELECT * FROM endorsements WHERE subject_id = ? ORDER BY created_at DESC LIMIT ?')
+        .all(subjectId, limit) as Endorsement[];
+    },
+
+    async getEndorsementStats(subjectId) {
+      const row = db.prepare('SELECT COUNT(*) AS count, AVG(rating) AS average_rating FROM endorsements WHERE subject_id = ?')
+        .get(subjectId) as { count: number; average_rating: number | null };
+      return { count: row.count, average_rating: row.average_rating };
+    },
+
+    // Task receipts
+    async createTaskReceipt(receipt) {
+      try {
+        insertTaskReceipt(receipt);
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError(`Task ${receipt.task_id} was already confirmed by ${receipt.countersigner}`);
+        }
+        throw error;
+      }
+      return (await store.getTaskReceipt(receipt.id))!;
+    },
+
+    async getTaskReceipt(id) {
+      return toTaskReceipt(db.prepare('SELECT * FROM task_receipts WHERE id = ?').get(id));
+    },
+
+    async recordReportReceipts(reportId, receipts, claimIds) {
+      try {
+        db.transaction(() => {
+          for (const receipt of receipts) {
+            insertTaskReceipt({ ...receipt, report_id: reportId });
+          }
+          const claim = db.prepare('UPDATE task_receipts SET report_id = ? WHERE id = ? AND report_id IS NULL');
+          for (const id of claimIds) {
+            if (claim.run(reportId, id).changes === 0) {
+              throw new ConflictError(`Receipt ${id} was already counted`);
+            }
+          }
+        })();
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('A task in this report was already confirmed by the same countersigner');
+        }
+        throw error;
+      }
+    },
+
+    async getTaskReceiptStats(agentId) {
+      return db.prepare(`
+        SELECT
+          COALESCE(SUM(CASE WHEN outcome = 'completed' THEN 1 ELSE 0 END), 0) AS completed,
+          COALESCE(SUM(CASE WHEN outcome = 'corrected' THEN 1 ELSE 0 END), 0) AS corrected,
+          COALESCE(SUM(CASE WHEN outcome = 'failed' THEN 1 ELSE 0 END), 0) AS failed,
+          COALESCE(SUM(positive_feedback), 0) AS positive_feedback
+        FROM task_receipts
+        WHERE agent_id = ? AND report_id IS NOT NULL
+      `).get(agentId) as TaskReceiptStats;
+    },
+
+    // Abuse reports
+    async createAbuseReport(report) {
+      const now = new Date().toISOString();
+      db.prepare(`
+        INSERT INTO abuse_reports (id, agent_id, agent_did, reporter, category, description, evidence, status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)
+      `).run(report.id, report.agent_id, report.agent_did, report.reporter, report.category, report.description,
+        JSON.stringify(report.evidence), now, now);
+      return (await store.getAbuseReport(report.id))!;
+    },
+
+    async getAbuseReport(id) {
+      return toAbuseReport(db.prepare('SELECT * FROM abuse_reports WHERE id = ?').get(id));
+    },
+
+    async listAbuseReports(filter, limit, offset) {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+      if (filter.status?.length) {
+        conditions.push(`status IN (${filter.status.map(() => '?').join(', ')})`);
+        params.push(...filter.status);
+      }
+      for (const column of ['category', 'agent_id', 'reporter'] as const) {
+        if (filter[column]) {
+          conditions.push(`${column} = ?`);
+          params.push(filter[column]);
+        }
+      }
+      const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const rows = db.prepare(`SELECT * FROM abuse_reports ${where} ORDER BY created_at ASC LIMIT ? OFFSET ?`).all(...params, limit, offset);
+      const { total } = db.prepare(`SELECT COUNT(*) as total FROM abuse_reports ${where}`).get(...params) as { total: number };
+      return { reports: rows.map(row => toAbuseReport(row)!), total };
+    },
+
+    async updateAbuseReport(id, fromStatuses, updates) {
+      const fields: Record<string, unknown> = { ...updates, updated_at: new Date().toISOString() };
+      if (updates.evidence) fields.evidence = JSON.stringify(updates.evidence);
+      const columns = Object.keys(fields);
+
+      const result = db.prepare(`
+        UPDATE abuse_reports SET ${columns.map(c => `${c} = ?`).join(', ')}
+        WHERE id = ? AND status IN (${fromStatuses.map(() => '?').join(', ')})
+      `).run(...columns.map(c => fields[c]), id, ...fromStatuses);
+      return result.changes > 0 ? store.getAbuseReport(id) : null;
+    },
+
+    async getAbuseReportStats(agentId) {
+      return db.prepare(`
+        SELECT
+          COALESCE(SUM(CASE WHEN status IN ('open', 'reviewing') THEN 1 ELSE 0 END), 0) AS open,
+          COALESCE(SUM(CASE WHEN status = 'actioned' THEN 1 ELSE 0 END), 0) AS actioned,
+          COALESCE(SUM(CASE WHEN status = 'dismissed' THEN 1 ELSE 0 END), 0) AS dismissed
+        FROM abuse_reports
+        WHERE agent_id = ?
+      `).get(agentId) as AbuseReportStats;
+    },
+
+    async getAbuseReportStatsForAgents(agentIds) {
+      if (agentIds.length === 0) return [];
+      return db.prepare(`
+        SELECT
+          agent_id,
+          SUM(CASE WHEN status IN ('open', 'reviewing') THEN 1 ELSE 0 END) AS open,
+          SUM(CASE WHEN status = 'actioned' THEN 1 ELSE 0 END) AS actioned,
+          SUM(CASE WHEN status = 'dismissed' THEN 1 ELSE 0 END) AS dismissed
+        FROM abuse_reports
+        WHERE agent_id IN (${agentIds.map(() => '?').join(', ')})
+        GROUP BY agent_id
+      `).all(...agentIds) as (AbuseReportStats & { agent_id: string })[];
+    },
+
+    // Webhooks
+    async createWebhook(subscription) {
+      db.prepare(`
+        INSERT INTO webhooks (id, owner_id, url, secret, event_types, dids, owners, description, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(subscription.id, subscription.owner_id, subscription.url, subscription.secret, JSON.stringify(subscription.event_types),
+        JSON.stringify(subscription.dids), JSON.stringify(subscription.owners), subscription.description, new Date().toISOString());
+      return (await store.getWebhook(subscription.id))!;
+    },
+
+    async getWebhook(id) {
+      return toWebhook(db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id));
+    },
+
+    async getWebhooksByOwner(ownerId) {
+      const rows = db.prepare('SELECT * FROM webhooks WHERE owner_id = ? ORDER BY created_at DESC').all(ownerId);
+      return rows.map(row => toWebhook(row)!);
+    },
+
+    async getAllWebhooks() {
+      return db.prepare('SELECT * FROM webhooks').all().map(row => toWebhook(row)!);
+    },
+
+    async deleteWebhook(id) {
+      return db.transaction(() => {
+        db.prepare('DELETE FROM webhook_deliveries WHERE subscription_id = ?').run(id);
+        return db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+      })();
+    },
+
+    async createWebhookDeliveries(deliveries) {
+      const insert = db.prepare(`
+        INSERT INTO webhook_deliveries (id, subscription_id, event_id, event_type, payload, status, attempts,
+          next_attempt_at, last_attempt_at, response_status, last_error, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const now = new Date().toISOString();
+      db.transaction(() => {
+        for (const d of deliveries) {
+          insert.run(d.id, d.subscription_id, d.event_id, d.event_type, JSON.stringify(d.payload), d.status, d.attempts,
+            d.next_attempt_at, d.last_attempt_at, d.response_status, d.last_error, now);
+        }
+      })();
+    },
+
+    async getWebhookDelivery(id) {
+      return toWebhookDelivery(db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id));
+    },
+
+    async listWebhookDeliveries(subscriptionId, status, limit, offset) {
+      const where = status ? 'WHERE subscription_id = ? AND status = ?' : 'WHERE subscription_id = ?';
+      const params = status ? [subscriptionId, status] : [subscriptionId];
+
+      const rows = db.prepare(`SELECT * FROM webhook_deliveries ${where} ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`)
+        .all(...params, limit, offset);
+      const { total } = db.prepare(`SELECT COUNT(*) as total FROM webhook_deliveries ${where}`).get(...params) as { total: number };
+      return { deliveries: rows.map(row => toWebhookDelivery(row)!), total };
+    },
+
+    async getDueWebhookDeliveries(now, limit) {
+      const rows = db.prepare(`
+        SELECT * FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= ?
+        ORDER BY next_attempt_at ASC
+        LIMIT ?
+      `).all(now, limit);
+      return rows.map(row => toWebhookDelivery(row)!);
+    },
+
+    async updateWebhookDelivery(id, updates) {
+      const fields: Record<string, unknown> = { ...updates };
+      if (updates.payload) fields.payload = JSON.stringify(updates.payload);
+      const columns = Object.keys(fields);
+      if (columns.length === 0) return store.getWebhookDelivery(id);
+
+      const result = db.prepare(`UPDATE webhook_deliveries SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`)
+        .run(...columns.map(c => fields[c]), id);
+      return result.changes > 0 ? store.getWebhookDelivery(id) : null;
+    },
+
+    // Transparency log
+    async appendLogEntry(entry) {
+      return db.transaction(() => {
+        const { size } = db.prepare('SELECT COUNT(*) AS size FROM transparency_log').get() as { size: number };
+        db.prepare(`
+          INSERT INTO transparency_log (leaf_index, entry_type, did, public_key, key_id, leaf_hash, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(size, entry.entry_type, entry.did, entry.public_key, entry.key_id, entry.leaf_hash, entry.created_at);
+        return { ...entry, leaf_index: size };
+      })();
+    },
+
+    async getLogSize() {
+      return (db.prepare('SELECT COUNT(*) AS size FROM transparency_log').get() as { size: number }).size;
+    },
+
+    async getLogEntries(start, end) {
+      return db.prepare('SELECT * FROM transparency_log WHERE leaf_index >= ? AND leaf_index < ? ORDER BY leaf_index ASC')
+        .all(start, end) as LogEntry[];
+    },
+
+    async getLogEntriesByDid(did) {
+      return db.prepare('SELECT * FROM transparency_log WHERE did = ? ORDER BY leaf_index ASC').all(did) as LogEntry[];
+    },
+
+    async getLogLeafHashes(treeSize) {
+      const rows = db.prepare('SELECT leaf_hash FROM transparency_log WHERE leaf_index < ? ORDER BY leaf_index ASC')
+        .all(treeSize) as { leaf_hash: string }[];
+      return rows.map(row => row.leaf_hash);
+    },
+
+    async createTreeHead(head) {
+      db.prepare(`
+        INSERT OR IGNORE INTO log_tree_heads (tree_size, root_hash, issuer, signature, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(head.tree_size, head.root_hash, head.issuer, head.signature, head.created_at);
+      return db.prepare('SELECT * FROM log_tree_heads WHERE tree_size = ?').get(head.tree_size) as TreeHead;
+    },
+
+    async getLatestTreeHead() {
+      return (db.prepare('SELECT * FROM log_tree_heads ORDER BY tree_size DESC LIMIT 1').get() as TreeHead | undefined) || null;
+    },
+
+    // Rate limits: one counter row per identifier and action, reset once its window has passed
+    async checkRateLimit(identifier, actionType, maxCount, windowMs) {
+      return db.transaction(() => {
+        const now = new Date();
+        db.prepare('DELETE FROM rate_limits WHERE identifier = ? AND action_type = ? AND window_start < ?')
+          .run(identifier, actionType, new Date(now.getTime() - windowMs).toISOString());
+
+        const current = db.prepare('SELECT id, count FROM rate_limits WHERE identifier = ? AND action_type = ?')
+          .get(identifier, actionType) as { id: number; count: number } | undefined;
+
+        if (!current) {
+          db.prepare('INSERT INTO rate_limits (identifier, action_type, count, window_start) VALUES (?, ?, 1, ?)')
+            .run(identifier, actionType, now.toISOString());
+          return true;
+        }
+
+        if (current.count >= maxCount) {
+          return false;
+        }
+
+        db.prepare('UPDATE rate_limits SET count = count + 1 WHERE id = ?').run(current.id);
+        return true;
+      })();
+    },
+
+    // API keys
+    async createApiKey(apiKey) {
+      try {
+        db.prepare(`
+          INSERT INTO api_keys (id, key_hash, owner_id, name, permissions, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(apiKey.id, apiKey.key_hash, apiKey.owner_id, apiKey.name, JSON.stringify(apiKey.permissions), new Date().toISOString());
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('API key already exists');
+        }
+        throw error;
+      }
+      return toApiKey(db.prepare('SELECT * FROM api_keys WHERE id = ?').get(apiKey.id))!;
+    },
+
+    async getApiKeyById(id) {
+      return toApiKey(db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id));
+    },
+
+    async getApiKeyByHash(keyHash) {
+      return toApiKey(db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash));
+    },
+
+    async getApiKeysByOwner(ownerId) {
+      const rows = db.prepare('SELECT * FROM api_keys WHERE owner_id = ? ORDER BY created_at DESC').all(ownerId);
+      return rows.map(row => toApiKey(row)!);
+    },
+
+    async deleteApiKey(id) {
+      return db.transaction(() => {
+        db.prepare('DELETE FROM api_key_usage WHERE api_key_id = ?').run(id);
+        return db.prepare('DELETE FROM api_keys WHERE id = ?').run(id).changes > 0;
+      })();
+    },
+
+    async recordApiKeyUsage(id, scope, usedAt) {
+      db.transaction(() => {
+        db.prepare('UPDATE api_keys SET last_used_at = ?, usage_count = COALESCE(usage_count, 0) + 1 WHERE id = ?')
+          .run(usedAt, id);
+        db.prepare(`
+          INSERT INTO api_key_usage (api_key_id, scope, date, count) VALUES (?, ?, ?, 1)
+          ON CONFLICT (api_key_id, scope, date) DO UPDATE SET count = count + 1
+        `).run(id, scope, usedAt.slice(0, 10));
+      })();
+    },
+
+    async getApiKeyUsage(id) {
+      return db.prepare('SELECT * FROM api_key_usage WHERE api_key_id = ? ORDER BY date DESC, scope ASC')
+        .all(id) as ApiKeyUsage[];
+    },
+
+    // Agent auth challenges
+    async createAuthChallenge(challenge) {
+      const now = new Date().toISOString();
+      db.transaction(() => {
+        db.prepare('DELETE FROM auth_challenges WHERE expires_at < ?').run(now);
+        db.prepare('INSERT INTO auth_challenges (nonce, did, expires_at, created_at) VALUES (?, ?, ?, ?)')
+          .run(challenge.nonce, challenge.did, challenge.expires_at, now);
+      })();
+      return { ...challenge, used_at: null, created_at: now };
+    },
+
+    async getAuthChallenge(nonce) {
+      return (db.prepare('SELECT * FROM auth_challenges WHERE nonce = ?').get(nonce) as AuthChallenge | undefined) || null;
+    },
+
+    async consumeAuthChallenge(nonce, usedAt) {
+      return db.prepare('UPDATE auth_challenges SET used_at = ? WHERE nonce = ? AND used_at IS NULL')
+        .run(usedAt, nonce).changes > 0;
+    },
+
+    async recordSignatureUse(challenge, usedAt) {
+      return db.prepare(`
+        INSERT INTO auth_challenges (nonce, did, expires_at, used_at, created_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(nonce) DO NOTHING
+      `).run(challenge.nonce, challenge.did, challenge.expires_at, usedAt, usedAt).changes > 0;
+    },
+
+    // Agent token sessions
+    async createAgentSession(session) {
+      const now = new Date().toISOString();
+      db.transaction(() => {
+        db.prepare('DELETE FROM agent_sessions WHERE expires_at < ?').run(now);
+        db.prepare(`
+          INSERT INTO agent_sessions (id, agent_id, did, scope, refresh_token_hash, expires_at, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(session.id, session.agent_id, session.did, JSON.stringify(session.scope), session.refresh_token_hash, session.expires_at, now);
+      })();
+      return { ...session, previous_token_hash: null, refreshed_at: null, revoked_at: null, created_at: now };
+    },
+
+    async getAgentSession(id) {
+      return toAgentSession(db.prepare('SELECT * FROM agent_sessions WHERE id = ?').get(id));
+    },
+
+    async getAgentSessionByRefreshToken(tokenHash) {
+      return toAgentSession(db.prepare('SELECT * FROM agent_sessions WHERE refresh_token_hash = ? OR previous_token_hash = ?')
+        .get(tokenHash, tokenHash));
+    },
+
+    async rotateAgentSession(id, tokenHash, newTokenHash, refreshedAt) {
+      return db.prepare(`
+        UPDATE agent_sessions SET refresh_token_hash = ?, previous_token_hash = ?, refreshed_at = ?
+        WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL
+      `).run(newTokenHash, tokenHash, refreshedAt, id, tokenHash).changes > 0;
+    },
+
+    async revokeAgentSession(id, revokedAt) {
+      return db.prepare('UPDATE agent_sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+        .run(revokedAt, id).changes > 0;
+    },
+
+    async revokeAgentSessions(agentId, revokedAt) {
+      db.prepare('UPDATE agent_sessions SET revoked_at = ? WHERE agent_id = ? AND revoked_at IS NULL')
+        .run(revokedAt, agentId);
+    },
+
+    // Owner accounts
+    async getUserByToken(token) {
+      const client = getAuthClient();
+      if (!client) return null;
+
+      const { data: { user }, error } = await client.auth.getUser(token);
+      if (error || !user) return null;
+      return { id: user.id, email: user.email };
+    }
+  };
+
+  return store;
+}
@@ -0,0 +1,526 @@
+/**
+ * Storage abstraction shared by every backend
+ *
+ * Routers only talk to a Store, so every feature works the same on SQLite (src/db/sqlite.ts),
+ * Supabase (src/db/supabase.ts) and in memory (src/db/memory.ts).
+ */
+
+export interface Agent {
+  id: string;
+  name: string;
+  owner_id: string | null;
+  public_key: string;
+  did: string;
+  metadata: Record<string, any>;
+  status: string;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  claim_code: string | null;             // single use; cleared once the agent is claimed
+  claim_code_expires_at: string | null;
+  user_id: string | null;
+  parent_did: string | null;
+  agent_type: string;
+  did_web_verified_at: string | null;    // did:web only: when the domain last served a document with the current key
+}
+
+export type NewAgent = Omit<Agent, 'status_reason' | 'status_changed_at' | 'did_web_verified_at' | 'created_at' | 'updated_at'>;
+
+export interface AgentKey {
+  id: number;
+  agent_id: string;
+  key_index: number;
+  public_key: string;
+  valid_from: string;
+  valid_until: string | null;
+  rotation_signature: string | null;
+  created_at: string;
+}
+
+export interface AgentStatusChange {
+  id: number;
+  agent_id: string;
+  from_status: string;
+  to_status: string;
+  reason: string | null;
+  changed_by: string;
+  signature: string | null;
+  created_at: string;
+}
+
+// An agent (and its subtree) changing owner account: claimed, transferred or released
+export interface AgentOwnershipChange {
+  id: number;
+  agent_id: string;
+  from_user_id: string | null;          // null when it was unclaimed
+  to_user_id: string | null;            // null when it was released
+  changed_by: string;                   // 'user:<id>'
+  transfer_id: string | null;
+  created_at: string;
+}
+
+// Transfer of a claimed agent to another account, initiated by the owner and accepted by the recipient
+export interface OwnershipTransfer {
+  id: string;
+  agent_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  status: string;                       // pending, accepted, cancelled, expired
+  expires_at: string;
+  resolved_by: string | null;           // 'user:<id>', or 'system' for expiry
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface Verification {
+  id: string;
+  agent_id: string;
+  verifier_id: string | null;
+  claim_type: string;
+  claim_value: string | null;
+  verified_at: string;
+  expires_at: string | null;
+  signature: string | null;
+  credential: Record<string, any> | null;
+  credential_jwt: string | null;
+}
+
+// Each agent's events form a hash chain: event N commits to the hash of event N-1 (see utils/eventchain.ts)
+export interface ReputationEvent {
+  id: number;
+  agent_id: string;
+  seq: number | null;        // position in the agent's chain, from 1; null until sealed
+  event_type: string;
+  score_delta: number;
+  description: string | null;
+  metadata: Record<string, any>;
+  prev_hash: string | null;
+  hash: string | null;
+  created_at: string;
+}
+
+export type NewReputationEvent = Omit<ReputationEvent, 'id' | 'seq' | 'prev_hash' | 'hash' | 'created_at'>;
+
+// The latest sealed event in an agent's chain
+export interface ReputationChainHead {
+  agent_id: string;
+  seq: number;
+  hash: string;
+}
+
+// Service-signed commitment to every agent's chain head at a point in time
+export interface ReputationCheckpoint {
+  id: number;
+  root: string;                  // Merkle root over the heads, sorted by agent_id
+  agent_count: number;
+  event_count: number;
+  heads: ReputationChainHead[];
+  issuer: string;                // issuer DID
+  signature: string;             // issuer's signature over the checkpoint payload
+  created_at: string;
+}
+
+// Materialized reputation for one agent, kept up to date as events are written
+// Sums are decayed to last_event_at; the reputation engine decays them to the present on read
+export interface ReputationAggregate {
+  agent_id: string;
+  algorithm: string;       // model version the sums were computed with
+  score_sum: number;       // decayed sum of event values (stars)
+  volume: number;          // decayed number of events
+  event_count: number;
+  tasks_completed: number;
+  last_event_at: string | null;
+  updated_at: string;
+}
+
+// A signed rating of one agent by another; one per rater and subject per period
+export interface Endorsement {
+  id: string;
+  rater_id: string;
+  rater_did: string;
+  subject_id: string;
+  subject_did: string;
+  rating: number;                 // 1-5
+  context: string;                // tag for the kind of interaction, e.g. "code-review"
+  interaction_ref: string | null;
+  period: string;                 // YYYY-MM (UTC)
+  weight: number;                 // rater's reputation weight (0-1) when the endorsement was made
+  signature: string;
+  created_at: string;
+}
+
+export interface EndorsementStats {
+  count: number;
+  average_rating: number | null;
+}
+
+// A task claim confirmed by the other party: countersigned by its DID, or issued by a platform's API key
+export interface TaskReceipt {
+  id: string;
+  agent_id: string;
+  task_id: string;
+  outcome: string;               // completed | corrected | failed
+  positive_feedback: boolean;
+  countersigner: string;         // counterparty DID, or api_key:<id> for a platform
+  signature: string | null;      // counterparty's signature (null for API key receipts)
+  report_id: string | null;      // work report the receipt was counted in
+  created_at: string;
+}
+
+// Receipts counted in an agent's work reports
+export interface TaskReceiptStats {
+  completed: number;
+  corrected: number;
+  failed: number;
+  positive_feedback: number;
+}
+
+// A report of a misbehaving agent, triaged by moderators
+export interface AbuseReport {
+  id: string;
+  agent_id: string;
+  agent_did: string;
+  reporter: string;                   // reporting agent's DID, or api_key:<id>
+  category: string;
+  description: string;
+  evidence: string[];                 // URLs or excerpts
+  status: string;                     // open | reviewing | actioned | dismissed
+  agent_response: string | null;      // the reported agent's reply
+  agent_responded_at: string | null;
+  resolution_action: string | null;   // dismiss | warn | flag | suspend
+  resolution_note: string | null;
+  penalty: number | null;             // stars deducted from the agent's reputation
+  resolved_by: string | null;         // moderator:<user id>
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AbuseReportFilter {
+  status?: string[];
+  category?: string;
+  agent_id?: string;
+  reporter?: string;
+}
+
+export interface AbuseReportStats {
+  open: number;      // open or reviewing
+  actioned: number;
+  dismissed: number;
+}
+
+// A platform's subscription to agent events; empty filters match everything
+export interface WebhookSubscription {
+  id: string;
+  owner_id: string;               // account that manages the subscription
+  url: string;
+  secret: string;                 // HMAC-SHA256 signing secret
+  event_types: string[];
+  dids: string[];                 // only these agents
+  owners: string[];               // only agents with this owner_id or user_id
+  description: string | null;
+  created_at: string;
+}
+
+// One event sent (or to be sent) to one subscription
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  payload: Record<string, any>;
+  status: string;                 // pending | delivered | dead
+  attempts: number;
+  next_attempt_at: string | null; // null once delivered or dead
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+// Transparency log entry: binds a key to a DID (registration, key_rotation) or records its revocation
+export interface LogEntry {
+  leaf_index: number;            // position in the log, from 0
+  entry_type: string;            // registration | key_rotation | revocation
+  did: string;
+  public_key: string;            // hex; for a revocation, the key in use when it was revoked
+  key_id: string;                // verification method ID, e.g. did:...#key-2
+  leaf_hash: string;             // Merkle leaf hash of the entry (utils/transparency.ts)
+  created_at: string;
+}
+
+// Signed tree head: the issuer's commitment to the first tree_size log entries
+export interface TreeHead {
+  tree_size: number;
+  root_hash: string;
+  issuer: string;                // issuer DID
+  signature: string;             // issuer's signature over the tree head payload
+  created_at: string;
+}
+
+export interface ApiKey {
+  id: string;
+  key_hash: string;
+  owner_id: string | null;
+  name: string | null;
+  permissions: string[];
+  created_at: string;
+  last_used_at: string | null;
+  usage_count: number;
+}
+
+// Requests made with an API key, per scope and UTC day
+export interface ApiKeyUsage {
+  api_key_id: string;
+  scope: string;
+  date: string;          // YYYY-MM-DD
+  count: number;
+}
+
+// Single-use nonce issued by POST /auth/challenge; kept after use so replays are rejected
+export interface AuthChallenge {
+  nonce: string;
+  did: string;
+  expires_at: string;
+  used_at: string | null;
+  created_at: string;
+}
+
+// Agent token session from POST /auth/token. Only refresh token hashes are stored; access
+// tokens carry the session id (sid), so revoking the session revokes them too
+export interface AgentSession {
+  id: string;
+  agent_id: string;
+  did: string;
+  scope: string[];
+  refresh_token_hash: string;
+  previous_token_hash: string | null;   // the refresh token last rotated away, to detect its reuse
+  expires_at: string;
+  refreshed_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AgentStats {
+  total_agents: number;
+  main_agents: number;
+  worker_agents: number;
+  total_verifications: number;
+  registrations_24h: number;
+}
+
+export type AgentSort = 'created_at' | 'reputation' | 'activity' | 'name';
+
+// Agent directory query (GET /agents): every filter given has to match
+export interface AgentSearch {
+  terms?: string[];                     // words that all appear in the name (case-insensitive)
+  name_prefix?: string;
+  agent_type?: string;
+  statuses?: string[];
+  owner_id?: string;
+  claim_types?: string[];               // holds an unexpired verification of every one
+  registered_after?: string;
+  registered_before?: string;
+  metadata?: Record<string, string>;    // top-level metadata values, compared as text
+  min_reputation?: number;
+  max_reputation?: number;
+  sort: AgentSort;                      // ties are broken by id
+  order: 'asc' | 'desc';
+  // Scores are decayed to as_of under this model, from the stored aggregates; agents registered
+  // after as_of are left out, so later pages don't shift when agents register
+  as_of: string;
+  model: { algorithm: string; base: number; min: number; max: number; half_life_days: number | null };
+  after?: { value: string | number; id: string };  // sort value and id of the previous page's last agent
+  offset?: number;
+  limit: number;
+}
+
+export type AgentSearchResult = Agent & {
+  sort_value: string | number;          // opaque, for the next page's `after`
+  reputation_score: number;
+};
+
+// A descendant in an agent's subtree, depth 1 for its direct workers
+export type SubtreeAgent = Agent & { depth: number };
+
+/**
+ * Thrown when an insert conflicts with an existing row (duplicate DID, claim code, ...)
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+export interface Store {
+  // Agents
+  // createAgent also records the agent's initial key as key-1
+  createAgent(agent: NewAgent): Promise<Agent>;
+  getAgentById(id: string): Promise<Agent | null>;
+  getAgentByDid(did: string): Promise<Agent | null>;
+  // The registered ones among dids, in no particular order
+  getAgentsByDids(dids: string[]): Promise<Agent[]>;
+  getAgentByClaimCode(claimCode: string): Promise<Agent | null>;
+  listAgents(limit: number, offset: number): Promise<{ agents: Agent[]; total: number }>;
+  // total counts every match, regardless of after/offset
+  searchAgents(search: AgentSearch): Promise<{ agents: AgentSearchResult[]; total: number }>;
+  getAgentsByUser(userId: string): Promise<Agent[]>;
+  getChildAgents(parentDid: string): Promise<Agent[]>;
+  // Every descendant down to maxDepth levels (all when omitted), shallowest first, oldest first within a level
+  getAgentSubtree(did: string, maxDepth?: number): Promise<SubtreeAgent[]>;
+  updateAgent(id: string, updates: Partial<Agent>): Promise<Agent | null>;
+  getStats(): Promise<AgentStats>;
+
+  // Ownership
+  // Move an agent and its whole subtree from fromUserId to toUserId (null: unclaimed), clear its claim
+  // code and record the change, only if the agent still belongs to fromUserId. Returns the number of
+  // sub-agents moved, or null if the agent has another owner by now
+  changeAgentOwner(agentId: string, fromUserId: string | null, toUserId: string | null, changedBy: string, transferId: string | null): Promise<number | null>;
+  getOwnershipHistory(agentId: string): Promise<AgentOwnershipChange[]>;
+  // Throws ConflictError if the agent already has a pending transfer
+  createOwnershipTransfer(transfer: Pick<OwnershipTransfer, 'id' | 'agent_id' | 'from_user_id' | 'to_user_id' | 'expires_at'>): Promise<OwnershipTransfer>;
+  getOwnershipTransfer(id: string): Promise<OwnershipTransfer | null>;
+  // Newest first
+  getOwnershipTransfersByAgent(agentId: string): Promise<OwnershipTransfer[]>;
+  // Pending transfers from or to a user, newest first
+  getPendingOwnershipTransfers(userId: string): Promise<OwnershipTransfer[]>;
+  // Resolve a pending transfer; null if it is no longer pending
+  resolveOwnershipTransfer(id: string, status: string, resolvedBy: string, resolvedAt: string): Promise<OwnershipTransfer | null>;
+
+  // Key history
+  getAgentKeys(agentId: string): Promise<AgentKey[]>;
+  // Retire the current key and make newPublicKey the agent's active key, all or nothing
+  rotateAgentKey(agentId: string, keyIndex: number, newPublicKey: string, signature: string, rotatedAt: string): Promise<AgentKey | null>;
+
+  // Status lifecycle
+  // changedBy is 'agent' for key-signed changes, 'user:<id>' for the owning account, 'moderator:<id>',
+  // or 'ancestor:<did>' when an ancestor's key-signed change cascaded
+  changeAgentStatus(agent: Agent, status: string, reason: string | null, changedBy: string, signature: string | null): Promise<Agent | null>;
+  getStatusHistory(agentId: string): Promise<AgentStatusChange[]>;
+
+  // Verifications
+  createVerification(verification: Verification): Promise<Verification | null>;
+  // Only unexpired verifications, newest first
+  getVerificationsByAgent(agentId: string): Promise<Verification[]>;
+
+  // Reputation events
+  // Appends the event to the agent's hash chain and folds it into the aggregate, in the same transaction
+  createReputationEvent(event: NewReputationEvent): Promise<ReputationEvent | null>;
+  // Newest first; every event when no limit is given
+  getReputationEvents(agentId: string, limit?: number): Promise<ReputationEvent[]>;
+  // An agent's sealed events in chain order (seq ascending)
+  getReputationChain(agentId: string): Promise<ReputationEvent[]>;
+  getReputationChainHead(agentId: string): Promise<ReputationChainHead | null>;
+  getReputationChainHeads(): Promise<ReputationChainHead[]>;
+  // Events written before chaining existed, oldest first
+  getUnsealedReputationEvents(limit: number): Promise<ReputationEvent[]>;
+  // Seal a legacy event; false if it was already sealed
+  sealReputationEvent(id: number, seq: number, prevHash: string, hash: string): Promise<boolean>;
+  createReputationCheckpoint(checkpoint: Omit<ReputationCheckpoint, 'id'>): Promise<ReputationCheckpoint>;
+  getLatestReputationCheckpoint(): Promise<ReputationCheckpoint | null>;
+  getReputationAggregate(agentId: string): Promise<ReputationAggregate | null>;
+  getReputationAggregates(agentIds: string[]): Promise<ReputationAggregate[]>;
+  // Overwrite an agent's aggregate (used when rebuilding from the event log)
+  saveReputationAggregate(aggregate: ReputationAggregate): Promise<void>;
+
+  // Endorsements
+  // Throws ConflictError if the rater already endorsed the subject in this period
+  createEndorsement(endorsement: Omit<Endorsement, 'created_at'>): Promise<Endorsement>;
+  // Endorsements received by an agent, newest first
+  getEndorsementsForAgent(subjectId: string, limit: number): Promise<Endorsement[]>;
+  getEndorsementStats(subjectId: string): Promise<EndorsementStats>;
+
+  // Task receipts
+  // Throws ConflictError if the countersigner already confirmed this task for the agent
+  createTaskReceipt(receipt: Omit<TaskReceipt, 'created_at'>): Promise<TaskReceipt>;
+  getTaskReceipt(id: string): Promise<TaskReceipt | null>;
+  // Count receipts in a work report, all or nothing: inserts the countersigned ones and claims the
+  // issued ones; throws ConflictError if any is a duplicate or was already counted
+  recordReportReceipts(reportId: string, receipts: Omit<TaskReceipt, 'report_id' | 'created_at'>[], claimIds: string[]): Promise<void>;
+  getTaskReceiptStats(agentId: string): Promise<TaskReceiptStats>;
+
+  // Abuse reports
+  createAbuseReport(report: Pick<AbuseReport, 'id' | 'agent_id' | 'agent_did' | 'reporter' | 'category' | 'description' | 'evidence'>): Promise<AbuseReport>;
+  getAbuseReport(id: string): Promise<AbuseReport | null>;
+  // Oldest first, for triage
+  listAbuseReports(filter: AbuseReportFilter, limit: number, offset: number): Promise<{ reports: AbuseReport[]; total: number }>;
+  // Update a report only while its status is one of fromStatuses; null if it isn't (or doesn't exist)
+  updateAbuseReport(id: string, fromStatuses: string[], updates: Partial<Omit<AbuseReport, 'id' | 'created_at'>>): Promise<AbuseReport | null>;
+  getAbuseReportStats(agentId: string): Promise<AbuseReportStats>;
+  // Stats for many agents at once; agents without reports are left out
+  getAbuseReportStatsForAgents(agentIds: string[]): Promise<(AbuseReportStats & { agent_id: string })[]>;
+
+  // Webhooks
+  createWebhook(subscription: Omit<WebhookSubscription, 'created_at'>): Promise<WebhookSubscription>;
+  getWebhook(id: string): Promise<WebhookSubscription | null>;
+  getWebhooksByOwner(ownerId: string): Promise<WebhookSubscription[]>;
+  // Every subscription, for matching events
+  getAllWebhooks(): Promise<WebhookSubscription[]>;
+  // Also deletes the subscription's deliveries
+  deleteWebhook(id: string): Promise<boolean>;
+  createWebhookDeliveries(deliveries: Omit<WebhookDelivery, 'created_at'>[]): Promise<void>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | null>;
+  // Newest first, optionally only one status
+  listWebhookDeliveries(subscriptionId: string, status: string | undefined, limit: number, offset: number): Promise<{ deliveries: WebhookDelivery[]; total: number }>;
+  // Pending deliveries due at or before `now`, oldest first
+  getDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: Partial<Omit<WebhookDelivery, 'id' | 'created_at'>>): Promise<WebhookDelivery | null>;
+
+  // Transparency log
+  // Appends at the next leaf_index, atomically
+  appendLogEntry(entry: Omit<LogEntry, 'leaf_index'>): Promise<LogEntry>;
+  getLogSize(): Promise<number>;
+  // Entries with start <= leaf_index < end
+  getLogEntries(start: number, end: number): Promise<LogEntry[]>;
+  getLogEntriesByDid(did: string): Promise<LogEntry[]>;
+  // Leaf hashes of the first treeSize entries, in order
+  getLogLeafHashes(treeSize: number): Promise<string[]>;
+  createTreeHead(head: TreeHead): Promise<TreeHead>;
+  getLatestTreeHead(): Promise<TreeHead | null>;
+
+  // Rate limits: returns false once maxCount actions happened within windowMs
+  checkRateLimit(identifier: string, actionType: string, maxCount: number, windowMs: number): Promise<boolean>;
+
+  // API keys
+  createApiKey(apiKey: Omit<ApiKey, 'created_at' | 'last_used_at' | 'usage_count'>): Promise<ApiKey>;
+  getApiKeyById(id: string): Promise<ApiKey | null>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  getApiKeysByOwner(ownerId: string): Promise<ApiKey[]>;
+  deleteApiKey(id: string): Promise<boolean>;
+  // Set last_used_at and bump the key's total and per-scope daily counters
+  recordApiKeyUsage(id: string, scope: string, usedAt: string): Promise<void>;
+  // Daily usage, newest first
+  getApiKeyUsage(id: string): Promise<ApiKeyUsage[]>;
+
+  // Agent auth challenges
+  // Creating a challenge also purges expired ones, which can no longer be used anyway
+  createAuthChallenge(challenge: Omit<AuthChallenge, 'used_at' | 'created_at'>): Promise<AuthChallenge>;
+  getAuthChallenge(nonce: string): Promise<AuthChallenge | null>;
+  // Mark a challenge used; false if it was already used (a replay)
+  consumeAuthChallenge(nonce: string, usedAt: string): Promise<boolean>;
+  // Record a signature made without a challenge as an already used one (nonce: a hash of the
+  // signature) until it expires; false if it was recorded before (a replay)
+  recordSignatureUse(challenge: Omit<AuthChallenge, 'used_at' | 'created_at'>, usedAt: string): Promise<boolean>;
+
+  // Agent token sessions
+  // Creating a session also purges expired ones
+  createAgentSession(session: Omit<AgentSession, 'previous_token_hash' | 'refreshed_at' | 'revoked_at' | 'created_at'>): Promise<AgentSession>;
+  getAgentSession(id: string): Promise<AgentSession | null>;
+  // The session whose current or previous refresh token has this hash
+  getAgentSessionByRefreshToken(tokenHash: string): Promise<AgentSession | null>;
+  // Replace the refresh token; false if tokenHash is no longer current or the session was revoked
+  rotateAgentSession(id: string, tokenHash: string, newTokenHash: string, refreshedAt: string): Promise<boolean>;
+  // false if the session was already revoked
+  revokeAgentSession(id: string, revokedAt: string): Promise<boolean>;
+  revokeAgentSessions(agentId: string, revokedAt: string): Promise<void>;
+
+  // Owner accounts: resolve a user access token (Supabase Auth JWT) to a user
+  getUserByToken(token: string): Promise<AuthUser | null>;
+}
@@ -1,4 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { eventContribution } from '../utils/reputation';
+import { chainLink } from '../utils/eventchain';
+import { Store, Agent, AgentKey, AbuseReportStats, ReputationChainHead, ConflictError } from './store';
 
 // Load credentials
 const SUPABASE_URL = process.env.SUPABASE_URL || 'https://vlccvdskepntaskqniwm.supabase.co';
@@ -10,191 +13,1028 @@ if (!SUPABASE_SERVICE_KEY) {
 
 export const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
-// Types matching our schema
-export interface Agent {
-  id: string;
-  name: string;
-  owner_id: string | null;
-  public_key: string;
-  did: string;
-  metadata: Record<string, any>;
-  status: string;
-  created_at: string;
-  updated_at: string;
-  // New fields for auth
-  claim_code: string | null;
-  user_id: string | null;
-  parent_did: string | null;
-  agent_type: string;
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// Postgres serialization_failure, raised by record_reputation_event when the chain head moved
+const SERIALIZATION_FAILURE = '40001';
+
+// Attempts at appending a reputation event while other writers extend the same chain
+const CHAIN_APPEND_ATTEMPTS = 3;
+
+// Values per .in() filter, which goes in the request URL
+const IN_FILTER_CHUNK = 100;
+
+async function getChainHead(agentId: string): Promise<ReputationChainHead | null> {
+  const { data, error } = await supabase
+    .from('reputation_events')
+    .select('agent_id, seq, hash')
+    .eq('agent_id', agentId)
+    .not('hash', 'is', null)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error reading reputation chain: ${error.message}`);
+  }
+  return data;
 }
 
-// Generate a random 6-character claim code
-export function generateClaimCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-  let result = '';
-  for (let i = 0; i < 6; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
-}
+async function addAgentKey(key: Omit<AgentKey, 'id' | 'created_at'>): Promise<AgentKey | null> {
+  const { data, error } = await supabase
+    .from('agent_keys')
+    .insert(key)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error adding agent key:', error);
+    return null;
+  }
+  return data;
+}
+
+// Store operations
+export const supabaseStore: Store = {
+  // Agents
+  async createAgent(agent) {
+    const { data, error } = await supabase
+      .from('agents')
+      .insert(agent)
+      .select()
+      .single();
+    
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError('Agent with this public key or DID already exists');
+    }
+    if (error || !data) {
+      throw new Error(`Error creating agent: ${error?.message}`);
+    }
+
+    // Record the initial key in the key history
+    await addAgentKey({
+      agent_id: data.id,
+      key_index: 1,
+      public_key: data.public_key,
+      valid_from: data.created_at,
+      valid_until: null,
+      rotation_signature: null
+    });
+    return data;
+  },
+
+  async getAgentByDid(did) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .eq('did', did)
+      .single();
+    
+    if (error) return null;
+    return data;
+  },
+
+  async getAgentsByDids(dids) {
+    const agents: Agent[] = [];
+    for (let i = 0; i < dids.length; i += IN_FILTER_CHUNK) {
+      const { data, error } = await supabase
+        .from('agents')
+        .select('*')
+        .in('did', dids.slice(i, i + IN_FILTER_CHUNK));
+
+      if (error) {
+        throw new Error(`Error fetching agents: ${error.message}`);
+      }
+      agents.push(...(data || []));
+    }
+    return agents;
+  },
+
+  async getAgentById(id) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) return null;
+    return data;
+  },
+
+  async getAgentByClaimCode(claimCode) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .eq('claim_code', claimCode)
+      .single();
+
+    if (error) return null;
+    return data;
+  },
+
+  async listAgents(limit, offset) {
+    const { data, count, error } = await supabase
+      .from('agents')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    
+    if (error) return { agents: [], total: 0 };
+    return { agents: data || [], total: count || 0 };
+  },
+
+  // Filtered, scored and keyset-paginated in the database (search_agents)
+  async searchAgents(search) {
+    const { data, error } = await supabase.rpc('search_agents', { p_search: search });
+
+    if (error || !data) {
+      throw new Error(`Error searching agents: ${error?.message}`);
+    }
+    return {
+      agents: data.agents.map((row: { agent: Agent; sort_value: string | number; reputation_score: number }) => ({
+        ...row.agent,
+        sort_value: row.sort_value,
+        reputation_score: Number(row.reputation_score)
+      })),
+      total: data.total
+    };
+  },
+
+  // Get all agents for a user (including sub-agents)
+  async getAgentsByUser(userId) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) return [];
+    return data || [];
+  },
+
+  // Get child agents (sub-agents) of a parent
+  async getChildAgents(parentDid) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .eq('parent_did', parentDid)
+      .order('created_at', { ascending: false });
+
+    if (error) return [];
+    return data || [];
+  },
+
+  // Recursive in the database (agent_subtree), so the whole subtree comes back in one query
+  async getAgentSubtree(did, maxDepth) {
+    const { data, error } = await supabase.rpc('agent_subtree', {
+      p_did: did,
+      p_max_depth: maxDepth ?? null
+    });
+
+    if (error) {
+      throw new Error(`Error fetching agent subtree: ${error.message}`);
+    }
+    return (data || []).map((row: { agent: Agent; depth: number }) => ({ ...row.agent, depth: row.depth }));
+  },
+
+  async updateAgent(id, updates) {
+    const { data, error } = await supabase
+      .from('agents')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) return null;
+    return data;
+  },
+
+  async getStats() {
+    const { data: agents } = await supabase
+      .from('agents')
+      .select('agent_type, created_at');
+
+    const { count: verificationCount } = await supabase
+      .from('verifications')
+      .select('*', { count: 'exact', head: true });
+
+    const total = agents?.length || 0;
+    const workers = agents?.filter(a => a.agent_type === 'worker').length || 0;
+    const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
+
+    return {
+      total_agents: total,
+      main_agents: total - workers,
+      worker_agents: workers,
+      total_verifications: verificationCount || 0,
+      registrations_24h: agents?.filter(a => new Date(a.created_at).getTime() > oneDayAgo).length || 0
+    };
+  },
+
+  // Key history
+  // Agents registered before key rotation existed have no rows; treat their key as key-1
+  async getAgentKeys(agentId) {
+    const { data, error } = await supabase
+      .from('agent_keys')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('key_index', { ascending: true });
+    
+    if (error) return [];
+    if (data && data.length > 0) return data;
+
+    const agent = await supabaseStore.getAgentById(agentId);
+    if (!agent) return [];
+    return [{
+      id: 0,
+      agent_id: agent.id,
+      key_index: 1,
+      public_key: agent.public_key,
+      valid_from: agent.created_at,
+      valid_until: null,
+      rotation_signature: null,
+      created_at: agent.created_at
+    }];
+  },
+
+  // The old key is retired, the new one added and the agent updated in one transaction (rotate_agent_key)
+  async rotateAgentKey(agentId, keyIndex, newPublicKey, signature, rotatedAt) {
+    const { data, error } = await supabase.rpc('rotate_agent_key', {
+      p_agent_id: agentId,
+      p_key_index: keyIndex,
+      p_public_key: newPublicKey,
+      p_rotation_signature: signature,
+      p_rotated_at: rotatedAt
+    });
+
+    if (error) {
+      console.error('Error rotating agent key:', error);
+      return null;
+    }
+    return data;
+  },
+
+  // Ownership
+  // The agent, its whole subtree and the history entry change in one transaction (change_agent_owner)
+  async changeAgentOwner(agentId, fromUserId, toUserId, changedBy, transferId) {
+    const { data, error } = await supabase.rpc('change_agent_owner', {
+      p_agent_id: agentId,
+      p_from_user_id: fromUserId,
+      p_to_user_id: toUserId,
+      p_changed_by: changedBy,
+      p_transfer_id: transferId
+    });
+
+    if (error) {
+      throw new Error(`Error changing agent owner: ${error.message}`);
+    }
+    return data ?? null;
+  },
+
+  async getOwnershipHistory(agentId) {
+    const { data, error } = await supabase
+      .from('agent_ownership_history')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) return [];
+    return data || [];
+  },
+
+  async createOwnershipTransfer(transfer) {
+    const { data, error } = await supabase
+      .from('ownership_transfers')
+      .insert({ ...transfer, status: 'pending' })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError('This agent already has a pending transfer');
+    }
+    if (error || !data) {
+      throw new Error(`Error creating ownership transfer: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getOwnershipTransfer(id) {
+    const { data, error } = await supabase
+      .from('ownership_transfers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) return null;
+    return data;
+  },
+
+  async getOwnershipTransfersByAgent(agentId) {
+    const { data, error } = await supabase
+      .from('ownership_transfers')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false });
+
+    if (error) return [];
+    return data || [];
+  },
+
+  async getPendingOwnershipTransfers(userId) {
+    const { data, error } = await supabase
+      .from('ownership_transfers')
+      .select('*')
+      .eq('status', 'pending')
+      .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) return [];
+    return data || [];
+  },
+
+  async resolveOwnershipTransfer(id, status, resolvedBy, resolvedAt) {
+    const { data, error } = await supabase
+      .from('ownership_transfers')
+      .update({ status, resolved_by: resolvedBy, resolved_at: resolvedAt })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error resolving ownership transfer:', error);
+      return null;
+    }
+    return data;
+  },
+
+  // Status lifecycle
+  async changeAgentStatus(agent, status, reason, changedBy, signature) {
+    const changedAt = new Date().toISOString();
+    const updated = await supabaseStore.updateAgent(agent.id, {
+      status,
+      status_reason: reason,
+      status_changed_at: changedAt
+    });
+    if (!updated) return null;
+
+    const { error } = await supabase
+      .from('agent_status_history')
+      .insert({
+        agent_id: agent.id,
+        from_status: agent.status,
+        to_status: status,
+        reason,
+        changed_by: changedBy,
+        signature,
+        created_at: changedAt
+      });
+
+    if (error) {
+      console.error('Error recording status change:', error);
+    }
+    return updated;
+  },
+
+  async getStatusHistory(agentId) {
+    const { data, error } = await supabase
+      .from('agent_status_history')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false });
+    
+    if (error) return [];
+    return data || [];
+  },
+
+  // Verifications
+  async createVerification(verification) {
+    const { data, error } = await supabase
+      .from('verifications')
+      .insert(verification)
+      .select()
+      .single();
+    
+    if (error) return null;
+    return data;
+  },
+
+  async getVerificationsByAgent(agentId) {
+    const { data, error } = await supabase
+      .from('verifications')
+      .select('*')
+      .eq('agent_id', agentId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('verified_at', { ascending: false });
+    
+    if (error) return [];
+    return data || [];
+  },
+
+  // Reputation Events
+  // Inserted with the aggregate update in one transaction (see record_reputation_event in migrations);
+  // the chain link is computed here and rejected by the database if another event took its place
+  async createReputationEvent(event) {
+    const contribution = eventContribution(event);
+    for (let attempt = 1; ; attempt++) {
+      const createdAt = new Date().toISOString();
+      let link;
+      try {
+        link = chainLink({ ...event, created_at: createdAt }, await getChainHead(event.agent_id));
+      } catch (error) {
+        console.error('Error creating reputation event:', error);
+        return null;
+      }
+
+      const { data, error } = await supabase.rpc('record_reputation_event', {
+        p_agent_id: event.agent_id,
+        p_event_type: event.event_type,
+        p_score_delta: event.score_delta,
+        p_description: event.description,
+        p_metadata: event.metadata || {},
+        p_created_at: createdAt,
+        p_seq: link.seq,
+        p_prev_hash: link.prev_hash,
+        p_hash: link.hash,
+        p_value: contribution.value,
+        p_tasks_completed: contribution.tasks_completed,
+        p_algorithm: contribution.algorithm,
+        p_half_life_days: contribution.half_life_days
+      });
+
+      if (error?.code === SERIALIZATION_FAILURE && attempt < CHAIN_APPEND_ATTEMPTS) continue;
+      if (error) {
+        console.error('Error creating reputation event:', error);
+        return null;
+      }
+      return data;
+    }
+  },
+
+  async getReputationEvents(agentId, limit) {
+    let query = supabase
+      .from('reputation_events')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false });
+    if (limit !== undefined) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) return [];
+    return data || [];
+  },
+
+  async getReputationChain(agentId) {
+    const { data, error } = await supabase
+      .from('reputation_events')
+      .select('*')
+      .eq('agent_id', agentId)
+      .not('hash', 'is', null)
+      .order('seq', { ascending: true });
+
+    if (error) return [];
+    return data || [];
+  },
+
+  async getReputationChainHead(agentId) {
+    try {
+      return await getChainHead(agentId);
+    } catch {
+      return null;
+    }
+  },
+
+  async getReputationChainHeads() {
+    const { data, error } = await supabase.rpc('reputation_chain_heads');
+    if (error) {
+      throw new Error(`Error reading reputation chain heads: ${error.message}`);
+    }
+    return data || [];
+  },
+
+  async getUnsealedReputationEvents(limit) {
+    const { data, error } = await supabase
+      .from('reputation_events')
+      .select('*')
+      .is('hash', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error) return [];
+    return data || [];
+  },
+
+  async sealReputationEvent(id, seq, prevHash, hash) {
+    const { data, error } = await supabase
+      .from('reputation_events')
+      .update({ seq, prev_hash: prevHash, hash })
+      .eq('id', id)
+      .is('hash', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Error sealing reputation event: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  },
+
+  async createReputationCheckpoint(checkpoint) {
+    const { data, error } = await supabase
+      .from('reputation_checkpoints')
+      .insert(checkpoint)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Error creating reputation checkpoint: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getLatestReputationCheckpoint() {
+    const { data, error } = await supabase
+      .from('reputation_checkpoints')
+      .select('*')
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) return null;
+    return data;
+  },
+
+  async getReputationAggregate(agentId) {
+    const { data, error } = await supabase
+      .from('reputation_aggregates')
+      .select('*')
+      .eq('agent_id', agentId)
+      .maybeSingle();
+
+    if (error) return null;
+    return data;
+  },
+
+  async getReputationAggregates(agentIds) {
+    if (agentIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from('reputation_aggregates')
+      .select('*')
+      .in('agent_id', agentIds);
+
+    if (error) return [];
+    return data || [];
+  },
+
+  async saveReputationAggregate(aggregate) {
+    const { error } = await supabase
+      .from('reputation_aggregates')
+      .upsert(aggregate, { onConflict: 'agent_id' });
+
+    if (error) {
+      throw new Error(`Error saving reputation aggregate: ${error.message}`);
+    }
+  },
+
+  // Endorsements
+  async createEndorsement(endorsement) {
+    const { data, error } = await supabase
+      .from('endorsements')
+      .insert(endorsement)
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError('Rater already endorsed this agent in this period');
+    }
+    if (error || !data) {
+      throw new Error(`Error creating endorsement: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getEndorsementsForAgent(subjectId, limit) {
+    const { data, error } = await supabase
+      .from('endorsements')
+      .select('*')
+      .eq('subject_id', subjectId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) return [];
+    return data || [];
+  },
+
+  async getEndorsementStats(subjectId) {
+    const { data, error } = await supabase
+      .from('endorsements')
+      .select('rating')
+      .eq('subject_id', subjectId);
+
+    const ratings: number[] = error || !data ? [] : data.map(row => row.rating);
+    return {
+      count: ratings.length,
+      average_rating: ratings.length ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null
+    };
+  },
+
+  // Task receipts
+  async createTaskReceipt(receipt) {
+    const { data, error } = await supabase
+      .from('task_receipts')
+      .insert(receipt)
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError(`Task ${receipt.task_id} was already confirmed by ${receipt.countersigner}`);
+    }
+    if (error || !data) {
+      throw new Error(`Error creating task receipt: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getTaskReceipt(id) {
+    const { data, error } = await supabase
+      .from('task_receipts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) return null;
+    return data;
+  },
+
+  // One transaction in Postgres (see record_report_receipts in migrations)
+  async recordReportReceipts(reportId, receipts, claimIds) {
+    const { error } = await supabase.rpc('record_report_receipts', {
+      p_report_id: reportId,
+      p_receipts: receipts,
+      p_claim_ids: claimIds
+    });
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError(error.message);
+    }
+    if (error) {
+      throw new Error(`Error recording task receipts: ${error.message}`);
+    }
+  },
+
+  async getTaskReceiptStats(agentId) {
+    const { data, error } = await supabase
+      .from('task_receipts')
+      .select('outcome, positive_feedback')
+      .eq('agent_id', agentId)
+      .not('report_id', 'is', null);
+
+    const counted: { outcome: string; positive_feedback: boolean }[] = error || !data ? [] : data;
+    return {
+      completed: counted.filter(r => r.outcome === 'completed').length,
+      corrected: counted.filter(r => r.outcome === 'corrected').length,
+      failed: counted.filter(r => r.outcome === 'failed').length,
+      positive_feedback: counted.filter(r => r.positive_feedback).length
+    };
+  },
+
+  // Abuse reports
+  async createAbuseReport(report) {
+    const { data, error } = await supabase
+      .from('abuse_reports')
+      .insert({ ...report, status: 'open' })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Error creating abuse report: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getAbuseReport(id) {
+    const { data, error } = await supabase
+      .from('abuse_reports')
+      .select('*')
+      .eq('id', id)
+      .single();
 
-export interface Verification {
-  id: string;
-  agent_id: string;
-  verifier_id: string | null;
-  claim_type: string;
-  claim_value: string | null;
-  verified_at: string;
-  expires_at: string | null;
-  signature: string | null;
-}
+    if (error) return null;
+    return data;
+  },
 
-export interface ReputationEvent {
-  id: number;
-  agent_id: string;
-  event_type: string;
-  score_delta: number;
-  description: string | null;
-  metadata: Record<string, any>;
-  created_at: string;
-}
+  async listAbuseReports(filter, limit, offset) {
+    let query = supabase
+      .from('abuse_reports')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+    if (filter.status?.length) query = query.in('status', filter.status);
+    if (filter.category) query = query.eq('category', filter.category);
+    if (filter.agent_id) query = query.eq('agent_id', filter.agent_id);
+    if (filter.reporter) query = query.eq('reporter', filter.reporter);
 
-export interface RateLimit {
-  id: number;
-  identifier: string;
-  action_type: string;
-  count: number;
-  window_start: string;
-}
+    const { data, count, error } = await query;
+    if (error) return { reports: [], total: 0 };
+    return { reports: data || [], total: count || 0 };
+  },
 
-// Database operations
-export const db = {
-  // Agents
-  async createAgent(agent: Omit<Agent, 'created_at' | 'updated_at'>): Promise<Agent | null> {
+  // Conditional on the current status, so two moderators can't resolve the same report
+  async updateAbuseReport(id, fromStatuses, updates) {
     const { data, error } = await supabase
-      .from('agents')
-      .insert(agent)
+      .from('abuse_reports')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .in('status', fromStatuses)
       .select()
-      .single();
-    
+      .maybeSingle();
+
     if (error) {
-      console.error('Error creating agent:', error);
+      console.error('Error updating abuse report:', error);
       return null;
     }
     return data;
   },
 
-  async getAgentByDid(did: string): Promise<Agent | null> {
+  async getAbuseReportStats(agentId) {
     const { data, error } = await supabase
-      .from('agents')
-      .select('*')
-      .eq('did', did)
+      .from('abuse_reports')
+      .select('status')
+      .eq('agent_id', agentId);
+
+    const statuses: string[] = error || !data ? [] : data.map(row => row.status);
+    return {
+      open: statuses.filter(s => s === 'open' || s === 'reviewing').length,
+      actioned: statuses.filter(s => s === 'actioned').length,
+      dismissed: statuses.filter(s => s === 'dismissed').length
+    };
+  },
+
+  async getAbuseReportStatsForAgents(agentIds) {
+    const stats = new Map<string, AbuseReportStats & { agent_id: string }>();
+    for (let i = 0; i < agentIds.length; i += IN_FILTER_CHUNK) {
+      const { data, error } = await supabase
+        .from('abuse_reports')
+        .select('agent_id, status')
+        .in('agent_id', agentIds.slice(i, i + IN_FILTER_CHUNK));
+
+      if (error) {
+        throw new Error(`Error fetching abuse report stats: ${error.message}`);
+      }
+      for (const { agent_id, status } of data || []) {
+        const row = stats.get(agent_id) || { agent_id, open: 0, actioned: 0, dismissed: 0 };
+        if (status === 'open' || status === 'reviewing') row.open++;
+        else if (status === 'actioned') row.actioned++;
+        else if (status === 'dismissed') row.dismissed++;
+        stats.set(agent_id, row);
+      }
+    }
+    return [...stats.values()];
+  },
+
+  // Webhooks
+  async createWebhook(subscription) {
+    const { data, error } = await supabase
+      .from('webhooks')
+      .insert(subscription)
+      .select()
       .single();
-    
-    if (error) return null;
+
+    if (error || !data) {
+      throw new Error(`Error creating webhook: ${error?.message}`);
+    }
     return data;
   },
 
-  async getAgentById(id: string): Promise<Agent | null> {
+  async getWebhook(id) {
     const { data, error } = await supabase
-      .from('agents')
+      .from('webhooks')
       .select('*')
       .eq('id', id)
       .single();
-    
+
     if (error) return null;
     return data;
   },
 
-  async getAllAgents(): Promise<Agent[]> {
+  async getWebhooksByOwner(ownerId) {
     const { data, error } = await supabase
-      .from('agents')
+      .from('webhooks')
       .select('*')
+      .eq('owner_id', ownerId)
       .order('created_at', { ascending: false });
-    
+
     if (error) return [];
     return data || [];
   },
 
-  async updateAgent(id: string, updates: Partial<Agent>): Promise<Agent | null> {
+  async getAllWebhooks() {
     const { data, error } = await supabase
-      .from('agents')
-      .update({ ...updates, updated_at: new Date().toISOString() })
+      .from('webhooks')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  // Deliveries go with it (ON DELETE CASCADE)
+  async deleteWebhook(id) {
+    const { data, error } = await supabase
+      .from('webhooks')
+      .delete()
       .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) return null;
-    return data;
+      .select('id');
+
+    if (error) return false;
+    return (data?.length || 0) > 0;
   },
 
-  // Verifications
-  async createVerification(verification: Omit<Verification, 'verified_at'>): Promise<Verification | null> {
+  async createWebhookDeliveries(deliveries) {
+    if (deliveries.length === 0) return;
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .insert(deliveries);
+
+    if (error) {
+      throw new Error(`Error creating webhook deliveries: ${error.message}`);
+    }
+  },
+
+  async getWebhookDelivery(id) {
     const { data, error } = await supabase
-      .from('verifications')
-      .insert(verification)
-      .select()
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', id)
       .single();
-    
+
     if (error) return null;
     return data;
   },
 
-  async getVerificationsByAgent(agentId: string): Promise<Verification[]> {
+  async listWebhookDeliveries(subscriptionId, status, limit, offset) {
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*', { count: 'exact' })
+      .eq('subscription_id', subscriptionId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (status) query = query.eq('status', status);
+
+    const { data, count, error } = await query;
+    if (error) return { deliveries: [], total: 0 };
+    return { deliveries: data || [], total: count || 0 };
+  },
+
+  async getDueWebhookDeliveries(now, limit) {
     const { data, error } = await supabase
-      .from('verifications')
+      .from('webhook_deliveries')
       .select('*')
-      .eq('agent_id', agentId);
-    
-    if (error) return [];
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now)
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching due webhook deliveries:', error);
+      return [];
+    }
     return data || [];
   },
 
-  // Reputation Events
-  async createReputationEvent(event: Omit<ReputationEvent, 'id' | 'created_at'>): Promise<ReputationEvent | null> {
+  async updateWebhookDelivery(id, updates) {
     const { data, error } = await supabase
-      .from('reputation_events')
-      .insert(event)
+      .from('webhook_deliveries')
+      .update(updates)
+      .eq('id', id)
       .select()
-      .single();
-    
+      .maybeSingle();
+
     if (error) {
-      console.error('Error creating reputation event:', error);
+      console.error('Error updating webhook delivery:', error);
       return null;
     }
     return data;
   },
 
-  async getReputationEvents(agentId: string, limit = 100): Promise<ReputationEvent[]> {
+  // Transparency log
+  // Appended by append_log_entry (see migrations), which assigns the next leaf_index under a lock
+  async appendLogEntry(entry) {
+    const { data, error } = await supabase.rpc('append_log_entry', {
+      p_entry_type: entry.entry_type,
+      p_did: entry.did,
+      p_public_key: entry.public_key,
+      p_key_id: entry.key_id,
+      p_leaf_hash: entry.leaf_hash,
+      p_created_at: entry.created_at
+    });
+
+    if (error || !data) {
+      throw new Error(`Error appending log entry: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getLogSize() {
+    const { count, error } = await supabase
+      .from('transparency_log')
+      .select('*', { count: 'exact', head: true });
+
+    if (error) {
+      throw new Error(`Error reading log size: ${error.message}`);
+    }
+    return count || 0;
+  },
+
+  async getLogEntries(start, end) {
+    if (end <= start) return [];
     const { data, error } = await supabase
-      .from('reputation_events')
+      .from('transparency_log')
       .select('*')
-      .eq('agent_id', agentId)
-      .order('created_at', { ascending: false })
-      .limit(limit);
-    
+      .gte('leaf_index', start)
+      .lt('leaf_index', end)
+      .order('leaf_index', { ascending: true });
+
     if (error) return [];
     return data || [];
   },
 
-  async getReputationScore(agentId: string): Promise<{ total: number; count: number }> {
+  async getLogEntriesByDid(did) {
     const { data, error } = await supabase
-      .from('reputation_events')
-      .select('score_delta')
-      .eq('agent_id', agentId);
-    
-    if (error || !data) return { total: 0, count: 0 };
-    
-    const total = data.reduce((sum, e) => sum + (e.score_delta || 0), 0);
-    return { total, count: data.length };
+      .from('transparency_log')
+      .select('*')
+      .eq('did', did)
+      .order('leaf_index', { ascending: true });
+
+    if (error) return [];
+    return data || [];
+  },
+
+  // Read in pages: PostgREST caps the rows returned per request
+  async getLogLeafHashes(treeSize) {
+    const hashes: string[] = [];
+    const pageSize = 1000;
+    while (hashes.length < treeSize) {
+      const { data, error } = await supabase
+        .from('transparency_log')
+        .select('leaf_hash')
+        .gte('leaf_index', hashes.length)
+        .lt('leaf_index', Math.min(treeSize, hashes.length + pageSize))
+        .order('leaf_index', { ascending: true });
+
+      if (error) {
+        throw new Error(`Error reading log leaves: ${error.message}`);
+      }
+      if (!data || data.length === 0) break;
+      hashes.push(...data.map(row => row.leaf_hash));
+    }
+    return hashes;
+  },
+
+  async createTreeHead(head) {
+    const { error } = await supabase
+      .from('log_tree_heads')
+      .upsert(head, { onConflict: 'tree_size', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Error creating tree head: ${error.message}`);
+    }
+
+    const { data, error: readError } = await supabase
+      .from('log_tree_heads')
+      .select('*')
+      .eq('tree_size', head.tree_size)
+      .single();
+
+    if (readError || !data) {
+      throw new Error(`Error creating tree head: ${readError?.message}`);
+    }
+    return data;
+  },
+
+  async getLatestTreeHead() {
+    const { data, error } = await supabase
+      .from('log_tree_heads')
+      .select('*')
+      .order('tree_size', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) return null;
+    return data;
   },
 
   // Rate Limiting - with atomic increment to prevent race conditions
   // Uses optimistic locking: increment first, then check if over limit
-  async checkRateLimit(identifier: string, actionType: string, maxCount: number, windowMs: number): Promise<boolean> {
+  async checkRateLimit(identifier, actionType, maxCount, windowMs) {
     const windowStart = new Date(Date.now() - windowMs).toISOString();
     const now = new Date().toISOString();
-    const key = `${identifier}:${actionType}`;
     
     // Clean up expired records for this key first
     await supabase
@@ -248,86 +1088,231 @@ export const db = {
     return true;
   },
 
-  // Cleanup old rate limits
-  async cleanupRateLimits(): Promise<void> {
-    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    await supabase
-      .from('rate_limits')
-      .delete()
-      .lt('window_start', cutoff);
+  // API keys
+  async createApiKey(apiKey) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert(apiKey)
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError('API key already exists');
+    }
+    if (error || !data) {
+      throw new Error(`Error creating API key: ${error?.message}`);
+    }
+    return data;
   },
 
-  // Claim an agent with a claim code (links to user)
-  async claimAgent(claimCode: string, userId: string): Promise<Agent | null> {
-    // Find the agent with this claim code
-    const { data: agent, error: findError } = await supabase
-      .from('agents')
+  async getApiKeyById(id) {
+    const { data, error } = await supabase
+      .from('api_keys')
       .select('*')
-      .eq('claim_code', claimCode)
-      .is('user_id', null) // Only unclaimed agents
+      .eq('id', id)
       .single();
 
-    if (findError || !agent) {
-      console.error('Agent not found or already claimed:', findError);
-      return null;
-    }
+    if (error) return null;
+    return data;
+  },
 
-    // Claim the agent
-    const { data: claimed, error: claimError } = await supabase
-      .from('agents')
-      .update({ user_id: userId })
-      .eq('id', agent.id)
-      .select()
+  async getApiKeyByHash(keyHash) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('*')
+      .eq('key_hash', keyHash)
       .single();
 
-    if (claimError) {
-      console.error('Error claiming agent:', claimError);
-      return null;
-    }
+    if (error) return null;
+    return data;
+  },
 
-    // Also claim all child agents (sub-agents)
-    await supabase
-      .from('agents')
-      .update({ user_id: userId })
-      .eq('parent_did', agent.did);
+  async getApiKeysByOwner(ownerId) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false });
 
-    return claimed;
+    if (error) return [];
+    return data || [];
   },
 
-  // Get all agents for a user (including sub-agents)
-  async getAgentsByUser(userId: string): Promise<Agent[]> {
+  async deleteApiKey(id) {
     const { data, error } = await supabase
-      .from('agents')
+      .from('api_keys')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) return false;
+    return (data?.length || 0) > 0;
+  },
+
+  // Atomic increment in Postgres (see record_api_key_usage in migrations)
+  async recordApiKeyUsage(id, scope, usedAt) {
+    const { error } = await supabase.rpc('record_api_key_usage', {
+      p_api_key_id: id,
+      p_scope: scope,
+      p_used_at: usedAt
+    });
+
+    if (error) {
+      console.error('Error recording API key usage:', error);
+    }
+  },
+
+  async getApiKeyUsage(id) {
+    const { data, error } = await supabase
+      .from('api_key_usage')
       .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .eq('api_key_id', id)
+      .order('date', { ascending: false })
+      .order('scope', { ascending: true });
 
     if (error) return [];
     return data || [];
   },
 
-  // Get agent by claim code
-  async getAgentByClaimCode(claimCode: string): Promise<Agent | null> {
+  // Agent auth challenges
+  async createAuthChallenge(challenge) {
+    await supabase
+      .from('auth_challenges')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
     const { data, error } = await supabase
-      .from('agents')
+      .from('auth_challenges')
+      .insert(challenge)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Error creating auth challenge: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getAuthChallenge(nonce) {
+    const { data, error } = await supabase
+      .from('auth_challenges')
       .select('*')
-      .eq('claim_code', claimCode)
+      .eq('nonce', nonce)
       .single();
 
     if (error) return null;
     return data;
   },
 
-  // Get child agents (sub-agents) of a parent
-  async getChildAgents(parentDid: string): Promise<Agent[]> {
+  // The used_at IS NULL filter makes this a single atomic compare-and-set
+  async consumeAuthChallenge(nonce, usedAt) {
     const { data, error } = await supabase
-      .from('agents')
+      .from('auth_challenges')
+      .update({ used_at: usedAt })
+      .eq('nonce', nonce)
+      .is('used_at', null)
+      .select('nonce');
+
+    if (error) return false;
+    return (data?.length || 0) > 0;
+  },
+
+  async recordSignatureUse(challenge, usedAt) {
+    const { error } = await supabase
+      .from('auth_challenges')
+      .insert({ ...challenge, used_at: usedAt });
+
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) {
+      throw new Error(`Error recording signature use: ${error.message}`);
+    }
+    return true;
+  },
+
+  // Agent token sessions
+  async createAgentSession(session) {
+    await supabase
+      .from('agent_sessions')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    const { data, error } = await supabase
+      .from('agent_sessions')
+      .insert(session)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Error creating agent session: ${error?.message}`);
+    }
+    return data;
+  },
+
+  async getAgentSession(id) {
+    const { data, error } = await supabase
+      .from('agent_sessions')
       .select('*')
-      .eq('parent_did', parentDid)
-      .order('created_at', { ascending: false });
+      .eq('id', id)
+      .single();
 
-    if (error) return [];
-    return data || [];
+    if (error) return null;
+    return data;
+  },
+
+  async getAgentSessionByRefreshToken(tokenHash) {
+    const { data, error } = await supabase
+      .from('agent_sessions')
+      .select('*')
+      .or(`refresh_token_hash.eq.${tokenHash},previous_token_hash.eq.${tokenHash}`)
+      .limit(1);
+
+    if (error) return null;
+    return data?.[0] || null;
+  },
+
+  // Filtering on the current hash makes rotation a compare-and-set, so a refresh token is used once
+  async rotateAgentSession(id, tokenHash, newTokenHash, refreshedAt) {
+    const { data, error } = await supabase
+      .from('agent_sessions')
+      .update({ refresh_token_hash: newTokenHash, previous_token_hash: tokenHash, refreshed_at: refreshedAt })
+      .eq('id', id)
+      .eq('refresh_token_hash', tokenHash)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) return false;
+    return (data?.length || 0) > 0;
+  },
+
+  async revokeAgentSession(id, revokedAt) {
+    const { data, error } = await supabase
+      .from('agent_sessions')
+      .update({ revoked_at: revokedAt })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) return false;
+    return (data?.length || 0) > 0;
+  },
+
+  async revokeAgentSessions(agentId, revokedAt) {
+    const { error } = await supabase
+      .from('agent_sessions')
+      .update({ revoked_at: revokedAt })
+      .eq('agent_id', agentId)
+      .is('revoked_at', null);
+
+    if (error) {
+      throw new Error(`Error revoking agent sessions: ${error.message}`);
+    }
+  },
+
+  // Owner accounts: Supabase Auth access tokens
+  async getUserByToken(token) {
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+    if (error || !user) return null;
+    return { id: user.id, email: user.email };
   }
 };
 
@@ -2,8 +2,21 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
-import { initializeDatabase } from './db/supabase';
-import agentsRouter from './routes/agents-supabase';
+import { initializeDatabase, supabaseStore } from './db/supabase';
+import { createApiRouter, API_ENDPOINTS } from './api';
+import { captureRawBody } from './middleware/auth';
+import { startWebhookWorker } from './utils/webhooks';
+import { sealReputationEvents, createReputationCheckpoint, startCheckpointWorker } from './utils/eventchain';
+import { backfillTransparencyLog } from './utils/transparency';
+import { configuredIssuerKeyError } from './utils/issuer';
+
+// Credentials, verification tokens and log heads have to verify after a restart, so the issuer key
+// is configured rather than generated per process (that is only for tests and local development)
+const issuerKeyError = configuredIssuerKeyError();
+if (issuerKeyError) {
+  console.error(`${issuerKeyError} - generate one with: node -e "console.log(require('crypto').randomBytes(32).toString('hex'))"`);
+  process.exit(1);
+}
 
 const app = express();
 const PORT = process.env.PORT || 3850;
@@ -19,11 +32,11 @@ const corsOptions = {
     'http://localhost:3000'
   ],
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Agent-DID', 'X-Agent-Identity'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Agent-DID', 'X-Agent-Nonce', 'X-Agent-Signature', 'X-Agent-Identity', 'Signature-Input', 'Signature', 'Content-Digest'],
   credentials: true
 };
 app.use(cors(corsOptions));
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 
 // Serve static files
 app.use('/dashboard', express.static(path.join(__dirname, '../dashboard')));
@@ -37,30 +50,7 @@ app.get('/badge.js', (req, res) => {
 });
 
 // API Routes
-app.use('/agents', agentsRouter);
-
-// Handle /verify without DID parameter
-app.get('/verify', (req, res) => {
-  res.status(400).json({
-    error: 'DID parameter required',
-    message: 'Usage: GET /verify/{did}',
-    example: 'GET /verify/did:agent:abc123'
-  });
-});
-
-// Convenience route: /verify/:did (also available at /agents/verify/:did)
-app.get('/verify/:did', (req, res) => {
-  // Forward to the agents router
-  req.url = `/verify/${req.params.did}`;
-  agentsRouter(req, res, () => {});
-});
-
-// Agent profile page route (linked from verification_url)
-app.get('/agent/:did', (req, res) => {
-  // Forward to the agents router for profile lookup
-  req.url = `/${req.params.did}`;
-  agentsRouter(req, res, () => {});
-});
+app.use(createApiRouter(supabaseStore));
 
 // Health check
 app.get('/health', (req, res) => {
@@ -79,14 +69,7 @@ app.get('/api', (req, res) => {
     name: 'Agent Identity Layer API',
     version: '0.2.0',
     database: 'supabase',
-    endpoints: {
-      'POST /agents/register': 'Register a new agent identity',
-      'GET /agents': 'List all agents',
-      'GET /agents/:id': 'Get agent profile by ID or DID',
-      'POST /agents/:id/verify': 'Verify agent signature',
-      'GET /agents/:id/reputation': 'Get agent reputation score',
-      'POST /agents/:id/work-report': 'Submit work performance (signed)'
-    },
+    endpoints: API_ENDPOINTS,
     documentation: 'https://github.com/yourusername/agent-identity'
   });
 });
@@ -113,6 +96,18 @@ app.get('/dashboard', (req, res) => {
 // Initialize and start
 initializeDatabase();
 
+// Retry failed webhook deliveries in the background
+startWebhookWorker(supabaseStore);
+
+// Seal reputation events written before chaining, then checkpoint the chains hourly
+sealReputationEvents(supabaseStore)
+  .then(() => createReputationCheckpoint(supabaseStore))
+  .catch(error => console.error('Reputation chain error:', error));
+startCheckpointWorker(supabaseStore);
+
+// Log agents registered before the transparency log existed (first start only)
+backfillTransparencyLog(supabaseStore).catch(error => console.error('Transparency log backfill error:', error));
+
 app.listen(PORT, () => {
   console.log(`
 ╔═══════════════════════════════════════════════════════════════╗
@@ -1,23 +1,31 @@
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
-import { initializeDatabase } from './db/schema';
-import agentsRouter from './routes/agents';
-import verifyRouter from './routes/verify';
+import { Store } from './db/store';
+import { createSqliteStore } from './db/sqlite';
+import { createMemoryStore } from './db/memory';
+import { createApiRouter, API_ENDPOINTS } from './api';
+import { captureRawBody } from './middleware/auth';
+import { startWebhookWorker } from './utils/webhooks';
+import { sealReputationEvents, createReputationCheckpoint, startCheckpointWorker } from './utils/eventchain';
+import { backfillTransparencyLog } from './utils/transparency';
 
 const app = express();
 const PORT = process.env.PORT || 3850;
 
+// SQLite by default; STORAGE=memory keeps everything in memory (nothing persisted)
+const STORAGE = process.env.STORAGE === 'memory' ? 'memory' : 'sqlite';
+const store: Store = STORAGE === 'memory' ? createMemoryStore() : createSqliteStore();
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 
 // Serve static dashboard
 app.use(express.static(path.join(__dirname, '../dashboard')));
 
 // API Routes
-app.use('/agents', agentsRouter);
-app.use('/verify', verifyRouter);
+app.use(createApiRouter(store));
 
 // Health check
 app.get('/health', (req, res) => {
@@ -25,6 +33,7 @@ app.get('/health', (req, res) => {
     status: 'ok', 
     service: 'agent-identity-layer',
     version: '0.1.0',
+    database: STORAGE,
     timestamp: new Date().toISOString()
   });
 });
@@ -34,15 +43,8 @@ app.get('/api', (req, res) => {
   res.json({
     name: 'Agent Identity Layer API',
     version: '0.1.0',
-    endpoints: {
-      'POST /agents/register': 'Register a new agent identity',
-      'GET /agents': 'List all agents',
-      'GET /agents/:id': 'Get agent profile by ID or DID',
-      'POST /agents/:id/verify': 'Verify agent signature',
-      'GET /agents/:id/reputation': 'Get agent reputation score',
-      'POST /verify': 'Verify a claim about an agent',
-      'GET /verify/:id/claims': 'Get verified claims for an agent'
-    },
+    database: STORAGE,
+    endpoints: API_ENDPOINTS,
     documentation: 'See README.md for full documentation'
   });
 });
@@ -52,9 +54,19 @@ app.get('/', (req, res) => {
   res.sendFile(path.join(__dirname, '../dashboard/index.html'));
 });
 
-// Initialize database and start server
-initializeDatabase();
+// Retry failed webhook deliveries in the background
+startWebhookWorker(store);
+
+// Seal reputation events written before chaining, then checkpoint the chains hourly
+sealReputationEvents(store)
+  .then(() => createReputationCheckpoint(store))
+  .catch(error => console.error('Reputation chain error:', error));
+startCheckpointWorker(store);
+
+// Log agents registered before the transparency log existed (first start only)
+backfillTransparencyLog(store).catch(error => console.error('Transparency log backfill error:', error));
 
+// Start server (the store initializes its database when created)
 app.listen(PORT, () => {
   console.log(`
 ╔═══════════════════════════════════════════════════════════════╗
@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { randomBytes } from '@noble/hashes/utils';
+import { bytesToHex } from '@noble/curves/abstract/utils';
+import { Store, ApiKey } from '../db/store';
+import { hash } from '../utils/crypto';
+
+/**
+ * API key authentication with scoped permissions
+ *
+ * Keys are sent as `Authorization: Bearer ail_...` or `X-API-Key: ail_...`. Only the SHA-256 hash
+ * is stored. Each scoped route records usage against the key (last_used_at, per-scope daily counts).
+ *
+ * Scopes:
+ * - read:   profiles, reputation, claims, DID resolution
+ * - verify: signature checks and platform verification (/verify/:did)
+ * - write:  registration, key rotation, status changes, work reports
+ * - admin:  everything, including managing the owner's API keys
+ */
+
+export type ApiKeyScope = 'read' | 'verify' | 'write' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'verify', 'write', 'admin'];
+
+export const API_KEY_PREFIX = 'ail_';
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Generate a new API key; the plaintext key is shown once, only the hash is stored
+ */
+export function generateApiKey(): { key: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${bytesToHex(randomBytes(32))}`;
+  return { key, keyHash: hash(key) };
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.permissions.includes('admin') || apiKey.permissions.includes(scope);
+}
+
+// Owner account tokens also use Bearer, so only ail_ tokens are treated as API keys
+function getPresentedKey(req: Request): string | null {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.substring(7);
+  }
+  return null;
+}
+
+/**
+ * Resolve the presented API key (if any) into res.locals.apiKey
+ * An unknown key is rejected outright rather than treated as anonymous
+ */
+export function apiKeyAuth(store: Store): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const presented = getPresentedKey(req);
+      if (!presented) return next();
+
+      const apiKey = await store.getApiKeyByHash(hash(presented));
+      if (!apiKey) {
+        return res.status(401).json({ error: 'Invalid API key' });
+      }
+
+      res.locals.apiKey = apiKey;
+      next();
+    } catch (error) {
+      console.error('API key auth error:', error);
+      res.status(500).json({ error: 'Failed to authenticate API key' });
+    }
+  };
+}
+
+/**
+ * Require an API key holding `scope` on a route
+ *
+ * Anonymous requests are allowed unless API_KEYS_REQUIRED=true, so public lookups keep working;
+ * a key that is presented must always hold the scope.
+ */
+export function requireScope(store: Store, scope: ApiKeyScope): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+
+    if (!apiKey) {
+      if (process.env.API_KEYS_REQUIRED === 'true') {
+        return res.status(401).json({
+          error: 'API key required',
+          message: `Send Authorization: Bearer <api key> with the ${scope} scope`
+        });
+      }
+      return next();
+    }
+
+    if (!hasScope(apiKey, scope)) {
+      return res.status(403).json({
+        error: 'Insufficient scope',
+        message: `This API key needs the ${scope} scope`,
+        required_scope: scope,
+        permissions: apiKey.permissions
+      });
+    }
+
+    try {
+      await store.recordApiKeyUsage(apiKey.id, scope, new Date().toISOString());
+    } catch (error) {
+      // Usage tracking never blocks the request
+      console.error('API key usage error:', error);
+    }
+    next();
+  };
+}
@@ -0,0 +1,422 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+import { bytesToHex } from '@noble/curves/abstract/utils';
+import { randomBytes } from '@noble/hashes/utils';
+import { v4 as uuidv4 } from 'uuid';
+import { Store, Agent, AgentSession, AuthUser } from '../db/store';
+import { verify, hash, keyValidAt, verificationMethodId, canonicalize, createPayload } from '../utils/crypto';
+import {
+  contentDigest,
+  createSignatureBase,
+  parseSignature,
+  parseSignatureInput,
+  REQUIRED_COMPONENTS,
+  SIGNATURE_ALGORITHM
+} from '../utils/httpsig';
+import { getIssuer } from '../utils/issuer';
+import { decodeJwsHeader, signJws, verifyJws } from '../utils/jws';
+import { acceptsSignatures } from '../utils/status';
+
+export const AUTH_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Audience bound into every agent auth signature, so signatures made for this service
+ * can't be reused against another; AUTH_AUDIENCE overrides the issuer DID
+ */
+export function getAuthAudience(): string {
+  return process.env.AUTH_AUDIENCE || getIssuer().did;
+}
+
+// No body (or an empty JSON object) hashes as the empty string
+function bodyHash(body: unknown): string {
+  const hasBody = body !== undefined && body !== null && !(typeof body === 'object' && Object.keys(body).length === 0);
+  return hash(hasBody ? canonicalize(body) : '');
+}
+
+/**
+ * Build the payload an agent signs to authenticate a request (canonical JSON)
+ */
+export function createAgentAuthMessage(did: string, nonce: string, method: string, path: string, body: unknown, audience: string): string {
+  return createPayload('agent_auth', {
+    did,
+    nonce,
+    method: method.toUpperCase(),
+    path,
+    body_hash: bodyHash(body),
+    audience
+  });
+}
+
+/**
+ * Agent authentication for agent-authenticated endpoints
+ * Accepts an access token from POST /auth/token (Authorization: Bearer <token>) or a signed request
+ * (verifyAgentSignature). Tokens need the read scope for GET and HEAD requests, write otherwise.
+ */
+export async function verifyAgentAuth(store: Store, req: Request): Promise<{ agent: Agent | null; error?: string }> {
+  const token = getAgentAccessToken(req);
+  if (token) {
+    const scope: AgentTokenScope = req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+    return verifyAccessToken(store, token, scope);
+  }
+  return verifyAgentSignature(store, req);
+}
+
+/**
+ * Agent authentication by signature (challenge/response)
+ * 1. POST /auth/challenge with the agent's DID returns a single-use nonce
+ * 2. The agent signs createAgentAuthMessage (nonce, method, path, body hash, audience)
+ * 3. The request carries X-Agent-DID, X-Agent-Nonce and X-Agent-Signature
+ * The nonce is consumed on success, so a captured signature can't be replayed.
+ * requireNonce: HTTP Message Signatures must carry a challenge nonce too (the X-Agent scheme always does)
+ */
+export async function verifyAgentSignature(store: Store, req: Request, options: { requireNonce?: boolean } = {}): Promise<{ agent: Agent | null; error?: string }> {
+  // Requests signed with HTTP Message Signatures are verified by that scheme instead
+  if (req.headers['signature-input']) {
+    return verifyHttpSignature(store, req, options);
+  }
+
+  const did = req.headers['x-agent-did'] as string;
+  const nonce = req.headers['x-agent-nonce'] as string;
+  const signature = req.headers['x-agent-signature'] as string;
+
+  if (!did || !nonce || !signature) {
+    return { agent: null, error: 'Missing auth headers: X-Agent-DID, X-Agent-Nonce, X-Agent-Signature required (get a nonce from POST /auth/challenge)' };
+  }
+
+  const challengeError = await checkChallenge(store, nonce, did);
+  if (challengeError) {
+    return { agent: null, error: challengeError };
+  }
+
+  const agent = await store.getAgentByDid(did);
+  if (!agent) {
+    return { agent: null, error: 'Agent not found' };
+  }
+
+  if (!acceptsSignatures(agent.status)) {
+    return { agent: null, error: `Agent is ${agent.status}` };
+  }
+
+  // Verify with the agent's current key
+  const message = createAgentAuthMessage(did, nonce, req.method, req.originalUrl, req.body, getAuthAudience());
+  const signingKey = keyValidAt(await store.getAgentKeys(agent.id), new Date());
+  const isValid = !!signingKey && verify(message, signature, signingKey.public_key);
+  if (!isValid) {
+    return { agent: null, error: 'Invalid signature' };
+  }
+
+  // Consume last, so an invalid signature can't burn someone else's nonce
+  if (!await store.consumeAuthChallenge(nonce, new Date().toISOString())) {
+    return { agent: null, error: 'Challenge nonce already used' };
+  }
+
+  return { agent };
+}
+
+/**
+ * A nonce is usable once, by the DID it was issued to, until it expires
+ * Returns why the nonce can't be used, or null; callers consume it once the signature checks out
+ */
+export async function checkChallenge(store: Store, nonce: string, did: string): Promise<string | null> {
+  const challenge = await store.getAuthChallenge(nonce);
+  if (!challenge || challenge.did !== did) {
+    return 'Unknown challenge nonce';
+  }
+  if (challenge.used_at) {
+    return 'Challenge nonce already used';
+  }
+  if (new Date(challenge.expires_at).getTime() <= Date.now()) {
+    return 'Challenge nonce expired';
+  }
+  return null;
+}
+
+/**
+ * Agent access tokens (POST /auth/token)
+ *
+ * An agent proves key possession once, with a signed request, and gets a short-lived access token:
+ * a compact JWS (typ at+jwt, RFC 9068) signed by the issuer key with claims iss, sub (the agent's
+ * DID), aud, iat, exp, jti, sid (its session) and scope. A refresh token (ailr_..., only its hash is
+ * stored) gets new tokens until the session expires; each refresh replaces it, and presenting a
+ * replaced one revokes the session. Revoking a session (POST /auth/revoke, or rotating the agent's
+ * key) revokes its access tokens too.
+ */
+
+export type AgentTokenScope = 'read' | 'write';
+
+export const AGENT_TOKEN_SCOPES: AgentTokenScope[] = ['read', 'write'];
+
+export const ACCESS_TOKEN_TYPE = 'at+jwt';
+
+export const REFRESH_TOKEN_PREFIX = 'ailr_';
+
+// Access token lifetime (default 15 minutes)
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.AGENT_ACCESS_TOKEN_TTL_SECONDS || '', 10) || 15 * 60;
+
+// Session lifetime, fixed when the session starts; refreshing doesn't extend it (default 30 days)
+export const REFRESH_TOKEN_TTL_MS = (parseInt(process.env.AGENT_REFRESH_TOKEN_TTL_DAYS || '', 10) || 30) * 24 * 60 * 60 * 1000;
+
+export function isAgentTokenScope(value: unknown): value is AgentTokenScope {
+  return typeof value === 'string' && (AGENT_TOKEN_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Generate a refresh token; the plaintext token is returned once, only the hash is stored
+ */
+export function generateRefreshToken(): { token: string; tokenHash: string } {
+  const token = `${REFRESH_TOKEN_PREFIX}${bytesToHex(randomBytes(32))}`;
+  return { token, tokenHash: hash(token) };
+}
+
+/**
+ * Start a token session for an agent; returns the session and its first refresh token
+ */
+export async function createAgentSession(store: Store, agent: Agent, scope: AgentTokenScope[]): Promise<{ session: AgentSession; refreshToken: string }> {
+  const { token, tokenHash } = generateRefreshToken();
+  const session = await store.createAgentSession({
+    id: uuidv4(),
+    agent_id: agent.id,
+    did: agent.did,
+    scope,
+    refresh_token_hash: tokenHash,
+    expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString()
+  });
+  return { session, refreshToken: token };
+}
+
+/**
+ * Sign an access token for a session, limited to scope (a subset of the session's)
+ */
+export function createAccessToken(session: AgentSession, scope: string[] = session.scope): { token: string; expiresAt: number } {
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + ACCESS_TOKEN_TTL_SECONDS;
+  const token = signJws(ACCESS_TOKEN_TYPE, {
+    iss: getIssuer().did,
+    sub: session.did,
+    aud: getAuthAudience(),
+    iat,
+    exp,
+    jti: uuidv4(),
+    sid: session.id,
+    scope: scope.join(' ')
+  });
+  return { token, expiresAt: exp };
+}
+
+/**
+ * The bearer access token on a request, if any
+ * Owner account tokens and API keys also use Bearer, so only at+jwt tokens are taken.
+ */
+export function getAgentAccessToken(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+  return decodeJwsHeader(token)?.typ === ACCESS_TOKEN_TYPE ? token : null;
+}
+
+/**
+ * Check an access token's signature, claims and scope, and that its session is still live
+ * Returns the live session even when the agent can't authenticate, for callers that revoke it.
+ */
+export async function verifyAccessToken(store: Store, token: string, scope?: AgentTokenScope): Promise<{ agent: Agent | null; session?: AgentSession; error?: string }> {
+  const issuer = getIssuer();
+  const check = verifyJws(token, ACCESS_TOKEN_TYPE, issuer.publicKey);
+  if (!check.valid) {
+    return { agent: null, error: check.error };
+  }
+
+  const claims = check.payload!;
+  if (claims.iss !== issuer.did || claims.aud !== getAuthAudience() || typeof claims.sub !== 'string' || typeof claims.sid !== 'string') {
+    return { agent: null, error: 'Invalid access token' };
+  }
+
+  if (scope && !(typeof claims.scope === 'string' && claims.scope.split(' ').includes(scope))) {
+    return { agent: null, error: `Access token lacks the ${scope} scope` };
+  }
+
+  const session = await store.getAgentSession(claims.sid);
+  if (!session || session.did !== claims.sub || session.revoked_at) {
+    return { agent: null, error: 'Access token revoked' };
+  }
+
+  const agent = await store.getAgentByDid(claims.sub);
+  if (!agent) {
+    return { agent: null, session, error: 'Agent not found' };
+  }
+
+  if (!acceptsSignatures(agent.status)) {
+    return { agent: null, session, error: `Agent is ${agent.status}` };
+  }
+
+  return { agent, session };
+}
+
+/**
+ * Keep the raw request body for Content-Digest checks
+ * Use as express.json({ verify: captureRawBody })
+ */
+export function captureRawBody(req: IncomingMessage, res: ServerResponse, buf: Buffer) {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+// The URI the client signed; PUBLIC_URL fixes scheme and host behind a proxy
+function targetUri(req: Request): string {
+  const base = process.env.PUBLIC_URL?.replace(/\/$/, '') || `${req.protocol}://${req.get('host')}`;
+  return `${base}${req.originalUrl}`;
+}
+
+/**
+ * Agent authentication with HTTP Message Signatures (RFC 9421, Ed25519)
+ * The signature must cover @method and @target-uri (plus content-digest when there is a body)
+ * and carry created (within 5 min) and keyid (the agent's DID or DID URL of its current key).
+ * Every signature is accepted once: a nonce parameter from POST /auth/challenge is consumed, and
+ * signatures without one are recorded as used until their 5 minute window closes.
+ * requireNonce: refuse signatures without a challenge nonce
+ */
+export async function verifyHttpSignature(store: Store, req: Request, options: { requireNonce?: boolean } = {}): Promise<{ agent: Agent | null; error?: string }> {
+  const signatureInput = req.headers['signature-input'] as string;
+  const signatureHeader = req.headers['signature'] as string;
+
+  if (!signatureInput || !signatureHeader) {
+    return { agent: null, error: 'Missing Signature-Input or Signature header' };
+  }
+
+  const input = parseSignatureInput(signatureInput);
+  const signature = input && parseSignature(signatureHeader, input.label);
+  if (!input || !signature) {
+    return { agent: null, error: 'Malformed Signature-Input or Signature header' };
+  }
+
+  const { components, params } = input;
+  const body = (req as unknown as RawBodyRequest).rawBody;
+  const required = body?.length ? [...REQUIRED_COMPONENTS, 'content-digest'] : REQUIRED_COMPONENTS;
+  const missing = required.filter(c => !components.includes(c));
+  if (missing.length) {
+    return { agent: null, error: `Signature must cover: ${missing.join(', ')}` };
+  }
+  if (params.alg && params.alg !== SIGNATURE_ALGORITHM) {
+    return { agent: null, error: `Unsupported algorithm: ${params.alg}` };
+  }
+  if (!params.keyid) {
+    return { agent: null, error: 'Signature keyid is required' };
+  }
+
+  // created is in seconds
+  const now = Date.now();
+  if (params.created === undefined || Math.abs(now - params.created * 1000) > AUTH_CHALLENGE_TTL_MS) {
+    return { agent: null, error: 'Signature created missing or outside the 5 minute window' };
+  }
+  if (params.expires !== undefined && params.expires * 1000 <= now) {
+    return { agent: null, error: 'Signature expired' };
+  }
+
+  const values: Record<string, string> = {};
+  for (const component of components) {
+    if (component === '@method') {
+      values[component] = req.method.toUpperCase();
+    } else if (component === '@target-uri') {
+      values[component] = targetUri(req);
+    } else if (component.startsWith('@')) {
+      return { agent: null, error: `Unsupported component: ${component}` };
+    } else {
+      const value = req.headers[component];
+      if (value === undefined) {
+        return { agent: null, error: `Covered header missing: ${component}` };
+      }
+      values[component] = (Array.isArray(value) ? value.join(', ') : value).trim();
+    }
+  }
+
+  if (values['content-digest'] !== undefined && values['content-digest'] !== contentDigest(body || new Uint8Array())) {
+    return { agent: null, error: 'Content-Digest does not match the body' };
+  }
+
+  const [did] = params.keyid.split('#');
+  if (options.requireNonce && !params.nonce) {
+    return { agent: null, error: 'Signature nonce is required (get one from POST /auth/challenge)' };
+  }
+  if (params.nonce) {
+    const challengeError = await checkChallenge(store, params.nonce, did);
+    if (challengeError) {
+      return { agent: null, error: challengeError };
+    }
+  }
+
+  const agent = await store.getAgentByDid(did);
+  if (!agent) {
+    return { agent: null, error: 'Agent not found' };
+  }
+
+  if (!acceptsSignatures(agent.status)) {
+    return { agent: null, error: `Agent is ${agent.status}` };
+  }
+
+  // Only the current key; a DID URL keyid must name it
+  const signingKey = keyValidAt(await store.getAgentKeys(agent.id), new Date());
+  if (!signingKey || (params.keyid !== did && params.keyid !== verificationMethodId(did, signingKey.key_index))) {
+    return { agent: null, error: 'Signature keyid is not the agent\'s current key' };
+  }
+
+  const base = createSignatureBase(components, values, input.serializedParams);
+  if (!verify(base, bytesToHex(signature), signingKey.public_key)) {
+    return { agent: null, error: 'Invalid signature' };
+  }
+
+  if (params.nonce) {
+    if (!await store.consumeAuthChallenge(params.nonce, new Date().toISOString())) {
+      return { agent: null, error: 'Challenge nonce already used' };
+    }
+  } else {
+    // Remembered until created + 5 minutes, after which the window check refuses it anyway
+    const used = await store.recordSignatureUse({
+      nonce: `sig:${hash(`${params.keyid} ${bytesToHex(signature)}`)}`,
+      did,
+      expires_at: new Date(params.created * 1000 + AUTH_CHALLENGE_TTL_MS).toISOString()
+    }, new Date().toISOString());
+    if (!used) {
+      return { agent: null, error: 'Signature already used' };
+    }
+  }
+
+  return { agent };
+}
+
+/**
+ * Middleware requiring an HTTP Message Signature from a registered agent
+ * The authenticated agent is available as res.locals.agent
+ */
+export function httpSignatureAuth(store: Store): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { agent, error } = await verifyHttpSignature(store, req);
+      if (!agent) {
+        return res.status(401).json({ error: error || 'Authentication failed' });
+      }
+      res.locals.agent = agent;
+      next();
+    } catch (error) {
+      console.error('HTTP signature auth error:', error);
+      res.status(500).json({ error: 'Failed to verify signature' });
+    }
+  };
+}
+
+/**
+ * Owner account authentication (Authorization: Bearer <access token>)
+ * Returns null user when no bearer token was sent, so callers can fall back to other auth
+ */
+export async function authenticateUser(store: Store, req: Request): Promise<{ user: AuthUser | null; error?: string }> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return { user: null };
+  }
+
+  const user = await store.getUserByToken(authHeader.substring(7));
+  if (!user) {
+    return { user: null, error: 'Invalid token' };
+  }
+  return { user };
+}
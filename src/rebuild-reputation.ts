@@ -0,0 +1,35 @@
+import 'dotenv/config';
+import { Store } from './db/store';
+import { getReputationModel, rebuildReputationAggregates } from './utils/reputation';
+
+/**
+ * Recompute every agent's reputation aggregate from its event log
+ *
+ * Run after changing REPUTATION_ALGORITHM or a model's weights:
+ *   npm run rebuild:reputation                        (SQLite, the local server's database)
+ *   STORAGE=supabase npm run rebuild:reputation       (Supabase)
+ */
+
+async function openStore(): Promise<Store> {
+  if (process.env.STORAGE === 'supabase') {
+    return (await import('./db/supabase')).supabaseStore;
+  }
+  return (await import('./db/sqlite')).createSqliteStore();
+}
+
+async function main() {
+  const model = getReputationModel();
+  if (!model) {
+    throw new Error(`Unknown REPUTATION_ALGORITHM: ${process.env.REPUTATION_ALGORITHM}`);
+  }
+
+  const store = await openStore();
+  console.log(`Rebuilding reputation aggregates with algorithm ${model.version}...`);
+  const rebuilt = await rebuildReputationAggregates(store, model);
+  console.log(`Rebuilt ${rebuilt} agent(s)`);
+}
+
+main().catch(error => {
+  console.error('Rebuild failed:', error);
+  process.exit(1);
+});
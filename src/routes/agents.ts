@@ -1,493 +1,2196 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { db, Agent } from '../db/schema';
-import { generateKeyPair, generateDID, createDIDDocument, verify, sign } from '../utils/crypto';
-
-const router = Router();
-
-/**
- * POST /agents/register
- * Register a new agent identity
- * 
- * SECURITY: Rate limited per IP to prevent sybil attacks
- */
-router.post('/register', (req: Request, res: Response) => {
-  try {
-    const { name, owner_id, metadata = {}, public_key } = req.body;
-
-    if (!name) {
-      return res.status(400).json({ error: 'Name is required' });
-    }
-
-    // ========== SECURITY: Registration Rate Limit ==========
-    // Limit registrations per IP to prevent sybil attacks
-    const clientIP = req.ip || req.headers['x-forwarded-for'] || 'unknown';
-    
-    const regLimitStmt = db.prepare(`
-      SELECT COUNT(*) as reg_count 
-      FROM agents 
-      WHERE metadata LIKE ? 
-        AND created_at > datetime('now', '-24 hours')
-    `);
-    const { reg_count } = regLimitStmt.get(`%"registration_ip":"${clientIP}"%`) as { reg_count: number };
-    
-    if (reg_count >= 10) {
-      return res.status(429).json({ 
-        error: 'Registration rate limit exceeded',
-        message: 'Maximum 10 agent registrations per IP per 24 hours'
-      });
-    }
-
-    const id = uuidv4();
-    let keyPair = null;
-    let publicKey = public_key;
-
-    // If no public key provided, generate one (and return private key ONCE)
-    if (!publicKey) {
-      keyPair = generateKeyPair();
-      publicKey = keyPair.publicKey;
-    }
-
-    const did = generateDID(publicKey);
-
-    const stmt = db.prepare(`
-      INSERT INTO agents (id, name, owner_id, public_key, did, metadata)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-
-    // Store registration metadata including IP for rate limiting
-    const fullMetadata = {
-      ...metadata,
-      registration_ip: clientIP,
-      registration_timestamp: new Date().toISOString()
-    };
-    stmt.run(id, name, owner_id || null, publicKey, did, JSON.stringify(fullMetadata));
-
-    // Log reputation event for registration
-    const eventStmt = db.prepare(`
-      INSERT INTO reputation_events (agent_id, event_type, score_delta, description)
-      VALUES (?, 'registration', 10, 'Initial registration')
-    `);
-    eventStmt.run(id);
-
-    const response: any = {
-      id,
-      did,
-      name,
-      owner_id,
-      public_key: publicKey,
-      created_at: new Date().toISOString()
-    };
-
-    // Only return private key on creation (one time!)
-    if (keyPair) {
-      response.private_key = keyPair.privateKey;
-      response.warning = 'SAVE YOUR PRIVATE KEY - IT WILL NOT BE SHOWN AGAIN';
-    }
-
-    res.status(201).json(response);
-  } catch (error: any) {
-    console.error('Registration error:', error);
-    if (error.message?.includes('UNIQUE constraint')) {
-      return res.status(409).json({ error: 'Agent with this public key already exists' });
-    }
-    res.status(500).json({ error: 'Failed to register agent' });
-  }
-});
-
-/**
- * GET /agents/:id
- * Get agent profile by ID or DID
- */
-router.get('/:id', (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    
-    // Check if it's a DID or UUID
-    const isDID = id.startsWith('did:');
-    
-    const stmt = db.prepare(
-      isDID 
-        ? 'SELECT * FROM agents WHERE did = ?' 
-        : 'SELECT * FROM agents WHERE id = ?'
-    );
-    
-    const agent = stmt.get(id) as Agent | undefined;
+import { Store, Agent, ApiKey, TaskReceipt, ConflictError } from '../db/store';
+import { verifyAgentAuth, authenticateUser, getAgentAccessToken, checkChallenge } from '../middleware/auth';
+import { requireScope } from '../middleware/apiKeys';
+import { generateKeyPair, generateDID, createDIDDocument, verify, createRotationMessage, createStatusChangeMessage, createWorkReportMessage, createEndorsementMessage, createTaskReceiptMessage, keyValidAt, isValidPublicKey, verificationMethodId, mintDID, parseDIDKey, getDIDMethod, didWebDocumentUrl } from '../utils/crypto';
+import { isAgentStatus, canTransition, acceptsSignatures, isTerminalStatus, statusRefusal } from '../utils/status';
+import { isReportCategory, reportForAgent, OPEN_REPORT_STATUSES, REPORT_CATEGORIES, MAX_EVIDENCE_ITEMS } from '../utils/moderation';
+import { emitWebhookEvent } from '../utils/webhooks';
+import { checkDidWebDocument, didVerified } from '../utils/didweb';
+import { appendToLog } from '../utils/transparency';
+import { verifyReputationChain, checkpointInclusion } from '../utils/eventchain';
+import { getIssuer } from '../utils/issuer';
+import { generateClaimCode, claimCodeExpired, transferExpired, OWNERSHIP_TRANSFER_TTL_MS } from '../utils/ownership';
+import { buildAgentTree, checkHierarchyLimits, getAncestors, MAX_HIERARCHY_DEPTH, MAX_CHILD_AGENTS } from '../utils/hierarchy';
+import { parseAgentSearch, encodeCursor } from '../utils/directory';
+import { getReputation, getReputations, loadReputationAggregate, reputationFromAggregate, computeReputation, getReputationModel, workReportDelta, scoreDelta, endorsementWeight, endorsementDelta, endorsementPeriod, REPUTATION_MODELS } from '../utils/reputation';
 
-    if (!agent) {
-      return res.status(404).json({ error: 'Agent not found' });
-    }
+// Simple HTML sanitization - strips all tags
+function sanitizeName(input: string): string {
+  return input
+    .replace(/<[^>]*>/g, '') // Remove HTML tags
+    .replace(/[<>]/g, '')    // Remove any remaining angle brackets
+    .trim()
+    .substring(0, 255);      // Enforce max length
+}
 
-    // Generate DID document
-    const didDocument = createDIDDocument(agent.did, agent.public_key, agent.owner_id || undefined);
+// Endorsement context tags, e.g. "code-review"
+const ENDORSEMENT_CONTEXT = /^[a-z0-9][a-z0-9_-]{0,49}$/;
 
-    // Get reputation score
-    const repStmt = db.prepare(`
-      SELECT COALESCE(SUM(score_delta), 0) as total_score
-      FROM reputation_events WHERE agent_id = ?
-    `);
-    const { total_score } = repStmt.get(agent.id) as { total_score: number };
-    const reputation = 3.0 + (total_score / 100);
+// Agents that share a parent or an owner account (or are parent and child) can't endorse each other
+function relatedAgents(a: Agent, b: Agent): boolean {
+  return a.id === b.id
+    || (!!a.parent_did && a.parent_did === b.parent_did)
+    || (!!a.user_id && a.user_id === b.user_id)
+    || a.parent_did === b.did
+    || b.parent_did === a.did;
+}
 
-    res.json({
-      ...agent,
-      metadata: JSON.parse(agent.metadata || '{}'),
-      reputation: Math.round(Math.max(0, Math.min(5, reputation)) * 100) / 100,
-      did_document: didDocument
-    });
-  } catch (error) {
-    console.error('Get agent error:', error);
-    res.status(500).json({ error: 'Failed to fetch agent' });
+const TASK_OUTCOMES = ['completed', 'corrected', 'failed'];
+const MAX_REPORT_TASKS = 100;
+
+// Work report counts from confirmed tasks: corrected tasks still count as completed
+function receiptCounts(receipts: Pick<TaskReceipt, 'outcome' | 'positive_feedback'>[]) {
+  return {
+    tasks_completed: receipts.filter(r => r.outcome !== 'failed').length,
+    corrections: receipts.filter(r => r.outcome === 'corrected').length,
+    positive_feedback: receipts.filter(r => r.positive_feedback).length,
+    errors: receipts.filter(r => r.outcome === 'failed').length
+  };
+}
+
+export function createAgentsRouter(store: Store): Router {
+  const router = Router();
+  const read = requireScope(store, 'read');
+  const verifyScope = requireScope(store, 'verify');
+  const write = requireScope(store, 'write');
+
+  // Look up an agent by ID or DID
+  function getAgent(id: string): Promise<Agent | null> {
+    return id.startsWith('did:') ? store.getAgentByDid(id) : store.getAgentById(id);
   }
-});
-
-/**
- * POST /agents/:id/verify
- * Verify agent identity by checking a signature
- */
-router.post('/:id/verify', (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { message, signature } = req.body;
-
-    if (!message || !signature) {
-      return res.status(400).json({ error: 'Message and signature are required' });
-    }
-
-    const isDID = id.startsWith('did:');
-    const stmt = db.prepare(
-      isDID 
-        ? 'SELECT * FROM agents WHERE did = ?' 
-        : 'SELECT * FROM agents WHERE id = ?'
-    );
-    
-    const agent = stmt.get(id) as Agent | undefined;
 
-    if (!agent) {
-      return res.status(404).json({ error: 'Agent not found' });
+  /**
+   * The agent named by :id, if the owner account (Bearer access token) owns it; otherwise
+   * responds 401, 404 or 403 and returns null
+   */
+  async function getOwnedAgent(req: Request, res: Response): Promise<{ agent: Agent; userId: string } | null> {
+    const { user, error } = await authenticateUser(store, req);
+    if (!user) {
+      res.status(401).json({
+        error: error || 'Authorization required',
+        message: 'Sign in at clawid.co and provide your access token'
+      });
+      return null;
     }
 
-    const isValid = verify(message, signature, agent.public_key);
+    const agent = await getAgent(req.params.id);
+    if (!agent) {
+      res.status(404).json({ error: 'Agent not found' });
+      return null;
+    }
 
-    if (isValid) {
-      // Log successful verification
-      const eventStmt = db.prepare(`
-        INSERT INTO reputation_events (agent_id, event_type, score_delta, description)
-        VALUES (?, 'verification_success', 1, 'Successful identity verification')
-      `);
-      eventStmt.run(agent.id);
+    if (agent.user_id !== user.id) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You can only manage agents you own'
+      });
+      return null;
     }
+    return { agent, userId: user.id };
+  }
 
-    res.json({
-      verified: isValid,
-      agent_id: agent.id,
-      did: agent.did,
-      verified_at: new Date().toISOString()
-    });
-  } catch (error) {
-    console.error('Verification error:', error);
-    res.status(500).json({ error: 'Failed to verify agent' });
+  // Close an agent's pending transfer once it has run out, so a new one can start
+  async function expirePendingTransfer(agentId: string): Promise<void> {
+    const pending = (await store.getOwnershipTransfersByAgent(agentId)).find(t => t.status === 'pending');
+    if (pending && transferExpired(pending)) {
+      await store.resolveOwnershipTransfer(pending.id, 'expired', 'system', pending.expires_at);
+    }
   }
-});
-
-/**
- * GET /agents/:id/reputation
- * Get reputation score for an agent
- */
-router.get('/:id/reputation', (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    
-    const isDID = id.startsWith('did:');
-    const agentStmt = db.prepare(
-      isDID 
-        ? 'SELECT * FROM agents WHERE did = ?' 
-        : 'SELECT * FROM agents WHERE id = ?'
-    );
-    
-    const agent = agentStmt.get(id) as Agent | undefined;
 
-    if (!agent) {
-      return res.status(404).json({ error: 'Agent not found' });
-    }
-
-    // Calculate reputation score
-    const scoreStmt = db.prepare(`
-      SELECT 
-        COALESCE(SUM(score_delta), 0) as total_score,
-        COUNT(*) as event_count
-      FROM reputation_events 
-      WHERE agent_id = ?
-    `);
-    const scoreResult = scoreStmt.get(agent.id) as { total_score: number; event_count: number };
-
-    // Get recent events
-    const eventsStmt = db.prepare(`
-      SELECT * FROM reputation_events 
-      WHERE agent_id = ? 
-      ORDER BY created_at DESC 
-      LIMIT 10
-    `);
-    const recentEvents = eventsStmt.all(agent.id);
-
-    // Get verification count
-    const verifyStmt = db.prepare(`
-      SELECT COUNT(*) as count FROM verifications WHERE agent_id = ?
-    `);
-    const verifyResult = verifyStmt.get(agent.id) as { count: number };
-
-    // Calculate age in days
-    const createdAt = new Date(agent.created_at);
-    const ageInDays = Math.floor((Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
-
-    res.json({
-      agent_id: agent.id,
-      did: agent.did,
-      reputation: {
-        score: scoreResult.total_score,
-        event_count: scoreResult.event_count,
-        verification_count: verifyResult.count,
-        age_days: ageInDays,
-        status: agent.status
-      },
-      recent_events: recentEvents.map((e: any) => ({
-        ...e,
-        metadata: JSON.parse(e.metadata || '{}')
-      }))
+  // Change an agent's status, logging revocations and notifying webhooks
+  async function applyStatusChange(agent: Agent, status: string, reason: string | null, changedBy: string, signature: string | null): Promise<Agent | null> {
+    const updated = await store.changeAgentStatus(agent, status, reason, changedBy, signature);
+    if (!updated) return null;
+
+    if (updated.status === 'revoked') {
+      const keys = await store.getAgentKeys(agent.id);
+      const keyIndex = keys.length > 0 ? keys[keys.length - 1].key_index : 1;
+      await appendToLog(store, 'revocation', agent, agent.public_key, keyIndex, updated.status_changed_at || undefined);
+    }
+
+    await emitWebhookEvent(store, 'status_change', updated, {
+      previous_status: agent.status,
+      status: updated.status,
+      reason: updated.status_reason,
+      changed_by: changedBy,
+      changed_at: updated.status_changed_at
     });
-  } catch (error) {
-    console.error('Reputation error:', error);
-    res.status(500).json({ error: 'Failed to fetch reputation' });
+    return updated;
   }
-});
-
-/**
- * POST /agents/:id/work-report
- * Submit work performance report
- * 
- * SECURITY: Requires signature to prove agent owns the identity
- */
-router.post('/:id/work-report', (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { 
-      period,
-      tasks_completed = 0,
-      corrections = 0,
-      positive_feedback = 0,
-      errors = 0,
-      timestamp,
-      signature  // REQUIRED: Agent must sign the report
-    } = req.body;
-
-    const isDID = id.startsWith('did:');
-    const agentStmt = db.prepare(
-      isDID 
-        ? 'SELECT * FROM agents WHERE did = ?' 
-        : 'SELECT * FROM agents WHERE id = ?'
-    );
-    
-    const agent = agentStmt.get(id) as Agent | undefined;
 
-    if (!agent) {
-      return res.status(404).json({ error: 'Agent not found' });
-    }
-
-    // ========== SECURITY: Signature Verification ==========
-    // Agent must sign the report to prove they own the identity
-    if (!signature) {
-      return res.status(401).json({ 
-        error: 'Signature required',
-        message: 'Work reports must be signed by the agent to prevent manipulation'
-      });
-    }
-
-    // Create canonical message to verify
-    const reportData = {
-      did: agent.did,
-      period: period || new Date().toISOString().split('T')[0],
-      tasks_completed,
-      corrections,
-      positive_feedback,
-      errors
-    };
-    const canonicalMessage = JSON.stringify(reportData);
-    
-    const signatureValid = verify(canonicalMessage, signature, agent.public_key);
-    if (!signatureValid) {
-      return res.status(401).json({ 
-        error: 'Invalid signature',
-        message: 'Signature does not match agent public key'
-      });
-    }
-
-    // ========== SECURITY: Input Validation ==========
-    // Prevent negative values (gaming the system)
-    const validatedTasks = Math.max(0, Math.min(1000, Math.floor(tasks_completed)));
-    const validatedCorrections = Math.max(0, Math.min(100, Math.floor(corrections)));
-    const validatedPositive = Math.max(0, Math.min(100, Math.floor(positive_feedback)));
-    const validatedErrors = Math.max(0, Math.min(100, Math.floor(errors)));
-
-    // ========== SECURITY: Rate Limiting (per agent) ==========
-    // Check how many reports this agent has submitted in last 24h
-    const rateLimitStmt = db.prepare(`
-      SELECT COUNT(*) as report_count 
-      FROM reputation_events 
-      WHERE agent_id = ? 
-        AND event_type = 'work_report' 
-        AND created_at > datetime('now', '-24 hours')
-    `);
-    const { report_count } = rateLimitStmt.get(agent.id) as { report_count: number };
-    
-    if (report_count >= 5) {
-      return res.status(429).json({ 
-        error: 'Rate limit exceeded',
-        message: 'Maximum 5 work reports per 24 hours'
-      });
-    }
-
-    // ========== SECURITY: Daily Delta Cap ==========
-    // Limit how much reputation can change per day (prevents massive gaming)
-    const MAX_DAILY_DELTA = 0.5;
-    
-    const dailyDeltaStmt = db.prepare(`
-      SELECT COALESCE(SUM(score_delta), 0) as daily_delta
-      FROM reputation_events 
-      WHERE agent_id = ? 
-        AND event_type = 'work_report' 
-        AND created_at > datetime('now', '-24 hours')
-    `);
-    const { daily_delta } = dailyDeltaStmt.get(agent.id) as { daily_delta: number };
-
-    // Calculate score delta based on work performance
-    // +0.01 per task, -0.05 per correction, +0.02 per positive, -0.03 per error
-    let delta = (validatedTasks * 0.01) - (validatedCorrections * 0.05) + (validatedPositive * 0.02) - (validatedErrors * 0.03);
-    
-    // Apply daily cap
-    const currentDailyDelta = daily_delta / 100; // Scale back from storage
-    const remainingAllowance = MAX_DAILY_DELTA - Math.abs(currentDailyDelta);
-    if (Math.abs(delta) > remainingAllowance) {
-      delta = delta > 0 ? remainingAllowance : -remainingAllowance;
-    }
-    
-    // Round to 3 decimal places
-    const roundedDelta = Math.round(delta * 1000) / 1000;
-
-    // Get current reputation
-    const repStmt = db.prepare(`
-      SELECT COALESCE(SUM(score_delta), 0) as current_score
-      FROM reputation_events WHERE agent_id = ?
-    `);
-    const { current_score } = repStmt.get(agent.id) as { current_score: number };
-    
-    // Base reputation is 3.0, scale events appropriately
-    const oldReputation = 3.0 + (current_score / 100); // Scale down events
-    
-    // Log the work report event
-    const eventStmt = db.prepare(`
-      INSERT INTO reputation_events (agent_id, event_type, score_delta, description, metadata)
-      VALUES (?, 'work_report', ?, ?, ?)
-    `);
-    
-    const description = `Work report: ${validatedTasks} tasks, ${validatedCorrections} corrections, ${validatedPositive} positive, ${validatedErrors} errors`;
-    const metadata = JSON.stringify({
-      period: period || new Date().toISOString().split('T')[0],
-      tasks_completed: validatedTasks,
-      corrections: validatedCorrections,
-      positive_feedback: validatedPositive,
-      errors: validatedErrors,
-      timestamp: timestamp || new Date().toISOString(),
-      signature_verified: true,
-      rate_limit_remaining: 5 - report_count - 1,
-      daily_delta_remaining: Math.round((MAX_DAILY_DELTA - Math.abs(currentDailyDelta + roundedDelta)) * 1000) / 1000
-    });
-    
-    eventStmt.run(agent.id, roundedDelta * 100, description, metadata); // Scale up for storage
-
-    // Calculate new reputation
-    const newReputation = Math.max(0, Math.min(5, oldReputation + roundedDelta));
-
-    res.json({
-      success: true,
-      agent_id: agent.id,
-      did: agent.did,
-      period,
-      delta: roundedDelta,
-      old_reputation: Math.round(oldReputation * 100) / 100,
-      new_reputation: Math.round(newReputation * 100) / 100,
-      reputation: Math.round(newReputation * 100) / 100,
-      recorded_at: new Date().toISOString()
-    });
-  } catch (error) {
-    console.error('Work report error:', error);
-    res.status(500).json({ error: 'Failed to record work report' });
+  /**
+   * Whether the agent's current status came from a cascade by ancestorDid: signed with the ancestor's key,
+   * or made by changedBy (the owner lifting its own cascade)
+   */
+  async function wasCascadedFrom(agent: Agent, ancestorDid: string, changedBy: string): Promise<boolean> {
+    const [lastChange] = await store.getStatusHistory(agent.id);
+    if (!lastChange) return false;
+    if (lastChange.changed_by === `ancestor:${ancestorDid}`) return true;
+    return lastChange.changed_by === changedBy && !!lastChange.reason?.startsWith(`Cascaded from ${ancestorDid}`);
   }
-});
 
-/**
- * POST /agents/:id/sign
- * Sign a message with agent's private key (for testing)
- */
-router.post('/:id/sign', (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { message, privateKey } = req.body;
+  /**
+   * POST /agents/register
+   * Register a new agent identity
+   * Workers (parent_did set) are registered by their parent: agent auth as the parent, via
+   * signed request or access token
+   *
+   * SECURITY: Rate limited per IP to prevent sybil attacks
+   */
+  router.post('/register', write, async (req: Request, res: Response) => {
+    try {
+      const { name: rawName, owner_id, metadata = {}, public_key, parent_did: topLevelParentDid, did: requestedDid, did_method, web_domain, web_path } = req.body;
+      // Accept parent_did at top level OR in metadata
+      const parentDid = topLevelParentDid || metadata?.parent_did || null;
+      const agentType = parentDid ? 'worker' : (metadata?.agent_type || 'main');
+
+      if (!rawName) {
+        return res.status(400).json({ error: 'Name is required' });
+      }
+
+      // Validate and sanitize name
+      if (typeof rawName !== 'string') {
+        return res.status(400).json({ error: 'Name must be a string' });
+      }
+
+      const name = sanitizeName(rawName);
+
+      if (name.length < 1) {
+        return res.status(400).json({ error: 'Name cannot be empty after sanitization' });
+      }
+
+      // ========== SECURITY: Registration Rate Limit ==========
+      // Limit registrations per IP to prevent sybil attacks
+      const clientIP = req.ip || req.headers['x-forwarded-for'] || 'unknown';
+      const canRegister = await store.checkRateLimit(String(clientIP), 'registration', 10, 24 * 60 * 60 * 1000);
+
+      if (!canRegister) {
+        return res.status(429).json({
+          error: 'Registration rate limit exceeded',
+          message: 'Maximum 10 agent registrations per IP per 24 hours'
+        });
+      }
+
+      // If registering as worker, verify parent exists
+      const parent = parentDid ? await store.getAgentByDid(parentDid) : null;
+      if (parentDid && !parent) {
+        return res.status(400).json({ error: 'Parent agent not found', parent_did: parentDid });
+      }
+
+      // Nobody joins a tree (and its owning account) without the parent's consent
+      if (parent) {
+        const { agent: authAgent, error: authError } = await verifyAgentAuth(store, req);
+        if (!authAgent) {
+          return res.status(401).json({
+            error: authError || 'Authentication failed',
+            message: 'Registering a worker requires agent auth as the parent (signed request or access token)'
+          });
+        }
+        if (authAgent.did !== parent.did) {
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: 'Only the parent agent can register its workers',
+            parent_did: parentDid
+          });
+        }
+      }
+
+      const limitError = parent && await checkHierarchyLimits(store, parent);
+      if (limitError) {
+        return res.status(400).json({ error: 'Hierarchy limit reached', message: limitError, parent_did: parentDid });
+      }
+
+      const id = uuidv4();
+      let keyPair = null;
+      let publicKey = public_key;
+
+      // An existing did:key carries its own public key
+      if (typeof requestedDid === 'string' && requestedDid.startsWith('did:key:')) {
+        const didKey = parseDIDKey(requestedDid);
+        if (!didKey) {
+          return res.status(400).json({ error: 'Invalid did:key (only Ed25519 keys are supported)' });
+        }
+        if (publicKey && publicKey.toLowerCase() !== didKey) {
+          return res.status(400).json({ error: 'public_key does not match the did:key' });
+        }
+        publicKey = didKey;
+      }
+
+      // If no public key provided, generate one (and return private key ONCE)
+      if (!publicKey) {
+        keyPair = generateKeyPair();
+        publicKey = keyPair.publicKey;
+      }
+
+      // did:agent by default; did:key and did:web on request
+      const minted = mintDID({ method: did_method, did: requestedDid, web_domain, web_path }, publicKey);
+      if ('error' in minted) {
+        return res.status(400).json({ error: minted.error });
+      }
+
+      // Generate DID - workers get parent prefix (did:key parents can't be extended, so those workers keep their own DID)
+      let did: string;
+      if (parentDid && getDIDMethod(parentDid) !== 'key') {
+        const workerId = generateDID(publicKey).split(':')[2].substring(0, 8);
+        did = `${parentDid}:w:${workerId}`;
+      } else {
+        did = minted.did;
+      }
+
+      // Generate claim code only for main agents (not sub-agents)
+      const claim = parentDid ? null : generateClaimCode();
+
+      // Store registration metadata including IP for abuse investigation
+      const fullMetadata = {
+        ...metadata,
+        agent_type: agentType,
+        parent_did: parentDid,
+        registration_ip: clientIP,
+        registration_timestamp: new Date().toISOString()
+      };
+
+      const agent = await store.createAgent({
+        id,
+        name,
+        owner_id: owner_id || null,
+        public_key: publicKey,
+        did,
+        metadata: fullMetadata,
+        status: 'active',
+        claim_code: claim?.claim_code ?? null,
+        claim_code_expires_at: claim?.claim_code_expires_at ?? null,
+        // Sub-agents inherit the owning account from their parent
+        user_id: parent?.user_id || null,
+        parent_did: parentDid,
+        agent_type: agentType
+      });
+
+      // Log initial reputation event
+      await store.createReputationEvent({
+        agent_id: id,
+        event_type: 'registration',
+        score_delta: scoreDelta('registration'),
+        description: 'Initial registration',
+        metadata: {}
+      });
+
+      await appendToLog(store, 'registration', agent, publicKey, 1, agent.created_at);
+
+      await emitWebhookEvent(store, 'registration', agent, {
+        did_method: getDIDMethod(did),
+        created_at: agent.created_at
+      });
+
+      const response: any = {
+        id,
+        did,
+        did_method: getDIDMethod(did),
+        name,
+        owner_id,
+        public_key: publicKey,
+        agent_type: agentType,
+        parent_did: parentDid,
+        created_at: agent.created_at
+      };
+
+      // did:web documents are hosted by the agent's own domain, and the DID verifies once they are
+      if (getDIDMethod(did) === 'web') {
+        response.did_document_url = didWebDocumentUrl(did);
+        response.did_document = createDIDDocument(did, publicKey, parentDid || undefined);
+        response.did_web_verified = false;
+        response.did_web_instructions = `Host did_document at did_document_url, then call POST /agents/${encodeURIComponent(did)}/did-web/verify`;
+      }
+
+      // Only return private key on creation (one time!)
+      if (keyPair) {
+        response.private_key = keyPair.privateKey;
+        response.warning = 'SAVE YOUR PRIVATE KEY - IT WILL NOT BE SHOWN AGAIN';
+      }
 
-    if (!message || !privateKey) {
-      return res.status(400).json({ error: 'Message and privateKey are required' });
+      // Include claim code for main agents
+      if (claim) {
+        response.claim_code = claim.claim_code;
+        response.claim_code_expires_at = claim.claim_code_expires_at;
+        response.claim_instructions = 'Go to clawid.co, create an account, and enter this code to link this agent to your dashboard.';
+      }
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Registration error:', error);
+      res.status(500).json({ error: 'Failed to register agent' });
     }
+  });
+
+  /**
+   * POST /agents/claim
+   * Claim an agent with a claim code (links to user account)
+   * Codes are single use and expire; the agent can issue a new one with POST /agents/me/claim-code
+   * Requires Authorization header with the account access token
+   */
+  router.post('/claim', async (req: Request, res: Response) => {
+    try {
+      // Check auth FIRST before validating body
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        return res.status(401).json({
+          error: 'Authorization required',
+          message: 'Sign in at clawid.co and provide your access token'
+        });
+      }
 
-    const signature = sign(message, privateKey);
+      const { claim_code } = req.body;
 
-    res.json({
-      did: id,
-      message,
-      signature,
-      signed_at: new Date().toISOString()
-    });
-  } catch (error) {
-    console.error('Sign error:', error);
-    res.status(500).json({ error: 'Failed to sign message' });
-  }
-});
-
-/**
- * GET /agents
- * List all agents
- */
-router.get('/', (req: Request, res: Response) => {
-  try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-    const offset = parseInt(req.query.offset as string) || 0;
-
-    const stmt = db.prepare(`
-      SELECT a.*, 
-        COALESCE((SELECT SUM(score_delta) FROM reputation_events WHERE agent_id = a.id), 0) as reputation_score
-      FROM agents a
-      ORDER BY created_at DESC
-      LIMIT ? OFFSET ?
-    `);
-    
-    const agents = stmt.all(limit, offset);
-    
-    const countStmt = db.prepare('SELECT COUNT(*) as total FROM agents');
-    const { total } = countStmt.get() as { total: number };
-
-    res.json({
-      agents: agents.map((a: any) => ({
-        ...a,
-        metadata: JSON.parse(a.metadata || '{}')
-      })),
-      pagination: {
-        total,
-        limit,
-        offset
+      if (!claim_code) {
+        return res.status(400).json({ error: 'claim_code is required' });
       }
-    });
-  } catch (error) {
-    console.error('List agents error:', error);
-    res.status(500).json({ error: 'Failed to list agents' });
-  }
-});
 
-export default router;
+      // Validate claim_code format (alphanumeric only, 6-20 chars)
+      if (typeof claim_code !== 'string' || !/^[A-Za-z0-9]{6,20}$/.test(claim_code)) {
+        return res.status(400).json({ error: 'Invalid claim_code format' });
+      }
+
+      const { user } = await authenticateUser(store, req);
+      if (!user) {
+        return res.status(401).json({
+          error: 'Invalid token',
+          message: 'Please sign in again at clawid.co'
+        });
+      }
+
+      // Limit guesses per account
+      const canClaim = await store.checkRateLimit(user.id, 'claim', 20, 60 * 60 * 1000);
+      if (!canClaim) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 20 claim attempts per hour'
+        });
+      }
+
+      // Find agent with this claim code
+      const agent = await store.getAgentByClaimCode(claim_code.toUpperCase());
+
+      if (!agent) {
+        return res.status(404).json({
+          error: 'Invalid claim code',
+          message: 'No agent found with this claim code. Check the code and try again.'
+        });
+      }
+
+      if (agent.user_id) {
+        return res.status(400).json({
+          error: 'Already claimed',
+          message: 'This agent has already been claimed by an account.'
+        });
+      }
+
+      if (claimCodeExpired(agent)) {
+        return res.status(400).json({
+          error: 'Claim code expired',
+          message: 'Ask the agent to issue a new claim code.'
+        });
+      }
+
+      // Claim the agent and its whole subtree of workers (this also uses up the code)
+      const subAgentsClaimed = await store.changeAgentOwner(agent.id, null, user.id, `user:${user.id}`, null);
+      if (subAgentsClaimed === null) {
+        return res.status(400).json({
+          error: 'Already claimed',
+          message: 'This agent has already been claimed by an account.'
+        });
+      }
+
+      await emitWebhookEvent(store, 'claim', { ...agent, user_id: user.id }, {
+        user_id: user.id,
+        sub_agents_claimed: subAgentsClaimed
+      });
+
+      res.json({
+        success: true,
+        message: 'Agent claimed successfully!',
+        agent: {
+          did: agent.did,
+          name: agent.name
+        },
+        sub_agents_claimed: subAgentsClaimed
+      });
+    } catch (error) {
+      console.error('Claim error:', error);
+      res.status(500).json({ error: 'Failed to claim agent' });
+    }
+  });
+
+  /**
+   * GET /agents/my
+   * Get all agents owned by the authenticated user
+   * Requires Authorization header with the account access token
+   */
+  router.get('/my', async (req: Request, res: Response) => {
+    try {
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        return res.status(401).json({
+          error: 'Authorization required',
+          message: 'Sign in at clawid.co to view your agents'
+        });
+      }
+
+      const { user } = await authenticateUser(store, req);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid token' });
+      }
+
+      const agents = await store.getAgentsByUser(user.id);
+
+      // Get reputation for each
+      const reputations = await getReputations(store, agents.map(a => a.id));
+      const agentsWithRep = agents.map(agent => {
+        const reputation = reputations.get(agent.id)!;
+        return {
+          ...agent,
+          reputation: reputation.score,
+          reputation_algorithm: reputation.algorithm
+        };
+      });
+
+      // Nest workers under their parents at any depth; agents whose parent isn't yours stay on top
+      type AgentWithWorkers = typeof agentsWithRep[number] & { workers: AgentWithWorkers[] };
+      const owned = new Set(agentsWithRep.map(a => a.did));
+      const withWorkers = (agent: typeof agentsWithRep[number]): AgentWithWorkers => ({
+        ...agent,
+        workers: agentsWithRep.filter(a => a.parent_did === agent.did).map(withWorkers)
+      });
+      const result = agentsWithRep.filter(a => !a.parent_did || !owned.has(a.parent_did)).map(withWorkers);
+
+      res.json({
+        user_id: user.id,
+        email: user.email,
+        agents: result,
+        total_agents: agentsWithRep.length
+      });
+    } catch (error) {
+      console.error('My agents error:', error);
+      res.status(500).json({ error: 'Failed to fetch agents' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/transfer
+   * Offer an agent you own (and its subtree) to another account, which has to accept it
+   * with POST /transfers/:id/accept
+   * Requires Authorization header with the account access token
+   * Body: to_user_id
+   */
+  router.post('/:id/transfer', async (req: Request, res: Response) => {
+    try {
+      const owned = await getOwnedAgent(req, res);
+      if (!owned) return;
+      const { agent, userId } = owned;
+
+      const { to_user_id: toUserId } = req.body;
+      if (typeof toUserId !== 'string' || !/^[A-Za-z0-9-]{1,64}$/.test(toUserId)) {
+        return res.status(400).json({ error: 'to_user_id must be an account ID' });
+      }
+
+      if (toUserId === userId) {
+        return res.status(400).json({ error: 'You already own this agent' });
+      }
+
+      if (agent.parent_did) {
+        return res.status(400).json({
+          error: 'Workers are transferred with their root agent',
+          root_did: (await getAncestors(store, agent)).pop()?.did
+        });
+      }
+
+      await expirePendingTransfer(agent.id);
+
+      const transfer = await store.createOwnershipTransfer({
+        id: uuidv4(),
+        agent_id: agent.id,
+        from_user_id: userId,
+        to_user_id: toUserId,
+        expires_at: new Date(Date.now() + OWNERSHIP_TRANSFER_TTL_MS).toISOString()
+      });
+
+      res.status(201).json({ ...transfer, did: agent.did });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Transfer error:', error);
+      res.status(500).json({ error: 'Failed to start transfer' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/release
+   * Unlink an agent you own (and its subtree) from your account; a pending transfer is cancelled
+   * The agent can then issue a new claim code (POST /agents/me/claim-code)
+   * Requires Authorization header with the account access token
+   */
+  router.post('/:id/release', async (req: Request, res: Response) => {
+    try {
+      const owned = await getOwnedAgent(req, res);
+      if (!owned) return;
+      const { agent, userId } = owned;
+
+      if (agent.parent_did) {
+        return res.status(400).json({
+          error: 'Workers are released with their root agent',
+          root_did: (await getAncestors(store, agent)).pop()?.did
+        });
+      }
+
+      const changedBy = `user:${userId}`;
+      const subAgentsReleased = await store.changeAgentOwner(agent.id, userId, null, changedBy, null);
+      if (subAgentsReleased === null) {
+        return res.status(409).json({ error: 'Agent changed owner' });
+      }
+
+      const pending = (await store.getOwnershipTransfersByAgent(agent.id)).filter(t => t.status === 'pending');
+      for (const transfer of pending) {
+        await store.resolveOwnershipTransfer(transfer.id, 'cancelled', changedBy, new Date().toISOString());
+      }
+
+      // Still under the releasing account, so its owner-filtered webhooks see the release
+      await emitWebhookEvent(store, 'ownership_change', agent, {
+        from_user_id: userId,
+        to_user_id: null,
+        transfer_id: null,
+        sub_agents: subAgentsReleased
+      });
+
+      res.json({
+        success: true,
+        agent: {
+          did: agent.did,
+          name: agent.name
+        },
+        sub_agents_released: subAgentsReleased,
+        message: 'The agent can issue a new claim code with POST /agents/me/claim-code'
+      });
+    } catch (error) {
+      console.error('Release error:', error);
+      res.status(500).json({ error: 'Failed to release agent' });
+    }
+  });
+
+  /**
+   * GET /agents/:id/ownership
+   * Ownership audit trail of an agent you own: every claim, transfer and release, and its transfers
+   * Requires Authorization header with the account access token
+   */
+  router.get('/:id/ownership', async (req: Request, res: Response) => {
+    try {
+      const owned = await getOwnedAgent(req, res);
+      if (!owned) return;
+      const { agent } = owned;
+
+      await expirePendingTransfer(agent.id);
+
+      res.json({
+        agent_id: agent.id,
+        did: agent.did,
+        user_id: agent.user_id,
+        history: await store.getOwnershipHistory(agent.id),
+        transfers: await store.getOwnershipTransfersByAgent(agent.id)
+      });
+    } catch (error) {
+      console.error('Ownership history error:', error);
+      res.status(500).json({ error: 'Failed to fetch ownership history' });
+    }
+  });
+
+  /**
+   * GET /agents/stats
+   * Get aggregate statistics for dashboard
+   */
+  router.get('/stats', read, async (req: Request, res: Response) => {
+    try {
+      res.json(await store.getStats());
+    } catch (error) {
+      console.error('Stats error:', error);
+      res.status(500).json({ error: 'Failed to fetch stats' });
+    }
+  });
+
+  /**
+   * GET /agents/me
+   * Get own agent profile (agent-authenticated via signature or access token)
+   * Headers: X-Agent-DID, X-Agent-Nonce, X-Agent-Signature (nonce from POST /auth/challenge),
+   * or Authorization: Bearer <access token> (POST /auth/token)
+   */
+  router.get('/me', read, async (req: Request, res: Response) => {
+    try {
+      const { agent, error } = await verifyAgentAuth(store, req);
+
+      if (error || !agent) {
+        return res.status(401).json({ error: error || 'Authentication failed' });
+      }
+
+      const reputation = await getReputation(store, agent.id);
+      const reports = await store.getAbuseReportStats(agent.id);
+
+      res.json({
+        id: agent.id,
+        did: agent.did,
+        name: agent.name,
+        public_key: agent.public_key,
+        agent_type: agent.agent_type,
+        parent_did: agent.parent_did,
+        status: agent.status,
+        status_reason: agent.status_reason,
+        status_changed_at: agent.status_changed_at,
+        reputation: reputation.score,
+        reputation_algorithm: reputation.algorithm,
+        open_reports: reports.open,
+        metadata: agent.metadata,
+        created_at: agent.created_at
+      });
+    } catch (error) {
+      console.error('Get me error:', error);
+      res.status(500).json({ error: 'Failed to fetch agent profile' });
+    }
+  });
+
+  /**
+   * GET /agents/me/subagents
+   * Get own subagents (agent-authenticated via signature or access token)
+   * Query: depth (default 1: direct workers only; up to the hierarchy's max depth)
+   */
+  router.get('/me/subagents', read, async (req: Request, res: Response) => {
+    try {
+      const { agent, error } = await verifyAgentAuth(store, req);
+
+      if (error || !agent) {
+        return res.status(401).json({ error: error || 'Authentication failed' });
+      }
+
+      const depth = Math.min(MAX_HIERARCHY_DEPTH, Math.max(1, parseInt(req.query.depth as string) || 1));
+      const subagents = await store.getAgentSubtree(agent.did, depth);
+
+      // Get reputation for each subagent
+      const reputations = await getReputations(store, subagents.map(s => s.id));
+      const subagentsWithRep = subagents.map(sub => {
+        const reputation = reputations.get(sub.id)!;
+        return {
+          id: sub.id,
+          did: sub.did,
+          name: sub.name,
+          agent_type: sub.agent_type,
+          parent_did: sub.parent_did,
+          depth: sub.depth,
+          status: sub.status,
+          reputation: reputation.score,
+          reputation_algorithm: reputation.algorithm,
+          metadata: sub.metadata,
+          created_at: sub.created_at
+        };
+      });
+
+      res.json({
+        parent_did: agent.did,
+        parent_name: agent.name,
+        depth,
+        subagents: subagentsWithRep,
+        count: subagentsWithRep.length
+      });
+    } catch (error) {
+      console.error('Get subagents error:', error);
+      res.status(500).json({ error: 'Failed to fetch subagents' });
+    }
+  });
+
+  /**
+   * GET /agents/me/reports
+   * Abuse reports against the authenticated agent (reporters withheld)
+   * Query: status=all to include resolved reports (default: open and under review)
+   */
+  router.get('/me/reports', read, async (req: Request, res: Response) => {
+    try {
+      const { agent, error } = await verifyAgentAuth(store, req);
+
+      if (error || !agent) {
+        return res.status(401).json({ error: error || 'Authentication failed' });
+      }
+
+      const status = req.query.status === 'all' ? undefined : OPEN_REPORT_STATUSES;
+      const { reports, total } = await store.listAbuseReports({ agent_id: agent.id, status }, 100, 0);
+
+      res.json({
+        did: agent.did,
+        reports: reports.map(reportForAgent),
+        total
+      });
+    } catch (error) {
+      console.error('Get my reports error:', error);
+      res.status(500).json({ error: 'Failed to fetch reports' });
+    }
+  });
+
+  /**
+   * POST /agents/me/reports/:reportId/response
+   * Respond to an open report against the authenticated agent; moderators see the response
+   * Body: response
+   */
+  router.post('/me/reports/:reportId/response', write, async (req: Request, res: Response) => {
+    try {
+      const { agent, error } = await verifyAgentAuth(store, req);
+
+      if (error || !agent) {
+        return res.status(401).json({ error: error || 'Authentication failed' });
+      }
+
+      const { response } = req.body;
+      if (typeof response !== 'string' || !response.trim() || response.length > 2000) {
+        return res.status(400).json({ error: 'response must be a non-empty string of at most 2000 characters' });
+      }
+
+      const report = await store.getAbuseReport(req.params.reportId);
+      if (!report || report.agent_id !== agent.id) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      const updated = await store.updateAbuseReport(report.id, OPEN_REPORT_STATUSES, {
+        agent_response: response.trim(),
+        agent_responded_at: new Date().toISOString()
+      });
+      if (!updated) {
+        return res.status(409).json({ error: 'Report is closed', status: report.status });
+      }
+
+      res.json(reportForAgent(updated));
+    } catch (error) {
+      console.error('Report response error:', error);
+      res.status(500).json({ error: 'Failed to record response' });
+    }
+  });
+
+  /**
+   * POST /agents/me/claim-code
+   * Issue the authenticated agent a new claim code, replacing any earlier one
+   * Only unclaimed root agents have codes; workers are claimed with their root agent
+   */
+  router.post('/me/claim-code', write, async (req: Request, res: Response) => {
+    try {
+      const { agent, error } = await verifyAgentAuth(store, req);
+
+      if (error || !agent) {
+        return res.status(401).json({ error: error || 'Authentication failed' });
+      }
+
+      if (agent.parent_did) {
+        return res.status(400).json({
+          error: 'Workers have no claim code',
+          message: 'Workers are claimed along with their root agent'
+        });
+      }
+
+      if (agent.user_id) {
+        return res.status(409).json({
+          error: 'Already claimed',
+          message: 'The owner can transfer or release this agent'
+        });
+      }
+
+      const canIssue = await store.checkRateLimit(agent.id, 'claim_code', 10, 60 * 60 * 1000);
+      if (!canIssue) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 10 claim codes per hour'
+        });
+      }
+
+      const claim = generateClaimCode();
+      const updated = await store.updateAgent(agent.id, claim);
+      if (!updated) {
+        return res.status(500).json({ error: 'Failed to issue claim code' });
+      }
+
+      res.status(201).json({
+        did: agent.did,
+        ...claim,
+        claim_instructions: 'Go to clawid.co, create an account, and enter this code to link this agent to your dashboard.'
+      });
+    } catch (error) {
+      console.error('Claim code error:', error);
+      res.status(500).json({ error: 'Failed to issue claim code' });
+    }
+  });
+
+  /**
+   * GET /agents/:id
+   * Get agent public profile by ID or DID (PUBLIC - minimal fields only)
+   * For full profile, use /agents/me with agent authentication
+   */
+  router.get('/:id', read, async (req: Request, res: Response) => {
+    try {
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      const aggregate = await loadReputationAggregate(store, agent.id);
+      const reputation = reputationFromAggregate(aggregate);
+      const endorsements = await store.getEndorsementStats(agent.id);
+      const verifiedWork = await store.getTaskReceiptStats(agent.id);
+      const verifiedTasks = verifiedWork.completed + verifiedWork.corrected;
+
+      // Return only public fields; the DID document lists current and retired keys
+      res.json({
+        id: agent.id,
+        did: agent.did,
+        name: agent.name,
+        public_key: agent.public_key,
+        agent_type: agent.agent_type,
+        parent_did: agent.parent_did,
+        verified: agent.status === 'active' && didVerified(agent),
+        status: agent.status,
+        status_reason: agent.status_reason,
+        status_changed_at: agent.status_changed_at,
+        reputation: reputation.score,
+        reputation_algorithm: reputation.algorithm,
+        work: {
+          tasks_completed: aggregate.tasks_completed,
+          verified_tasks: verifiedTasks,
+          self_reported_tasks: Math.max(0, aggregate.tasks_completed - verifiedTasks),
+          verified: verifiedWork
+        },
+        endorsements: {
+          count: endorsements.count,
+          average_rating: endorsements.average_rating === null ? null : Math.round(endorsements.average_rating * 100) / 100
+        },
+        registered_at: agent.created_at,
+        did_document: createDIDDocument(agent.did, agent.public_key, agent.parent_did || undefined, await store.getAgentKeys(agent.id)),
+        note: 'Public profile shows minimal fields. Use /agents/me with agent auth for full profile.'
+      });
+    } catch (error) {
+      console.error('Get agent error:', error);
+      res.status(500).json({ error: 'Failed to fetch agent' });
+    }
+  });
+
+  /**
+   * GET /agents/:id/did.json
+   * DID Document for an agent; did:web agents host this at their did_document_url
+   */
+  router.get('/:id/did.json', read, async (req: Request, res: Response) => {
+    try {
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      const didDocument = createDIDDocument(agent.did, agent.public_key, agent.parent_did || undefined, await store.getAgentKeys(agent.id));
+      res.type('application/did+json').send(JSON.stringify(didDocument, null, 2));
+    } catch (error) {
+      console.error('DID document error:', error);
+      res.status(500).json({ error: 'Failed to build DID document' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/did-web/verify
+   * Check that a did:web agent's domain serves its DID document with the agent's current key
+   * (agent-authenticated via signature or access token); /verify reports the DID unverified until it does
+   */
+  router.post('/:id/did-web/verify', write, async (req: Request, res: Response) => {
+    try {
+      const { agent: authAgent, error: authError } = await verifyAgentAuth(store, req);
+      if (authError || !authAgent) {
+        return res.status(401).json({ error: authError || 'Authentication failed' });
+      }
+
+      const agent = await getAgent(req.params.id);
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      if (authAgent.id !== agent.id) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Agents can only verify their own domain' });
+      }
+      if (getDIDMethod(agent.did) !== 'web') {
+        return res.status(400).json({ error: 'Not a did:web agent' });
+      }
+
+      const documentUrl = didWebDocumentUrl(agent.did);
+      const documentError = await checkDidWebDocument(agent.did, agent.public_key);
+      const updated = await store.updateAgent(agent.id, { did_web_verified_at: documentError ? null : new Date().toISOString() });
+
+      if (documentError) {
+        return res.status(422).json({
+          error: 'DID document not verified',
+          message: documentError,
+          did_document_url: documentUrl,
+          did_web_verified: false
+        });
+      }
+
+      res.json({
+        did: agent.did,
+        did_document_url: documentUrl,
+        did_web_verified: true,
+        did_web_verified_at: updated!.did_web_verified_at
+      });
+    } catch (error) {
+      console.error('did:web verification error:', error);
+      res.status(500).json({ error: 'Failed to verify DID document' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/verify
+   * Verify agent identity by checking a signature
+   *
+   * Signatures are checked against the current key, so a key retired by rotation stops verifying.
+   * Optional signed_at (ISO timestamp) must be within 5 minutes of now, unless the signature is one
+   * the service recorded earlier (a signed claim): then it is checked against the key that was valid
+   * when it was recorded, so statements made before a rotation still verify.
+   */
+  router.post('/:id/verify', verifyScope, async (req: Request, res: Response) => {
+    try {
+      const { message, signature, signed_at } = req.body;
+
+      if (!message || !signature) {
+        return res.status(400).json({ error: 'Message and signature are required' });
+      }
+
+      const signedAt = signed_at ? new Date(signed_at).getTime() : Date.now();
+      if (isNaN(signedAt) || signedAt > Date.now() + 5 * 60 * 1000) {
+        return res.status(400).json({ error: 'signed_at must be a valid timestamp that is not in the future' });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      // Revoked, deactivated and suspended identities don't verify
+      if (!acceptsSignatures(agent.status)) {
+        return res.status(403).json({ verified: false, ...statusRefusal(agent) });
+      }
+
+      const keys = await store.getAgentKeys(agent.id);
+      let signingKey = keyValidAt(keys, new Date());
+      let recordedAt: string | null = null;
+
+      // Older statements: only signatures the service witnessed, with the key valid at the time
+      if (Date.now() - signedAt > 5 * 60 * 1000) {
+        const recorded = (await store.getVerificationsByAgent(agent.id)).find(v => v.signature === signature);
+        if (!recorded) {
+          return res.status(400).json({
+            error: 'signed_at must be within 5 minutes',
+            message: 'Older signatures only verify if the service recorded them (signed claims)'
+          });
+        }
+        recordedAt = recorded.verified_at;
+        signingKey = keyValidAt(keys, new Date(recordedAt));
+      }
+
+      const isValid = !!signingKey && verify(message, signature, signingKey.public_key);
+
+      // Only a fresh signature by the current key is a successful identity check
+      if (isValid && !recordedAt) {
+        await store.createReputationEvent({
+          agent_id: agent.id,
+          event_type: 'verification_success',
+          score_delta: scoreDelta('verification_success'),
+          description: 'Successful identity verification',
+          metadata: {}
+        });
+      }
+
+      res.json({
+        verified: isValid,
+        agent_id: agent.id,
+        did: agent.did,
+        key_id: signingKey ? verificationMethodId(agent.did, signingKey.key_index) : null,
+        key_status: signingKey ? (signingKey.valid_until ? 'retired' : 'current') : null,
+        ...(recordedAt && { recorded_at: recordedAt }),
+        verified_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Verification error:', error);
+      res.status(500).json({ error: 'Failed to verify agent' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/rotate-key
+   * Replace the agent's public key while keeping its DID
+   *
+   * SECURITY: The current key must sign a rotation statement naming the new key
+   * Body: new_public_key, timestamp (ISO, within 5 minutes), signature
+   */
+  router.post('/:id/rotate-key', write, async (req: Request, res: Response) => {
+    try {
+      const { new_public_key, timestamp, signature } = req.body;
+
+      if (!new_public_key || !timestamp || !signature) {
+        return res.status(400).json({ error: 'new_public_key, timestamp and signature are required' });
+      }
+
+      if (!isValidPublicKey(new_public_key)) {
+        return res.status(400).json({ error: 'new_public_key must be a hex-encoded Ed25519 public key' });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      if (!acceptsSignatures(agent.status)) {
+        return res.status(403).json(statusRefusal(agent));
+      }
+
+      // A did:key is its public key, so it can't survive a key change
+      if (getDIDMethod(agent.did) === 'key') {
+        return res.status(400).json({
+          error: 'Key rotation not supported',
+          message: 'did:key identities are derived from their key; register a new did:key instead'
+        });
+      }
+
+      // Rotation statements are only accepted for 5 minutes
+      const signedAt = new Date(timestamp).getTime();
+      if (isNaN(signedAt) || Math.abs(Date.now() - signedAt) > 5 * 60 * 1000) {
+        return res.status(401).json({ error: 'Timestamp expired or invalid (must be within 5 minutes)' });
+      }
+
+      const newPublicKey = new_public_key.toLowerCase();
+      const keys = await store.getAgentKeys(agent.id);
+      if (keys.some(k => k.public_key.toLowerCase() === newPublicKey)) {
+        return res.status(400).json({ error: 'New key must not be a current or previously used key' });
+      }
+
+      // Old key signs the statement naming the new key
+      const rotationMessage = createRotationMessage(agent.did, agent.public_key, new_public_key, timestamp);
+      if (!verify(rotationMessage, signature, agent.public_key)) {
+        return res.status(401).json({
+          error: 'Invalid signature',
+          message: 'Rotation statement must be signed by the current agent key'
+        });
+      }
+
+      const rotatedAt = new Date().toISOString();
+      const previousIndex = keys.length > 0 ? keys[keys.length - 1].key_index : 1;
+      const keyIndex = previousIndex + 1;
+
+      const newKey = await store.rotateAgentKey(agent.id, keyIndex, newPublicKey, signature, rotatedAt);
+      if (!newKey) {
+        return res.status(500).json({ error: 'Failed to rotate key' });
+      }
+
+      await store.createReputationEvent({
+        agent_id: agent.id,
+        event_type: 'key_rotation',
+        score_delta: scoreDelta('key_rotation'),
+        description: 'Public key rotated',
+        metadata: { previous_key_index: previousIndex, key_index: keyIndex }
+      });
+
+      await appendToLog(store, 'key_rotation', agent, newPublicKey, keyIndex, rotatedAt);
+
+      // Tokens were granted on proof of the old key
+      await store.revokeAgentSessions(agent.id, rotatedAt);
+
+      // The hosted document still lists the old key until the domain publishes the new one
+      if (agent.did_web_verified_at) {
+        await store.updateAgent(agent.id, { did_web_verified_at: null });
+      }
+
+      await emitWebhookEvent(store, 'key_rotation', { ...agent, public_key: newPublicKey }, {
+        key_id: verificationMethodId(agent.did, keyIndex),
+        previous_key_id: verificationMethodId(agent.did, previousIndex),
+        public_key: newPublicKey,
+        rotated_at: rotatedAt
+      });
+
+      res.json({
+        success: true,
+        agent_id: agent.id,
+        did: agent.did,
+        key_id: verificationMethodId(agent.did, keyIndex),
+        previous_key_id: verificationMethodId(agent.did, previousIndex),
+        public_key: newPublicKey,
+        rotated_at: rotatedAt,
+        did_document: createDIDDocument(agent.did, newPublicKey, agent.parent_did || undefined, await store.getAgentKeys(agent.id))
+      });
+    } catch (error) {
+      console.error('Key rotation error:', error);
+      res.status(500).json({ error: 'Failed to rotate key' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/status
+   * Change the agent's lifecycle status (suspend, reactivate, revoke, deactivate)
+   *
+   * Authenticated either by the agent key (body: timestamp, nonce from POST /auth/challenge,
+   * signature over the status statement) or by the owning account (Authorization: Bearer <access token>)
+   * Body: status, reason (optional), cascade (optional: also suspend, revoke or deactivate every
+   * agent in the subtree that can make that transition, or reactivate the descendants whose suspension
+   * was cascaded from this agent; part of the signed statement when set)
+   */
+  router.post('/:id/status', write, async (req: Request, res: Response) => {
+    try {
+      const { status, reason = null, timestamp, nonce, signature, cascade = false } = req.body;
+
+      if (!isAgentStatus(status) || status === 'flagged') {
+        return res.status(400).json({ error: 'status must be one of: active, suspended, revoked, deactivated' });
+      }
+
+      if (reason !== null && (typeof reason !== 'string' || reason.length > 500)) {
+        return res.status(400).json({ error: 'reason must be a string of at most 500 characters' });
+      }
+
+      if (typeof cascade !== 'boolean') {
+        return res.status(400).json({ error: 'cascade must be a boolean' });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      let changedBy: string;
+
+      if (signature) {
+        // Agent-signed status change
+        const signedAt = new Date(timestamp).getTime();
+        if (!timestamp || isNaN(signedAt) || Math.abs(Date.now() - signedAt) > 5 * 60 * 1000) {
+          return res.status(401).json({ error: 'Timestamp expired or invalid (must be within 5 minutes)' });
+        }
+
+        if (typeof nonce !== 'string' || !nonce) {
+          return res.status(400).json({ error: 'nonce is required (get one from POST /auth/challenge)' });
+        }
+
+        const challengeError = await checkChallenge(store, nonce, agent.did);
+        if (challengeError) {
+          return res.status(401).json({ error: challengeError });
+        }
+
+        const statusMessage = createStatusChangeMessage(agent.did, status, reason, timestamp, nonce, cascade);
+        if (!verify(statusMessage, signature, agent.public_key)) {
+          return res.status(401).json({
+            error: 'Invalid signature',
+            message: 'Status changes must be signed by the current agent key'
+          });
+        }
+        changedBy = 'agent';
+      } else if (req.headers.authorization?.startsWith('Bearer ')) {
+        // Owner-initiated status change
+        const { user, error: authError } = await authenticateUser(store, req);
+        if (!user) {
+          return res.status(401).json({ error: authError || 'Invalid token' });
+        }
+
+        if (!agent.user_id || agent.user_id !== user.id) {
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: 'You can only change the status of agents you own'
+          });
+        }
+        changedBy = `user:${user.id}`;
+      } else {
+        return res.status(401).json({
+          error: 'Authentication required',
+          message: 'Sign the status change with the agent key or provide the owner access token'
+        });
+      }
+
+      if (!canTransition(agent.status, status)) {
+        return res.status(409).json({
+          error: 'Invalid status transition',
+          message: `Cannot change status from ${agent.status} to ${status}`,
+          status: agent.status
+        });
+      }
+
+      // A moderator's flag or suspension is only lifted by a moderator; the owner's, or one cascaded from an ancestor, by the owner
+      if (status === 'active') {
+        const [lastChange] = await store.getStatusHistory(agent.id);
+        if (lastChange?.changed_by.startsWith('moderator:')) {
+          return res.status(403).json({
+            error: 'Set by a moderator',
+            message: `This agent was ${agent.status} by a moderator and can only be reinstated by one`,
+            status: agent.status
+          });
+        }
+        if (changedBy === 'agent' && lastChange?.changed_by.startsWith('user:')) {
+          return res.status(403).json({
+            error: 'Set by the owner',
+            message: `This agent was ${agent.status} by its owner and can only be reinstated with the owner access token`,
+            status: agent.status
+          });
+        }
+        // A cascade from an ancestor isn't the worker's to undo either
+        if (changedBy === 'agent' && lastChange?.changed_by.startsWith('ancestor:')) {
+          return res.status(403).json({
+            error: 'Set by an ancestor',
+            message: `This agent was ${agent.status} with its ancestor ${lastChange.changed_by.slice('ancestor:'.length)} and can only be reinstated with the owner access token`,
+            status: agent.status
+          });
+        }
+      }
+
+      // Checked and signed; consume last, so a refused change doesn't burn the nonce
+      if (changedBy === 'agent' && !await store.consumeAuthChallenge(nonce, new Date().toISOString())) {
+        return res.status(401).json({ error: 'Challenge nonce already used' });
+      }
+
+      const updated = await applyStatusChange(agent, status, reason, changedBy, signature || null);
+      if (!updated) {
+        return res.status(500).json({ error: 'Failed to change agent status' });
+      }
+
+      // Descendants that can't make the transition (already revoked, say) are left as they are
+      const cascaded: { did: string; previous_status: string; status: string }[] = [];
+      const skipped: { did: string; status: string }[] = [];
+      if (cascade) {
+        const cascadedBy = changedBy === 'agent' ? `ancestor:${agent.did}` : changedBy;
+        const cascadedReason = `Cascaded from ${agent.did}${reason ? `: ${reason}` : ''}`;
+        for (const descendant of await store.getAgentSubtree(agent.did)) {
+          if (!canTransition(descendant.status, status) || (status === 'active' && !await wasCascadedFrom(descendant, agent.did, cascadedBy))) {
+            skipped.push({ did: descendant.did, status: descendant.status });
+            continue;
+          }
+          const changed = await applyStatusChange(descendant, status, cascadedReason, cascadedBy, null);
+          if (changed) {
+            cascaded.push({ did: descendant.did, previous_status: descendant.status, status: changed.status });
+          }
+        }
+      }
+
+      res.json({
+        success: true,
+        agent_id: agent.id,
+        did: agent.did,
+        previous_status: agent.status,
+        status: updated.status,
+        status_reason: updated.status_reason,
+        status_changed_at: updated.status_changed_at,
+        changed_by: changedBy,
+        ...(cascade && { cascaded, cascade_skipped: skipped })
+      });
+    } catch (error) {
+      console.error('Status change error:', error);
+      res.status(500).json({ error: 'Failed to change agent status' });
+    }
+  });
+
+  /**
+   * GET /agents/:id/reputation
+   * Get reputation score for an agent
+   * Query: algorithm (optional, e.g. v1) to score with another model version
+   */
+  router.get('/:id/reputation', read, async (req: Request, res: Response) => {
+    try {
+      const model = getReputationModel(req.query.algorithm as string | undefined);
+      if (!model) {
+        return res.status(400).json({
+          error: 'Unknown reputation algorithm',
+          algorithms: Object.keys(REPUTATION_MODELS)
+        });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      const reputation = await getReputation(store, agent.id, model);
+      const recentEvents = await store.getReputationEvents(agent.id, 10);
+      const verifications = await store.getVerificationsByAgent(agent.id);
+
+      // Calculate age in days
+      const createdAt = new Date(agent.created_at);
+      const ageInDays = Math.floor((Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
+
+      res.json({
+        agent_id: agent.id,
+        did: agent.did,
+        reputation: {
+          score: reputation.score,
+          confidence: reputation.confidence,
+          algorithm: reputation.algorithm,
+          event_count: reputation.event_count,
+          verification_count: verifications.length,
+          age_days: ageInDays,
+          status: agent.status
+        },
+        recent_events: recentEvents
+      });
+    } catch (error) {
+      console.error('Reputation error:', error);
+      res.status(500).json({ error: 'Failed to fetch reputation' });
+    }
+  });
+
+  /**
+   * GET /agents/:id/reputation/proof
+   * The agent's full hash-chained event history, the score computed from it, and the latest
+   * signed checkpoint with a Merkle inclusion proof for the agent's head, so anyone can
+   * re-verify the score without trusting the service
+   * Query: algorithm (optional, e.g. v1)
+   */
+  router.get('/:id/reputation/proof', read, async (req: Request, res: Response) => {
+    try {
+      const model = getReputationModel(req.query.algorithm as string | undefined);
+      if (!model) {
+        return res.status(400).json({
+          error: 'Unknown reputation algorithm',
+          algorithms: Object.keys(REPUTATION_MODELS)
+        });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      const events = await store.getReputationChain(agent.id);
+      const chain = verifyReputationChain(events);
+      if (!chain.valid) {
+        console.error(`Reputation chain for ${agent.id} failed verification: ${chain.error}`);
+        return res.status(500).json({ error: 'Reputation history failed verification' });
+      }
+
+      const computedAt = new Date();
+      const reputation = computeReputation(events, model, computedAt);
+      const checkpoint = await store.getLatestReputationCheckpoint();
+      const issuer = getIssuer();
+
+      res.json({
+        agent_id: agent.id,
+        did: agent.did,
+        computed_at: computedAt.toISOString(),
+        model,
+        reputation: {
+          score: reputation.score,
+          confidence: reputation.confidence,
+          algorithm: reputation.algorithm,
+          event_count: reputation.event_count
+        },
+        head: chain.head,
+        events,
+        checkpoint: checkpoint && {
+          id: checkpoint.id,
+          root: checkpoint.root,
+          agent_count: checkpoint.agent_count,
+          event_count: checkpoint.event_count,
+          issuer: checkpoint.issuer,
+          signature: checkpoint.signature,
+          created_at: checkpoint.created_at,
+          inclusion: checkpointInclusion(checkpoint, agent.id)
+        },
+        issuer: {
+          did: issuer.did,
+          public_key: issuer.publicKey
+        }
+      });
+    } catch (error) {
+      console.error('Reputation proof error:', error);
+      res.status(500).json({ error: 'Failed to build reputation proof' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/work-report
+   * Submit work performance report
+   * Self-reported counts (tasks_completed, ...) and/or tasks: confirmed tasks, each either
+   * { task_id, outcome, positive_feedback, countersigned_by, countersignature } signed by the counterparty's DID
+   * or { receipt_id } for a receipt a platform issued with POST /agents/:id/task-receipts.
+   * Confirmed tasks carry the model's (much higher) verified work weights and are counted once.
+   *
+   * SECURITY: Requires signature to prove agent owns the identity, over a timestamp within 5 minutes
+   * and a single-use nonce from POST /auth/challenge, so a report can't be replayed
+   */
+  router.post('/:id/work-report', write, async (req: Request, res: Response) => {
+    try {
+      const {
+        period,
+        tasks_completed = 0,
+        corrections = 0,
+        positive_feedback = 0,
+        errors = 0,
+        tasks,     // Optional: tasks confirmed by the counterparty (countersigned or issued receipts)
+        timestamp,
+        nonce,
+        signature  // REQUIRED: Agent must sign the report
+      } = req.body;
+
+      // ========== SECURITY: Input Validation ==========
+      // Counts are whole, non-negative numbers; anything else is refused rather than rounded
+      const selfReportedCounts = { tasks_completed, corrections, positive_feedback, errors };
+      const invalidCount = Object.entries(selfReportedCounts).find(([, n]) => !Number.isInteger(n) || (n as number) < 0);
+      if (invalidCount) {
+        return res.status(400).json({ error: `${invalidCount[0]} must be a non-negative integer` });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      if (!acceptsSignatures(agent.status)) {
+        return res.status(403).json(statusRefusal(agent));
+      }
+
+      // ========== SECURITY: Signature Verification ==========
+      // Agent must sign the report to prove they own the identity
+      if (!signature) {
+        return res.status(401).json({
+          error: 'Signature required',
+          message: 'Work reports must be signed by the agent to prevent manipulation'
+        });
+      }
+
+      const signedAt = new Date(timestamp).getTime();
+      if (!timestamp || isNaN(signedAt) || Math.abs(Date.now() - signedAt) > 5 * 60 * 1000) {
+        return res.status(401).json({ error: 'Timestamp expired or invalid (must be within 5 minutes)' });
+      }
+
+      if (typeof nonce !== 'string' || !nonce) {
+        return res.status(400).json({ error: 'nonce is required (get one from POST /auth/challenge)' });
+      }
+
+      const challengeError = await checkChallenge(store, nonce, agent.did);
+      if (challengeError) {
+        return res.status(401).json({ error: challengeError });
+      }
+
+      // Canonical (JCS) payload, so clients in any language sign the same bytes
+      const reportMessage = createWorkReportMessage({
+        did: agent.did,
+        period: period || new Date().toISOString().split('T')[0],
+        tasks_completed,
+        corrections,
+        positive_feedback,
+        errors,
+        tasks,
+        timestamp,
+        nonce
+      });
+
+      if (!verify(reportMessage, signature, agent.public_key)) {
+        return res.status(401).json({
+          error: 'Invalid signature',
+          message: 'Signature does not match agent public key',
+          signed_payload: reportMessage
+        });
+      }
+
+      // ========== Countersigned tasks ==========
+      // Each task is confirmed by the counterparty: a receipt signed with its DID key, or one its API key issued
+      const newReceipts: Omit<TaskReceipt, 'report_id' | 'created_at'>[] = [];
+      const issuedReceipts: TaskReceipt[] = [];
+      if (tasks !== undefined) {
+        if (!Array.isArray(tasks) || tasks.length === 0 || tasks.length > MAX_REPORT_TASKS) {
+          return res.status(400).json({ error: `tasks must be a non-empty array of at most ${MAX_REPORT_TASKS} tasks` });
+        }
+
+        for (const [index, task] of tasks.entries()) {
+          if (task?.receipt_id !== undefined) {
+            const receipt = typeof task.receipt_id === 'string' ? await store.getTaskReceipt(task.receipt_id) : null;
+            if (!receipt || receipt.agent_id !== agent.id) {
+              return res.status(400).json({ error: 'Task receipt not found', task_index: index });
+            }
+            if (receipt.report_id || issuedReceipts.some(r => r.id === receipt.id)) {
+              return res.status(409).json({ error: 'Task receipt was already counted', task_index: index });
+            }
+            issuedReceipts.push(receipt);
+            continue;
+          }
+
+          const { task_id, outcome, positive_feedback: feedback = false, countersigned_by, countersignature } = task || {};
+          if (typeof task_id !== 'string' || !task_id || task_id.length > 200 || !TASK_OUTCOMES.includes(outcome) || typeof feedback !== 'boolean') {
+            return res.status(400).json({
+              error: `Each task needs a receipt_id, or a task_id, an outcome (${TASK_OUTCOMES.join(', ')}) and an optional positive_feedback boolean`,
+              task_index: index
+            });
+          }
+
+          const counterparty = typeof countersigned_by === 'string' ? await store.getAgentByDid(countersigned_by) : null;
+          if (!counterparty) {
+            return res.status(400).json({ error: 'Countersigning agent not found', task_index: index });
+          }
+          if (!acceptsSignatures(counterparty.status)) {
+            return res.status(403).json({ ...statusRefusal(counterparty), task_index: index });
+          }
+          if (relatedAgents(counterparty, agent)) {
+            return res.status(403).json({
+              error: 'Related agents cannot countersign each other\'s work',
+              task_index: index
+            });
+          }
+
+          const receiptMessage = createTaskReceiptMessage({
+            did: counterparty.did,
+            agent: agent.did,
+            task_id,
+            outcome,
+            positive_feedback: feedback
+          });
+          if (typeof countersignature !== 'string' || !verify(receiptMessage, countersignature, counterparty.public_key)) {
+            return res.status(401).json({
+              error: 'Invalid countersignature',
+              message: 'Countersignature does not match the countersigning agent\'s public key',
+              task_index: index,
+              signed_payload: receiptMessage
+            });
+          }
+
+          if (newReceipts.some(r => r.countersigner === counterparty.did && r.task_id === task_id)) {
+            return res.status(400).json({ error: 'Duplicate task in report', task_index: index });
+          }
+          newReceipts.push({
+            id: uuidv4(),
+            agent_id: agent.id,
+            task_id,
+            outcome,
+            positive_feedback: feedback,
+            countersigner: counterparty.did,
+            signature: countersignature
+          });
+        }
+      }
+
+      // Self-reported counts are capped
+      const validatedTasks = Math.min(1000, tasks_completed);
+      const validatedCorrections = Math.min(100, corrections);
+      const validatedPositive = Math.min(100, positive_feedback);
+      const validatedErrors = Math.min(100, errors);
+
+      // Checked and signed; consume before the rate limit and any writes, so the report can't be replayed
+      if (!await store.consumeAuthChallenge(nonce, new Date().toISOString())) {
+        return res.status(401).json({ error: 'Challenge nonce already used' });
+      }
+
+      // ========== SECURITY: Rate Limiting (per agent) ==========
+      const canReport = await store.checkRateLimit(agent.id, 'work_report', 5, 24 * 60 * 60 * 1000);
+      if (!canReport) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 5 work reports per 24 hours'
+        });
+      }
+
+      // Score delta from the reputation model's work report weights
+      const counts = {
+        tasks_completed: validatedTasks,
+        corrections: validatedCorrections,
+        positive_feedback: validatedPositive,
+        errors: validatedErrors
+      };
+      const delta = workReportDelta(counts);
+
+      // Confirmed tasks are counted once, all or nothing, before they add to reputation
+      const reportId = uuidv4();
+      const confirmed = [...newReceipts, ...issuedReceipts];
+      const verifiedCounts = receiptCounts(confirmed);
+      const verifiedDelta = confirmed.length > 0 ? workReportDelta(verifiedCounts, undefined, true) : 0;
+      if (confirmed.length > 0) {
+        try {
+          await store.recordReportReceipts(reportId, newReceipts, issuedReceipts.map(r => r.id));
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            return res.status(409).json({ error: 'Task already counted', message: error.message });
+          }
+          throw error;
+        }
+      }
+
+      const oldReputation = await getReputation(store, agent.id);
+
+      // A report of only confirmed tasks adds no self-reported event
+      const selfReported = confirmed.length === 0 || Object.values(counts).some(n => n > 0);
+      if (selfReported) {
+        await store.createReputationEvent({
+          agent_id: agent.id,
+          event_type: 'work_report',
+          score_delta: Math.round(delta * 100), // Scale up for storage
+          description: `Work report: ${validatedTasks} tasks, ${validatedCorrections} corrections, ${validatedPositive} positive, ${validatedErrors} errors`,
+          metadata: {
+            period: period || new Date().toISOString().split('T')[0],
+            ...counts,
+            timestamp,
+            signature_verified: true
+          }
+        });
+      }
+
+      if (confirmed.length > 0) {
+        await store.createReputationEvent({
+          agent_id: agent.id,
+          event_type: 'verified_work_report',
+          score_delta: Math.round(verifiedDelta * 100),
+          description: `Verified work: ${confirmed.length} countersigned tasks`,
+          metadata: {
+            report_id: reportId,
+            period: period || new Date().toISOString().split('T')[0],
+            ...verifiedCounts,
+            countersigners: [...new Set(confirmed.map(r => r.countersigner))]
+          }
+        });
+      }
+
+      const newReputation = await getReputation(store, agent.id);
+
+      await emitWebhookEvent(store, 'work_report', agent, {
+        period: period || new Date().toISOString().split('T')[0],
+        tasks_completed: counts.tasks_completed,
+        verified_tasks: confirmed.length,
+        delta: Math.round((delta + verifiedDelta) * 1000) / 1000,
+        old_reputation: oldReputation.score,
+        new_reputation: newReputation.score,
+        algorithm: newReputation.algorithm
+      });
+
+      res.json({
+        success: true,
+        agent_id: agent.id,
+        did: agent.did,
+        period,
+        delta: Math.round((delta + verifiedDelta) * 1000) / 1000,
+        self_reported_delta: delta,
+        verified: confirmed.length > 0 ? { report_id: reportId, tasks: confirmed.length, ...verifiedCounts, delta: verifiedDelta } : null,
+        old_reputation: oldReputation.score,
+        new_reputation: newReputation.score,
+        reputation: newReputation.score,
+        confidence: newReputation.confidence,
+        algorithm: newReputation.algorithm,
+        recorded_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Work report error:', error);
+      res.status(500).json({ error: 'Failed to record work report' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/endorsements
+   * Rate an agent after an interaction
+   * Body: rater_did, rating (1-5), context (tag), interaction_ref (optional), signature
+   *
+   * SECURITY: Signed by the rater's current key; one endorsement per rater and agent per month,
+   * weighted by the rater's own reputation, and refused between related agents
+   */
+  router.post('/:id/endorsements', write, async (req: Request, res: Response) => {
+    try {
+      const { rater_did, rating, context, interaction_ref = null, signature } = req.body;
+
+      const subject = await getAgent(req.params.id);
+
+      if (!subject) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      if (isTerminalStatus(subject.status)) {
+        return res.status(409).json({
+          error: `Agent is ${subject.status}`,
+          message: 'Retired identities can no longer be endorsed'
+        });
+      }
+
+      if (typeof rater_did !== 'string' || !rater_did) {
+        return res.status(400).json({ error: 'rater_did is required' });
+      }
+
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return res.status(400).json({ error: 'rating must be an integer from 1 to 5' });
+      }
+
+      if (typeof context !== 'string' || !ENDORSEMENT_CONTEXT.test(context)) {
+        return res.status(400).json({ error: 'context must be a tag of lowercase letters, digits, - and _ (at most 50 characters)' });
+      }
+
+      if (interaction_ref !== null && (typeof interaction_ref !== 'string' || interaction_ref.length > 200)) {
+        return res.status(400).json({ error: 'interaction_ref must be a string of at most 200 characters' });
+      }
+
+      const rater = await store.getAgentByDid(rater_did);
+
+      if (!rater) {
+        return res.status(404).json({ error: 'Rater not found' });
+      }
+
+      if (!acceptsSignatures(rater.status)) {
+        return res.status(403).json(statusRefusal(rater));
+      }
+
+      if (relatedAgents(rater, subject)) {
+        return res.status(403).json({
+          error: 'Related agents cannot endorse each other',
+          message: 'Agents with the same parent or owner account, and parents and their sub-agents, cannot endorse each other'
+        });
+      }
+
+      // ========== SECURITY: Signature Verification ==========
+      if (!signature) {
+        return res.status(401).json({
+          error: 'Signature required',
+          message: 'Endorsements must be signed by the rater'
+        });
+      }
+
+      const period = endorsementPeriod();
+      const endorsementMessage = createEndorsementMessage({
+        did: rater.did,
+        subject: subject.did,
+        rating,
+        context,
+        interaction_ref,
+        period
+      });
+
+      if (!verify(endorsementMessage, signature, rater.public_key)) {
+        return res.status(401).json({
+          error: 'Invalid signature',
+          message: 'Signature does not match rater public key',
+          signed_payload: endorsementMessage
+        });
+      }
+
+      // ========== SECURITY: Rate Limiting (per rater) ==========
+      const canEndorse = await store.checkRateLimit(rater.id, 'endorsement', 20, 24 * 60 * 60 * 1000);
+      if (!canEndorse) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 20 endorsements per 24 hours'
+        });
+      }
+
+      const weight = endorsementWeight(await getReputation(store, rater.id));
+
+      let endorsement;
+      try {
+        endorsement = await store.createEndorsement({
+          id: uuidv4(),
+          rater_id: rater.id,
+          rater_did: rater.did,
+          subject_id: subject.id,
+          subject_did: subject.did,
+          rating,
+          context,
+          interaction_ref,
+          period,
+          weight,
+          signature
+        });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          return res.status(409).json({
+            error: 'Already endorsed',
+            message: `${rater.did} already endorsed this agent in ${period}`
+          });
+        }
+        throw error;
+      }
+
+      const metadata = { endorsement_id: endorsement.id, rater_did: rater.did, rating, weight, context };
+      await store.createReputationEvent({
+        agent_id: subject.id,
+        event_type: 'endorsement',
+        score_delta: scoreDelta('endorsement', metadata),
+        description: `Endorsement from ${rater.did}: ${rating}/5 (${context})`,
+        metadata
+      });
+
+      const reputation = await getReputation(store, subject.id);
+
+      res.status(201).json({
+        ...endorsement,
+        delta: endorsementDelta(rating, weight),
+        reputation: reputation.score,
+        reputation_algorithm: reputation.algorithm
+      });
+    } catch (error) {
+      console.error('Endorsement error:', error);
+      res.status(500).json({ error: 'Failed to record endorsement' });
+    }
+  });
+
+  /**
+   * GET /agents/:id/endorsements
+   * Endorsements an agent has received, newest first
+   * Query: limit (default 20, max 100)
+   */
+  router.get('/:id/endorsements', read, async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      const stats = await store.getEndorsementStats(agent.id);
+
+      res.json({
+        agent_id: agent.id,
+        did: agent.did,
+        count: stats.count,
+        average_rating: stats.average_rating === null ? null : Math.round(stats.average_rating * 100) / 100,
+        endorsements: await store.getEndorsementsForAgent(agent.id, limit)
+      });
+    } catch (error) {
+      console.error('List endorsements error:', error);
+      res.status(500).json({ error: 'Failed to fetch endorsements' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/reports
+   * Report a misbehaving agent to the moderators
+   * Authenticated as an agent (signed request or access token, as for /agents/me) or a platform (API key)
+   * Body: category, description, evidence (optional array of URLs or excerpts)
+   */
+  router.post('/:id/reports', write, async (req: Request, res: Response) => {
+    try {
+      let reporter: string;
+      if (req.headers['x-agent-did'] || req.headers['signature-input'] || getAgentAccessToken(req)) {
+        const { agent: reportingAgent, error: authError } = await verifyAgentAuth(store, req);
+        if (authError || !reportingAgent) {
+          return res.status(401).json({ error: authError || 'Authentication failed' });
+        }
+        reporter = reportingAgent.did;
+      } else if (res.locals.apiKey) {
+        reporter = `api_key:${(res.locals.apiKey as ApiKey).id}`;
+      } else {
+        return res.status(401).json({
+          error: 'Authentication required',
+          message: 'Sign the request as an agent or send an API key'
+        });
+      }
+
+      const { category, description, evidence = [] } = req.body;
+
+      if (!isReportCategory(category)) {
+        return res.status(400).json({ error: `category must be one of: ${REPORT_CATEGORIES.join(', ')}` });
+      }
+
+      if (typeof description !== 'string' || !description.trim() || description.length > 2000) {
+        return res.status(400).json({ error: 'description must be a non-empty string of at most 2000 characters' });
+      }
+
+      if (!Array.isArray(evidence) || evidence.length > MAX_EVIDENCE_ITEMS
+        || !evidence.every(item => typeof item === 'string' && item.length > 0 && item.length <= 2000)) {
+        return res.status(400).json({ error: `evidence must be an array of at most ${MAX_EVIDENCE_ITEMS} strings (URLs or excerpts)` });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      if (agent.did === reporter) {
+        return res.status(400).json({ error: 'Agents cannot report themselves' });
+      }
+
+      if (isTerminalStatus(agent.status)) {
+        return res.status(409).json({
+          error: `Agent is ${agent.status}`,
+          message: 'This identity has been permanently retired'
+        });
+      }
+
+      const { total: pending } = await store.listAbuseReports({ agent_id: agent.id, reporter, status: OPEN_REPORT_STATUSES }, 1, 0);
+      if (pending > 0) {
+        return res.status(409).json({
+          error: 'Report already open',
+          message: 'You already have an open report against this agent'
+        });
+      }
+
+      const canReport = await store.checkRateLimit(reporter, 'abuse_report', 10, 24 * 60 * 60 * 1000);
+      if (!canReport) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 10 reports per 24 hours'
+        });
+      }
+
+      const report = await store.createAbuseReport({
+        id: uuidv4(),
+        agent_id: agent.id,
+        agent_did: agent.did,
+        reporter,
+        category,
+        description: description.trim(),
+        evidence
+      });
+
+      res.status(201).json(report);
+    } catch (error) {
+      console.error('Abuse report error:', error);
+      res.status(500).json({ error: 'Failed to file report' });
+    }
+  });
+
+  /**
+   * POST /agents/:id/task-receipts
+   * A platform confirms a task an agent did for it, authenticated by its API key (write scope)
+   * Body: task_id, outcome (completed, corrected, failed), positive_feedback (optional boolean)
+   * The agent counts the receipt by listing its id in a work report's tasks.
+   */
+  router.post('/:id/task-receipts', write, async (req: Request, res: Response) => {
+    try {
+      const apiKey: ApiKey | undefined = res.locals.apiKey;
+      if (!apiKey) {
+        return res.status(401).json({
+          error: 'API key required',
+          message: 'Platforms issue task receipts with their API key; agents countersign tasks with their own key instead'
+        });
+      }
+
+      const { task_id, outcome, positive_feedback = false } = req.body;
+
+      if (typeof task_id !== 'string' || !task_id || task_id.length > 200) {
+        return res.status(400).json({ error: 'task_id must be a string of at most 200 characters' });
+      }
+
+      if (!TASK_OUTCOMES.includes(outcome)) {
+        return res.status(400).json({ error: `outcome must be one of: ${TASK_OUTCOMES.join(', ')}` });
+      }
+
+      if (typeof positive_feedback !== 'boolean') {
+        return res.status(400).json({ error: 'positive_feedback must be a boolean' });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      if (!acceptsSignatures(agent.status)) {
+        return res.status(403).json(statusRefusal(agent));
+      }
+
+      // An account can't vouch for its own agents
+      if (apiKey.owner_id && apiKey.owner_id === agent.user_id) {
+        return res.status(403).json({
+          error: 'Cannot confirm your own agent\'s work',
+          message: 'Task receipts must come from the platform the agent worked for'
+        });
+      }
+
+      const receipt = await store.createTaskReceipt({
+        id: uuidv4(),
+        agent_id: agent.id,
+        task_id,
+        outcome,
+        positive_feedback,
+        countersigner: `api_key:${apiKey.id}`,
+        signature: null,
+        report_id: null
+      });
+
+      res.status(201).json(receipt);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Task receipt error:', error);
+      res.status(500).json({ error: 'Failed to issue task receipt' });
+    }
+  });
+
+  /**
+   * GET /agents/:id/tree
+   * An agent's subtree of workers, nested, with tree-wide aggregates (total tasks, worst and average
+   * reputation, status counts)
+   * Authenticated by the agent itself or any of its ancestors (agent auth), or by the owning
+   * account (Authorization: Bearer <access token>)
+   * Query: depth (levels below the agent, default and max HIERARCHY_MAX_DEPTH)
+   */
+  router.get('/:id/tree', read, async (req: Request, res: Response) => {
+    try {
+      const depth = req.query.depth === undefined ? MAX_HIERARCHY_DEPTH : parseInt(req.query.depth as string, 10);
+      if (isNaN(depth) || depth < 0) {
+        return res.status(400).json({ error: 'depth must be a non-negative integer' });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      if (req.headers.authorization?.startsWith('Bearer ') && !getAgentAccessToken(req)) {
+        // Owner account
+        const { user, error: authError } = await authenticateUser(store, req);
+        if (!user) {
+          return res.status(401).json({ error: authError || 'Invalid token' });
+        }
+
+        if (!agent.user_id || agent.user_id !== user.id) {
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: 'You can only view the trees of agents you own'
+          });
+        }
+      } else {
+        const { agent: authAgent, error: authError } = await verifyAgentAuth(store, req);
+        if (authError || !authAgent) {
+          return res.status(401).json({
+            error: authError || 'Authentication failed',
+            message: 'Authenticate as the agent or one of its ancestors, or provide the owner access token'
+          });
+        }
+
+        if (authAgent.did !== agent.did && !(await getAncestors(store, agent)).some(ancestor => ancestor.did === authAgent.did)) {
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: 'Only the agent and its ancestors can view its tree'
+          });
+        }
+      }
+
+      const { tree, summary } = await buildAgentTree(store, agent, Math.min(depth, MAX_HIERARCHY_DEPTH));
+
+      res.json({
+        tree,
+        summary,
+        limits: {
+          max_depth: MAX_HIERARCHY_DEPTH,
+          max_children: MAX_CHILD_AGENTS
+        }
+      });
+    } catch (error) {
+      console.error('Get agent tree error:', error);
+      res.status(500).json({ error: 'Failed to get agent tree' });
+    }
+  });
+
+  /**
+   * GET /agents/:id/workers
+   * List all workers under this agent
+   * DEPRECATED: Use /agents/me/subagents with agent auth instead
+   * This endpoint requires agent authentication
+   */
+  router.get('/:id/workers', read, async (req: Request, res: Response) => {
+    try {
+      const { agent: authAgent, error: authError } = await verifyAgentAuth(store, req);
+
+      if (authError || !authAgent) {
+        return res.status(401).json({
+          error: authError || 'Authentication failed',
+          message: 'This endpoint requires agent authentication. Use /agents/me/subagents instead.'
+        });
+      }
+
+      const agent = await getAgent(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      // Only allow if authenticated agent is the same as requested agent
+      if (authAgent.did !== agent.did) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You can only view your own workers'
+        });
+      }
+
+      const workers = await store.getChildAgents(agent.did);
+
+      // Get reputation for each worker
+      const reputations = await getReputations(store, workers.map(w => w.id));
+      const workersWithRep = workers.map(worker => {
+        const reputation = reputations.get(worker.id)!;
+        return {
+          id: worker.id,
+          did: worker.did,
+          name: worker.name,
+          agent_type: worker.agent_type,
+          status: worker.status,
+          reputation: reputation.score,
+          reputation_algorithm: reputation.algorithm,
+          created_at: worker.created_at
+        };
+      });
+
+      res.json({
+        parent_did: agent.did,
+        parent_name: agent.name,
+        workers: workersWithRep,
+        worker_count: workersWithRep.length
+      });
+    } catch (error) {
+      console.error('List workers error:', error);
+      res.status(500).json({ error: 'Failed to list workers' });
+    }
+  });
+
+  /**
+   * GET /agents
+   * Search the agent directory (PUBLIC - minimal fields only)
+   * Query: q, name, agent_type, status, owner, claim_type, registered_after, registered_before,
+   * metadata[key], min_reputation, max_reputation, sort, order, algorithm, limit, cursor (or offset)
+   * For full profile, agents must use /agents/me with authentication
+   */
+  router.get('/', read, async (req: Request, res: Response) => {
+    try {
+      const model = getReputationModel(req.query.algorithm as string | undefined);
+      if (!model) {
+        return res.status(400).json({
+          error: 'Unknown reputation algorithm',
+          algorithms: Object.keys(REPUTATION_MODELS)
+        });
+      }
+
+      const { search, error } = parseAgentSearch(req.query, model);
+      if (!search) {
+        return res.status(400).json({ error: 'Invalid query', message: error });
+      }
+
+      const { agents, total } = await store.searchAgents(search);
+
+      // Return only public fields
+      const publicAgents = agents.map(agent => ({
+        id: agent.id,
+        did: agent.did,
+        name: agent.name,
+        agent_type: agent.agent_type,
+        verified: agent.status === 'active' && didVerified(agent),
+        status: agent.status,
+        reputation: agent.reputation_score,
+        reputation_algorithm: model.version,
+        registered_at: agent.created_at
+      }));
+
+      const last = agents[agents.length - 1];
+      res.json({
+        agents: publicAgents,
+        pagination: {
+          total,
+          limit: search.limit,
+          ...(search.offset !== undefined && { offset: search.offset }),
+          next_cursor: agents.length === search.limit ? encodeCursor(search, last) : null
+        },
+        note: 'Public listing shows minimal fields. Use /agents/me with agent auth for full profile.'
+      });
+    } catch (error) {
+      console.error('List agents error:', error);
+      res.status(500).json({ error: 'Failed to list agents' });
+    }
+  });
+
+  return router;
+}
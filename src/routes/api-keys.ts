@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { Store, ApiKey } from '../db/store';
+import { authenticateUser } from '../middleware/auth';
+import { generateApiKey, hasScope, isApiKeyScope, API_KEY_SCOPES } from '../middleware/apiKeys';
+
+// Never expose the key hash
+function publicApiKey(apiKey: ApiKey) {
+  const { key_hash, ...rest } = apiKey;
+  return rest;
+}
+
+export function createApiKeysRouter(store: Store): Router {
+  const router = Router();
+
+  /**
+   * Resolve the account managing keys: the owner account (Bearer access token),
+   * or an admin-scoped API key acting for its owner
+   */
+  async function getOwnerId(req: Request, res: Response): Promise<string | null> {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    if (apiKey) {
+      if (!hasScope(apiKey, 'admin') || !apiKey.owner_id) {
+        res.status(403).json({
+          error: 'Insufficient scope',
+          message: 'Managing API keys needs an account token or an admin API key',
+          required_scope: 'admin'
+        });
+        return null;
+      }
+      return apiKey.owner_id;
+    }
+
+    const { user, error } = await authenticateUser(store, req);
+    if (!user) {
+      res.status(401).json({
+        error: error || 'Authorization required',
+        message: 'Sign in at clawid.co and provide your access token'
+      });
+      return null;
+    }
+    return user.id;
+  }
+
+  /**
+   * POST /api-keys
+   * Create an API key (the key is returned once; only its hash is stored)
+   * Body: name, permissions (array of read, verify, write, admin; default ["read"])
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const ownerId = await getOwnerId(req, res);
+      if (!ownerId) return;
+
+      const { name = null, permissions = ['read'] } = req.body;
+
+      if (name !== null && (typeof name !== 'string' || name.length > 100)) {
+        return res.status(400).json({ error: 'name must be a string of at most 100 characters' });
+      }
+
+      if (!Array.isArray(permissions) || permissions.length === 0 || !permissions.every(isApiKeyScope)) {
+        return res.status(400).json({ error: `permissions must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}` });
+      }
+
+      const { key, keyHash } = generateApiKey();
+      const apiKey = await store.createApiKey({
+        id: uuidv4(),
+        key_hash: keyHash,
+        owner_id: ownerId,
+        name,
+        permissions: [...new Set(permissions)]
+      });
+
+      res.status(201).json({
+        ...publicApiKey(apiKey),
+        key,
+        warning: 'SAVE YOUR API KEY - IT WILL NOT BE SHOWN AGAIN'
+      });
+    } catch (error) {
+      console.error('Create API key error:', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  });
+
+  /**
+   * GET /api-keys
+   * List the account's API keys with last_used_at and usage_count
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const ownerId = await getOwnerId(req, res);
+      if (!ownerId) return;
+
+      const apiKeys = await store.getApiKeysByOwner(ownerId);
+      res.json({
+        api_keys: apiKeys.map(publicApiKey),
+        total: apiKeys.length
+      });
+    } catch (error) {
+      console.error('List API keys error:', error);
+      res.status(500).json({ error: 'Failed to list API keys' });
+    }
+  });
+
+  /**
+   * GET /api-keys/:id/usage
+   * Daily request counts per scope for one of the account's keys
+   */
+  router.get('/:id/usage', async (req: Request, res: Response) => {
+    try {
+      const ownerId = await getOwnerId(req, res);
+      if (!ownerId) return;
+
+      const apiKey = await store.getApiKeyById(req.params.id);
+      if (!apiKey || apiKey.owner_id !== ownerId) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      res.json({
+        id: apiKey.id,
+        name: apiKey.name,
+        last_used_at: apiKey.last_used_at,
+        usage_count: apiKey.usage_count,
+        usage: (await store.getApiKeyUsage(apiKey.id)).map(({ api_key_id, ...u }) => u)
+      });
+    } catch (error) {
+      console.error('API key usage error:', error);
+      res.status(500).json({ error: 'Failed to fetch API key usage' });
+    }
+  });
+
+  /**
+   * DELETE /api-keys/:id
+   * Revoke an API key; requests using it are rejected immediately
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const ownerId = await getOwnerId(req, res);
+      if (!ownerId) return;
+
+      const apiKey = await store.getApiKeyById(req.params.id);
+      if (!apiKey || apiKey.owner_id !== ownerId) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      await store.deleteApiKey(apiKey.id);
+      res.json({ success: true, id: apiKey.id, revoked_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,229 @@
+import { Router, Request, Response } from 'express';
+import { bytesToHex } from '@noble/curves/abstract/utils';
+import { randomBytes } from '@noble/hashes/utils';
+import { Store, AgentSession } from '../db/store';
+import {
+  AUTH_CHALLENGE_TTL_MS,
+  ACCESS_TOKEN_TTL_SECONDS,
+  AGENT_TOKEN_SCOPES,
+  REFRESH_TOKEN_PREFIX,
+  AgentTokenScope,
+  createAccessToken,
+  createAgentSession,
+  generateRefreshToken,
+  getAuthAudience,
+  isAgentTokenScope,
+  verifyAccessToken,
+  verifyAgentSignature
+} from '../middleware/auth';
+import { hash } from '../utils/crypto';
+import { acceptsSignatures, isTerminalStatus, statusRefusal } from '../utils/status';
+
+// Requested scopes (space-separated, RFC 6749 style) within allowed; allowed when none requested
+function parseScope(value: unknown, allowed: string[]): AgentTokenScope[] | null {
+  if (value === undefined || value === null || value === '') {
+    return allowed.filter(isAgentTokenScope);
+  }
+  if (typeof value !== 'string') return null;
+
+  const scopes = [...new Set(value.split(' ').filter(Boolean))];
+  return scopes.length > 0 && scopes.every(s => isAgentTokenScope(s) && allowed.includes(s)) ? scopes as AgentTokenScope[] : null;
+}
+
+// Token response (RFC 6749 section 5.1) for a session
+function tokenResponse(session: AgentSession, refreshToken: string, scope: AgentTokenScope[]) {
+  const { token } = createAccessToken(session, scope);
+  return {
+    access_token: token,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    scope: scope.join(' '),
+    refresh_token: refreshToken,
+    refresh_token_expires_at: session.expires_at,
+    did: session.did
+  };
+}
+
+export function createAuthRouter(store: Store): Router {
+  const router = Router();
+
+  /**
+   * POST /auth/challenge
+   * Issue a single-use nonce for agent authentication, bound to the agent's DID
+   * Body: did
+   * Sign createAgentAuthMessage(did, nonce, method, path, body, audience) and send it with
+   * X-Agent-DID, X-Agent-Nonce and X-Agent-Signature before expires_at. Signed status changes
+   * (POST /agents/:id/status) carry one too.
+   */
+  router.post('/challenge', async (req: Request, res: Response) => {
+    try {
+      const { did } = req.body;
+
+      if (!did || typeof did !== 'string') {
+        return res.status(400).json({ error: 'did is required' });
+      }
+
+      const agent = await store.getAgentByDid(did);
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      // A suspended agent still gets nonces to sign its own status change; agent auth refuses them
+      if (isTerminalStatus(agent.status)) {
+        return res.status(403).json(statusRefusal(agent));
+      }
+
+      const canChallenge = await store.checkRateLimit(agent.did, 'auth_challenge', 60, 60 * 1000);
+      if (!canChallenge) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 60 challenges per minute per agent'
+        });
+      }
+
+      const challenge = await store.createAuthChallenge({
+        nonce: bytesToHex(randomBytes(32)),
+        did: agent.did,
+        expires_at: new Date(Date.now() + AUTH_CHALLENGE_TTL_MS).toISOString()
+      });
+
+      res.status(201).json({
+        nonce: challenge.nonce,
+        did: challenge.did,
+        audience: getAuthAudience(),
+        expires_at: challenge.expires_at,
+        headers: ['X-Agent-DID', 'X-Agent-Nonce', 'X-Agent-Signature']
+      });
+    } catch (error) {
+      console.error('Auth challenge error:', error);
+      res.status(500).json({ error: 'Failed to create challenge' });
+    }
+  });
+
+  /**
+   * POST /auth/token
+   * Exchange a signed request or a refresh token for a short-lived access token
+   * Body: grant_type, scope (optional, space-separated: read, write; default both)
+   * - agent_signature: the request itself is agent-signed with a challenge nonce (challenge headers,
+   *   or HTTP Message Signatures with the nonce parameter)
+   * - refresh_token: body refresh_token; the refresh token is replaced by a new one
+   * Send the access token as Authorization: Bearer <access_token> to agent-authenticated endpoints.
+   */
+  router.post('/token', async (req: Request, res: Response) => {
+    try {
+      const { grant_type, refresh_token } = req.body;
+
+      if (grant_type === 'agent_signature') {
+        // A session outlives the signature by weeks, so it has to be a fresh, single-use one
+        const { agent, error } = await verifyAgentSignature(store, req, { requireNonce: true });
+        if (!agent) {
+          return res.status(401).json({ error: error || 'Authentication failed' });
+        }
+
+        const scope = parseScope(req.body.scope, AGENT_TOKEN_SCOPES);
+        if (!scope) {
+          return res.status(400).json({ error: `scope must be one or more of: ${AGENT_TOKEN_SCOPES.join(', ')}` });
+        }
+
+        const { session, refreshToken } = await createAgentSession(store, agent, scope);
+        return res.json(tokenResponse(session, refreshToken, scope));
+      }
+
+      if (grant_type !== 'refresh_token') {
+        return res.status(400).json({ error: 'grant_type must be agent_signature or refresh_token' });
+      }
+
+      if (typeof refresh_token !== 'string' || !refresh_token.startsWith(REFRESH_TOKEN_PREFIX)) {
+        return res.status(400).json({ error: 'refresh_token is required' });
+      }
+
+      const tokenHash = hash(refresh_token);
+      const session = await store.getAgentSessionByRefreshToken(tokenHash);
+      if (!session) {
+        return res.status(401).json({ error: 'Invalid refresh token' });
+      }
+
+      const now = new Date().toISOString();
+
+      // A replaced refresh token coming back means it leaked; end the session for everyone
+      if (session.refresh_token_hash !== tokenHash) {
+        await store.revokeAgentSession(session.id, now);
+        return res.status(401).json({
+          error: 'Refresh token reused',
+          message: 'This refresh token was already exchanged; the session has been revoked'
+        });
+      }
+
+      if (session.revoked_at) {
+        return res.status(401).json({ error: 'Session revoked' });
+      }
+
+      if (session.expires_at <= now) {
+        return res.status(401).json({ error: 'Refresh token expired' });
+      }
+
+      const scope = parseScope(req.body.scope, session.scope);
+      if (!scope) {
+        return res.status(400).json({ error: `scope must be within the session's: ${session.scope.join(', ')}` });
+      }
+
+      const agent = await store.getAgentByDid(session.did);
+      if (!agent) {
+        return res.status(401).json({ error: 'Agent not found' });
+      }
+
+      if (!acceptsSignatures(agent.status)) {
+        return res.status(403).json(statusRefusal(agent));
+      }
+
+      const canRefresh = await store.checkRateLimit(agent.did, 'auth_token', 60, 60 * 1000);
+      if (!canRefresh) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 60 token refreshes per minute per agent'
+        });
+      }
+
+      const { token: newRefreshToken, tokenHash: newTokenHash } = generateRefreshToken();
+      if (!await store.rotateAgentSession(session.id, tokenHash, newTokenHash, now)) {
+        return res.status(401).json({ error: 'Refresh token already used' });
+      }
+
+      res.json(tokenResponse(session, newRefreshToken, scope));
+    } catch (error) {
+      console.error('Auth token error:', error);
+      res.status(500).json({ error: 'Failed to issue token' });
+    }
+  });
+
+  /**
+   * POST /auth/revoke
+   * Revoke a refresh token or access token, with the session it belongs to (RFC 7009)
+   * Body: token
+   * Responds 200 whether or not the token was valid, as RFC 7009 specifies.
+   */
+  router.post('/revoke', async (req: Request, res: Response) => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({ error: 'token is required' });
+      }
+
+      const session = token.startsWith(REFRESH_TOKEN_PREFIX)
+        ? await store.getAgentSessionByRefreshToken(hash(token))
+        : (await verifyAccessToken(store, token)).session;
+
+      if (session) {
+        await store.revokeAgentSession(session.id, new Date().toISOString());
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Auth revoke error:', error);
+      res.status(500).json({ error: 'Failed to revoke token' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { Store } from '../db/store';
+import { requireScope } from '../middleware/apiKeys';
+import { capabilityCovers, isCapability, verifyDelegation, DelegationClaims } from '../utils/delegation';
+
+// A chain link as returned to clients
+function linkView(link: DelegationClaims) {
+  return {
+    issuer: link.iss,
+    audience: link.aud,
+    capabilities: link.att,
+    issued_at: new Date(link.iat * 1000).toISOString(),
+    not_before: link.nbf === undefined ? null : new Date(link.nbf * 1000).toISOString(),
+    expires_at: new Date(link.exp * 1000).toISOString()
+  };
+}
+
+export function createDelegationsRouter(store: Store): Router {
+  const router = Router();
+  const verifyScope = requireScope(store, 'verify');
+
+  /**
+   * POST /delegations/verify
+   * Check a capability delegation and its whole proof chain back to the root agent
+   * Body: token, audience (optional: the DID presenting it), capability (optional: { with, can, nb })
+   * With capability, authorized says whether the delegation grants it.
+   */
+  router.post('/verify', verifyScope, async (req: Request, res: Response) => {
+    try {
+      const { token, audience, capability } = req.body;
+
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({ error: 'token is required' });
+      }
+
+      if (audience !== undefined && typeof audience !== 'string') {
+        return res.status(400).json({ error: 'audience must be a DID' });
+      }
+
+      if (capability !== undefined && !isCapability(capability)) {
+        return res.status(400).json({ error: 'capability must be { with, can, nb (optional object) }' });
+      }
+
+      const check = await verifyDelegation(store, token);
+      if (!check.valid) {
+        return res.json({ valid: false, error: check.error });
+      }
+
+      const chain = check.chain!;
+      const leaf = chain[chain.length - 1];
+      if (audience && audience !== leaf.aud) {
+        return res.json({ valid: false, error: `Delegation is for ${leaf.aud}, not ${audience}` });
+      }
+
+      res.json({
+        valid: true,
+        root: chain[0].iss,
+        audience: leaf.aud,
+        capabilities: leaf.att,
+        expires_at: new Date(leaf.exp * 1000).toISOString(),
+        ...(capability && { authorized: leaf.att.some(granted => capabilityCovers(granted, capability)) }),
+        chain: chain.map(linkView)
+      });
+    } catch (error) {
+      console.error('Delegation verify error:', error);
+      res.status(500).json({ error: 'Failed to verify delegation' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { Store } from '../db/store';
+import { requireScope } from '../middleware/apiKeys';
+import { getSignedTreeHead, didInclusionProofs, logConsistencyProof, logRoot, MAX_LOG_ENTRIES } from '../utils/transparency';
+
+// A tree size query parameter: a whole number up to max, or the default when absent
+function parseTreeSize(value: unknown, max: number, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const size = Number(value);
+  return Number.isInteger(size) && size >= 0 && size <= max ? size : null;
+}
+
+export function createLogRouter(store: Store): Router {
+  const router = Router();
+  const read = requireScope(store, 'read');
+
+  /**
+   * GET /log/sth
+   * Signed tree head of the transparency log
+   */
+  router.get('/sth', read, async (req: Request, res: Response) => {
+    try {
+      res.json(await getSignedTreeHead(store));
+    } catch (error) {
+      console.error('Tree head error:', error);
+      res.status(500).json({ error: 'Failed to fetch tree head' });
+    }
+  });
+
+  /**
+   * GET /log/entries
+   * Log entries in order, for monitors auditing the whole log
+   * Query: start (default 0), end (exclusive; at most 100 entries per request)
+   */
+  router.get('/entries', read, async (req: Request, res: Response) => {
+    try {
+      const start = Math.max(0, parseInt(req.query.start as string) || 0);
+      const end = Math.min(start + MAX_LOG_ENTRIES, parseInt(req.query.end as string) || start + MAX_LOG_ENTRIES);
+      if (end <= start) {
+        return res.status(400).json({ error: 'end must be greater than start' });
+      }
+
+      const entries = await store.getLogEntries(start, end);
+      res.json({ entries, start, end: start + entries.length });
+    } catch (error) {
+      console.error('Log entries error:', error);
+      res.status(500).json({ error: 'Failed to fetch log entries' });
+    }
+  });
+
+  /**
+   * GET /log/proof/inclusion
+   * Every log entry for a DID, each with an inclusion proof
+   * Query: did, tree_size (optional; defaults to the current signed tree head)
+   */
+  router.get('/proof/inclusion', read, async (req: Request, res: Response) => {
+    try {
+      const did = req.query.did;
+      if (typeof did !== 'string' || !did.startsWith('did:')) {
+        return res.status(400).json({ error: 'did is required' });
+      }
+
+      const treeHead = await getSignedTreeHead(store);
+      const treeSize = parseTreeSize(req.query.tree_size, treeHead.tree_size, treeHead.tree_size);
+      if (treeSize === null) {
+        return res.status(400).json({ error: `tree_size must be a whole number up to ${treeHead.tree_size}` });
+      }
+
+      const entries = await didInclusionProofs(store, did, treeSize);
+      if (entries.length === 0) {
+        return res.status(404).json({ error: 'DID not found in the log', tree_size: treeSize });
+      }
+
+      res.json({
+        did,
+        tree_size: treeSize,
+        root_hash: treeSize === treeHead.tree_size ? treeHead.root_hash : await logRoot(store, treeSize),
+        entries,
+        tree_head: treeHead
+      });
+    } catch (error) {
+      console.error('Inclusion proof error:', error);
+      res.status(500).json({ error: 'Failed to build inclusion proof' });
+    }
+  });
+
+  /**
+   * GET /log/proof/consistency
+   * Proof that the tree of size second extends the tree of size first
+   * Query: first, second (optional; defaults to the current signed tree head)
+   */
+  router.get('/proof/consistency', read, async (req: Request, res: Response) => {
+    try {
+      const treeHead = await getSignedTreeHead(store);
+      const second = parseTreeSize(req.query.second, treeHead.tree_size, treeHead.tree_size);
+      if (second === null) {
+        return res.status(400).json({ error: `second must be a whole number up to ${treeHead.tree_size}` });
+      }
+      const first = req.query.first === undefined ? null : parseTreeSize(req.query.first, second, 0);
+      if (first === null) {
+        return res.status(400).json({ error: `first must be a whole number up to ${second}` });
+      }
+
+      res.json({
+        first,
+        second,
+        first_root: await logRoot(store, first),
+        second_root: await logRoot(store, second),
+        proof: await logConsistencyProof(store, first, second)
+      });
+    } catch (error) {
+      console.error('Consistency proof error:', error);
+      res.status(500).json({ error: 'Failed to build consistency proof' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,295 @@
+import { Router, Request, Response } from 'express';
+import { Store, ApiKey, AbuseReport } from '../db/store';
+import { authenticateUser } from '../middleware/auth';
+import { hasScope } from '../middleware/apiKeys';
+import { canTransition } from '../utils/status';
+import { getReputation } from '../utils/reputation';
+import { emitWebhookEvent } from '../utils/webhooks';
+import {
+  isModerator,
+  isReportCategory,
+  isResolutionAction,
+  OPEN_REPORT_STATUSES,
+  RESOLUTION_ACTIONS,
+  MAX_REPORT_PENALTY
+} from '../utils/moderation';
+
+const REPORT_STATUSES = ['open', 'reviewing', 'actioned', 'dismissed'];
+
+export function createModerationRouter(store: Store): Router {
+  const router = Router();
+
+  /**
+   * Resolve the moderator: a moderator account (Bearer access token),
+   * or an admin-scoped API key owned by one
+   */
+  async function getModeratorId(req: Request, res: Response): Promise<string | null> {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    let userId: string | null = null;
+
+    if (apiKey) {
+      userId = hasScope(apiKey, 'admin') ? apiKey.owner_id : null;
+    } else {
+      const { user, error } = await authenticateUser(store, req);
+      if (!user) {
+        res.status(401).json({
+          error: error || 'Authorization required',
+          message: 'Moderation needs a moderator access token or admin API key'
+        });
+        return null;
+      }
+      userId = user.id;
+    }
+
+    if (!isModerator(userId)) {
+      res.status(403).json({ error: 'Forbidden', message: 'Only moderators can access the moderation queue' });
+      return null;
+    }
+    return userId;
+  }
+
+  /**
+   * GET /moderation/reports
+   * The report queue, oldest first
+   * Query: status (comma-separated, default open,reviewing), category, agent (ID or DID), limit, offset
+   */
+  router.get('/reports', async (req: Request, res: Response) => {
+    try {
+      if (!await getModeratorId(req, res)) return;
+
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+      const offset = Math.max(0, parseInt(req.query.offset as string) || 0);
+      const status = req.query.status ? String(req.query.status).split(',') : OPEN_REPORT_STATUSES;
+      const category = req.query.category as string | undefined;
+
+      if (!status.every(s => REPORT_STATUSES.includes(s))) {
+        return res.status(400).json({ error: `status must be a comma-separated list of: ${REPORT_STATUSES.join(', ')}` });
+      }
+
+      if (category !== undefined && !isReportCategory(category)) {
+        return res.status(400).json({ error: 'Unknown report category' });
+      }
+
+      let agentId: string | undefined;
+      if (req.query.agent) {
+        const agentRef = String(req.query.agent);
+        const agent = agentRef.startsWith('did:') ? await store.getAgentByDid(agentRef) : await store.getAgentById(agentRef);
+        if (!agent) {
+          return res.status(404).json({ error: 'Agent not found' });
+        }
+        agentId = agent.id;
+      }
+
+      const { reports, total } = await store.listAbuseReports({ status, category, agent_id: agentId }, limit, offset);
+      res.json({ reports, total, limit, offset });
+    } catch (error) {
+      console.error('Moderation queue error:', error);
+      res.status(500).json({ error: 'Failed to fetch reports' });
+    }
+  });
+
+  /**
+   * GET /moderation/reports/:id
+   * A report with the reported agent's current standing
+   */
+  router.get('/reports/:id', async (req: Request, res: Response) => {
+    try {
+      if (!await getModeratorId(req, res)) return;
+
+      const report = await store.getAbuseReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      res.json({ report, agent: await agentStanding(report) });
+    } catch (error) {
+      console.error('Get report error:', error);
+      res.status(500).json({ error: 'Failed to fetch report' });
+    }
+  });
+
+  /**
+   * POST /moderation/reports/:id/review
+   * Take an open report for review
+   */
+  router.post('/reports/:id/review', async (req: Request, res: Response) => {
+    try {
+      if (!await getModeratorId(req, res)) return;
+
+      const updated = await store.updateAbuseReport(req.params.id, ['open'], { status: 'reviewing' });
+      if (!updated) {
+        const report = await store.getAbuseReport(req.params.id);
+        return report
+          ? res.status(409).json({ error: 'Report is not open', status: report.status })
+          : res.status(404).json({ error: 'Report not found' });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Review report error:', error);
+      res.status(500).json({ error: 'Failed to update report' });
+    }
+  });
+
+  /**
+   * POST /moderation/reports/:id/resolve
+   * Close a report: dismiss it, or uphold it with a warning, a flag or a suspension
+   * Body: action, note (optional), penalty (optional stars deducted from reputation, upheld reports only)
+   */
+  router.post('/reports/:id/resolve', async (req: Request, res: Response) => {
+    try {
+      const moderatorId = await getModeratorId(req, res);
+      if (!moderatorId) return;
+
+      const { action, note = null, penalty = 0 } = req.body;
+
+      if (!isResolutionAction(action)) {
+        return res.status(400).json({ error: `action must be one of: ${RESOLUTION_ACTIONS.join(', ')}` });
+      }
+
+      if (note !== null && (typeof note !== 'string' || note.length > 2000)) {
+        return res.status(400).json({ error: 'note must be a string of at most 2000 characters' });
+      }
+
+      if (typeof penalty !== 'number' || !Number.isFinite(penalty) || penalty < 0 || penalty > MAX_REPORT_PENALTY) {
+        return res.status(400).json({ error: `penalty must be a number of stars from 0 to ${MAX_REPORT_PENALTY}` });
+      }
+
+      if (action === 'dismiss' && penalty > 0) {
+        return res.status(400).json({ error: 'Dismissed reports carry no penalty' });
+      }
+
+      const report = await store.getAbuseReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      const agent = await store.getAgentById(report.agent_id);
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      // Flagging marks an active agent; suspension follows the usual lifecycle
+      const newStatus = action === 'flag' ? 'flagged' : action === 'suspend' ? 'suspended' : null;
+      if (newStatus === 'flagged' && agent.status !== 'active') {
+        return res.status(409).json({ error: 'Only active agents can be flagged', status: agent.status });
+      }
+      if (newStatus === 'suspended' && !canTransition(agent.status, 'suspended')) {
+        return res.status(409).json({ error: `Cannot suspend an agent that is ${agent.status}`, status: agent.status });
+      }
+
+      const resolvedBy = `moderator:${moderatorId}`;
+      const roundedPenalty = Math.round(penalty * 100) / 100;
+      const resolved = await store.updateAbuseReport(report.id, OPEN_REPORT_STATUSES, {
+        status: action === 'dismiss' ? 'dismissed' : 'actioned',
+        resolution_action: action,
+        resolution_note: note,
+        penalty: roundedPenalty || null,
+        resolved_by: resolvedBy,
+        resolved_at: new Date().toISOString()
+      });
+      if (!resolved) {
+        return res.status(409).json({ error: 'Report is already resolved', status: report.status });
+      }
+
+      if (newStatus) {
+        const updated = await store.changeAgentStatus(agent, newStatus, `Moderation: ${report.category} (report ${report.id})`, resolvedBy, null);
+        if (updated) {
+          await emitWebhookEvent(store, 'status_change', updated, {
+            previous_status: agent.status,
+            status: updated.status,
+            reason: updated.status_reason,
+            changed_by: 'moderator',
+            changed_at: updated.status_changed_at
+          });
+        }
+      }
+
+      if (roundedPenalty > 0) {
+        await store.createReputationEvent({
+          agent_id: agent.id,
+          event_type: 'moderation_penalty',
+          score_delta: -Math.round(roundedPenalty * 100),
+          description: `Moderation penalty: ${report.category}`,
+          metadata: { report_id: report.id, action, penalty: roundedPenalty, moderator: resolvedBy }
+        });
+      }
+
+      res.json({ report: resolved, agent: await agentStanding(resolved) });
+    } catch (error) {
+      console.error('Resolve report error:', error);
+      res.status(500).json({ error: 'Failed to resolve report' });
+    }
+  });
+
+  /**
+   * POST /moderation/agents/:id/reinstate
+   * Lift a flag or suspension (by ID or DID)
+   * Body: note (optional)
+   */
+  router.post('/agents/:id/reinstate', async (req: Request, res: Response) => {
+    try {
+      const moderatorId = await getModeratorId(req, res);
+      if (!moderatorId) return;
+
+      const { note = null } = req.body;
+      if (note !== null && (typeof note !== 'string' || note.length > 500)) {
+        return res.status(400).json({ error: 'note must be a string of at most 500 characters' });
+      }
+
+      const agent = req.params.id.startsWith('did:') ? await store.getAgentByDid(req.params.id) : await store.getAgentById(req.params.id);
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      if (!canTransition(agent.status, 'active')) {
+        return res.status(409).json({ error: `Cannot reinstate an agent that is ${agent.status}`, status: agent.status });
+      }
+
+      const updated = await store.changeAgentStatus(agent, 'active', note, `moderator:${moderatorId}`, null);
+      if (!updated) {
+        return res.status(500).json({ error: 'Failed to reinstate agent' });
+      }
+
+      await emitWebhookEvent(store, 'status_change', updated, {
+        previous_status: agent.status,
+        status: updated.status,
+        reason: updated.status_reason,
+        changed_by: 'moderator',
+        changed_at: updated.status_changed_at
+      });
+
+      res.json({
+        success: true,
+        agent_id: agent.id,
+        did: agent.did,
+        previous_status: agent.status,
+        status: updated.status,
+        status_changed_at: updated.status_changed_at
+      });
+    } catch (error) {
+      console.error('Reinstate agent error:', error);
+      res.status(500).json({ error: 'Failed to reinstate agent' });
+    }
+  });
+
+  // The reported agent's current status, reputation and report history
+  async function agentStanding(report: AbuseReport) {
+    const agent = await store.getAgentById(report.agent_id);
+    if (!agent) return null;
+
+    const reputation = await getReputation(store, agent.id);
+    return {
+      id: agent.id,
+      did: agent.did,
+      name: agent.name,
+      status: agent.status,
+      status_reason: agent.status_reason,
+      reputation: reputation.score,
+      reputation_algorithm: reputation.algorithm,
+      reports: await store.getAbuseReportStats(agent.id)
+    };
+  }
+
+  return router;
+}
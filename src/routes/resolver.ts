@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { Store } from '../db/store';
+import { requireScope } from '../middleware/apiKeys';
+import {
+  checkDID,
+  negotiateRepresentation,
+  buildResolutionResult,
+  buildDIDKeyResolutionResult,
+  buildResolutionError,
+  RESOLUTION_RESULT_TYPE
+} from '../utils/resolution';
+
+export function createResolverRouter(store: Store): Router {
+  const router = Router();
+
+  /**
+   * GET /1.0/identifiers/:did
+   * Resolve a DID to its DID Document (DID Resolution HTTP binding)
+   * 
+   * Accept: application/ld+json;profile="https://w3id.org/did-resolution" (default) returns the full
+   * resolution result; application/did+ld+json or application/did+json returns only the document.
+   */
+  router.get('/:did', requireScope(store, 'read'), async (req: Request, res: Response) => {
+    try {
+      const { did } = req.params;
+
+      const contentType = negotiateRepresentation(req.headers.accept);
+      if (!contentType) {
+        const { status, body } = buildResolutionError('representationNotSupported', 'Supported: application/did+ld+json, application/did+json');
+        return res.status(status).type(RESOLUTION_RESULT_TYPE).send(JSON.stringify(body));
+      }
+
+      const checked = checkDID(did);
+      if ('error' in checked) {
+        const { status, body } = buildResolutionError(checked.error, checked.message);
+        return res.status(status).type(RESOLUTION_RESULT_TYPE).send(JSON.stringify(body));
+      }
+
+      const agent = await store.getAgentByDid(did);
+      // Unregistered did:key identifiers still resolve from the key they contain
+      if (!agent && checked.method === 'key') {
+        const result = buildDIDKeyResolutionResult(did, contentType);
+        const body = contentType === RESOLUTION_RESULT_TYPE ? result : result.didDocument;
+        return res.type(contentType).send(JSON.stringify(body));
+      }
+
+      if (!agent) {
+        const { status, body } = buildResolutionError('notFound');
+        return res.status(status).type(RESOLUTION_RESULT_TYPE).send(JSON.stringify(body));
+      }
+
+      // Workers are controlled by their parent agent
+      const keys = await store.getAgentKeys(agent.id);
+      const result = buildResolutionResult({ ...agent, controller: agent.parent_did || undefined }, keys, contentType);
+
+      // Deactivated DIDs still resolve, but with 410 Gone
+      const httpStatus = result.didDocumentMetadata.deactivated ? 410 : 200;
+      const body = contentType === RESOLUTION_RESULT_TYPE ? result : result.didDocument;
+      res.status(httpStatus).type(contentType).send(JSON.stringify(body));
+    } catch (error) {
+      console.error('DID resolution error:', error);
+      const { status, body } = buildResolutionError('internalError');
+      res.status(status).type(RESOLUTION_RESULT_TYPE).send(JSON.stringify(body));
+    }
+  });
+
+  return router;
+}
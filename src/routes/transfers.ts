@@ -0,0 +1,161 @@
+import { Router, Request, Response } from 'express';
+import { Store, OwnershipTransfer } from '../db/store';
+import { authenticateUser } from '../middleware/auth';
+import { emitWebhookEvent } from '../utils/webhooks';
+import { transferExpired } from '../utils/ownership';
+
+/**
+ * Ownership transfers between owner accounts
+ *
+ * The owner starts a transfer with POST /agents/:id/transfer; the recipient accepts it here, and
+ * either side can cancel it while it is pending. All routes need the account access token.
+ */
+export function createTransfersRouter(store: Store): Router {
+  const router = Router();
+
+  // The signed-in account's ID, or a 401
+  async function getUserId(req: Request, res: Response): Promise<string | null> {
+    const { user, error } = await authenticateUser(store, req);
+    if (!user) {
+      res.status(401).json({
+        error: error || 'Authorization required',
+        message: 'Sign in at clawid.co and provide your access token'
+      });
+      return null;
+    }
+    return user.id;
+  }
+
+  // A transfer the account is a party to, or a 404; pending ones past their expiry are closed first
+  async function getOwnTransfer(req: Request, res: Response, userId: string): Promise<OwnershipTransfer | null> {
+    let transfer = await store.getOwnershipTransfer(req.params.id);
+    if (!transfer || (transfer.from_user_id !== userId && transfer.to_user_id !== userId)) {
+      res.status(404).json({ error: 'Transfer not found' });
+      return null;
+    }
+
+    if (transfer.status === 'pending' && transferExpired(transfer)) {
+      transfer = await store.resolveOwnershipTransfer(transfer.id, 'expired', 'system', transfer.expires_at)
+        || await store.getOwnershipTransfer(transfer.id);
+    }
+    return transfer;
+  }
+
+  /**
+   * GET /transfers
+   * Pending transfers to and from your account
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const userId = await getUserId(req, res);
+      if (!userId) return;
+
+      const transfers = [];
+      for (const transfer of await store.getPendingOwnershipTransfers(userId)) {
+        if (transferExpired(transfer)) {
+          await store.resolveOwnershipTransfer(transfer.id, 'expired', 'system', transfer.expires_at);
+          continue;
+        }
+        const agent = await store.getAgentById(transfer.agent_id);
+        transfers.push({
+          ...transfer,
+          direction: transfer.to_user_id === userId ? 'incoming' : 'outgoing',
+          agent: agent && { id: agent.id, did: agent.did, name: agent.name, status: agent.status }
+        });
+      }
+
+      res.json({ transfers, total: transfers.length });
+    } catch (error) {
+      console.error('List transfers error:', error);
+      res.status(500).json({ error: 'Failed to list transfers' });
+    }
+  });
+
+  /**
+   * POST /transfers/:id/accept
+   * Take ownership of the agent (and its subtree) offered to your account
+   */
+  router.post('/:id/accept', async (req: Request, res: Response) => {
+    try {
+      const userId = await getUserId(req, res);
+      if (!userId) return;
+
+      const transfer = await getOwnTransfer(req, res, userId);
+      if (!transfer) return;
+
+      if (transfer.to_user_id !== userId) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the recipient can accept a transfer'
+        });
+      }
+
+      if (transfer.status !== 'pending') {
+        return res.status(409).json({ error: 'Transfer is no longer pending', status: transfer.status });
+      }
+
+      const changedBy = `user:${userId}`;
+      const subAgentsTransferred = await store.changeAgentOwner(transfer.agent_id, transfer.from_user_id, userId, changedBy, transfer.id);
+      if (subAgentsTransferred === null) {
+        // Moved since the transfer started (or this is a repeated accept): the offer no longer stands
+        const agent = await store.getAgentById(transfer.agent_id);
+        if (agent?.user_id !== userId) {
+          await store.resolveOwnershipTransfer(transfer.id, 'cancelled', 'system', new Date().toISOString());
+        }
+        return res.status(409).json({ error: 'Agent changed owner since the transfer started' });
+      }
+
+      const accepted = await store.resolveOwnershipTransfer(transfer.id, 'accepted', changedBy, new Date().toISOString());
+
+      const agent = await store.getAgentById(transfer.agent_id);
+      if (agent) {
+        await emitWebhookEvent(store, 'ownership_change', agent, {
+          from_user_id: transfer.from_user_id,
+          to_user_id: userId,
+          transfer_id: transfer.id,
+          sub_agents: subAgentsTransferred
+        });
+      }
+
+      res.json({
+        success: true,
+        transfer: accepted || transfer,
+        agent: agent && {
+          did: agent.did,
+          name: agent.name
+        },
+        sub_agents_transferred: subAgentsTransferred
+      });
+    } catch (error) {
+      console.error('Accept transfer error:', error);
+      res.status(500).json({ error: 'Failed to accept transfer' });
+    }
+  });
+
+  /**
+   * POST /transfers/:id/cancel
+   * Withdraw a transfer you started, or decline one offered to you
+   */
+  router.post('/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const userId = await getUserId(req, res);
+      if (!userId) return;
+
+      const transfer = await getOwnTransfer(req, res, userId);
+      if (!transfer) return;
+
+      const cancelled = transfer.status === 'pending'
+        && await store.resolveOwnershipTransfer(transfer.id, 'cancelled', `user:${userId}`, new Date().toISOString());
+      if (!cancelled) {
+        return res.status(409).json({ error: 'Transfer is no longer pending', status: transfer.status });
+      }
+
+      res.json({ success: true, transfer: cancelled });
+    } catch (error) {
+      console.error('Cancel transfer error:', error);
+      res.status(500).json({ error: 'Failed to cancel transfer' });
+    }
+  });
+
+  return router;
+}
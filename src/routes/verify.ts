@@ -1,160 +1,515 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { db, Agent, Verification } from '../db/schema';
-import { verify as verifySig } from '../utils/crypto';
+import { Store, Agent } from '../db/store';
+import { requireScope } from '../middleware/apiKeys';
+import { verifyAgentAuth } from '../middleware/auth';
+import { verify as verifySig, keyValidAt, getDIDMethod, didWebDocumentUrl, createClaimMessage } from '../utils/crypto';
+import { acceptsSignatures, isTerminalStatus, statusRefusal } from '../utils/status';
+import { issueCredential, issueCredentialJwt, ClaimVerificationMethod } from '../utils/credentials';
+import { getIssuer, getIssuerDIDDocument } from '../utils/issuer';
+import { loadReputationAggregate, reputationFromAggregate, scoreDelta, getReputationModel, Reputation, REPUTATION_MODELS, DEFAULT_REPUTATION_ALGORITHM } from '../utils/reputation';
+import { emitWebhookEvent } from '../utils/webhooks';
+import { didVerified } from '../utils/didweb';
+import { signJws } from '../utils/jws';
 
-const router = Router();
+// JWS typ of signed verification results
+const VERIFICATION_TOKEN_TYPE = 'agent-verification+jwt';
+
+// How long a signed verification result may be relied on (default 15 minutes)
+const VERIFICATION_TOKEN_TTL_SECONDS = parseInt(process.env.VERIFICATION_TOKEN_TTL_SECONDS || '', 10) || 15 * 60;
 
 /**
- * POST /verify
- * Verify a claim about an agent
- * 
- * Body:
- * - agent_id: ID or DID of agent to verify
- * - claim_type: Type of claim (identity, capability, ownership, etc.)
- * - claim_value: Optional value for the claim
- * - message: Message that was signed (optional, for signature verification)
- * - signature: Signature to verify (optional)
- * - verifier_id: ID of the verifying party (optional)
+ * Add the result, signed as a compact JWS, so it can be cached or passed on and checked offline
+ * Payload: iss (issuer DID), sub (the DID checked), iat, exp, verification (the result)
  */
-router.post('/', (req: Request, res: Response) => {
-  try {
-    const { 
-      agent_id, 
-      claim_type, 
-      claim_value, 
-      message, 
-      signature,
-      verifier_id,
-      expires_in_days 
-    } = req.body;
-
-    if (!agent_id || !claim_type) {
-      return res.status(400).json({ 
-        error: 'agent_id and claim_type are required' 
-      });
+function withToken<T extends { did: string }>(result: T): T & { token: string; token_expires_at: string } {
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + VERIFICATION_TOKEN_TTL_SECONDS;
+  const token = signJws(VERIFICATION_TOKEN_TYPE, {
+    iss: getIssuer().did,
+    sub: result.did,
+    iat,
+    exp,
+    verification: result
+  });
+  return { ...result, token, token_expires_at: new Date(exp * 1000).toISOString() };
+}
+
+// Most DIDs in one POST /verify/batch (default 500)
+const VERIFY_BATCH_MAX_DIDS = parseInt(process.env.VERIFY_BATCH_MAX_DIDS || '', 10) || 500;
+
+/**
+ * GET /verify/:did result for a registered agent
+ */
+function verificationResult(agent: Agent, reputation: Reputation, tasksCompleted: number, flags: number) {
+  return {
+    // Only usable identities verify; revoked, deactivated and suspended agents are reported as such,
+    // and a did:web only once its domain serves the agent's key
+    verified: acceptsSignatures(agent.status) && didVerified(agent),
+    did: agent.did,
+    ...(getDIDMethod(agent.did) === 'web' && { did_web_verified: didVerified(agent), did_document_url: didWebDocumentUrl(agent.did) }),
+    name: agent.name,
+    status: agent.status,
+    revoked: isTerminalStatus(agent.status),
+    revoked_at: isTerminalStatus(agent.status) ? agent.status_changed_at : null,
+    status_reason: agent.status === 'active' ? null : agent.status_reason,
+    status_changed_at: agent.status_changed_at,
+    reputation: reputation.score,
+    reputation_confidence: reputation.confidence,
+    reputation_algorithm: reputation.algorithm,
+    tasks_completed: tasksCompleted,
+    registered_at: agent.created_at,
+    flags,  // upheld abuse reports
+    verification_url: `https://agent-identity.onrender.com/agent/${encodeURIComponent(agent.did)}`
+  };
+}
+
+// GET /verify/:did result for a DID nobody registered
+function notRegisteredResult(did: string) {
+  return {
+    verified: false,
+    did,
+    message: 'Agent not registered',
+    register_url: 'https://agent-identity.onrender.com/register'
+  };
+}
+
+// In-memory rate limit store for verify endpoint (1000 DIDs/min per IP)
+const verifyRateLimits = new Map<string, { count: number; resetAt: number }>();
+const MAX_RATE_LIMIT_ENTRIES = 50000; // Cap to prevent memory exhaustion
+
+// weight: DIDs checked by the request (a batch counts each one)
+function checkVerifyRateLimit(ip: string, weight = 1): boolean {
+  const now = Date.now();
+  const limit = verifyRateLimits.get(ip);
+  
+  if (!limit || now > limit.resetAt) {
+    // Check map size before adding new entry
+    if (verifyRateLimits.size >= MAX_RATE_LIMIT_ENTRIES) {
+      // Emergency cleanup: remove all expired entries
+      for (const [key, val] of verifyRateLimits.entries()) {
+        if (now > val.resetAt) {
+          verifyRateLimits.delete(key);
+        }
+      }
+      // If still too large, remove oldest entries
+      if (verifyRateLimits.size >= MAX_RATE_LIMIT_ENTRIES) {
+        const entriesToRemove = verifyRateLimits.size - MAX_RATE_LIMIT_ENTRIES + 10000;
+        let removed = 0;
+        for (const key of verifyRateLimits.keys()) {
+          if (removed >= entriesToRemove) break;
+          verifyRateLimits.delete(key);
+          removed++;
+        }
+      }
     }
+    if (weight > 1000) {
+      return false;
+    }
+    verifyRateLimits.set(ip, { count: weight, resetAt: now + 60000 });
+    return true;
+  }
+  
+  if (limit.count + weight > 1000) {
+    return false;
+  }
+  
+  limit.count += weight;
+  return true;
+}
 
-    // Find the agent
-    const isDID = agent_id.startsWith('did:');
-    const agentStmt = db.prepare(
-      isDID 
-        ? 'SELECT * FROM agents WHERE did = ?' 
-        : 'SELECT * FROM agents WHERE id = ?'
-    );
-    
-    const agent = agentStmt.get(agent_id) as Agent | undefined;
-
-    if (!agent) {
-      return res.status(404).json({ error: 'Agent not found' });
+// Clean up old rate limit entries every 5 minutes
+setInterval(() => {
+  const now = Date.now();
+  for (const [ip, limit] of verifyRateLimits.entries()) {
+    if (now > limit.resetAt) {
+      verifyRateLimits.delete(ip);
     }
+  }
+}, 5 * 60 * 1000).unref();
 
-    // If signature provided, verify it
-    let signatureValid = null;
-    if (message && signature) {
-      signatureValid = verifySig(message, signature, agent.public_key);
-      
-      if (!signatureValid) {
-        return res.status(401).json({
-          verified: false,
-          error: 'Signature verification failed',
-          agent_id: agent.id,
-          did: agent.did
+export function createVerifyRouter(store: Store): Router {
+  const router = Router();
+  const read = requireScope(store, 'read');
+  const verifyScope = requireScope(store, 'verify');
+
+  // Look up an agent by ID or DID
+  function getAgent(id: string) {
+    return id.startsWith('did:') ? store.getAgentByDid(id) : store.getAgentById(id);
+  }
+
+  /**
+   * POST /verify
+   * Verify a claim about an agent
+   * The verified claim is also issued as a W3C Verifiable Credential (JSON-LD and JWT forms)
+   * The agent has to make the claim: either signature is set, or the request carries agent auth
+   * as that agent (signed request or access token). The credential records which.
+   * 
+   * Body:
+   * - agent_id: ID or DID of agent to verify
+   * - claim_type: Type of claim (identity, capability, ownership, etc.)
+   * - claim_value: Optional value for the claim
+   * - signature: Agent's signature over the canonical claim payload (see createClaimMessage), used once
+   * - signed_at: When the claim was signed (optional, within 5 minutes of now); claims are always
+   *   checked against the agent's current key, since issuing a credential acts on them now
+   * - verifier_id: ID of the verifying party (optional)
+   */
+  router.post('/', verifyScope, async (req: Request, res: Response) => {
+    try {
+      const { 
+        agent_id, 
+        claim_type, 
+        claim_value, 
+        signature,
+        signed_at,
+        verifier_id,
+        expires_in_days 
+      } = req.body;
+
+      if (!agent_id || !claim_type) {
+        return res.status(400).json({ 
+          error: 'agent_id and claim_type are required' 
         });
       }
-    }
 
-    // Create verification record
-    const verificationId = uuidv4();
-    const expiresAt = expires_in_days 
-      ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString()
-      : null;
-
-    const stmt = db.prepare(`
-      INSERT INTO verifications (id, agent_id, verifier_id, claim_type, claim_value, expires_at, signature)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `);
-    
-    stmt.run(
-      verificationId, 
-      agent.id, 
-      verifier_id || null, 
-      claim_type, 
-      claim_value || null,
-      expiresAt,
-      signature || null
-    );
-
-    // Add reputation event
-    const eventStmt = db.prepare(`
-      INSERT INTO reputation_events (agent_id, event_type, score_delta, description, metadata)
-      VALUES (?, 'claim_verified', 5, ?, ?)
-    `);
-    eventStmt.run(
-      agent.id, 
-      `Claim verified: ${claim_type}`,
-      JSON.stringify({ claim_type, claim_value, verifier_id })
-    );
-
-    res.status(201).json({
-      verified: true,
-      verification_id: verificationId,
-      agent_id: agent.id,
-      did: agent.did,
-      claim_type,
-      claim_value,
-      signature_verified: signatureValid,
-      verified_at: new Date().toISOString(),
-      expires_at: expiresAt
-    });
+      // Find the agent
+      const agent = await getAgent(agent_id);
 
-  } catch (error) {
-    console.error('Verify claim error:', error);
-    res.status(500).json({ error: 'Failed to verify claim' });
-  }
-});
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
 
-/**
- * GET /verify/:agent_id/claims
- * Get all verified claims for an agent
- */
-router.get('/:agent_id/claims', (req: Request, res: Response) => {
-  try {
-    const { agent_id } = req.params;
-
-    const isDID = agent_id.startsWith('did:');
-    const agentStmt = db.prepare(
-      isDID 
-        ? 'SELECT * FROM agents WHERE did = ?' 
-        : 'SELECT * FROM agents WHERE id = ?'
-    );
-    
-    const agent = agentStmt.get(agent_id) as Agent | undefined;
-
-    if (!agent) {
-      return res.status(404).json({ error: 'Agent not found' });
+      // Claims are never issued for revoked, deactivated or suspended identities
+      if (!acceptsSignatures(agent.status)) {
+        return res.status(403).json({ verified: false, ...statusRefusal(agent) });
+      }
+
+      // The agent makes the claim: a signature over the canonical claim payload, or agent auth
+      let method: ClaimVerificationMethod;
+      if (signature) {
+        if (signed_at) {
+          const signedAt = new Date(signed_at).getTime();
+          if (isNaN(signedAt) || Math.abs(Date.now() - signedAt) > 5 * 60 * 1000) {
+            return res.status(400).json({ error: 'signed_at must be within 5 minutes of now' });
+          }
+        }
+        const claimMessage = createClaimMessage(agent.did, claim_type, claim_value ?? null, signed_at ?? null);
+        const signingKey = keyValidAt(await store.getAgentKeys(agent.id), new Date());
+        const signatureValid = !!signingKey && verifySig(claimMessage, signature, signingKey.public_key);
+        
+        if (!signatureValid) {
+          return res.status(401).json({
+            verified: false,
+            error: 'Signature verification failed',
+            agent_id: agent.id,
+            did: agent.did,
+            signed_payload: claimMessage
+          });
+        }
+
+        // Each signed claim is verified once, so it can't be replayed for more credentials or score
+        if ((await store.getVerificationsByAgent(agent.id)).some(v => v.signature === signature)) {
+          return res.status(409).json({ verified: false, error: 'Claim already verified with this signature' });
+        }
+        method = 'signature';
+      } else {
+        const { agent: authAgent, error: authError } = await verifyAgentAuth(store, req);
+        if (!authAgent) {
+          return res.status(401).json({
+            verified: false,
+            error: 'Signature or agent auth required',
+            message: authError || 'Sign the claim payload, or authenticate as the agent (signed request or access token)'
+          });
+        }
+        if (authAgent.did !== agent.did) {
+          return res.status(403).json({
+            verified: false,
+            error: 'Forbidden',
+            message: 'Only the agent can make claims about itself'
+          });
+        }
+        method = 'agent_auth';
+      }
+
+      // Create verification record
+      const verificationId = uuidv4();
+      const verifiedAt = new Date().toISOString();
+      const expiresAt = expires_in_days 
+        ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+
+      // Issue the claim as a verifiable credential with the agent DID as subject
+      const credentialClaim = {
+        id: verificationId,
+        did: agent.did,
+        claim_type,
+        claim_value: claim_value || null,
+        verifier_id: verifier_id || null,
+        method,
+        issued_at: verifiedAt,
+        expires_at: expiresAt
+      };
+      const credential = issueCredential(credentialClaim);
+      const credentialJwt = issueCredentialJwt(credentialClaim);
+
+      await store.createVerification({
+        id: verificationId,
+        agent_id: agent.id,
+        verifier_id: verifier_id || null,
+        claim_type,
+        claim_value: claim_value || null,
+        verified_at: verifiedAt,
+        expires_at: expiresAt,
+        signature: signature || null,
+        credential,
+        credential_jwt: credentialJwt
+      });
+
+      // Add reputation event
+      await store.createReputationEvent({
+        agent_id: agent.id,
+        event_type: 'claim_verified',
+        score_delta: scoreDelta('claim_verified'),
+        description: `Claim verified: ${claim_type}`,
+        metadata: { claim_type, claim_value, verifier_id }
+      });
+
+      await emitWebhookEvent(store, 'verification', agent, {
+        verification_id: verificationId,
+        claim_type,
+        claim_value: claim_value || null,
+        verifier_id: verifier_id || null,
+        signature_verified: method === 'signature',
+        verification_method: method,
+        verified_at: verifiedAt,
+        expires_at: expiresAt
+      });
+
+      res.status(201).json({
+        verified: true,
+        verification_id: verificationId,
+        agent_id: agent.id,
+        did: agent.did,
+        claim_type,
+        claim_value,
+        signature_verified: method === 'signature',
+        verification_method: method,
+        verified_at: verifiedAt,
+        expires_at: expiresAt,
+        credential,
+        credential_jwt: credentialJwt
+      });
+
+    } catch (error) {
+      console.error('Verify claim error:', error);
+      res.status(500).json({ error: 'Failed to verify claim' });
     }
+  });
 
-    const claimsStmt = db.prepare(`
-      SELECT * FROM verifications 
-      WHERE agent_id = ? 
-      AND (expires_at IS NULL OR expires_at > datetime('now'))
-      ORDER BY verified_at DESC
-    `);
-    
-    const claims = claimsStmt.all(agent.id);
+  // Handle GET /verify without DID parameter
+  router.get('/', (req: Request, res: Response) => {
+    res.status(400).json({
+      error: 'DID parameter required',
+      message: 'Usage: GET /verify/{did}',
+      example: 'GET /verify/did:agent:abc123'
+    });
+  });
 
+  /**
+   * GET /verify/issuer
+   * Service issuer DID and public key, for verifying credentials offline
+   */
+  router.get('/issuer', (req: Request, res: Response) => {
+    const issuer = getIssuer();
     res.json({
-      agent_id: agent.id,
-      did: agent.did,
-      claims: claims,
-      total: claims.length
+      did: issuer.did,
+      key_id: issuer.keyId,
+      public_key: issuer.publicKey,
+      did_document: getIssuerDIDDocument(),
+      jwks_uri: '/.well-known/jwks.json'
     });
+  });
 
-  } catch (error) {
-    console.error('Get claims error:', error);
-    res.status(500).json({ error: 'Failed to fetch claims' });
-  }
-});
+  /**
+   * POST /verify/batch
+   * GET /verify/:did for many DIDs at once (e.g. a marketplace rendering a list of agents)
+   *
+   * Body: { dids: [...] } (at most VERIFY_BATCH_MAX_DIDS; repeats are checked once)
+   * Each DID counts against the per-IP verification rate limit. Results come back in request order,
+   * each signed like GET /verify/:did; a DID that can't be checked gets an error entry instead of
+   * failing the batch.
+   */
+  router.post('/batch', verifyScope, async (req: Request, res: Response) => {
+    try {
+      const { dids } = req.body || {};
+      if (!Array.isArray(dids) || dids.length === 0 || !dids.every(did => typeof did === 'string')) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          message: 'dids must be a non-empty array of DID strings',
+          example: { dids: ['did:agent:abc123', 'did:key:z6Mk...'] }
+        });
+      }
+
+      const unique = [...new Set(dids.map(did => did.trim()))];
+      if (unique.length > VERIFY_BATCH_MAX_DIDS) {
+        return res.status(400).json({
+          error: 'Too many DIDs',
+          message: `At most ${VERIFY_BATCH_MAX_DIDS} DIDs per batch`,
+          provided: unique.length
+        });
+      }
+
+      // One charge for the whole batch, weighted by its size
+      const clientIP = String(req.ip || req.headers['x-forwarded-for'] || 'unknown');
+      if (!checkVerifyRateLimit(clientIP, unique.length)) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 1000 DIDs verified per minute per IP (each DID in a batch counts)',
+          requested: unique.length,
+          retry_after_seconds: 60
+        });
+      }
+
+      const valid = unique.filter(did => getDIDMethod(did));
+      const agents = new Map((await store.getAgentsByDids(valid)).map(agent => [agent.did, agent]));
+      const agentIds = [...agents.values()].map(agent => agent.id);
+      const aggregates = new Map((await store.getReputationAggregates(agentIds)).map(a => [a.agent_id, a]));
+      const reports = new Map((await store.getAbuseReportStatsForAgents(agentIds)).map(r => [r.agent_id, r]));
+      const model = getReputationModel() || REPUTATION_MODELS[DEFAULT_REPUTATION_ALGORITHM];
+
+      const results = [];
+      const summary = { requested: unique.length, verified: 0, not_verified: 0, not_registered: 0, errors: 0 };
+      for (const did of unique) {
+        if (!getDIDMethod(did)) {
+          results.push({
+            did,
+            verified: false,
+            error: 'Invalid DID format',
+            message: 'DID must use one of the supported methods: did:agent, did:key, did:web'
+          });
+          summary.errors++;
+          continue;
+        }
+
+        const agent = agents.get(did);
+        if (!agent) {
+          results.push(withToken(notRegisteredResult(did)));
+          summary.not_registered++;
+          continue;
+        }
+
+        try {
+          // Aggregates from another model are rebuilt from the event log, as for a single DID
+          const stored = aggregates.get(agent.id);
+          const aggregate = stored?.algorithm === model.version ? stored : await loadReputationAggregate(store, agent.id, model);
+          const reputation = reputationFromAggregate(aggregate, model);
+          const result = verificationResult(agent, reputation, aggregate.tasks_completed, reports.get(agent.id)?.actioned || 0);
+          results.push(withToken(result));
+          summary[result.verified ? 'verified' : 'not_verified']++;
+        } catch (error) {
+          console.error('Batch verification error:', did, error);
+          results.push({ did, verified: false, error: 'Verification failed' });
+          summary.errors++;
+        }
+      }
+
+      res.json({ results, summary });
+    } catch (error) {
+      console.error('Batch verification error:', error);
+      res.status(500).json({
+        error: 'Verification failed',
+        message: 'An internal error occurred during verification'
+      });
+    }
+  });
+
+  /**
+   * GET /verify/:agent_id/claims
+   * Get all verified claims for an agent
+   */
+  router.get('/:agent_id/claims', read, async (req: Request, res: Response) => {
+    try {
+      const agent = await getAgent(req.params.agent_id);
+
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      const claims = await store.getVerificationsByAgent(agent.id);
+
+      res.json({
+        agent_id: agent.id,
+        did: agent.did,
+        claims,
+        total: claims.length
+      });
+
+    } catch (error) {
+      console.error('Get claims error:', error);
+      res.status(500).json({ error: 'Failed to fetch claims' });
+    }
+  });
+
+  /**
+   * GET /verify/:did
+   * Platform verification endpoint - verify if an agent is registered
+   * Returns verification status, reputation, and basic profile, plus the same result as a
+   * signed token (checked offline with the keys at /.well-known/jwks.json)
+   */
+  router.get('/:did', verifyScope, async (req: Request, res: Response) => {
+    try {
+      const { did } = req.params;
+      
+      // Rate limit check
+      const clientIP = String(req.ip || req.headers['x-forwarded-for'] || 'unknown');
+      if (!checkVerifyRateLimit(clientIP)) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded',
+          message: 'Maximum 1000 verification requests per minute per IP',
+          retry_after_seconds: 60
+        });
+      }
+
+      // Validate DID format
+      if (!did || did.trim() === '') {
+        return res.status(400).json({
+          error: 'Invalid request',
+          message: 'DID parameter is required',
+          example: 'GET /verify/did:agent:abc123'
+        });
+      }
+
+      // Check DID format - did:agent, did:key or did:web
+      if (!getDIDMethod(did)) {
+        return res.status(400).json({
+          error: 'Invalid DID format',
+          message: 'DID must use one of the supported methods: did:agent, did:key, did:web',
+          provided: did,
+          expected_format: 'did:agent:<identifier> | did:key:z6Mk<key> | did:web:<domain>'
+        });
+      }
+
+      // Look up agent by exact DID match
+      const agent = await store.getAgentByDid(did);
+
+      if (!agent) {
+        return res.json(withToken(notRegisteredResult(did)));
+      }
+
+      // Reputation and task count from the agent's aggregate
+      const aggregate = await loadReputationAggregate(store, agent.id);
+      const reputation = reputationFromAggregate(aggregate);
+      const reports = await store.getAbuseReportStats(agent.id);
+
+      res.json(withToken(verificationResult(agent, reputation, aggregate.tasks_completed, reports.actioned)));
+    } catch (error) {
+      console.error('Verification error:', error);
+      res.status(500).json({ 
+        error: 'Verification failed',
+        message: 'An internal error occurred during verification'
+      });
+    }
+  });
 
-export default router;
+  return router;
+}
@@ -0,0 +1,265 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { Store, ApiKey, WebhookSubscription, WebhookDelivery } from '../db/store';
+import { authenticateUser } from '../middleware/auth';
+import { hasScope } from '../middleware/apiKeys';
+import { checkWebhookUrl, generateWebhookSecret, isWebhookEventType, redeliver, sendTestEvent, WEBHOOK_EVENT_TYPES } from '../utils/webhooks';
+
+const DELIVERY_STATUSES = ['pending', 'delivered', 'dead'];
+
+// Most subscriptions one account can hold, and entries per filter
+const MAX_WEBHOOKS = 20;
+const MAX_FILTER_ITEMS = 100;
+
+// The secret is only returned when the subscription is created
+function publicWebhook(subscription: WebhookSubscription) {
+  const { secret, ...rest } = subscription;
+  return rest;
+}
+
+// What the receiver answered stays server-side, so a subscription can't be used to probe other hosts
+function publicDelivery(delivery: WebhookDelivery | null) {
+  if (!delivery) return null;
+  const { response_status, last_error, ...rest } = delivery;
+  return rest;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length <= MAX_FILTER_ITEMS
+    && value.every(item => typeof item === 'string' && item.length > 0 && item.length <= 500);
+}
+
+export function createWebhooksRouter(store: Store): Router {
+  const router = Router();
+
+  /**
+   * Resolve the account managing webhooks: the owner account (Bearer access token),
+   * or an admin-scoped API key acting for its owner
+   */
+  async function getOwnerId(req: Request, res: Response): Promise<string | null> {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    if (apiKey) {
+      if (!hasScope(apiKey, 'admin') || !apiKey.owner_id) {
+        res.status(403).json({
+          error: 'Insufficient scope',
+          message: 'Managing webhooks needs an account token or an admin API key',
+          required_scope: 'admin'
+        });
+        return null;
+      }
+      return apiKey.owner_id;
+    }
+
+    const { user, error } = await authenticateUser(store, req);
+    if (!user) {
+      res.status(401).json({
+        error: error || 'Authorization required',
+        message: 'Sign in at clawid.co and provide your access token'
+      });
+      return null;
+    }
+    return user.id;
+  }
+
+  // The account's own subscription, or a 404
+  async function getOwnWebhook(req: Request, res: Response): Promise<WebhookSubscription | null> {
+    const ownerId = await getOwnerId(req, res);
+    if (!ownerId) return null;
+
+    const subscription = await store.getWebhook(req.params.id);
+    if (!subscription || subscription.owner_id !== ownerId) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return null;
+    }
+    return subscription;
+  }
+
+  /**
+   * POST /webhooks
+   * Subscribe a URL to agent events (the signing secret is returned once)
+   * Body: url, event_types (optional), dids (optional), owners (optional agent owner or account IDs), description (optional)
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const ownerId = await getOwnerId(req, res);
+      if (!ownerId) return;
+
+      const { url, event_types = [], dids = [], owners = [], description = null } = req.body;
+
+      let parsed: URL | null = null;
+      try {
+        parsed = typeof url === 'string' && url.length <= 2000 ? new URL(url) : null;
+      } catch {
+        parsed = null;
+      }
+      if (!parsed || (parsed.protocol !== 'https:' && parsed.protocol !== 'http:')) {
+        return res.status(400).json({ error: 'url must be an http(s) URL' });
+      }
+
+      const urlError = await checkWebhookUrl(parsed);
+      if (urlError) {
+        return res.status(400).json({ error: 'url must be a public address', message: urlError });
+      }
+
+      if (!Array.isArray(event_types) || !event_types.every(isWebhookEventType)) {
+        return res.status(400).json({ error: `event_types must be an array of: ${WEBHOOK_EVENT_TYPES.join(', ')}` });
+      }
+
+      if (!isStringList(dids) || !dids.every(did => did.startsWith('did:'))) {
+        return res.status(400).json({ error: `dids must be an array of at most ${MAX_FILTER_ITEMS} DIDs` });
+      }
+
+      if (!isStringList(owners)) {
+        return res.status(400).json({ error: `owners must be an array of at most ${MAX_FILTER_ITEMS} owner IDs` });
+      }
+
+      if (description !== null && (typeof description !== 'string' || description.length > 200)) {
+        return res.status(400).json({ error: 'description must be a string of at most 200 characters' });
+      }
+
+      if ((await store.getWebhooksByOwner(ownerId)).length >= MAX_WEBHOOKS) {
+        return res.status(409).json({
+          error: 'Webhook limit reached',
+          message: `An account can have at most ${MAX_WEBHOOKS} webhooks`
+        });
+      }
+
+      const subscription = await store.createWebhook({
+        id: uuidv4(),
+        owner_id: ownerId,
+        url: parsed.toString(),
+        secret: generateWebhookSecret(),
+        event_types: [...new Set(event_types as string[])],
+        dids: [...new Set(dids)],
+        owners: [...new Set(owners)],
+        description
+      });
+
+      res.status(201).json({
+        ...subscription,
+        warning: 'SAVE YOUR WEBHOOK SECRET - IT WILL NOT BE SHOWN AGAIN'
+      });
+    } catch (error) {
+      console.error('Create webhook error:', error);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+  });
+
+  /**
+   * GET /webhooks
+   * List the account's webhooks
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const ownerId = await getOwnerId(req, res);
+      if (!ownerId) return;
+
+      const webhooks = await store.getWebhooksByOwner(ownerId);
+      res.json({ webhooks: webhooks.map(publicWebhook), total: webhooks.length });
+    } catch (error) {
+      console.error('List webhooks error:', error);
+      res.status(500).json({ error: 'Failed to list webhooks' });
+    }
+  });
+
+  /**
+   * GET /webhooks/:id
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const subscription = await getOwnWebhook(req, res);
+      if (!subscription) return;
+
+      res.json(publicWebhook(subscription));
+    } catch (error) {
+      console.error('Get webhook error:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook' });
+    }
+  });
+
+  /**
+   * DELETE /webhooks/:id
+   * Unsubscribe; pending deliveries are dropped with the delivery log
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const subscription = await getOwnWebhook(req, res);
+      if (!subscription) return;
+
+      await store.deleteWebhook(subscription.id);
+      res.json({ success: true, id: subscription.id, deleted_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Delete webhook error:', error);
+      res.status(500).json({ error: 'Failed to delete webhook' });
+    }
+  });
+
+  /**
+   * POST /webhooks/:id/test
+   * Send a signed ping event now and return the delivery
+   */
+  router.post('/:id/test', async (req: Request, res: Response) => {
+    try {
+      const subscription = await getOwnWebhook(req, res);
+      if (!subscription) return;
+
+      res.json(publicDelivery(await sendTestEvent(store, subscription)));
+    } catch (error) {
+      console.error('Test webhook error:', error);
+      res.status(500).json({ error: 'Failed to send test event' });
+    }
+  });
+
+  /**
+   * GET /webhooks/:id/deliveries
+   * Delivery log, newest first
+   * Query: status (pending, delivered or dead; dead is the dead-letter list), limit, offset
+   */
+  router.get('/:id/deliveries', async (req: Request, res: Response) => {
+    try {
+      const subscription = await getOwnWebhook(req, res);
+      if (!subscription) return;
+
+      const status = req.query.status as string | undefined;
+      if (status !== undefined && !DELIVERY_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` });
+      }
+
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+      const offset = Math.max(0, parseInt(req.query.offset as string) || 0);
+
+      const { deliveries, total } = await store.listWebhookDeliveries(subscription.id, status, limit, offset);
+      res.json({ deliveries: deliveries.map(publicDelivery), total, limit, offset });
+    } catch (error) {
+      console.error('Webhook deliveries error:', error);
+      res.status(500).json({ error: 'Failed to fetch deliveries' });
+    }
+  });
+
+  /**
+   * POST /webhooks/:id/deliveries/:deliveryId/retry
+   * Redeliver a dead letter now, with a fresh set of retries
+   */
+  router.post('/:id/deliveries/:deliveryId/retry', async (req: Request, res: Response) => {
+    try {
+      const subscription = await getOwnWebhook(req, res);
+      if (!subscription) return;
+
+      const delivery = await store.getWebhookDelivery(req.params.deliveryId);
+      if (!delivery || delivery.subscription_id !== subscription.id) {
+        return res.status(404).json({ error: 'Delivery not found' });
+      }
+
+      if (delivery.status !== 'dead') {
+        return res.status(409).json({ error: 'Only dead deliveries can be retried', status: delivery.status });
+      }
+
+      res.json(publicDelivery(await redeliver(store, delivery)));
+    } catch (error) {
+      console.error('Retry delivery error:', error);
+      res.status(500).json({ error: 'Failed to retry delivery' });
+    }
+  });
+
+  return router;
+}
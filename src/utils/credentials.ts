@@ -0,0 +1,223 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { hexToBytes, concatBytes } from '@noble/curves/abstract/utils';
+import { base58btcEncode, base58btcDecode, canonicalize } from './crypto';
+import { getIssuer } from './issuer';
+import { signJws } from './jws';
+
+/**
+ * W3C Verifiable Credentials for verified claims
+ *
+ * Each credential is issued in two forms:
+ * - JSON-LD with a Data Integrity proof (cryptosuite eddsa-jcs-2022)
+ * - JWT-VC (compact JWS, alg EdDSA, typ vc+jwt)
+ * Both are signed by the service issuer key and can be checked offline with its public key,
+ * which the verifier has to hold already: a credential naming its own did:key issuer proves nothing.
+ */
+
+// How the agent made the claim: signed the claim payload, or sent it with agent auth
+export type ClaimVerificationMethod = 'signature' | 'agent_auth';
+
+export interface CredentialClaim {
+  id: string;            // verification id
+  did: string;           // agent DID (credential subject)
+  claim_type: string;
+  claim_value: string | null;
+  verifier_id: string | null;
+  method: ClaimVerificationMethod;
+  issued_at: string;
+  expires_at: string | null;
+}
+
+export interface DataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: 'eddsa-jcs-2022';
+  created: string;
+  verificationMethod: string;
+  proofPurpose: 'assertionMethod';
+  proofValue: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: {
+    id: string;
+    claim: {
+      type: string;
+      value: string | null;
+      verifier: string | null;
+      method: ClaimVerificationMethod;
+    };
+  };
+  proof?: DataIntegrityProof;
+}
+
+export interface CredentialCheck {
+  valid: boolean;
+  error?: string;
+}
+
+const CREDENTIALS_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+// Sets credentials apart from the other JWTs the issuer key signs (access and verification tokens)
+const CREDENTIAL_JWT_TYPE = 'vc+jwt';
+
+// eddsa-jcs-2022: sign SHA-256(JCS(proof config)) || SHA-256(JCS(unsecured document))
+function proofHash(unsecured: Omit<VerifiableCredential, 'proof'>, proofConfig: Omit<DataIntegrityProof, 'proofValue'>): Uint8Array {
+  const encoder = new TextEncoder();
+  const configHash = sha256(encoder.encode(canonicalize({ ...proofConfig, '@context': unsecured['@context'] })));
+  const documentHash = sha256(encoder.encode(canonicalize(unsecured)));
+  return concatBytes(configHash, documentHash);
+}
+
+/**
+ * Build the unsigned credential for a verified claim
+ */
+function buildCredential(claim: CredentialClaim, issuerDid: string): Omit<VerifiableCredential, 'proof'> {
+  return {
+    '@context': [CREDENTIALS_CONTEXT],
+    id: `urn:uuid:${claim.id}`,
+    type: ['VerifiableCredential', 'AgentClaimCredential'],
+    issuer: issuerDid,
+    validFrom: claim.issued_at,
+    ...(claim.expires_at ? { validUntil: claim.expires_at } : {}),
+    credentialSubject: {
+      id: claim.did,
+      claim: {
+        type: claim.claim_type,
+        value: claim.claim_value,
+        verifier: claim.verifier_id,
+        method: claim.method
+      }
+    }
+  };
+}
+
+/**
+ * Issue a credential for a verified claim in JSON-LD (Data Integrity proof) form
+ */
+export function issueCredential(claim: CredentialClaim): VerifiableCredential {
+  const issuer = getIssuer();
+  const unsecured = buildCredential(claim, issuer.did);
+  const proofConfig: Omit<DataIntegrityProof, 'proofValue'> = {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    created: claim.issued_at,
+    verificationMethod: issuer.keyId,
+    proofPurpose: 'assertionMethod'
+  };
+
+  const signature = ed25519.sign(proofHash(unsecured, proofConfig), hexToBytes(issuer.privateKey));
+
+  return {
+    ...unsecured,
+    proof: { ...proofConfig, proofValue: `z${base58btcEncode(signature)}` }
+  };
+}
+
+/**
+ * Issue a credential for a verified claim in JWT-VC form
+ */
+export function issueCredentialJwt(claim: CredentialClaim): string {
+  const issuer = getIssuer();
+  const credential = buildCredential(claim, issuer.did);
+
+  const payload: Record<string, any> = {
+    iss: issuer.did,
+    sub: claim.did,
+    jti: credential.id,
+    nbf: Math.floor(new Date(claim.issued_at).getTime() / 1000),
+    iat: Math.floor(new Date(claim.issued_at).getTime() / 1000),
+    vc: credential
+  };
+  if (claim.expires_at) {
+    payload.exp = Math.floor(new Date(claim.expires_at).getTime() / 1000);
+  }
+
+  return signJws(CREDENTIAL_JWT_TYPE, payload);
+}
+
+// Shared validity window check for both credential forms
+function checkValidity(validFrom: string | undefined, validUntil: string | undefined, now: Date): CredentialCheck {
+  if (validFrom && new Date(validFrom).getTime() > now.getTime()) {
+    return { valid: false, error: 'Credential is not yet valid' };
+  }
+  if (validUntil && new Date(validUntil).getTime() <= now.getTime()) {
+    return { valid: false, error: 'Credential has expired' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Verify a JSON-LD credential offline against the issuer's public key
+ */
+export function verifyCredential(credential: VerifiableCredential, issuerPublicKeyHex: string, now = new Date()): CredentialCheck {
+  try {
+    if (!issuerPublicKeyHex) {
+      return { valid: false, error: 'Issuer public key required' };
+    }
+
+    const { proof, ...unsecured } = credential;
+    if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'eddsa-jcs-2022') {
+      return { valid: false, error: 'Unsupported or missing proof' };
+    }
+    if (!proof.verificationMethod.startsWith(`${credential.issuer}#`)) {
+      return { valid: false, error: 'Proof was not made by the credential issuer' };
+    }
+    if (!proof.proofValue.startsWith('z')) {
+      return { valid: false, error: 'proofValue must be base58btc multibase' };
+    }
+
+    const { proofValue, ...proofConfig } = proof;
+    const signature = base58btcDecode(proofValue.slice(1));
+    if (!ed25519.verify(signature, proofHash(unsecured, proofConfig), hexToBytes(issuerPublicKeyHex))) {
+      return { valid: false, error: 'Invalid proof signature' };
+    }
+
+    return checkValidity(credential.validFrom, credential.validUntil, now);
+  } catch (e) {
+    return { valid: false, error: 'Malformed credential' };
+  }
+}
+
+/**
+ * Verify a JWT-VC offline against the issuer's public key
+ */
+export function verifyCredentialJwt(jwt: string, issuerPublicKeyHex: string, now = new Date()): CredentialCheck & { credential?: VerifiableCredential } {
+  try {
+    if (!issuerPublicKeyHex) {
+      return { valid: false, error: 'Issuer public key required' };
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = jwt.split('.');
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+    if (header.alg !== 'EdDSA') {
+      return { valid: false, error: 'Unsupported algorithm' };
+    }
+    if (header.typ !== CREDENTIAL_JWT_TYPE) {
+      return { valid: false, error: 'Not a credential' };
+    }
+
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+    if (!ed25519.verify(new Uint8Array(signature), signingInput, hexToBytes(issuerPublicKeyHex))) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    const check = checkValidity(
+      payload.nbf ? new Date(payload.nbf * 1000).toISOString() : undefined,
+      payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined,
+      now
+    );
+    return { ...check, credential: payload.vc };
+  } catch (e) {
+    return { valid: false, error: 'Malformed credential' };
+  }
+}
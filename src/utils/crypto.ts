@@ -52,6 +52,77 @@ export function hash(data: string): string {
   return bytesToHex(sha256(bytes));
 }
 
+/**
+ * RFC 8785 JSON Canonicalization Scheme (JCS)
+ * Object keys sorted by UTF-16 code units, no whitespace, ECMAScript number and string serialization,
+ * so every language produces the same bytes for the same data.
+ */
+export function canonicalize(value: unknown): string {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error('Cannot canonicalize a non-finite number');
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  const object = value as Record<string, unknown>;
+  const keys = Object.keys(object).filter(k => object[k] !== undefined).sort();
+  return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalize(object[k])}`).join(',')}}`;
+}
+
+/**
+ * Version of the signed payload format; bumped whenever any payload's fields change
+ */
+export const PAYLOAD_VERSION = 1;
+
+export type PayloadAction = 'agent_auth' | 'rotate_key' | 'change_status' | 'work_report' | 'claim' | 'endorsement' | 'task_receipt' | 'reputation_checkpoint' | 'tree_head';
+
+/**
+ * Build the canonical (JCS) form of a signed payload
+ * Every payload names its action and version, so a signature for one purpose can't be reused for another.
+ */
+export function createPayload(action: PayloadAction, fields: Record<string, unknown>): string {
+  return canonicalize({ ...fields, action, version: PAYLOAD_VERSION });
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58btc (Bitcoin alphabet)
+ */
+export function base58btcEncode(bytes: Uint8Array): string {
+  let value = BigInt('0x' + (bytesToHex(bytes) || '0'));
+  let result = '';
+  while (value > 0n) {
+    result = BASE58_ALPHABET[Number(value % 58n)] + result;
+    value /= 58n;
+  }
+  // Leading zero bytes are encoded as '1'
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result = '1' + result;
+  }
+  return result;
+}
+
+/**
+ * Decode a base58btc string to bytes
+ */
+export function base58btcDecode(input: string): Uint8Array {
+  let value = 0n;
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58 character: ${char}`);
+    value = value * 58n + BigInt(digit);
+  }
+  let hex = value > 0n ? value.toString(16) : '';
+  if (hex.length % 2) hex = '0' + hex;
+  let leadingZeros = 0;
+  while (leadingZeros < input.length && input[leadingZeros] === '1') leadingZeros++;
+  return hexToBytes('00'.repeat(leadingZeros) + hex);
+}
+
 /**
  * Generate a DID from a public key
  * Format: did:agent:<base58-encoded-public-key>
@@ -62,20 +133,298 @@ export function generateDID(publicKeyHex: string): string {
   return `did:agent:${keyHash}`;
 }
 
+// ========== DID Methods ==========
+// did:agent - hash of the registration key, hosted by this service
+// did:key   - the DID is the public key itself (multicodec ed25519-pub, base58btc multibase)
+// did:web   - document hosted by the agent's own domain at https://<domain>/.well-known/did.json
+
+export type DIDMethod = 'agent' | 'key' | 'web';
+
+export const SUPPORTED_DID_METHODS: DIDMethod[] = ['agent', 'key', 'web'];
+
+// Multicodec prefix for ed25519-pub (0xed, varint-encoded)
+const ED25519_MULTICODEC = new Uint8Array([0xed, 0x01]);
+
+/**
+ * Get the method of a DID, or null if it isn't one we support
+ */
+export function getDIDMethod(did: string): DIDMethod | null {
+  const match = /^did:([a-z0-9]+):./.exec(did);
+  if (!match) return null;
+  const method = match[1] as DIDMethod;
+  return SUPPORTED_DID_METHODS.includes(method) ? method : null;
+}
+
+/**
+ * Encode an Ed25519 public key as a multibase string (z + base58btc(multicodec + key))
+ */
+export function publicKeyToMultibase(publicKeyHex: string): string {
+  const key = hexToBytes(publicKeyHex);
+  const bytes = new Uint8Array(ED25519_MULTICODEC.length + key.length);
+  bytes.set(ED25519_MULTICODEC);
+  bytes.set(key, ED25519_MULTICODEC.length);
+  return `z${base58btcEncode(bytes)}`;
+}
+
+/**
+ * Generate a did:key from an Ed25519 public key
+ */
+export function generateDIDKey(publicKeyHex: string): string {
+  return `did:key:${publicKeyToMultibase(publicKeyHex)}`;
+}
+
+/**
+ * Extract the Ed25519 public key (hex) from a did:key, or null if it isn't a valid Ed25519 did:key
+ */
+export function parseDIDKey(did: string): string | null {
+  const match = /^did:key:z([1-9A-HJ-NP-Za-km-z]+)$/.exec(did);
+  if (!match) return null;
+  try {
+    const bytes = base58btcDecode(match[1]);
+    if (bytes.length !== 34 || bytes[0] !== ED25519_MULTICODEC[0] || bytes[1] !== ED25519_MULTICODEC[1]) {
+      return null;
+    }
+    return bytesToHex(bytes.slice(2));
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Check a did:web host (domain with optional port)
+ */
+export function isValidWebDomain(domain: unknown): domain is string {
+  return typeof domain === 'string'
+    && domain.length <= 253
+    && /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}(:\d{1,5})?$/i.test(domain);
+}
+
+/**
+ * Generate a did:web for a domain and optional path segments
+ * Ports are percent-encoded per the did:web spec (example.com:8443 -> example.com%3A8443)
+ */
+export function generateDIDWeb(domain: string, path: string[] = []): string {
+  const host = domain.toLowerCase().replace(':', '%3A');
+  return ['did:web', host, ...path.map(segment => encodeURIComponent(segment))].join(':');
+}
+
+/**
+ * URL where a did:web document must be hosted
+ */
+export function didWebDocumentUrl(did: string): string {
+  const [host, ...path] = did.slice('did:web:'.length).split(':');
+  const base = `https://${decodeURIComponent(host)}`;
+  return path.length > 0
+    ? `${base}/${path.map(decodeURIComponent).join('/')}/did.json`
+    : `${base}/.well-known/did.json`;
+}
+
+export interface DIDOptions {
+  method?: string;     // 'agent' (default), 'key' or 'web'
+  did?: string;        // an existing did:key or did:web identifier to register
+  web_domain?: string; // did:web host, e.g. 'example.com' or 'example.com:8443'
+  web_path?: string;   // optional did:web path, e.g. 'agents/alice'
+}
+
+const WEB_PATH_SEGMENT = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Mint the DID for a new registration
+ * did:agent identifiers are always assigned by the service; a supplied did:key must match publicKeyHex.
+ */
+export function mintDID(options: DIDOptions, publicKeyHex: string): { did: string; method: DIDMethod } | { error: string } {
+  const requested = options.did ? getDIDMethod(options.did) : (options.method || 'agent');
+
+  if (!requested || !SUPPORTED_DID_METHODS.includes(requested as DIDMethod)) {
+    return { error: `Unsupported DID method. Supported: ${SUPPORTED_DID_METHODS.join(', ')}` };
+  }
+  const method = requested as DIDMethod;
+
+  if (method === 'agent') {
+    if (options.did) {
+      return { error: 'did:agent identifiers are assigned by the service' };
+    }
+    return { did: generateDID(publicKeyHex), method };
+  }
+
+  if (method === 'key') {
+    const did = generateDIDKey(publicKeyHex);
+    if (options.did && options.did !== did) {
+      return { error: 'did:key does not match the public key' };
+    }
+    return { did, method };
+  }
+
+  // did:web - from an explicit DID or from domain + path
+  let domain = options.web_domain;
+  let path = options.web_path ? options.web_path.split('/').filter(Boolean) : [];
+  if (options.did) {
+    const [host, ...segments] = options.did.slice('did:web:'.length).split(':');
+    domain = decodeURIComponent(host);
+    path = segments.map(decodeURIComponent);
+  }
+
+  if (!isValidWebDomain(domain)) {
+    return { error: 'did:web requires a valid domain (web_domain), e.g. example.com' };
+  }
+  if (!path.every(segment => WEB_PATH_SEGMENT.test(segment))) {
+    return { error: 'did:web path segments may only contain letters, digits, ".", "_" and "-"' };
+  }
+  return { did: generateDIDWeb(domain, path), method };
+}
+
+/**
+ * Verification method id for an agent key
+ * did:key keys are identified by their own multibase value, other methods by key index
+ */
+export function verificationMethodId(did: string, keyIndex: number): string {
+  if (did.startsWith('did:key:')) {
+    return `${did}#${did.slice('did:key:'.length)}`;
+  }
+  return `${did}#key-${keyIndex}`;
+}
+
+/**
+ * A public key in an agent's key history
+ * Keys are valid from valid_from (inclusive) until valid_until (exclusive)
+ */
+export interface KeyHistoryEntry {
+  key_index: number;
+  public_key: string;
+  valid_from: string;
+  valid_until: string | null;
+}
+
+/**
+ * Build the statement an agent signs with its current key to rotate to a new one
+ */
+export function createRotationMessage(did: string, previousPublicKey: string, newPublicKey: string, timestamp: string): string {
+  return createPayload('rotate_key', {
+    did,
+    previous_public_key: previousPublicKey,
+    new_public_key: newPublicKey,
+    timestamp
+  });
+}
+
+/**
+ * Build the statement an agent signs to change its own lifecycle status
+ * The nonce (from POST /auth/challenge) makes each statement single use
+ */
+export function createStatusChangeMessage(did: string, status: string, reason: string | null, timestamp: string, nonce: string, cascade = false): string {
+  return createPayload('change_status', {
+    did,
+    status,
+    reason,
+    timestamp,
+    nonce,
+    // Only present when cascading, so statements made before cascades existed still verify
+    ...(cascade && { cascade: true })
+  });
+}
+
+/**
+ * Build the work report an agent signs; counts are signed as sent, before validation
+ * The timestamp and a single-use challenge nonce keep a signed report from being replayed.
+ */
+export function createWorkReportMessage(report: {
+  did: string;
+  period: string;
+  tasks_completed: unknown;
+  corrections: unknown;
+  positive_feedback: unknown;
+  errors: unknown;
+  tasks?: unknown;  // countersigned or issued task receipts, when the report includes any
+  timestamp: string;
+  nonce: string;
+}): string {
+  return createPayload('work_report', report);
+}
+
+/**
+ * Build the receipt a counterparty signs to confirm a task an agent did for it
+ */
+export function createTaskReceiptMessage(receipt: {
+  did: string;
+  agent: string;
+  task_id: unknown;
+  outcome: unknown;
+  positive_feedback: unknown;
+}): string {
+  return createPayload('task_receipt', receipt);
+}
+
+/**
+ * Build the claim an agent signs when asking for it to be verified
+ * signed_at is optional (null); when given it must be within 5 minutes of the claim being submitted.
+ */
+export function createClaimMessage(did: string, claimType: string, claimValue: string | null, signedAt: string | null): string {
+  return createPayload('claim', {
+    did,
+    claim_type: claimType,
+    claim_value: claimValue,
+    signed_at: signedAt
+  });
+}
+
+/**
+ * Build the endorsement a rater signs for another agent
+ * period (YYYY-MM) binds the signature to the period it is deduplicated in.
+ */
+export function createEndorsementMessage(endorsement: {
+  did: string;
+  subject: string;
+  rating: unknown;
+  context: unknown;
+  interaction_ref: unknown;
+  period: string;
+}): string {
+  return createPayload('endorsement', endorsement);
+}
+
+/**
+ * Find the key that was valid at a given time
+ */
+export function keyValidAt(keys: KeyHistoryEntry[], at: Date): KeyHistoryEntry | undefined {
+  const time = at.getTime();
+  return keys.find(key => {
+    const from = new Date(key.valid_from).getTime();
+    const until = key.valid_until ? new Date(key.valid_until).getTime() : Infinity;
+    return time >= from && time < until;
+  });
+}
+
+/**
+ * Check that a string looks like a hex-encoded Ed25519 public key
+ */
+export function isValidPublicKey(publicKeyHex: unknown): publicKeyHex is string {
+  return typeof publicKeyHex === 'string' && /^[0-9a-fA-F]{64}$/.test(publicKeyHex);
+}
+
 /**
  * Create a DID Document
+ * If a key history is given, retired keys are listed as revoked verification methods
+ * and only the current key is usable for authentication.
  */
-export function createDIDDocument(did: string, publicKeyHex: string, controller?: string) {
+export function createDIDDocument(did: string, publicKeyHex: string, controller?: string, keyHistory?: KeyHistoryEntry[]) {
+  const keys: KeyHistoryEntry[] = keyHistory && keyHistory.length > 0
+    ? keyHistory
+    : [{ key_index: 1, public_key: publicKeyHex, valid_from: '', valid_until: null }];
+  const current = keys.find(k => !k.valid_until) || keys[keys.length - 1];
+
   return {
     "@context": ["https://www.w3.org/ns/did/v1"],
     "id": did,
-    "verificationMethod": [{
-      "id": `${did}#key-1`,
+    "verificationMethod": keys.map(key => ({
+      "id": verificationMethodId(did, key.key_index),
       "type": "Ed25519VerificationKey2020",
       "controller": did,
-      "publicKeyHex": publicKeyHex
-    }],
-    "authentication": [`${did}#key-1`],
+      "publicKeyMultibase": publicKeyToMultibase(key.public_key),
+      "publicKeyHex": key.public_key,
+      ...(key.valid_until ? { "revoked": key.valid_until } : {})
+    })),
+    "authentication": [verificationMethodId(did, current.key_index)],
+    "assertionMethod": [verificationMethodId(did, current.key_index)],
     "controller": controller || did
   };
 }
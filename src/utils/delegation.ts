@@ -0,0 +1,160 @@
+import { Store } from '../db/store';
+import { canonicalize } from './crypto';
+import { decodeJwsHeader, decodeJwsPayload, verifyJws } from './jws';
+import { acceptsSignatures } from './status';
+
+/**
+ * Capability delegation from parent agents to their workers (UCAN-style)
+ *
+ * A delegation is a compact JWS (typ delegation+jwt, alg EdDSA) signed by the delegating agent's
+ * current key, with claims
+ *   iss  the delegating agent's DID
+ *   aud  the worker receiving the capabilities (its parent_did must be iss)
+ *   att  capabilities: [{ with: resource, can: action, nb: caveats (optional) }]
+ *   iat, exp, nbf (optional, seconds)
+ *   prf  the delegation iss received, which this one re-delegates; absent when iss is a root agent
+ *
+ * A chain starts at a root agent (one with no parent) and every link may only narrow what it got:
+ * each capability must be covered by one of the proof's (see capabilityCovers) and it can't outlive
+ * the proof. Keys are checked as they are now, so rotating a key or suspending an agent
+ * invalidates everything it delegated.
+ */
+
+export const DELEGATION_TOKEN_TYPE = 'delegation+jwt';
+
+// Links in one chain, root included
+export const MAX_DELEGATION_DEPTH = 8;
+
+const MAX_CAPABILITIES = 50;
+
+export interface Capability {
+  with: string;                    // resource, e.g. tasks://board/42; a trailing * covers everything under it
+  can: string;                     // action, e.g. tasks/read; * or ns/* cover more
+  nb?: Record<string, unknown>;    // caveats
+}
+
+export interface DelegationClaims {
+  iss: string;
+  aud: string;
+  att: Capability[];
+  iat: number;
+  exp: number;
+  nbf?: number;
+  prf?: string;
+}
+
+export interface DelegationCheck {
+  valid: boolean;
+  error?: string;
+  chain?: DelegationClaims[];      // root first, prf omitted
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isCapability(value: unknown): value is Capability {
+  return isPlainObject(value)
+    && typeof value.with === 'string' && value.with.length > 0
+    && typeof value.can === 'string' && value.can.length > 0
+    && (value.nb === undefined || isPlainObject(value.nb));
+}
+
+/**
+ * Whether capability parent covers child: the same or a narrower resource and action, keeping every
+ * caveat of the parent with the same value (the child may add caveats)
+ */
+export function capabilityCovers(parent: Capability, child: Capability): boolean {
+  const resource = parent.with === child.with
+    || (parent.with.endsWith('*') && child.with.startsWith(parent.with.slice(0, -1)));
+  const action = parent.can === '*' || parent.can === child.can
+    || (parent.can.endsWith('/*') && child.can.startsWith(parent.can.slice(0, -1)));
+  if (!resource || !action) return false;
+
+  const childCaveats = child.nb || {};
+  return Object.entries(parent.nb || {}).every(([key, value]) =>
+    key in childCaveats && canonicalize(childCaveats[key]) === canonicalize(value));
+}
+
+// Claims of a delegation token, if it is one and well formed (the signature isn't checked)
+function parseDelegation(token: string): DelegationClaims | null {
+  const header = decodeJwsHeader(token);
+  const claims = decodeJwsPayload(token);
+  if (header?.typ !== DELEGATION_TOKEN_TYPE || !claims) return null;
+
+  const valid = typeof claims.iss === 'string' && claims.iss.startsWith('did:')
+    && typeof claims.aud === 'string' && claims.aud.startsWith('did:')
+    && Array.isArray(claims.att) && claims.att.length > 0 && claims.att.length <= MAX_CAPABILITIES
+    && claims.att.every(isCapability)
+    && typeof claims.iat === 'number' && typeof claims.exp === 'number'
+    && (claims.nbf === undefined || typeof claims.nbf === 'number')
+    && (claims.prf === undefined || typeof claims.prf === 'string');
+  return valid ? claims as DelegationClaims : null;
+}
+
+/**
+ * Check a delegation and every proof behind it, back to the root agent
+ */
+export async function verifyDelegation(store: Store, token: string, now = new Date()): Promise<DelegationCheck> {
+  // Unwrap the proofs, leaf first
+  const tokens: string[] = [];
+  const links: DelegationClaims[] = [];
+  for (let current: string | undefined = token; current; current = links[links.length - 1].prf) {
+    if (links.length === MAX_DELEGATION_DEPTH) {
+      return { valid: false, error: `Delegation chains are limited to ${MAX_DELEGATION_DEPTH} links` };
+    }
+    const claims = parseDelegation(current);
+    if (!claims) {
+      return { valid: false, error: links.length === 0 ? 'Malformed delegation' : `Malformed proof at depth ${links.length}` };
+    }
+    tokens.push(current);
+    links.push(claims);
+  }
+  tokens.reverse();
+  links.reverse();
+
+  for (let i = 0; i < links.length; i++) {
+    const claims = links[i];
+    const proof = i > 0 ? links[i - 1] : null;
+
+    const issuer = await store.getAgentByDid(claims.iss);
+    if (!issuer) {
+      return { valid: false, error: `Issuer not found: ${claims.iss}` };
+    }
+    if (!acceptsSignatures(issuer.status)) {
+      return { valid: false, error: `Issuer ${claims.iss} is ${issuer.status}` };
+    }
+
+    const check = verifyJws(tokens[i], DELEGATION_TOKEN_TYPE, issuer.public_key, now.getTime());
+    if (!check.valid) {
+      return { valid: false, error: `Delegation from ${claims.iss}: ${check.error}` };
+    }
+
+    if (!proof && issuer.parent_did) {
+      return { valid: false, error: `Chain does not start at a root agent: ${claims.iss} has a parent` };
+    }
+
+    const audience = await store.getAgentByDid(claims.aud);
+    if (!audience || audience.parent_did !== claims.iss) {
+      return { valid: false, error: `${claims.aud} is not a worker of ${claims.iss}` };
+    }
+    if (!acceptsSignatures(audience.status)) {
+      return { valid: false, error: `Audience ${claims.aud} is ${audience.status}` };
+    }
+
+    if (proof) {
+      if (proof.aud !== claims.iss) {
+        return { valid: false, error: `Proof was delegated to ${proof.aud}, not ${claims.iss}` };
+      }
+      if (claims.exp > proof.exp) {
+        return { valid: false, error: `Delegation from ${claims.iss} outlives its proof` };
+      }
+      const widened = claims.att.find(cap => !proof.att.some(granted => capabilityCovers(granted, cap)));
+      if (widened) {
+        return { valid: false, error: `Delegation from ${claims.iss} exceeds its proof: ${widened.can} on ${widened.with}` };
+      }
+    }
+  }
+
+  return { valid: true, chain: links.map(({ prf, ...claims }) => claims) };
+}
@@ -0,0 +1,115 @@
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP } from 'net';
+import { Agent } from '../db/store';
+import { didWebDocumentUrl, getDIDMethod, publicKeyToMultibase } from './crypto';
+import { isPrivateAddress, publicLookup } from './webhooks';
+
+/**
+ * did:web domain checks
+ *
+ * Anyone can register a did:web for any domain, so the identifier only verifies once the domain
+ * serves a DID document at didWebDocumentUrl listing the agent's current key. The document is
+ * fetched on request (POST /agents/:id/did-web/verify) and has to be fetched again after a key rotation.
+ * Documents come over HTTPS from public addresses, without following redirects, unless
+ * DID_WEB_ALLOW_INSECURE=true (plain HTTP and private addresses) for local development.
+ */
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+const MAX_DOCUMENT_BYTES = 64 * 1024;
+
+const ALLOW_INSECURE = process.env.DID_WEB_ALLOW_INSECURE === 'true';
+
+/**
+ * Whether the agent's DID is vouched for: always for did:agent and did:key, for a did:web once its domain has been checked
+ */
+export function didVerified(agent: Pick<Agent, 'did' | 'did_web_verified_at'>): boolean {
+  return getDIDMethod(agent.did) !== 'web' || !!agent.did_web_verified_at;
+}
+
+/**
+ * GET a DID document; rejects on anything but a 200 with a JSON body of at most MAX_DOCUMENT_BYTES
+ */
+export function fetchDidWebDocument(url: string): Promise<any> {
+  const target = new URL(url);
+  if (target.protocol !== 'https:' && !(ALLOW_INSECURE && target.protocol === 'http:')) {
+    return Promise.reject(new Error('DID documents are fetched over HTTPS'));
+  }
+  // Literal addresses skip the lookup, so they are checked here
+  const host = target.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (!ALLOW_INSECURE && isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new Error(`${host} is a private or reserved address`));
+  }
+
+  const get = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = get(target, {
+      method: 'GET',
+      headers: { Accept: 'application/did+json, application/json' },
+      lookup: ALLOW_INSECURE ? undefined : publicLookup,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    }, response => {
+      if (response.statusCode !== 200) {
+        response.resume();
+        return reject(new Error(`${url} returned ${response.statusCode}`));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_DOCUMENT_BYTES) {
+          req.destroy(new Error(`DID document is larger than ${MAX_DOCUMENT_BYTES} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+          reject(new Error('DID document is not JSON'));
+        }
+      });
+      response.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Whether a DID document is the agent's and lists publicKey as an unrevoked verification method
+ */
+export function documentListsKey(document: any, did: string, publicKey: string): boolean {
+  if (!document || document.id !== did || !Array.isArray(document.verificationMethod)) return false;
+
+  const multibase = publicKeyToMultibase(publicKey);
+  return document.verificationMethod.some((method: any) =>
+    method && !method.revoked && (
+      method.publicKeyMultibase === multibase ||
+      (typeof method.publicKeyHex === 'string' && method.publicKeyHex.toLowerCase() === publicKey.toLowerCase())
+    )
+  );
+}
+
+/**
+ * Why the agent's domain doesn't vouch for its did:web and key, or null if it does
+ */
+export async function checkDidWebDocument(did: string, publicKey: string): Promise<string | null> {
+  const url = didWebDocumentUrl(did);
+  let document: any;
+  try {
+    document = await fetchDidWebDocument(url);
+  } catch (error: any) {
+    return `Could not fetch ${url}: ${error.message}`;
+  }
+  if (document?.id !== did) {
+    return `The document at ${url} is not for ${did}`;
+  }
+  if (!documentListsKey(document, did, publicKey)) {
+    return `The document at ${url} does not list the agent's current key`;
+  }
+  return null;
+}
@@ -0,0 +1,203 @@
+import { AgentSearch, AgentSearchResult, AgentSort } from '../db/store';
+import { isAgentStatus } from './status';
+import { ReputationModel } from './reputation';
+
+/**
+ * Agent directory queries (GET /agents)
+ *
+ * Filters combine: name words (q) or prefix, agent type, status, owner, claim types held, registration
+ * date range, metadata values and reputation range. Results sort by registration date, reputation,
+ * activity (last reputation event) or name, ties broken by agent ID.
+ *
+ * Pages are keyset-paginated with an opaque cursor: it carries the sort and algorithm, the last agent's
+ * sort value and ID, and the time the first page was taken. Every page of a listing scores reputations as of that
+ * time and leaves out agents registered since, so concurrent registrations don't shift or repeat
+ * results. Scores come from the stored aggregates (`npm run rebuild:reputation` fills them in).
+ */
+
+export const SEARCH_MAX_LIMIT = 100;
+export const SEARCH_DEFAULT_LIMIT = 50;
+
+const SORTS: AgentSort[] = ['created_at', 'reputation', 'activity', 'name'];
+const MAX_QUERY_LENGTH = 100;
+const MAX_TERMS = 5;
+const MAX_LIST_VALUES = 5;
+const MAX_METADATA_FILTERS = 5;
+const FILTER_VALUE = /^[A-Za-z0-9_.:-]{1,64}$/;
+const METADATA_KEY = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Metadata the public listing never exposes, so it can't be probed with filters either
+const PRIVATE_METADATA_KEYS = ['registration_ip'];
+
+interface Cursor {
+  s: AgentSort;
+  o: 'asc' | 'desc';
+  a: string;              // reputation algorithm
+  t: string;              // as_of
+  v: string | number;     // sort value of the last agent
+  id: string;
+}
+
+/**
+ * Cursor for the page after the one ending with last
+ */
+export function encodeCursor(search: AgentSearch, last: AgentSearchResult): string {
+  const cursor: Cursor = { s: search.sort, o: search.order, a: search.model.algorithm, t: search.as_of, v: last.sort_value, id: last.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    const valid = cursor && SORTS.includes(cursor.s) && (cursor.o === 'asc' || cursor.o === 'desc')
+      && typeof cursor.a === 'string' && typeof cursor.t === 'string' && !isNaN(Date.parse(cursor.t))
+      && (typeof cursor.v === 'string' || typeof cursor.v === 'number') && typeof cursor.id === 'string';
+    return valid ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Comma-separated (or repeated) query values
+function listParam(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  const values = (Array.isArray(value) ? value : [value]);
+  if (!values.every(v => typeof v === 'string')) return null;
+  return (values as string[]).flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+function dateParam(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) return null;
+  return new Date(value).toISOString();
+}
+
+function reputationParam(value: unknown, model: ReputationModel): number | null | undefined {
+  if (value === undefined) return undefined;
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return number >= model.min && number <= model.max ? number : null;
+}
+
+/**
+ * Build a directory search from GET /agents query parameters; error says what's wrong with them
+ */
+export function parseAgentSearch(
+  query: Record<string, unknown>,
+  model: ReputationModel,
+  now = new Date()
+): { search: AgentSearch; error?: undefined } | { search?: undefined; error: string } {
+  const limit = Math.min(SEARCH_MAX_LIMIT, Math.max(1, parseInt(query.limit as string) || SEARCH_DEFAULT_LIMIT));
+
+  const sort = (query.sort ?? 'created_at') as AgentSort;
+  if (!SORTS.includes(sort)) {
+    return { error: `sort must be one of: ${SORTS.join(', ')}` };
+  }
+  const order = query.order ?? (sort === 'name' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+
+  const search: AgentSearch = {
+    sort,
+    order,
+    as_of: now.toISOString(),
+    model: { algorithm: model.version, base: model.base, min: model.min, max: model.max, half_life_days: model.halfLifeDays },
+    limit
+  };
+
+  if (query.q !== undefined) {
+    if (typeof query.q !== 'string' || query.q.length > MAX_QUERY_LENGTH) {
+      return { error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+    }
+    const terms = query.q.split(/\s+/).filter(Boolean);
+    if (terms.length > MAX_TERMS) {
+      return { error: `q can have at most ${MAX_TERMS} words` };
+    }
+    if (terms.length) search.terms = terms;
+  }
+
+  if (query.name !== undefined) {
+    if (typeof query.name !== 'string' || !query.name || query.name.length > MAX_QUERY_LENGTH) {
+      return { error: `name must be a prefix of at most ${MAX_QUERY_LENGTH} characters` };
+    }
+    search.name_prefix = query.name;
+  }
+
+  if (query.agent_type !== undefined) {
+    if (typeof query.agent_type !== 'string' || !FILTER_VALUE.test(query.agent_type)) {
+      return { error: 'Invalid agent_type' };
+    }
+    search.agent_type = query.agent_type;
+  }
+
+  const statuses = listParam(query.status);
+  if (!statuses || !statuses.every(isAgentStatus)) {
+    return { error: 'status must be a comma-separated list of agent statuses' };
+  }
+  if (statuses.length) search.statuses = statuses;
+
+  if (query.owner !== undefined) {
+    if (typeof query.owner !== 'string' || !query.owner || query.owner.length > 256) {
+      return { error: 'Invalid owner' };
+    }
+    search.owner_id = query.owner;
+  }
+
+  const claimTypes = listParam(query.claim_type);
+  if (!claimTypes || claimTypes.length > MAX_LIST_VALUES || !claimTypes.every(c => FILTER_VALUE.test(c))) {
+    return { error: `claim_type must be a comma-separated list of at most ${MAX_LIST_VALUES} claim types` };
+  }
+  if (claimTypes.length) search.claim_types = claimTypes;
+
+  const registeredAfter = dateParam(query.registered_after);
+  const registeredBefore = dateParam(query.registered_before);
+  if (registeredAfter === null || registeredBefore === null) {
+    return { error: 'registered_after and registered_before must be dates' };
+  }
+  if (registeredAfter) search.registered_after = registeredAfter;
+  if (registeredBefore) search.registered_before = registeredBefore;
+
+  if (query.metadata !== undefined) {
+    const metadata = query.metadata;
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      return { error: 'Filter metadata as metadata[key]=value' };
+    }
+    const entries = Object.entries(metadata);
+    if (entries.length > MAX_METADATA_FILTERS) {
+      return { error: `At most ${MAX_METADATA_FILTERS} metadata filters` };
+    }
+    for (const [key, value] of entries) {
+      if (!METADATA_KEY.test(key) || PRIVATE_METADATA_KEYS.includes(key)) {
+        return { error: `Metadata key ${key} can't be filtered on` };
+      }
+      if (typeof value !== 'string' || value.length > MAX_QUERY_LENGTH) {
+        return { error: `metadata[${key}] must be a single value of at most ${MAX_QUERY_LENGTH} characters` };
+      }
+    }
+    if (entries.length) search.metadata = Object.fromEntries(entries) as Record<string, string>;
+  }
+
+  const minReputation = reputationParam(query.min_reputation, model);
+  const maxReputation = reputationParam(query.max_reputation, model);
+  if (minReputation === null || maxReputation === null) {
+    return { error: `min_reputation and max_reputation must be between ${model.min} and ${model.max}` };
+  }
+  if (minReputation !== undefined) search.min_reputation = minReputation;
+  if (maxReputation !== undefined) search.max_reputation = maxReputation;
+
+  if (query.cursor !== undefined) {
+    const cursor = typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+    if (!cursor) {
+      return { error: 'Invalid cursor' };
+    }
+    if (cursor.s !== sort || cursor.o !== order || cursor.a !== model.version) {
+      return { error: 'cursor is for a different listing; pass the same sort, order and algorithm as the first page' };
+    }
+    search.as_of = cursor.t;
+    search.after = { value: cursor.v, id: cursor.id };
+  } else if (query.offset !== undefined) {
+    search.offset = Math.max(0, parseInt(query.offset as string) || 0);
+  }
+
+  return { search };
+}
@@ -0,0 +1,169 @@
+import { Store, ReputationEvent, ReputationChainHead, ReputationCheckpoint } from '../db/store';
+import { canonicalize, createPayload, hash, sign, verify } from './crypto';
+import { getIssuer } from './issuer';
+import { leafHash, merkleRoot, inclusionProof } from './merkle';
+
+/**
+ * Tamper-evident reputation history
+ *
+ * Every agent's reputation events form a hash chain. An event's hash is the SHA-256 (hex) of the
+ * canonical JSON (RFC 8785) of
+ *   {agent_id, seq, prev_hash, event_type, score_delta, description, metadata, created_at}
+ * with created_at as an ISO 8601 UTC timestamp with milliseconds, and prev_hash the previous
+ * event's hash (GENESIS_HASH for the first). Editing, removing or reordering an event breaks
+ * every later hash.
+ *
+ * Checkpoints are signed by the service issuer and commit to every agent's chain head through a
+ * Merkle root (utils/merkle.ts, leaves sorted by agent_id), so an agent's history can't be
+ * rewritten without contradicting a checkpoint someone may already hold.
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+type ChainFields = Pick<ReputationEvent, 'agent_id' | 'event_type' | 'score_delta' | 'description' | 'metadata' | 'created_at'>;
+
+/**
+ * Hash of an event at position seq, following prevHash
+ */
+export function hashReputationEvent(event: ChainFields, seq: number, prevHash: string): string {
+  return hash(canonicalize({
+    agent_id: event.agent_id,
+    seq,
+    prev_hash: prevHash,
+    event_type: event.event_type,
+    score_delta: event.score_delta,
+    description: event.description ?? null,
+    // As stored: undefined values dropped
+    metadata: JSON.parse(JSON.stringify(event.metadata || {})),
+    created_at: new Date(event.created_at).toISOString()
+  }));
+}
+
+/**
+ * Position and hashes for an event appended after head
+ */
+export function chainLink(event: ChainFields, head: Pick<ReputationChainHead, 'seq' | 'hash'> | null): { seq: number; prev_hash: string; hash: string } {
+  const seq = head ? head.seq + 1 : 1;
+  const prevHash = head ? head.hash : GENESIS_HASH;
+  return { seq, prev_hash: prevHash, hash: hashReputationEvent(event, seq, prevHash) };
+}
+
+/**
+ * Re-hash a chain (seq ascending); the head it ends at, or the first broken link
+ */
+export function verifyReputationChain(events: ReputationEvent[]): { valid: boolean; error?: string; head: ReputationChainHead | null } {
+  let head: ReputationChainHead | null = null;
+  for (const event of events) {
+    const expectedSeq: number = head ? head.seq + 1 : 1;
+    const expectedPrev: string = head ? head.hash : GENESIS_HASH;
+    if (event.seq !== expectedSeq || event.prev_hash !== expectedPrev) {
+      return { valid: false, error: `Chain broken before event ${expectedSeq}`, head };
+    }
+    if (event.hash !== hashReputationEvent(event, expectedSeq, expectedPrev)) {
+      return { valid: false, error: `Event ${expectedSeq} does not match its hash`, head };
+    }
+    head = { agent_id: event.agent_id, seq: expectedSeq, hash: event.hash };
+  }
+  return { valid: true, head };
+}
+
+/**
+ * Seal events written before chaining existed, appending them to their agents' chains
+ * Returns the number of events sealed.
+ */
+export async function sealReputationEvents(store: Store): Promise<number> {
+  let sealed = 0;
+  for (;;) {
+    const events = await store.getUnsealedReputationEvents(500);
+    if (events.length === 0) return sealed;
+
+    const heads = new Map<string, ReputationChainHead | null>();
+    for (const event of events) {
+      if (!heads.has(event.agent_id)) {
+        heads.set(event.agent_id, await store.getReputationChainHead(event.agent_id));
+      }
+      const link = chainLink(event, heads.get(event.agent_id)!);
+      if (!await store.sealReputationEvent(event.id, link.seq, link.prev_hash, link.hash)) {
+        throw new Error(`Reputation event ${event.id} was sealed concurrently`);
+      }
+      heads.set(event.agent_id, { agent_id: event.agent_id, seq: link.seq, hash: link.hash });
+      sealed++;
+    }
+  }
+}
+
+// Merkle leaf for a chain head
+function headLeaf(head: ReputationChainHead): string {
+  return leafHash(canonicalize({ agent_id: head.agent_id, seq: head.seq, hash: head.hash }));
+}
+
+function checkpointPayload(checkpoint: Pick<ReputationCheckpoint, 'root' | 'agent_count' | 'event_count' | 'issuer' | 'created_at'>): string {
+  return createPayload('reputation_checkpoint', {
+    root: checkpoint.root,
+    agent_count: checkpoint.agent_count,
+    event_count: checkpoint.event_count,
+    issuer: checkpoint.issuer,
+    created_at: new Date(checkpoint.created_at).toISOString()
+  });
+}
+
+/**
+ * Sign a checkpoint over every chain head
+ * Returns the latest checkpoint unchanged when no chain has grown since it was made.
+ */
+export async function createReputationCheckpoint(store: Store): Promise<ReputationCheckpoint> {
+  const heads = (await store.getReputationChainHeads()).sort((a, b) => a.agent_id < b.agent_id ? -1 : a.agent_id > b.agent_id ? 1 : 0);
+  const root = merkleRoot(heads.map(headLeaf));
+
+  const latest = await store.getLatestReputationCheckpoint();
+  if (latest && latest.root === root) return latest;
+
+  const issuer = getIssuer();
+  const unsigned = {
+    root,
+    agent_count: heads.length,
+    event_count: heads.reduce((total, head) => total + head.seq, 0),
+    heads,
+    issuer: issuer.did,
+    created_at: new Date().toISOString()
+  };
+  return store.createReputationCheckpoint({ ...unsigned, signature: sign(checkpointPayload(unsigned), issuer.privateKey) });
+}
+
+/**
+ * Check a checkpoint's signature against an issuer public key (hex)
+ */
+export function verifyReputationCheckpoint(checkpoint: ReputationCheckpoint, publicKeyHex: string): boolean {
+  return verify(checkpointPayload(checkpoint), checkpoint.signature, publicKeyHex);
+}
+
+/**
+ * Inclusion proof for an agent's head in a checkpoint, or null if the agent had no events then
+ */
+export function checkpointInclusion(checkpoint: ReputationCheckpoint, agentId: string) {
+  const index = checkpoint.heads.findIndex(head => head.agent_id === agentId);
+  if (index === -1) return null;
+
+  const leaves = checkpoint.heads.map(headLeaf);
+  return {
+    head: checkpoint.heads[index],
+    leaf_index: index,
+    tree_size: leaves.length,
+    path: inclusionProof(leaves, index)
+  };
+}
+
+/**
+ * Checkpoint the event chains every intervalMs (skipped while nothing has changed)
+ */
+export function startCheckpointWorker(store: Store, intervalMs = 60 * 60 * 1000): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      await createReputationCheckpoint(store);
+    } catch (error) {
+      console.error('Reputation checkpoint error:', error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
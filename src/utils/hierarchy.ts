@@ -0,0 +1,123 @@
+import { Store, Agent, SubtreeAgent } from '../db/store';
+import { loadReputationAggregates, reputationFromAggregate } from './reputation';
+
+/**
+ * Agent hierarchies
+ *
+ * Any agent can register workers (parent_did), and workers can register their own, so orchestrators
+ * can spawn sub-orchestrators. Trees are limited in depth (levels below the root agent) and fan-out
+ * (direct workers per agent). Claiming an agent claims its whole subtree; status changes can cascade
+ * down it on request.
+ */
+
+// Levels of workers below a root agent (default 5)
+export const MAX_HIERARCHY_DEPTH = parseInt(process.env.HIERARCHY_MAX_DEPTH || '', 10) || 5;
+
+// Direct workers per agent (default 100)
+export const MAX_CHILD_AGENTS = parseInt(process.env.HIERARCHY_MAX_CHILDREN || '', 10) || 100;
+
+/**
+ * An agent's ancestors, its parent first and the root agent last
+ */
+export async function getAncestors(store: Store, agent: Agent): Promise<Agent[]> {
+  const ancestors: Agent[] = [];
+  for (let parentDid = agent.parent_did; parentDid; ) {
+    const parent = await store.getAgentByDid(parentDid);
+    if (!parent) break;
+    ancestors.push(parent);
+    parentDid = parent.parent_did;
+  }
+  return ancestors;
+}
+
+/**
+ * Why parent can't take another worker, or null if it can
+ */
+export async function checkHierarchyLimits(store: Store, parent: Agent): Promise<string | null> {
+  const depth = (await getAncestors(store, parent)).length + 1;
+  if (depth > MAX_HIERARCHY_DEPTH) {
+    return `Workers can be at most ${MAX_HIERARCHY_DEPTH} levels below their root agent`;
+  }
+  if ((await store.getChildAgents(parent.did)).length >= MAX_CHILD_AGENTS) {
+    return `An agent can have at most ${MAX_CHILD_AGENTS} direct workers`;
+  }
+  return null;
+}
+
+export interface AgentTreeNode {
+  id: string;
+  did: string;
+  name: string;
+  agent_type: string;
+  status: string;
+  depth: number;
+  reputation: number;
+  reputation_algorithm: string;
+  tasks_completed: number;
+  created_at: string;
+  children: AgentTreeNode[];
+}
+
+export interface AgentTreeSummary {
+  agent_count: number;
+  depth: number;                                   // deepest level included
+  truncated: boolean;                              // deeper agents were left out
+  total_tasks: number;
+  worst_reputation: { did: string; score: number };
+  average_reputation: number;
+  status_counts: Record<string, number>;
+}
+
+/**
+ * An agent's subtree down to maxDepth levels, nested, with aggregates over every agent in it
+ * (the root included)
+ */
+export async function buildAgentTree(store: Store, root: Agent, maxDepth: number): Promise<{ tree: AgentTreeNode; summary: AgentTreeSummary }> {
+  // One level more than asked, only to tell whether the tree goes deeper
+  const fetched = await store.getAgentSubtree(root.did, maxDepth + 1);
+  const descendants = fetched.filter(agent => agent.depth <= maxDepth);
+  const members: SubtreeAgent[] = [{ ...root, depth: 0 }, ...descendants];
+
+  const aggregates = await loadReputationAggregates(store, members.map(agent => agent.id));
+  const nodes = new Map<string, AgentTreeNode>();
+  for (const agent of members) {
+    const aggregate = aggregates.get(agent.id)!;
+    const reputation = reputationFromAggregate(aggregate);
+    const node: AgentTreeNode = {
+      id: agent.id,
+      did: agent.did,
+      name: agent.name,
+      agent_type: agent.agent_type,
+      status: agent.status,
+      depth: agent.depth,
+      reputation: reputation.score,
+      reputation_algorithm: reputation.algorithm,
+      tasks_completed: aggregate.tasks_completed,
+      created_at: agent.created_at,
+      children: []
+    };
+    nodes.set(agent.did, node);
+    // Shallowest first, so the parent is always placed already
+    if (agent.depth > 0) nodes.get(agent.parent_did!)!.children.push(node);
+  }
+
+  const all = [...nodes.values()];
+  const worst = all.reduce((lowest, node) => node.reputation < lowest.reputation ? node : lowest);
+  const statusCounts: Record<string, number> = {};
+  for (const node of all) {
+    statusCounts[node.status] = (statusCounts[node.status] || 0) + 1;
+  }
+
+  return {
+    tree: nodes.get(root.did)!,
+    summary: {
+      agent_count: all.length,
+      depth: Math.max(...all.map(node => node.depth)),
+      truncated: fetched.length > descendants.length,
+      total_tasks: all.reduce((total, node) => total + node.tasks_completed, 0),
+      worst_reputation: { did: worst.did, score: worst.reputation },
+      average_reputation: Math.round(all.reduce((total, node) => total + node.reputation, 0) / all.length * 100) / 100,
+      status_counts: statusCounts
+    }
+  };
+}
@@ -0,0 +1,128 @@
+import { sha256 } from '@noble/hashes/sha256';
+
+/**
+ * HTTP Message Signatures (RFC 9421) with Ed25519
+ *
+ * A signed request carries:
+ *   Content-Digest: sha-256=:<base64 SHA-256 of the body>:            (RFC 9530)
+ *   Signature-Input: sig1=("@method" "@target-uri" "content-digest");created=1700000000;keyid="did:agent:...#key-1";alg="ed25519"
+ *   Signature: sig1=:<base64 Ed25519 signature over the signature base>:
+ * Only the parts of the structured field syntax these headers need are supported.
+ */
+
+export const SIGNATURE_ALGORITHM = 'ed25519';
+
+// Components every agent request signature must cover
+export const REQUIRED_COMPONENTS = ['@method', '@target-uri'];
+
+export interface SignatureParams {
+  created?: number;
+  expires?: number;
+  keyid?: string;
+  alg?: string;
+  nonce?: string;
+}
+
+export interface SignatureInput {
+  label: string;
+  components: string[];
+  params: SignatureParams;
+  serializedParams: string;  // the inner list and parameters exactly as sent, for @signature-params
+}
+
+/**
+ * Content-Digest header value for a body
+ */
+export function contentDigest(body: Uint8Array | string): string {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  return `sha-256=:${Buffer.from(sha256(bytes)).toString('base64')}:`;
+}
+
+/**
+ * Parse the first (or the named) signature from a Signature-Input header
+ */
+export function parseSignatureInput(header: string, label?: string): SignatureInput | null {
+  for (const member of splitMembers(header)) {
+    const match = member.match(/^([a-z*][a-z0-9_.*-]*)=(\(([^)]*)\)(.*))$/);
+    if (!match || (label && match[1] !== label)) continue;
+
+    const components = match[3].trim() === '' ? [] : match[3].trim().split(/\s+/).map(item => {
+      const component = item.match(/^"([^"]+)"$/);
+      return component ? component[1] : '';
+    });
+    if (components.some(c => !c)) return null;
+
+    const params: SignatureParams = {};
+    for (const param of match[4].split(';').slice(1)) {
+      const [key, rawValue] = param.trim().split(/=(.*)/s);
+      if (!rawValue) return null;
+      const value = rawValue.startsWith('"') && rawValue.endsWith('"') ? rawValue.slice(1, -1) : rawValue;
+      if (key === 'created' || key === 'expires') {
+        if (!/^\d+$/.test(value)) return null;
+        params[key] = parseInt(value, 10);
+      } else if (key === 'keyid' || key === 'alg' || key === 'nonce') {
+        params[key] = value;
+      }
+    }
+
+    return { label: match[1], components, params, serializedParams: match[2] };
+  }
+  return null;
+}
+
+/**
+ * Extract the signature bytes for a label from a Signature header
+ */
+export function parseSignature(header: string, label: string): Uint8Array | null {
+  for (const member of splitMembers(header)) {
+    const match = member.match(/^([a-z*][a-z0-9_.*-]*)=:([A-Za-z0-9+/=]*):$/);
+    if (match && match[1] === label) {
+      return new Uint8Array(Buffer.from(match[2], 'base64'));
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the signature base (RFC 9421 section 2.5)
+ * values maps each covered component name to its value.
+ */
+export function createSignatureBase(components: string[], values: Record<string, string>, serializedParams: string): string {
+  const lines = components.map(name => `"${name}": ${values[name]}`);
+  lines.push(`"@signature-params": ${serializedParams}`);
+  return lines.join('\n');
+}
+
+/**
+ * Serialize signature parameters for Signature-Input
+ */
+export function serializeSignatureParams(components: string[], params: SignatureParams): string {
+  let serialized = `(${components.map(c => `"${c}"`).join(' ')})`;
+  if (params.created !== undefined) serialized += `;created=${params.created}`;
+  if (params.expires !== undefined) serialized += `;expires=${params.expires}`;
+  if (params.keyid !== undefined) serialized += `;keyid="${params.keyid}"`;
+  if (params.alg !== undefined) serialized += `;alg="${params.alg}"`;
+  if (params.nonce !== undefined) serialized += `;nonce="${params.nonce}"`;
+  return serialized;
+}
+
+// Split a dictionary header on commas outside quoted strings and inner lists
+function splitMembers(header: string): string[] {
+  const members: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quoted = false;
+  for (const char of header) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (char === ',' && !quoted && depth === 0) {
+      members.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) members.push(current.trim());
+  return members;
+}
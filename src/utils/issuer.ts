@@ -0,0 +1,65 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes } from '@noble/curves/abstract/utils';
+import { generateKeyPair, generateDIDKey, createDIDDocument, verificationMethodId } from './crypto';
+
+/**
+ * Service issuer identity
+ * 
+ * The service signs credentials with its own Ed25519 key, configured with
+ * ISSUER_PRIVATE_KEY (hex). The issuer DID defaults to the did:key of that key, so
+ * relying parties can verify credentials from the DID alone; ISSUER_DID overrides it.
+ * Without ISSUER_PRIVATE_KEY a key is generated per process, which only suits tests and local
+ * development: the production server refuses to start without one (see configuredIssuerKeyError).
+ */
+
+export interface Issuer {
+  did: string;
+  keyId: string;
+  publicKey: string;  // hex
+  privateKey: string; // hex
+}
+
+let issuer: Issuer | null = null;
+
+/**
+ * Why ISSUER_PRIVATE_KEY can't be used as the issuer key, or null if it can
+ */
+export function configuredIssuerKeyError(): string | null {
+  const privateKey = process.env.ISSUER_PRIVATE_KEY;
+  if (!privateKey) {
+    return 'ISSUER_PRIVATE_KEY is not set';
+  }
+  if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
+    return 'ISSUER_PRIVATE_KEY must be a 32-byte Ed25519 private key in hex';
+  }
+  return null;
+}
+
+export function getIssuer(): Issuer {
+  if (issuer) return issuer;
+
+  let privateKey = process.env.ISSUER_PRIVATE_KEY;
+  if (!privateKey) {
+    console.warn('ISSUER_PRIVATE_KEY not set - using an ephemeral issuer key, credentials will not verify after restart');
+    privateKey = generateKeyPair().privateKey;
+  }
+
+  const publicKey = bytesToHex(ed25519.getPublicKey(hexToBytes(privateKey)));
+  const did = process.env.ISSUER_DID || generateDIDKey(publicKey);
+
+  issuer = {
+    did,
+    keyId: verificationMethodId(did, 1),
+    publicKey,
+    privateKey
+  };
+  return issuer;
+}
+
+/**
+ * DID Document for the service issuer, used by relying parties to verify credentials
+ */
+export function getIssuerDIDDocument() {
+  const { did, publicKey } = getIssuer();
+  return createDIDDocument(did, publicKey);
+}
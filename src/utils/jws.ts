@@ -0,0 +1,121 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { hexToBytes } from '@noble/curves/abstract/utils';
+import { getIssuer } from './issuer';
+
+/**
+ * Compact JWS (RFC 7515) signed by the service issuer key, alg EdDSA (RFC 8037)
+ *
+ * The issuer's public key is published as a JWK Set at /.well-known/jwks.json, with the issuer
+ * key ID (its DID verification method) as kid, so tokens can be checked offline.
+ */
+
+export interface Jwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;       // base64url public key
+  kid: string;
+  use: 'sig';
+  alg: 'EdDSA';
+}
+
+function base64url(input: string | Uint8Array): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * The issuer's public key as a JWK Set
+ */
+export function getIssuerJwks(): { keys: Jwk[] } {
+  const issuer = getIssuer();
+  return {
+    keys: [{
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: base64url(hexToBytes(issuer.publicKey)),
+      kid: issuer.keyId,
+      use: 'sig',
+      alg: 'EdDSA'
+    }]
+  };
+}
+
+/**
+ * Sign a payload as a compact JWS with header typ
+ */
+export function signJws(typ: string, payload: Record<string, any>): string {
+  const issuer = getIssuer();
+  const header = { alg: 'EdDSA', typ, kid: issuer.keyId };
+  const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+  const signature = ed25519.sign(new TextEncoder().encode(signingInput), hexToBytes(issuer.privateKey));
+  return `${signingInput}.${base64url(signature)}`;
+}
+
+export interface JwsCheck {
+  valid: boolean;
+  error?: string;
+  payload?: Record<string, any>;
+}
+
+// JSON object in a base64url JWS segment, or null
+function decodeSegment(segment: string): Record<string, any> | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Header of a compact JWS, without checking anything else, or null if it isn't one
+ */
+export function decodeJwsHeader(token: string): Record<string, any> | null {
+  const parts = token.split('.');
+  return parts.length === 3 ? decodeSegment(parts[0]) : null;
+}
+
+/**
+ * Payload of a compact JWS, without checking its signature, or null if it isn't one
+ */
+export function decodeJwsPayload(token: string): Record<string, any> | null {
+  const parts = token.split('.');
+  return parts.length === 3 ? decodeSegment(parts[1]) : null;
+}
+
+/**
+ * Check a compact JWS: header alg and typ, the signature against publicKeyHex, then exp and nbf
+ */
+export function verifyJws(token: string, typ: string, publicKeyHex: string, now = Date.now()): JwsCheck {
+  const parts = token.split('.');
+  const header = parts.length === 3 ? decodeSegment(parts[0]) : null;
+  const payload = header && decodeSegment(parts[1]);
+  if (!header || !payload) {
+    return { valid: false, error: 'Malformed token' };
+  }
+  if (header.alg !== 'EdDSA' || header.typ !== typ) {
+    return { valid: false, error: `Expected an EdDSA ${typ} token` };
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = ed25519.verify(
+      Buffer.from(parts[2], 'base64url'),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      hexToBytes(publicKeyHex)
+    );
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return { valid: false, error: 'Invalid token signature' };
+  }
+
+  const seconds = Math.floor(now / 1000);
+  if (typeof payload.exp !== 'number' || payload.exp <= seconds) {
+    return { valid: false, error: 'Token expired' };
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf > seconds) {
+    return { valid: false, error: 'Token not yet valid' };
+  }
+  return { valid: true, payload };
+}
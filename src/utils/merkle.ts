@@ -0,0 +1,130 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, concatBytes } from '@noble/curves/abstract/utils';
+
+/**
+ * Merkle trees as in RFC 9162 (Certificate Transparency v2)
+ *
+ * Leaves are hashed as SHA-256(0x00 || data) and interior nodes as SHA-256(0x01 || left || right),
+ * so a leaf can never be passed off as a node. A tree of n leaves splits at the largest power of
+ * two below n. Hashes are hex strings.
+ */
+
+export function leafHash(data: string): string {
+  return bytesToHex(sha256(concatBytes(new Uint8Array([0]), new TextEncoder().encode(data))));
+}
+
+function nodeHash(left: string, right: string): string {
+  return bytesToHex(sha256(concatBytes(new Uint8Array([1]), hexToBytes(left), hexToBytes(right))));
+}
+
+// Largest power of two smaller than n (n > 1)
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/**
+ * Root hash of a list of leaf hashes (the hash of the empty string for no leaves)
+ */
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return bytesToHex(sha256(new Uint8Array()));
+  if (leaves.length === 1) return leaves[0];
+  const k = splitPoint(leaves.length);
+  return nodeHash(merkleRoot(leaves.slice(0, k)), merkleRoot(leaves.slice(k)));
+}
+
+/**
+ * Audit path proving leaves[index] is in the tree, ordered from the leaf up
+ */
+export function inclusionProof(leaves: string[], index: number): string[] {
+  if (leaves.length <= 1) return [];
+  const k = splitPoint(leaves.length);
+  return index < k
+    ? [...inclusionProof(leaves.slice(0, k), index), merkleRoot(leaves.slice(k))]
+    : [...inclusionProof(leaves.slice(k), index - k), merkleRoot(leaves.slice(0, k))];
+}
+
+/**
+ * Check an audit path (RFC 9162 section 2.1.3.2)
+ */
+export function verifyInclusion(leaf: string, index: number, treeSize: number, path: string[], root: string): boolean {
+  if (index < 0 || index >= treeSize) return false;
+
+  let fn = index;
+  let sn = treeSize - 1;
+  let hash = leaf;
+  for (const sibling of path) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      hash = nodeHash(sibling, hash);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      hash = nodeHash(hash, sibling);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && hash === root;
+}
+
+/**
+ * Proof that the tree of the first m leaves is a prefix of the tree of all leaves (RFC 9162 section 2.1.4.1)
+ */
+export function consistencyProof(leaves: string[], m: number): string[] {
+  if (m <= 0 || m >= leaves.length) return [];
+  return subproof(m, leaves, true);
+}
+
+function subproof(m: number, leaves: string[], complete: boolean): string[] {
+  const n = leaves.length;
+  if (m === n) return complete ? [] : [merkleRoot(leaves)];
+  const k = splitPoint(n);
+  return m <= k
+    ? [...subproof(m, leaves.slice(0, k), complete), merkleRoot(leaves.slice(k))]
+    : [...subproof(m - k, leaves.slice(k), false), merkleRoot(leaves.slice(0, k))];
+}
+
+/**
+ * Check a consistency proof between a tree of size first and a later tree of size second
+ * (RFC 9162 section 2.1.4.2)
+ */
+export function verifyConsistency(first: number, second: number, proof: string[], firstRoot: string, secondRoot: string): boolean {
+  if (first < 0 || first > second) return false;
+  if (first === second) return proof.length === 0 && firstRoot === secondRoot;
+  // Every tree extends the empty tree
+  if (first === 0) return proof.length === 0;
+  if (proof.length === 0) return false;
+
+  const path = (first & (first - 1)) === 0 ? [firstRoot, ...proof] : proof;
+  let fn = first - 1;
+  let sn = second - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      fr = nodeHash(c, fr);
+      sr = nodeHash(c, sr);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = nodeHash(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return fr === firstRoot && sr === secondRoot && sn === 0;
+}
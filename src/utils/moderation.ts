@@ -0,0 +1,49 @@
+import { AbuseReport } from '../db/store';
+
+/**
+ * Abuse reports and moderation
+ *
+ * open → reviewing → actioned | dismissed
+ * Agents (signed request) and platforms (API key) report agents; moderators, the owner accounts
+ * listed in MODERATOR_USER_IDS, triage the queue and resolve each report with an action.
+ */
+
+export type ReportCategory = 'spam' | 'impersonation' | 'fraud' | 'malicious_output' | 'harassment' | 'policy_violation' | 'other';
+
+export const REPORT_CATEGORIES: ReportCategory[] = ['spam', 'impersonation', 'fraud', 'malicious_output', 'harassment', 'policy_violation', 'other'];
+
+export type ResolutionAction = 'dismiss' | 'warn' | 'flag' | 'suspend';
+
+export const RESOLUTION_ACTIONS: ResolutionAction[] = ['dismiss', 'warn', 'flag', 'suspend'];
+
+// Reports still waiting for a decision
+export const OPEN_REPORT_STATUSES = ['open', 'reviewing'];
+
+// Most stars a single report can cost an agent
+export const MAX_REPORT_PENALTY = 2;
+
+export const MAX_EVIDENCE_ITEMS = 10;
+
+export function isReportCategory(value: unknown): value is ReportCategory {
+  return typeof value === 'string' && (REPORT_CATEGORIES as string[]).includes(value);
+}
+
+export function isResolutionAction(value: unknown): value is ResolutionAction {
+  return typeof value === 'string' && (RESOLUTION_ACTIONS as string[]).includes(value);
+}
+
+/**
+ * Whether an owner account may moderate (MODERATOR_USER_IDS, comma-separated user IDs)
+ */
+export function isModerator(userId: string | null | undefined): boolean {
+  if (!userId) return false;
+  return (process.env.MODERATOR_USER_IDS || '').split(',').map(id => id.trim()).includes(userId);
+}
+
+/**
+ * A report as shown to the reported agent: the reporter is withheld
+ */
+export function reportForAgent(report: AbuseReport) {
+  const { reporter, resolved_by, ...rest } = report;
+  return rest;
+}
@@ -0,0 +1,48 @@
+import { randomInt } from 'crypto';
+import { Agent, OwnershipTransfer } from '../db/store';
+
+/**
+ * Agent ownership by owner accounts
+ *
+ * A root agent is linked to an account with its claim code, and its workers follow it. Claim codes
+ * are random, single use and expire; while the agent is unclaimed it can issue itself a new one
+ * (POST /agents/me/claim-code). Once claimed, the owner can transfer it to another account (which
+ * has to accept) or release it, after which the agent issues a new code to be claimed again.
+ */
+
+// Lifetime of a claim code (default 72 hours)
+export const CLAIM_CODE_TTL_MS = (parseInt(process.env.CLAIM_CODE_TTL_HOURS || '', 10) || 72) * 60 * 60 * 1000;
+
+// How long the recipient has to accept a transfer (default 7 days)
+export const OWNERSHIP_TRANSFER_TTL_MS = (parseInt(process.env.OWNERSHIP_TRANSFER_TTL_DAYS || '', 10) || 7) * 24 * 60 * 60 * 1000;
+
+// No 0/O or 1/I, so codes can be read out and typed
+const CLAIM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// 10 characters of a 32-letter alphabet: 50 bits
+const CLAIM_CODE_LENGTH = 10;
+
+/**
+ * A new claim code and when it expires
+ */
+export function generateClaimCode(now = Date.now()): { claim_code: string; claim_code_expires_at: string } {
+  let code = '';
+  for (let i = 0; i < CLAIM_CODE_LENGTH; i++) {
+    code += CLAIM_CODE_ALPHABET[randomInt(CLAIM_CODE_ALPHABET.length)];
+  }
+  return { claim_code: code, claim_code_expires_at: new Date(now + CLAIM_CODE_TTL_MS).toISOString() };
+}
+
+/**
+ * Whether an agent's claim code can no longer be used (codes without an expiry never can)
+ */
+export function claimCodeExpired(agent: Agent, now = Date.now()): boolean {
+  return !agent.claim_code_expires_at || new Date(agent.claim_code_expires_at).getTime() <= now;
+}
+
+/**
+ * Whether a pending transfer ran out before it was accepted
+ */
+export function transferExpired(transfer: OwnershipTransfer, now = Date.now()): boolean {
+  return new Date(transfer.expires_at).getTime() <= now;
+}
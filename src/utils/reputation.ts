@@ -0,0 +1,359 @@
+import { Store, ReputationEvent, ReputationAggregate } from '../db/store';
+
+/**
+ * Reputation engine
+ *
+ * An agent's score (0-5 stars) is the model's base plus the value of every reputation event,
+ * each weighted by its type and faded by exponential time decay. Confidence (0-1) grows with
+ * the (decayed) number of events, so a 4.5 from three events reads differently from a 4.5 from
+ * three hundred. Scores are defined over the whole event history under the selected model, so
+ * switching algorithms re-reads that history consistently.
+ *
+ * Models are versioned; REPUTATION_ALGORITHM selects the default (v2).
+ *
+ * Reads use the per-agent aggregate maintained when events are written, so scoring an agent is a
+ * single lookup. Exponential decay composes, so the aggregate only needs its sums as of the last
+ * event. Agents without an aggregate for the selected model are scored from the event log instead;
+ * `npm run rebuild:reputation` recomputes every aggregate after a model change.
+ */
+
+export interface WorkReportWeights {
+  tasks_completed: number;
+  corrections: number;
+  positive_feedback: number;
+  errors: number;
+  cap: number;  // max stars gained or lost per report
+}
+
+export interface ReputationModel {
+  version: string;
+  description: string;
+  base: number;
+  min: number;
+  max: number;
+  // Stars per event; types without a weight use their stored score_delta (hundredths of a star)
+  eventWeights: Record<string, number>;
+  workReport: WorkReportWeights;
+  verifiedWorkReport: WorkReportWeights;  // tasks confirmed by the counterparty
+  endorsement: number;          // stars for a 5-star rating from a fully weighted rater (1 star: the negative)
+  halfLifeDays: number | null;  // null disables decay
+  confidenceScale: number;      // events needed for ~63% confidence
+}
+
+export interface Reputation {
+  score: number;
+  confidence: number;
+  event_count: number;
+  algorithm: string;
+}
+
+export interface WorkReportCounts {
+  tasks_completed: number;
+  corrections: number;
+  positive_feedback: number;
+  errors: number;
+}
+
+const EVENT_WEIGHTS: Record<string, number> = {
+  registration: 0.1,
+  claim_verified: 0.05,
+  verification_success: 0.01,
+  key_rotation: 0
+};
+
+const WORK_REPORT_WEIGHTS: WorkReportWeights = {
+  tasks_completed: 0.01,
+  corrections: -0.05,
+  positive_feedback: 0.02,
+  errors: -0.03,
+  cap: 0.5
+};
+
+// Counterparty-confirmed work is worth five times self-reported work
+const VERIFIED_WORK_REPORT_WEIGHTS: WorkReportWeights = {
+  tasks_completed: 0.05,
+  corrections: -0.1,
+  positive_feedback: 0.1,
+  errors: -0.1,
+  cap: 1.5
+};
+
+export const REPUTATION_MODELS: Record<string, ReputationModel> = {
+  v1: {
+    version: 'v1',
+    description: 'Sum of all events, no decay',
+    base: 3.0,
+    min: 0,
+    max: 5,
+    eventWeights: EVENT_WEIGHTS,
+    workReport: WORK_REPORT_WEIGHTS,
+    verifiedWorkReport: VERIFIED_WORK_REPORT_WEIGHTS,
+    endorsement: 0.2,
+    halfLifeDays: null,
+    confidenceScale: 10
+  },
+  v2: {
+    version: 'v2',
+    description: 'Event weights with a 180 day half-life and volume-based confidence',
+    base: 3.0,
+    min: 0,
+    max: 5,
+    eventWeights: EVENT_WEIGHTS,
+    workReport: WORK_REPORT_WEIGHTS,
+    verifiedWorkReport: VERIFIED_WORK_REPORT_WEIGHTS,
+    endorsement: 0.2,
+    halfLifeDays: 180,
+    confidenceScale: 20
+  }
+};
+
+export const DEFAULT_REPUTATION_ALGORITHM = 'v2';
+
+/**
+ * The model for an algorithm version (default: REPUTATION_ALGORITHM, else v2), or null if unknown
+ */
+export function getReputationModel(version?: string): ReputationModel | null {
+  return REPUTATION_MODELS[version || process.env.REPUTATION_ALGORITHM || DEFAULT_REPUTATION_ALGORITHM] || null;
+}
+
+function currentModel(): ReputationModel {
+  return getReputationModel() || REPUTATION_MODELS[DEFAULT_REPUTATION_ALGORITHM];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Stars a work report is worth, capped per report
+ * verified: the counts come from counterparty-confirmed tasks
+ */
+export function workReportDelta(counts: WorkReportCounts, model = currentModel(), verified = false): number {
+  const weights = verified ? model.verifiedWorkReport : model.workReport;
+  const delta = counts.tasks_completed * weights.tasks_completed
+    + counts.corrections * weights.corrections
+    + counts.positive_feedback * weights.positive_feedback
+    + counts.errors * weights.errors;
+  return Math.round(Math.max(-weights.cap, Math.min(weights.cap, delta)) * 1000) / 1000;
+}
+
+/**
+ * How much a rater's endorsements count (0-1): its score relative to the maximum, times its confidence
+ * New or poorly rated agents barely move anyone's reputation.
+ */
+export function endorsementWeight(rater: Reputation, model = currentModel()): number {
+  return Math.round((rater.score / model.max) * rater.confidence * 1000) / 1000;
+}
+
+/**
+ * Stars an endorsement is worth: 3 is neutral, 5 and 1 are +/- the model's endorsement value
+ */
+export function endorsementDelta(rating: number, weight: number, model = currentModel()): number {
+  return Math.round(model.endorsement * ((rating - 3) / 2) * weight * 1000) / 1000;
+}
+
+/**
+ * The UTC month (YYYY-MM) an endorsement counts towards; one per rater and subject per period
+ */
+export function endorsementPeriod(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Stars a single event is worth under a model, before decay
+ */
+export function eventValue(event: Pick<ReputationEvent, 'event_type' | 'score_delta' | 'metadata'>, model = currentModel()): number {
+  if ((event.event_type === 'work_report' || event.event_type === 'verified_work_report') && event.metadata) {
+    return workReportDelta({
+      tasks_completed: event.metadata.tasks_completed || 0,
+      corrections: event.metadata.corrections || 0,
+      positive_feedback: event.metadata.positive_feedback || 0,
+      errors: event.metadata.errors || 0
+    }, model, event.event_type === 'verified_work_report');
+  }
+  if (event.event_type === 'endorsement' && event.metadata) {
+    return endorsementDelta(event.metadata.rating || 3, event.metadata.weight || 0, model);
+  }
+  const weight = model.eventWeights[event.event_type];
+  return weight !== undefined ? weight : (event.score_delta || 0) / 100;
+}
+
+/**
+ * The score_delta to store with a new event (hundredths of a star, under the current model)
+ */
+export function scoreDelta(eventType: string, metadata: Record<string, any> = {}): number {
+  return Math.round(eventValue({ event_type: eventType, score_delta: 0, metadata }) * 100);
+}
+
+// Factor an amount decays by over ageMs
+function decayFactor(ageMs: number, model: Pick<ReputationModel, 'halfLifeDays'>): number {
+  return model.halfLifeDays ? Math.pow(0.5, Math.max(0, ageMs) / (24 * 60 * 60 * 1000) / model.halfLifeDays) : 1;
+}
+
+function fromSums(sum: number, volume: number, eventCount: number, model: ReputationModel): Reputation {
+  return {
+    score: round2(Math.max(model.min, Math.min(model.max, model.base + sum))),
+    confidence: round2(1 - Math.exp(-volume / model.confidenceScale)),
+    event_count: eventCount,
+    algorithm: model.version
+  };
+}
+
+/**
+ * Compute a reputation from an agent's events
+ */
+export function computeReputation(events: Pick<ReputationEvent, 'event_type' | 'score_delta' | 'metadata' | 'created_at'>[], model = currentModel(), now = new Date()): Reputation {
+  let total = 0;
+  let volume = 0;
+  for (const event of events) {
+    const decay = decayFactor(now.getTime() - new Date(event.created_at).getTime(), model);
+    total += eventValue(event, model) * decay;
+    volume += decay;
+  }
+  return fromSums(total, volume, events.length, model);
+}
+
+/**
+ * Compute a reputation from an agent's aggregate, decayed to now
+ */
+export function reputationFromAggregate(aggregate: ReputationAggregate, model = currentModel(), now = new Date()): Reputation {
+  const decay = aggregate.last_event_at ? decayFactor(now.getTime() - new Date(aggregate.last_event_at).getTime(), model) : 1;
+  return fromSums(aggregate.score_sum * decay, aggregate.volume * decay, aggregate.event_count, model);
+}
+
+// What a single event adds to an aggregate under the current model
+export interface AggregateContribution {
+  algorithm: string;
+  value: number;
+  tasks_completed: number;
+  half_life_days: number | null;
+}
+
+export function eventContribution(event: Pick<ReputationEvent, 'event_type' | 'score_delta' | 'metadata'>, model = currentModel()): AggregateContribution {
+  return {
+    algorithm: model.version,
+    value: eventValue(event, model),
+    tasks_completed: event.event_type === 'work_report' || event.event_type === 'verified_work_report'
+      ? Number(event.metadata?.tasks_completed) || 0
+      : 0,
+    half_life_days: model.halfLifeDays
+  };
+}
+
+/**
+ * Fold an event written at `at` into an aggregate
+ * An aggregate built with another algorithm is returned unchanged; it is ignored on read until rebuilt.
+ */
+export function applyContribution(current: ReputationAggregate | null, agentId: string, contribution: AggregateContribution, at: string): ReputationAggregate {
+  const aggregate = current ? { ...current } : emptyAggregate(agentId, contribution.algorithm);
+  if (aggregate.algorithm !== contribution.algorithm) {
+    return aggregate;
+  }
+
+  const decayModel = { halfLifeDays: contribution.half_life_days };
+  const time = new Date(at).getTime();
+  const last = aggregate.last_event_at ? new Date(aggregate.last_event_at).getTime() : time;
+  if (time >= last) {
+    // Decay the existing sums up to this event
+    const decay = decayFactor(time - last, decayModel);
+    aggregate.score_sum = aggregate.score_sum * decay + contribution.value;
+    aggregate.volume = aggregate.volume * decay + 1;
+    aggregate.last_event_at = at;
+  } else {
+    // An event older than the last one decays to last_event_at instead
+    const decay = decayFactor(last - time, decayModel);
+    aggregate.score_sum += contribution.value * decay;
+    aggregate.volume += decay;
+  }
+  aggregate.event_count++;
+  aggregate.tasks_completed += contribution.tasks_completed;
+  aggregate.updated_at = new Date().toISOString();
+  return aggregate;
+}
+
+function emptyAggregate(agentId: string, algorithm: string): ReputationAggregate {
+  return {
+    agent_id: agentId,
+    algorithm,
+    score_sum: 0,
+    volume: 0,
+    event_count: 0,
+    tasks_completed: 0,
+    last_event_at: null,
+    updated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Build an agent's aggregate from its full event log
+ */
+export function aggregateEvents(agentId: string, events: ReputationEvent[], model = currentModel()): ReputationAggregate {
+  const oldestFirst = [...events].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+  let aggregate = emptyAggregate(agentId, model.version);
+  for (const event of oldestFirst) {
+    aggregate = applyContribution(aggregate, agentId, eventContribution(event, model), event.created_at);
+  }
+  return aggregate;
+}
+
+/**
+ * An agent's aggregate for a model: the stored one, or built from the event log when there is none
+ */
+export async function loadReputationAggregate(store: Store, agentId: string, model = currentModel()): Promise<ReputationAggregate> {
+  const aggregate = await store.getReputationAggregate(agentId);
+  if (aggregate && aggregate.algorithm === model.version) {
+    return aggregate;
+  }
+  return aggregateEvents(agentId, await store.getReputationEvents(agentId), model);
+}
+
+/**
+ * Load an agent's aggregate and compute its reputation
+ */
+export async function getReputation(store: Store, agentId: string, model = currentModel()): Promise<Reputation> {
+  return reputationFromAggregate(await loadReputationAggregate(store, agentId, model), model);
+}
+
+/**
+ * Aggregates for many agents with one lookup, rebuilding any that are missing or from another model
+ */
+export async function loadReputationAggregates(store: Store, agentIds: string[], model = currentModel()): Promise<Map<string, ReputationAggregate>> {
+  const aggregates = new Map<string, ReputationAggregate>();
+  for (const aggregate of await store.getReputationAggregates(agentIds)) {
+    if (aggregate.algorithm === model.version) {
+      aggregates.set(aggregate.agent_id, aggregate);
+    }
+  }
+  for (const agentId of agentIds) {
+    if (!aggregates.has(agentId)) {
+      aggregates.set(agentId, await loadReputationAggregate(store, agentId, model));
+    }
+  }
+  return aggregates;
+}
+
+/**
+ * Reputations for many agents with one aggregate lookup (for listings)
+ */
+export async function getReputations(store: Store, agentIds: string[], model = currentModel()): Promise<Map<string, Reputation>> {
+  const reputations = new Map<string, Reputation>();
+  for (const [agentId, aggregate] of await loadReputationAggregates(store, agentIds, model)) {
+    reputations.set(agentId, reputationFromAggregate(aggregate, model));
+  }
+  return reputations;
+}
+
+/**
+ * Recompute every agent's aggregate from the event log under the current model
+ * Returns the number of agents rebuilt.
+ */
+export async function rebuildReputationAggregates(store: Store, model = currentModel()): Promise<number> {
+  const pageSize = 100;
+  let rebuilt = 0;
+  for (let offset = 0; ; offset += pageSize) {
+    const { agents } = await store.listAgents(pageSize, offset);
+    for (const agent of agents) {
+      await store.saveReputationAggregate(aggregateEvents(agent.id, await store.getReputationEvents(agent.id), model));
+      rebuilt++;
+    }
+    if (agents.length < pageSize) return rebuilt;
+  }
+}
@@ -0,0 +1,156 @@
+import { createDIDDocument, KeyHistoryEntry, getDIDMethod, parseDIDKey, isValidWebDomain, DIDMethod } from './crypto';
+import { isTerminalStatus } from './status';
+
+/**
+ * DID Resolution (W3C DID Resolution / Universal Resolver HTTP binding)
+ * 
+ * GET /1.0/identifiers/:did returns a resolution result with didDocument,
+ * didResolutionMetadata and didDocumentMetadata.
+ */
+
+export const RESOLUTION_RESULT_TYPE = 'application/ld+json;profile="https://w3id.org/did-resolution"';
+export const DID_LD_JSON = 'application/did+ld+json';
+export const DID_JSON = 'application/did+json';
+
+export type ResolutionError = 'invalidDid' | 'notFound' | 'methodNotSupported' | 'representationNotSupported' | 'internalError';
+
+const ERROR_STATUS: Record<ResolutionError, number> = {
+  invalidDid: 400,
+  notFound: 404,
+  representationNotSupported: 406,
+  methodNotSupported: 501,
+  internalError: 500
+};
+
+// did:agent:<32 hex chars>, optionally followed by worker segments :w:<8 hex chars>
+const AGENT_DID_PATTERN = /^did:agent:[0-9a-f]{32}(:w:[0-9a-f]{8})*$/;
+
+// Generic DID syntax: did:<method>:<method-specific-id>
+const DID_PATTERN = /^did:[a-z0-9]+:[A-Za-z0-9._:%-]*[A-Za-z0-9._-]$/;
+
+export interface ResolvableAgent {
+  did: string;
+  public_key: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  status_changed_at?: string | null;
+  controller?: string;
+}
+
+export function isValidDID(did: string): boolean {
+  return DID_PATTERN.test(did);
+}
+
+export function isAgentDID(did: string): boolean {
+  return AGENT_DID_PATTERN.test(did);
+}
+
+/**
+ * Check DID syntax for the methods we resolve
+ * Returns the method, or the resolution error to report
+ */
+export function checkDID(did: string): { method: DIDMethod } | { error: ResolutionError; message?: string } {
+  if (!isValidDID(did)) {
+    return { error: 'invalidDid' };
+  }
+
+  const method = getDIDMethod(did);
+  if (!method) {
+    return { error: 'methodNotSupported', message: 'Supported methods: did:agent, did:key, did:web' };
+  }
+
+  if (method === 'agent' && !isAgentDID(did)) {
+    return { error: 'invalidDid', message: 'Expected did:agent:<hash> or did:agent:<hash>:w:<id>' };
+  }
+  if (method === 'key' && !parseDIDKey(did)) {
+    return { error: 'invalidDid', message: 'Expected an Ed25519 did:key (z6Mk...)' };
+  }
+  if (method === 'web') {
+    // Worker segments (:w:<id>) are path segments of the parent's did:web
+    const host = decodeURIComponent(did.slice('did:web:'.length).split(':')[0]);
+    if (!isValidWebDomain(host)) {
+      return { error: 'invalidDid', message: 'Expected did:web:<domain>[:<path>]' };
+    }
+  }
+  return { method };
+}
+
+// SQLite stores 'YYYY-MM-DD HH:MM:SS' in UTC; normalize everything to ISO 8601
+function toISO(timestamp: string): string {
+  const normalized = /[zZ]|[+-]\d\d:?\d\d$/.test(timestamp) ? timestamp : `${timestamp.replace(' ', 'T')}Z`;
+  return new Date(normalized).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Pick the representation for the Accept header
+ * Returns null if none of the accepted types can be produced.
+ */
+export function negotiateRepresentation(accept: string | undefined): string | null {
+  if (!accept || accept.includes('*/*') || accept.includes('application/*')) {
+    return RESOLUTION_RESULT_TYPE;
+  }
+  if (accept.includes('application/ld+json')) return RESOLUTION_RESULT_TYPE;
+  if (accept.includes(DID_LD_JSON)) return DID_LD_JSON;
+  if (accept.includes(DID_JSON)) return DID_JSON;
+  if (accept.includes('application/json')) return RESOLUTION_RESULT_TYPE;
+  return null;
+}
+
+/**
+ * Build a successful resolution result
+ */
+export function buildResolutionResult(agent: ResolvableAgent, keys: KeyHistoryEntry[], contentType: string) {
+  const didDocument = createDIDDocument(agent.did, agent.public_key, agent.controller, keys);
+  const currentKey = keys.find(k => !k.valid_until) || keys[keys.length - 1];
+  const deactivated = isTerminalStatus(agent.status);
+
+  return {
+    '@context': 'https://w3id.org/did-resolution/v1',
+    didDocument,
+    didResolutionMetadata: {
+      contentType: contentType === RESOLUTION_RESULT_TYPE ? DID_LD_JSON : contentType,
+      retrieved: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')
+    },
+    didDocumentMetadata: {
+      created: toISO(agent.created_at),
+      updated: toISO(agent.updated_at),
+      deactivated,
+      versionId: String(currentKey ? currentKey.key_index : 1),
+      ...(deactivated && agent.status_changed_at ? { deactivatedAt: toISO(agent.status_changed_at) } : {}),
+      agentStatus: agent.status
+    }
+  };
+}
+
+/**
+ * Build a resolution result for a did:key that isn't registered with the service
+ * The document is derived entirely from the key in the DID.
+ */
+export function buildDIDKeyResolutionResult(did: string, contentType: string) {
+  const publicKey = parseDIDKey(did) as string;
+  return {
+    '@context': 'https://w3id.org/did-resolution/v1',
+    didDocument: createDIDDocument(did, publicKey),
+    didResolutionMetadata: {
+      contentType: contentType === RESOLUTION_RESULT_TYPE ? DID_LD_JSON : contentType,
+      retrieved: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')
+    },
+    didDocumentMetadata: {}
+  };
+}
+
+/**
+ * Build an error resolution result and its HTTP status
+ */
+export function buildResolutionError(error: ResolutionError, message?: string) {
+  return {
+    status: ERROR_STATUS[error],
+    body: {
+      '@context': 'https://w3id.org/did-resolution/v1',
+      didDocument: null,
+      didResolutionMetadata: { error, ...(message ? { errorMessage: message } : {}) },
+      didDocumentMetadata: {}
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Agent status lifecycle
+ * 
+ * active ⇄ suspended → revoked | deactivated
+ * 'flagged' is a moderation marker on an otherwise active agent.
+ * Revoked and deactivated identities are terminal: they never become active again.
+ */
+
+export type AgentStatus = 'active' | 'flagged' | 'suspended' | 'revoked' | 'deactivated';
+
+export const AGENT_STATUSES: AgentStatus[] = ['active', 'flagged', 'suspended', 'revoked', 'deactivated'];
+
+const TRANSITIONS: Record<AgentStatus, AgentStatus[]> = {
+  active: ['suspended', 'revoked', 'deactivated'],
+  flagged: ['active', 'suspended', 'revoked', 'deactivated'],
+  suspended: ['active', 'revoked', 'deactivated'],
+  revoked: [],
+  deactivated: []
+};
+
+export function isAgentStatus(value: unknown): value is AgentStatus {
+  return typeof value === 'string' && (AGENT_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Check whether an agent may move from one status to another
+ */
+export function canTransition(from: string, to: AgentStatus): boolean {
+  const allowed = TRANSITIONS[(isAgentStatus(from) ? from : 'active')];
+  return allowed.includes(to);
+}
+
+/**
+ * Revoked and deactivated identities can never be used again
+ */
+export function isTerminalStatus(status: string): boolean {
+  return status === 'revoked' || status === 'deactivated';
+}
+
+/**
+ * Whether signatures from this agent should be accepted at all
+ * Suspended agents may only change their own status.
+ */
+export function acceptsSignatures(status: string): boolean {
+  return status === 'active' || status === 'flagged';
+}
+
+/**
+ * Build the error body returned when an agent's status refuses a signed request
+ */
+export function statusRefusal(agent: { did: string; status: string; status_reason?: string | null; status_changed_at?: string | null }) {
+  return {
+    error: `Agent is ${agent.status}`,
+    message: isTerminalStatus(agent.status)
+      ? 'This identity has been permanently retired and its signatures are no longer accepted'
+      : 'This identity is suspended and its signatures are not accepted until it is reactivated',
+    did: agent.did,
+    status: agent.status,
+    status_reason: agent.status_reason || null,
+    status_changed_at: agent.status_changed_at || null
+  };
+}
@@ -0,0 +1,139 @@
+import { Store, Agent, LogEntry, TreeHead } from '../db/store';
+import { canonicalize, createPayload, sign, verify, verificationMethodId } from './crypto';
+import { getIssuer } from './issuer';
+import { leafHash, merkleRoot, inclusionProof, consistencyProof } from './merkle';
+
+/**
+ * Key transparency log
+ *
+ * Every registration, key rotation and revocation is appended to a single Merkle tree
+ * (RFC 9162, as in Certificate Transparency). A leaf is the Merkle leaf hash of the canonical JSON
+ * (RFC 8785) of {entry_type, did, public_key, key_id, created_at}, with created_at as an ISO 8601
+ * UTC timestamp with milliseconds.
+ *
+ * Signed tree heads commit to the first tree_size entries. Inclusion proofs show a DID's entries
+ * are in the log, and consistency proofs show a later tree extends an earlier one, so the service
+ * can't show one key for a DID to some clients and another to the rest, or rewrite the log, without
+ * the tree heads it has signed contradicting each other.
+ */
+
+export type LogEntryType = 'registration' | 'key_rotation' | 'revocation';
+
+// Most entries returned by one GET /log/entries request
+export const MAX_LOG_ENTRIES = 100;
+
+/**
+ * The data a log entry's leaf hash is computed over
+ */
+export function logEntryData(entry: Pick<LogEntry, 'entry_type' | 'did' | 'public_key' | 'key_id' | 'created_at'>): string {
+  return canonicalize({
+    entry_type: entry.entry_type,
+    did: entry.did,
+    public_key: entry.public_key,
+    key_id: entry.key_id,
+    created_at: new Date(entry.created_at).toISOString()
+  });
+}
+
+/**
+ * Append an entry binding publicKey (key keyIndex) to an agent's DID
+ */
+export async function appendToLog(store: Store, entryType: LogEntryType, agent: Pick<Agent, 'did'>, publicKey: string, keyIndex: number, createdAt = new Date().toISOString()): Promise<LogEntry> {
+  const entry = {
+    entry_type: entryType,
+    did: agent.did,
+    public_key: publicKey,
+    key_id: verificationMethodId(agent.did, keyIndex),
+    created_at: createdAt
+  };
+  return store.appendLogEntry({ ...entry, leaf_hash: leafHash(logEntryData(entry)) });
+}
+
+function treeHeadPayload(head: Pick<TreeHead, 'tree_size' | 'root_hash' | 'issuer' | 'created_at'>): string {
+  return createPayload('tree_head', {
+    tree_size: head.tree_size,
+    root_hash: head.root_hash,
+    issuer: head.issuer,
+    created_at: new Date(head.created_at).toISOString()
+  });
+}
+
+/**
+ * The signed head of the whole log, signing a new one if the log has grown since the last
+ */
+export async function getSignedTreeHead(store: Store): Promise<TreeHead> {
+  const size = await store.getLogSize();
+  const latest = await store.getLatestTreeHead();
+  if (latest && latest.tree_size >= size) return latest;
+
+  const issuer = getIssuer();
+  const unsigned = {
+    tree_size: size,
+    root_hash: merkleRoot(await store.getLogLeafHashes(size)),
+    issuer: issuer.did,
+    created_at: new Date().toISOString()
+  };
+  return store.createTreeHead({ ...unsigned, signature: sign(treeHeadPayload(unsigned), issuer.privateKey) });
+}
+
+/**
+ * Check a tree head's signature against an issuer public key (hex)
+ */
+export function verifyTreeHead(head: TreeHead, publicKeyHex: string): boolean {
+  return verify(treeHeadPayload(head), head.signature, publicKeyHex);
+}
+
+/**
+ * A DID's entries in the tree of size treeSize, each with its inclusion proof
+ */
+export async function didInclusionProofs(store: Store, did: string, treeSize: number) {
+  const entries = (await store.getLogEntriesByDid(did)).filter(entry => entry.leaf_index < treeSize);
+  const leaves = entries.length > 0 ? await store.getLogLeafHashes(treeSize) : [];
+  return entries.map(entry => ({ ...entry, audit_path: inclusionProof(leaves, entry.leaf_index) }));
+}
+
+/**
+ * Consistency proof from the tree of size first to the tree of size second
+ */
+export async function logConsistencyProof(store: Store, first: number, second: number): Promise<string[]> {
+  return consistencyProof(await store.getLogLeafHashes(second), first);
+}
+
+/**
+ * Root hash of the tree of the first treeSize entries
+ */
+export async function logRoot(store: Store, treeSize: number): Promise<string> {
+  return merkleRoot(await store.getLogLeafHashes(treeSize));
+}
+
+/**
+ * Log the registrations, key rotations and revocations of agents created before the log existed
+ * Only runs on an empty log. Returns the number of entries appended.
+ */
+export async function backfillTransparencyLog(store: Store): Promise<number> {
+  if (await store.getLogSize() > 0) return 0;
+
+  let appended = 0;
+  const pageSize = 100;
+  for (let offset = 0; ; offset += pageSize) {
+    const { agents } = await store.listAgents(pageSize, offset);
+    if (agents.length === 0) return appended;
+
+    for (const agent of agents) {
+      const keys = await store.getAgentKeys(agent.id);
+      if (keys.length === 0) {
+        await appendToLog(store, 'registration', agent, agent.public_key, 1, agent.created_at);
+        appended++;
+      }
+      for (const key of keys) {
+        await appendToLog(store, key.key_index === 1 ? 'registration' : 'key_rotation', agent, key.public_key, key.key_index, key.valid_from);
+        appended++;
+      }
+      if (agent.status === 'revoked') {
+        const currentKey = keys[keys.length - 1];
+        await appendToLog(store, 'revocation', agent, agent.public_key, currentKey?.key_index ?? 1, agent.status_changed_at || new Date().toISOString());
+        appended++;
+      }
+    }
+  }
+}
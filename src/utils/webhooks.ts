@@ -0,0 +1,313 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes } from '@noble/hashes/utils';
+import { bytesToHex } from '@noble/curves/abstract/utils';
+import { v4 as uuidv4 } from 'uuid';
+import { lookup as dnsLookup, promises as dnsPromises, LookupAddress, LookupOptions } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Store, Agent, WebhookSubscription, WebhookDelivery } from '../db/store';
+
+/**
+ * Webhook subscriptions for agent events
+ *
+ * Each event is stored as one delivery per matching subscription and POSTed as JSON with:
+ *   X-Webhook-Id: <event id, the same on every retry>
+ *   X-Webhook-Event: <event type>
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" with the subscription secret>
+ * Any 2xx response delivers it. Otherwise it is retried with exponential backoff and, after
+ * MAX_DELIVERY_ATTEMPTS, left as a dead letter that can be redelivered by hand.
+ * Delivery is at least once: receivers should ignore event IDs they have already seen.
+ *
+ * Receivers must be public: URLs resolving to private, loopback, link-local or otherwise
+ * internal addresses are refused when subscribing and again on every delivery (the connection
+ * goes to the address that was checked), unless WEBHOOK_ALLOW_PRIVATE_URLS=true for local development.
+ */
+
+export type WebhookEventType = 'registration' | 'claim' | 'ownership_change' | 'work_report' | 'status_change' | 'key_rotation' | 'verification';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['registration', 'claim', 'ownership_change', 'work_report', 'status_change', 'key_rotation', 'verification'];
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Delay before the second attempt, doubling after each failure (1m, 2m, 4m ... about 2 hours in all)
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '', 10) || 60 * 1000;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+const ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+// Addresses a webhook may not reach (IPv4 rules also match IPv4-mapped IPv6 addresses)
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType | 'ping';
+  created_at: string;
+  agent: { id: string; did: string; name: string; status: string; agent_type: string; parent_did: string | null } | null;
+  data: Record<string, any>;
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as string[]).includes(value);
+}
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${bytesToHex(randomBytes(32))}`;
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local, multicast or otherwise not public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// URL hostnames keep IPv6 literals in brackets
+function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Why a webhook URL can't be used as a receiver, or null if it can
+ * Resolves the host now; deliveries check the address again when they connect.
+ */
+export async function checkWebhookUrl(url: URL): Promise<string | null> {
+  if (ALLOW_PRIVATE_URLS) return null;
+
+  const host = urlHost(url);
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await dnsPromises.lookup(host, { all: true });
+  } catch {
+    return `${host} could not be resolved`;
+  }
+  return addresses.some(({ address }) => isPrivateAddress(address))
+    ? `${host} resolves to a private or reserved address`
+    : null;
+}
+
+// dns.lookup for outgoing connections, refusing private addresses, so the address checked is the one used
+export const publicLookup = ((hostname: string, options: LookupOptions, callback: (...args: any[]) => void) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private or reserved address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+// POST a delivery without following redirects; resolves to the response status
+function postDelivery(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  // Literal addresses skip the lookup, so they are checked here
+  if (!ALLOW_PRIVATE_URLS && isIP(urlHost(target)) && isPrivateAddress(urlHost(target))) {
+    return Promise.reject(new Error(`${urlHost(target)} is a private or reserved address`));
+  }
+
+  const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = send(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: ALLOW_PRIVATE_URLS ? undefined : publicLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * X-Webhook-Signature value for a body sent at `timestamp` (unix seconds)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const mac = hmac(sha256, new TextEncoder().encode(secret), new TextEncoder().encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${bytesToHex(mac)}`;
+}
+
+/**
+ * Whether a subscription wants an event about an agent
+ * dids and owners both select agents: an agent matching either is included.
+ */
+export function subscriptionMatches(subscription: WebhookSubscription, type: string, agent: Agent): boolean {
+  if (subscription.event_types.length > 0 && !subscription.event_types.includes(type)) return false;
+  if (subscription.dids.length === 0 && subscription.owners.length === 0) return true;
+  return subscription.dids.includes(agent.did)
+    || (agent.owner_id !== null && subscription.owners.includes(agent.owner_id))
+    || (agent.user_id !== null && subscription.owners.includes(agent.user_id));
+}
+
+/**
+ * Record an event for every matching subscription and start delivering it
+ * Never throws: a webhook problem must not fail the request that caused the event.
+ */
+export async function emitWebhookEvent(store: Store, type: WebhookEventType, agent: Agent, data: Record<string, any>): Promise<void> {
+  try {
+    const subscriptions = (await store.getAllWebhooks()).filter(s => subscriptionMatches(s, type, agent));
+    if (subscriptions.length === 0) return;
+
+    const event: WebhookEvent = {
+      id: uuidv4(),
+      type,
+      created_at: new Date().toISOString(),
+      agent: {
+        id: agent.id,
+        did: agent.did,
+        name: agent.name,
+        status: agent.status,
+        agent_type: agent.agent_type,
+        parent_did: agent.parent_did
+      },
+      data
+    };
+    await queueDeliveries(store, subscriptions, event);
+  } catch (error) {
+    console.error('Webhook event error:', error);
+  }
+}
+
+/**
+ * Send a ping event to one subscription, to check the receiver
+ */
+export async function sendTestEvent(store: Store, subscription: WebhookSubscription): Promise<WebhookDelivery | null> {
+  const event: WebhookEvent = {
+    id: uuidv4(),
+    type: 'ping',
+    created_at: new Date().toISOString(),
+    agent: null,
+    data: { subscription_id: subscription.id }
+  };
+  const [delivery] = await createDeliveries(store, [subscription], event);
+  await attemptDelivery(store, delivery);
+  return store.getWebhookDelivery(delivery.id);
+}
+
+/**
+ * Make a dead (or stuck) delivery pending again with a fresh set of attempts, and send it now
+ */
+export async function redeliver(store: Store, delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+  const pending = await store.updateWebhookDelivery(delivery.id, {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    last_error: null
+  });
+  if (!pending) return null;
+  await attemptDelivery(store, pending);
+  return store.getWebhookDelivery(delivery.id);
+}
+
+/**
+ * Retry due deliveries every intervalMs (the first attempt is made when the event happens)
+ */
+export function startWebhookWorker(store: Store, intervalMs = 30 * 1000): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const due = await store.getDueWebhookDeliveries(new Date().toISOString(), 50);
+      for (const delivery of due) {
+        await attemptDelivery(store, delivery);
+      }
+    } catch (error) {
+      console.error('Webhook worker error:', error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+async function queueDeliveries(store: Store, subscriptions: WebhookSubscription[], event: WebhookEvent): Promise<void> {
+  const deliveries = await createDeliveries(store, subscriptions, event);
+  // First attempts run in the background; failures are picked up by the worker
+  void Promise.all(deliveries.map(delivery => attemptDelivery(store, delivery)));
+}
+
+async function createDeliveries(store: Store, subscriptions: WebhookSubscription[], event: WebhookEvent): Promise<WebhookDelivery[]> {
+  const now = new Date().toISOString();
+  const deliveries = subscriptions.map(subscription => ({
+    id: uuidv4(),
+    subscription_id: subscription.id,
+    event_id: event.id,
+    event_type: event.type,
+    payload: event,
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: now,
+    last_attempt_at: null,
+    response_status: null,
+    last_error: null
+  }));
+  await store.createWebhookDeliveries(deliveries);
+  return deliveries.map(delivery => ({ ...delivery, created_at: now }));
+}
+
+// Deliveries being sent by this process, so the worker doesn't send one twice at once
+const inFlight = new Set<string>();
+
+async function attemptDelivery(store: Store, queued: WebhookDelivery): Promise<void> {
+  if (inFlight.has(queued.id)) return;
+  inFlight.add(queued.id);
+
+  try {
+    // Re-read it: another attempt may have finished since it was queued
+    const delivery = await store.getWebhookDelivery(queued.id);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    const subscription = await store.getWebhook(delivery.subscription_id);
+    if (!subscription) return;
+
+    const body = JSON.stringify(delivery.payload);
+    const attemptedAt = new Date();
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let failure: string | null = null;
+
+    try {
+      responseStatus = await postDelivery(subscription.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'agent-identity-webhooks/1',
+        'X-Webhook-Id': delivery.event_id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Signature': signWebhookPayload(subscription.secret, Math.floor(attemptedAt.getTime() / 1000), body)
+      }, body);
+      if (responseStatus < 200 || responseStatus >= 300) failure = `HTTP ${responseStatus}`;
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const retry = failure !== null && attempts < MAX_DELIVERY_ATTEMPTS;
+    await store.updateWebhookDelivery(delivery.id, {
+      status: failure === null ? 'delivered' : retry ? 'pending' : 'dead',
+      attempts,
+      next_attempt_at: retry ? new Date(attemptedAt.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString() : null,
+      last_attempt_at: attemptedAt.toISOString(),
+      response_status: responseStatus,
+      last_error: failure?.slice(0, 500) ?? null
+    });
+  } catch (error) {
+    console.error('Webhook delivery error:', error);
+  } finally {
+    inFlight.delete(queued.id);
+  }
+}
@@ -0,0 +1,68 @@
+-- Key history for key rotation: the DID stays stable while keys change
+CREATE TABLE IF NOT EXISTS agent_keys (
+  id SERIAL PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id),
+  key_index INTEGER NOT NULL,
+  public_key TEXT NOT NULL,
+  valid_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  valid_until TIMESTAMPTZ,
+  rotation_signature TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(agent_id, key_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_keys_agent ON agent_keys(agent_id);
+
+-- Backfill: every existing agent's registered key becomes key-1
+INSERT INTO agent_keys (agent_id, key_index, public_key, valid_from)
+SELECT id, 1, public_key, created_at FROM agents
+ON CONFLICT (agent_id, key_index) DO NOTHING;
+
+-- Retire the agent's current key and make p_public_key its key p_key_index, in one transaction.
+-- The agent row is updated first, so concurrent rotations of one agent queue up behind it; the
+-- loser then fails on UNIQUE(agent_id, key_index) and changes nothing
+CREATE OR REPLACE FUNCTION rotate_agent_key(
+  p_agent_id TEXT,
+  p_key_index INTEGER,
+  p_public_key TEXT,
+  p_rotation_signature TEXT,
+  p_rotated_at TIMESTAMPTZ
+)
+RETURNS agent_keys AS $$
+DECLARE
+  v_key agent_keys;
+BEGIN
+  UPDATE agents SET public_key = p_public_key, updated_at = NOW() WHERE id = p_agent_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent % not found', p_agent_id;
+  END IF;
+
+  UPDATE agent_keys SET valid_until = p_rotated_at
+  WHERE agent_id = p_agent_id AND valid_until IS NULL;
+
+  INSERT INTO agent_keys (agent_id, key_index, public_key, valid_from, rotation_signature)
+  VALUES (p_agent_id, p_key_index, p_public_key, p_rotated_at, p_rotation_signature)
+  RETURNING * INTO v_key;
+
+  RETURN v_key;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE agent_keys ENABLE ROW LEVEL SECURITY;
+
+-- Key history is public (needed to verify old signatures)
+DROP POLICY IF EXISTS "Public read access" ON agent_keys;
+CREATE POLICY "Public read access" ON agent_keys FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Service role full access" ON agent_keys;
+CREATE POLICY "Service role full access" ON agent_keys 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
+
+-- An agent's key only changes through a rotation signed by its current key, which the service checks.
+-- The open update policy from 20260201_write_policies.sql let anyone with the anon key rewrite
+-- agents.public_key; the service writes with the service role and doesn't need it
+DROP POLICY IF EXISTS "Allow agent updates" ON agents;
+
+-- Functions are executable by everyone by default; rotate_agent_key is for the service only
+REVOKE EXECUTE ON FUNCTION rotate_agent_key(TEXT, INTEGER, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,25 @@
+-- Status lifecycle: active <-> suspended -> revoked | deactivated
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+-- Every status change with who made it and why
+CREATE TABLE IF NOT EXISTS agent_status_history (
+  id SERIAL PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  changed_by TEXT NOT NULL,
+  signature TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_agent ON agent_status_history(agent_id);
+
+ALTER TABLE agent_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON agent_status_history FOR SELECT USING (true);
+
+CREATE POLICY "Service role full access" ON agent_status_history 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
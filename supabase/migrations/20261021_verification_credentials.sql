@@ -0,0 +1,3 @@
+-- Verified claims are issued as W3C verifiable credentials (JSON-LD and JWT forms)
+ALTER TABLE verifications ADD COLUMN IF NOT EXISTS credential JSONB;
+ALTER TABLE verifications ADD COLUMN IF NOT EXISTS credential_jwt TEXT;
@@ -0,0 +1,37 @@
+-- API key usage: total count on the key plus one counter per key, scope and UTC day
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS usage_count INTEGER DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL,
+  date DATE NOT NULL,
+  count INTEGER DEFAULT 0,
+  PRIMARY KEY (api_key_id, scope, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_owner ON api_keys(owner_id);
+
+-- Increment both counters in one statement so concurrent requests aren't lost
+CREATE OR REPLACE FUNCTION record_api_key_usage(p_api_key_id TEXT, p_scope TEXT, p_used_at TIMESTAMPTZ)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE api_keys
+  SET last_used_at = p_used_at, usage_count = COALESCE(usage_count, 0) + 1
+  WHERE id = p_api_key_id;
+
+  INSERT INTO api_key_usage (api_key_id, scope, date, count)
+  VALUES (p_api_key_id, p_scope, (p_used_at AT TIME ZONE 'UTC')::DATE, 1)
+  ON CONFLICT (api_key_id, scope, date) DO UPDATE SET count = api_key_usage.count + 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Key hashes and usage are private to the service
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON api_key_usage 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access" ON api_keys 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,18 @@
+-- Agent auth challenges: single-use nonces from POST /auth/challenge
+-- Used nonces are kept (used_at set) until they expire, so replayed signatures are rejected
+CREATE TABLE IF NOT EXISTS auth_challenges (
+  nonce TEXT PRIMARY KEY,
+  did TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_challenges_expires ON auth_challenges(expires_at);
+
+-- Nonces are private to the service
+ALTER TABLE auth_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON auth_challenges 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,81 @@
+-- Reputation aggregates: running decayed sums per agent, so scoring an agent doesn't read every event
+-- score_sum and volume are decayed to last_event_at; the service decays them to the present on read
+CREATE TABLE IF NOT EXISTS reputation_aggregates (
+  agent_id TEXT PRIMARY KEY REFERENCES agents(id) ON DELETE CASCADE,
+  algorithm TEXT NOT NULL,
+  score_sum DOUBLE PRECISION DEFAULT 0,
+  volume DOUBLE PRECISION DEFAULT 0,
+  event_count INTEGER DEFAULT 0,
+  tasks_completed INTEGER DEFAULT 0,
+  last_event_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Insert an event and fold it into the agent's aggregate in one transaction
+-- p_value is the event's worth in stars under p_algorithm (computed by the service);
+-- an aggregate built with another algorithm is left alone until it is rebuilt
+CREATE OR REPLACE FUNCTION record_reputation_event(
+  p_agent_id TEXT,
+  p_event_type TEXT,
+  p_score_delta INTEGER,
+  p_description TEXT,
+  p_metadata JSONB,
+  p_value DOUBLE PRECISION,
+  p_tasks_completed INTEGER,
+  p_algorithm TEXT,
+  p_half_life_days DOUBLE PRECISION
+)
+RETURNS reputation_events AS $$
+DECLARE
+  v_event reputation_events;
+  v_aggregate reputation_aggregates;
+  v_decay DOUBLE PRECISION;
+BEGIN
+  INSERT INTO reputation_events (agent_id, event_type, score_delta, description, metadata)
+  VALUES (p_agent_id, p_event_type, p_score_delta, p_description, p_metadata)
+  RETURNING * INTO v_event;
+
+  INSERT INTO reputation_aggregates (agent_id, algorithm)
+  VALUES (p_agent_id, p_algorithm)
+  ON CONFLICT (agent_id) DO NOTHING;
+
+  SELECT * INTO v_aggregate FROM reputation_aggregates WHERE agent_id = p_agent_id FOR UPDATE;
+  IF v_aggregate.algorithm <> p_algorithm THEN
+    RETURN v_event;
+  END IF;
+
+  IF v_aggregate.last_event_at IS NULL OR v_event.created_at >= v_aggregate.last_event_at THEN
+    -- Decay the existing sums up to this event
+    v_decay := CASE WHEN p_half_life_days IS NULL OR v_aggregate.last_event_at IS NULL THEN 1
+      ELSE power(0.5, EXTRACT(EPOCH FROM v_event.created_at - v_aggregate.last_event_at) / 86400 / p_half_life_days) END;
+    UPDATE reputation_aggregates SET
+      score_sum = score_sum * v_decay + p_value,
+      volume = volume * v_decay + 1,
+      last_event_at = v_event.created_at,
+      event_count = event_count + 1,
+      tasks_completed = tasks_completed + p_tasks_completed,
+      updated_at = NOW()
+    WHERE agent_id = p_agent_id;
+  ELSE
+    -- An event older than the last one decays to last_event_at instead
+    v_decay := CASE WHEN p_half_life_days IS NULL THEN 1
+      ELSE power(0.5, EXTRACT(EPOCH FROM v_aggregate.last_event_at - v_event.created_at) / 86400 / p_half_life_days) END;
+    UPDATE reputation_aggregates SET
+      score_sum = score_sum + p_value * v_decay,
+      volume = volume + v_decay,
+      event_count = event_count + 1,
+      tasks_completed = tasks_completed + p_tasks_completed,
+      updated_at = NOW()
+    WHERE agent_id = p_agent_id;
+  END IF;
+
+  RETURN v_event;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Aggregates are written by the service only
+ALTER TABLE reputation_aggregates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON reputation_aggregates 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,30 @@
+-- Endorsements: signed agent-to-agent ratings, one per rater and subject per period (YYYY-MM)
+-- weight is the rater's reputation weight when endorsing; the rating also lands in reputation_events
+CREATE TABLE IF NOT EXISTS endorsements (
+  id TEXT PRIMARY KEY,
+  rater_id TEXT NOT NULL REFERENCES agents(id),
+  rater_did TEXT NOT NULL,
+  subject_id TEXT NOT NULL REFERENCES agents(id),
+  subject_did TEXT NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  context TEXT NOT NULL,
+  interaction_ref TEXT,
+  period TEXT NOT NULL,
+  weight DOUBLE PRECISION NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (rater_id, subject_id, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_endorsements_subject ON endorsements(subject_id);
+
+-- Endorsements are public, like the reputation they feed
+ALTER TABLE endorsements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON endorsements 
+  FOR SELECT 
+  USING (true);
+
+CREATE POLICY "Service role full access" ON endorsements 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,47 @@
+-- Task receipts: task claims confirmed by the counterparty, either countersigned with its DID key
+-- or issued by a platform with its API key (countersigner = 'api_key:<id>')
+-- A receipt is counted in at most one work report (report_id)
+CREATE TABLE IF NOT EXISTS task_receipts (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id),
+  task_id TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('completed', 'corrected', 'failed')),
+  positive_feedback BOOLEAN DEFAULT FALSE,
+  countersigner TEXT NOT NULL,
+  signature TEXT,
+  report_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (agent_id, countersigner, task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_receipts_agent ON task_receipts(agent_id);
+
+-- Count a work report's receipts all or nothing: insert the countersigned ones, claim the issued ones
+-- Raises unique_violation if a task was already confirmed or a receipt already counted
+CREATE OR REPLACE FUNCTION record_report_receipts(p_report_id TEXT, p_receipts JSONB, p_claim_ids TEXT[])
+RETURNS VOID AS $$
+DECLARE
+  v_claimed INTEGER;
+BEGIN
+  INSERT INTO task_receipts (id, agent_id, task_id, outcome, positive_feedback, countersigner, signature, report_id)
+  SELECT r.id, r.agent_id, r.task_id, r.outcome, COALESCE(r.positive_feedback, FALSE), r.countersigner, r.signature, p_report_id
+  FROM jsonb_to_recordset(p_receipts) AS r(
+    id TEXT, agent_id TEXT, task_id TEXT, outcome TEXT, positive_feedback BOOLEAN, countersigner TEXT, signature TEXT
+  );
+
+  UPDATE task_receipts SET report_id = p_report_id
+  WHERE id = ANY(p_claim_ids) AND report_id IS NULL;
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed <> COALESCE(array_length(p_claim_ids, 1), 0) THEN
+    RAISE EXCEPTION 'A receipt in this report was already counted' USING ERRCODE = 'unique_violation';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Receipts are written by the service only
+ALTER TABLE task_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON task_receipts 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,31 @@
+-- Abuse reports: reports of misbehaving agents from other agents (DID) or platforms (api_key:<id>)
+-- Moderators triage them (open -> reviewing -> actioned | dismissed); penalties land in reputation_events
+CREATE TABLE IF NOT EXISTS abuse_reports (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id),
+  agent_did TEXT NOT NULL,
+  reporter TEXT NOT NULL,
+  category TEXT NOT NULL,
+  description TEXT NOT NULL,
+  evidence JSONB DEFAULT '[]',
+  status TEXT DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'actioned', 'dismissed')),
+  agent_response TEXT,
+  agent_responded_at TIMESTAMPTZ,
+  resolution_action TEXT,
+  resolution_note TEXT,
+  penalty DOUBLE PRECISION,
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_abuse_reports_agent ON abuse_reports(agent_id);
+CREATE INDEX IF NOT EXISTS idx_abuse_reports_status ON abuse_reports(status, created_at);
+
+-- Reports name their reporters; only the service reads them
+ALTER TABLE abuse_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON abuse_reports 
+  FOR ALL 
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,136 @@
+-- Hash-chained reputation events: each event records its position in the agent's chain (seq), the
+-- previous event's hash and its own (see src/utils/eventchain.ts). Events written before this
+-- migration are sealed onto their chains when the service starts.
+ALTER TABLE reputation_events ADD COLUMN IF NOT EXISTS seq INTEGER;
+ALTER TABLE reputation_events ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+ALTER TABLE reputation_events ADD COLUMN IF NOT EXISTS hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reputation_chain ON reputation_events(agent_id, seq);
+
+-- Sealed events are append-only
+CREATE OR REPLACE FUNCTION reputation_events_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.hash IS NOT NULL THEN
+    RAISE EXCEPTION 'reputation events are append-only';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reputation_events_append_only ON reputation_events;
+CREATE TRIGGER reputation_events_append_only
+  BEFORE UPDATE OR DELETE ON reputation_events
+  FOR EACH ROW EXECUTE FUNCTION reputation_events_append_only();
+
+-- Events are only written by the service, through record_reputation_event
+DROP POLICY IF EXISTS "Allow reputation events" ON reputation_events;
+
+-- record_reputation_event now takes the event's chain link, computed by the service.
+-- The agent's chain is locked while the link is checked against its head; a link computed
+-- from a stale head raises serialization_failure and the service retries.
+DROP FUNCTION IF EXISTS record_reputation_event(TEXT, TEXT, INTEGER, TEXT, JSONB, DOUBLE PRECISION, INTEGER, TEXT, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION record_reputation_event(
+  p_agent_id TEXT,
+  p_event_type TEXT,
+  p_score_delta INTEGER,
+  p_description TEXT,
+  p_metadata JSONB,
+  p_created_at TIMESTAMPTZ,
+  p_seq INTEGER,
+  p_prev_hash TEXT,
+  p_hash TEXT,
+  p_value DOUBLE PRECISION,
+  p_tasks_completed INTEGER,
+  p_algorithm TEXT,
+  p_half_life_days DOUBLE PRECISION
+)
+RETURNS reputation_events AS $$
+DECLARE
+  v_event reputation_events;
+  v_head reputation_events;
+  v_aggregate reputation_aggregates;
+  v_decay DOUBLE PRECISION;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('reputation_chain:' || p_agent_id));
+
+  SELECT * INTO v_head FROM reputation_events
+  WHERE agent_id = p_agent_id AND hash IS NOT NULL
+  ORDER BY seq DESC LIMIT 1;
+
+  IF p_seq <> COALESCE(v_head.seq, 0) + 1 OR p_prev_hash <> COALESCE(v_head.hash, repeat('0', 64)) THEN
+    RAISE EXCEPTION 'reputation chain head moved' USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO reputation_events (agent_id, seq, event_type, score_delta, description, metadata, prev_hash, hash, created_at)
+  VALUES (p_agent_id, p_seq, p_event_type, p_score_delta, p_description, p_metadata, p_prev_hash, p_hash, p_created_at)
+  RETURNING * INTO v_event;
+
+  INSERT INTO reputation_aggregates (agent_id, algorithm)
+  VALUES (p_agent_id, p_algorithm)
+  ON CONFLICT (agent_id) DO NOTHING;
+
+  SELECT * INTO v_aggregate FROM reputation_aggregates WHERE agent_id = p_agent_id FOR UPDATE;
+  IF v_aggregate.algorithm <> p_algorithm THEN
+    RETURN v_event;
+  END IF;
+
+  IF v_aggregate.last_event_at IS NULL OR v_event.created_at >= v_aggregate.last_event_at THEN
+    -- Decay the existing sums up to this event
+    v_decay := CASE WHEN p_half_life_days IS NULL OR v_aggregate.last_event_at IS NULL THEN 1
+      ELSE power(0.5, EXTRACT(EPOCH FROM v_event.created_at - v_aggregate.last_event_at) / 86400 / p_half_life_days) END;
+    UPDATE reputation_aggregates SET
+      score_sum = score_sum * v_decay + p_value,
+      volume = volume * v_decay + 1,
+      last_event_at = v_event.created_at,
+      event_count = event_count + 1,
+      tasks_completed = tasks_completed + p_tasks_completed,
+      updated_at = NOW()
+    WHERE agent_id = p_agent_id;
+  ELSE
+    -- An event older than the last one decays to last_event_at instead
+    v_decay := CASE WHEN p_half_life_days IS NULL THEN 1
+      ELSE power(0.5, EXTRACT(EPOCH FROM v_aggregate.last_event_at - v_event.created_at) / 86400 / p_half_life_days) END;
+    UPDATE reputation_aggregates SET
+      score_sum = score_sum + p_value * v_decay,
+      volume = volume + v_decay,
+      event_count = event_count + 1,
+      tasks_completed = tasks_completed + p_tasks_completed,
+      updated_at = NOW()
+    WHERE agent_id = p_agent_id;
+  END IF;
+
+  RETURN v_event;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Last sealed event of every agent's chain
+CREATE OR REPLACE FUNCTION reputation_chain_heads()
+RETURNS TABLE (agent_id TEXT, seq INTEGER, hash TEXT) AS $$
+  SELECT DISTINCT ON (e.agent_id) e.agent_id, e.seq, e.hash
+  FROM reputation_events e
+  WHERE e.hash IS NOT NULL
+  ORDER BY e.agent_id, e.seq DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Signed checkpoints: a Merkle root over every chain head at the time, with the heads themselves
+CREATE TABLE IF NOT EXISTS reputation_checkpoints (
+  id SERIAL PRIMARY KEY,
+  root TEXT NOT NULL,
+  agent_count INTEGER NOT NULL,
+  event_count INTEGER NOT NULL,
+  heads JSONB NOT NULL,
+  issuer TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+-- Checkpoints are public like the events they commit to
+ALTER TABLE reputation_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON reputation_checkpoints FOR SELECT USING (true);
+
+CREATE POLICY "Service role full access" ON reputation_checkpoints
+  FOR ALL
+  USING (auth.role() = 'service_role');
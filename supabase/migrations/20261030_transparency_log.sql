@@ -0,0 +1,74 @@
+-- Key transparency log: every registration, key rotation and revocation as an append-only
+-- Merkle tree leaf (see src/utils/transparency.ts), numbered from 0 without gaps
+CREATE TABLE IF NOT EXISTS transparency_log (
+  leaf_index BIGINT PRIMARY KEY,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('registration', 'key_rotation', 'revocation')),
+  did TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  key_id TEXT NOT NULL,
+  leaf_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+-- Signed tree heads: issuer-signed log roots, one per tree size
+CREATE TABLE IF NOT EXISTS log_tree_heads (
+  tree_size BIGINT PRIMARY KEY,
+  root_hash TEXT NOT NULL,
+  issuer TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transparency_log_did ON transparency_log(did);
+
+-- Append at the next leaf_index; the lock keeps concurrent appends from taking the same index
+CREATE OR REPLACE FUNCTION append_log_entry(
+  p_entry_type TEXT,
+  p_did TEXT,
+  p_public_key TEXT,
+  p_key_id TEXT,
+  p_leaf_hash TEXT,
+  p_created_at TIMESTAMPTZ
+)
+RETURNS transparency_log AS $$
+DECLARE
+  v_entry transparency_log;
+BEGIN
+  LOCK TABLE transparency_log IN EXCLUSIVE MODE;
+
+  INSERT INTO transparency_log (leaf_index, entry_type, did, public_key, key_id, leaf_hash, created_at)
+  SELECT COALESCE(MAX(leaf_index) + 1, 0), p_entry_type, p_did, p_public_key, p_key_id, p_leaf_hash, p_created_at
+  FROM transparency_log
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The log is append-only
+CREATE OR REPLACE FUNCTION transparency_log_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'the transparency log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transparency_log_append_only ON transparency_log;
+CREATE TRIGGER transparency_log_append_only
+  BEFORE UPDATE OR DELETE ON transparency_log
+  FOR EACH ROW EXECUTE FUNCTION transparency_log_append_only();
+
+-- The log and its tree heads are public
+ALTER TABLE transparency_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE log_tree_heads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON transparency_log FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON log_tree_heads FOR SELECT USING (true);
+
+CREATE POLICY "Service role full access" ON transparency_log
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access" ON log_tree_heads
+  FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,26 @@
+-- Agent token sessions from POST /auth/token: the refresh token (SHA-256 hash only) and the
+-- scopes it grants. Access tokens name their session (sid), so revoking it revokes them too.
+-- Refresh tokens are rotated on use; the previous hash is kept so a replayed one revokes the session.
+CREATE TABLE IF NOT EXISTS agent_sessions (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id),
+  did TEXT NOT NULL,
+  scope JSONB NOT NULL,
+  refresh_token_hash TEXT UNIQUE NOT NULL,
+  previous_token_hash TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  refreshed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_sessions_agent ON agent_sessions(agent_id);
+CREATE INDEX IF NOT EXISTS idx_agent_sessions_previous ON agent_sessions(previous_token_hash);
+CREATE INDEX IF NOT EXISTS idx_agent_sessions_expires ON agent_sessions(expires_at);
+
+-- Sessions are private to the service
+ALTER TABLE agent_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON agent_sessions
+  FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,44 @@
+-- Multi-level agent hierarchies: workers can have workers of their own (see src/utils/hierarchy.ts)
+-- Subtrees are walked in the database so a whole tree comes back in one query.
+
+-- Every descendant of an agent down to p_max_depth levels (all when NULL), with its depth
+CREATE OR REPLACE FUNCTION agent_subtree(p_did TEXT, p_max_depth INTEGER DEFAULT NULL)
+RETURNS TABLE (agent JSONB, depth INTEGER) AS $$
+  WITH RECURSIVE subtree(did, depth) AS (
+    SELECT a.did, 1 FROM agents a WHERE a.parent_did = p_did
+    UNION ALL
+    SELECT a.did, s.depth + 1 FROM agents a JOIN subtree s ON a.parent_did = s.did
+    WHERE p_max_depth IS NULL OR s.depth < p_max_depth
+  )
+  SELECT to_jsonb(a), s.depth
+  FROM subtree s JOIN agents a ON a.did = s.did
+  ORDER BY s.depth ASC, a.created_at ASC;
+$$ LANGUAGE sql STABLE;
+
+-- Link an agent and its whole subtree to a user; returns the number of sub-agents claimed
+CREATE OR REPLACE FUNCTION claim_agent(p_agent_id TEXT, p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_did TEXT;
+  v_claimed INTEGER;
+BEGIN
+  UPDATE agents SET user_id = p_user_id, updated_at = NOW()
+  WHERE id = p_agent_id
+  RETURNING did INTO v_did;
+
+  IF v_did IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  WITH RECURSIVE subtree(did) AS (
+    SELECT a.did FROM agents a WHERE a.parent_did = v_did
+    UNION ALL
+    SELECT a.did FROM agents a JOIN subtree s ON a.parent_did = s.did
+  )
+  UPDATE agents SET user_id = p_user_id, updated_at = NOW()
+  WHERE did IN (SELECT did FROM subtree);
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+  RETURN v_claimed;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,96 @@
+-- Agent ownership lifecycle (see src/utils/ownership.ts): expiring single-use claim codes,
+-- transfers between accounts and an audit trail of every change of owner
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS claim_code_expires_at TIMESTAMPTZ;
+
+-- Codes from before they expired: used ones are cleared, the rest get a full lifetime from now
+UPDATE agents SET claim_code = NULL WHERE claim_code IS NOT NULL AND user_id IS NOT NULL;
+UPDATE agents SET claim_code_expires_at = NOW() + INTERVAL '72 hours'
+WHERE claim_code IS NOT NULL AND claim_code_expires_at IS NULL;
+
+-- Every claim, transfer and release of an agent (and its subtree)
+CREATE TABLE IF NOT EXISTS agent_ownership_history (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id),
+  from_user_id UUID,
+  to_user_id UUID,
+  changed_by TEXT NOT NULL,
+  transfer_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Transfers between accounts, pending until the recipient accepts
+CREATE TABLE IF NOT EXISTS ownership_transfers (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES agents(id),
+  from_user_id UUID NOT NULL,
+  to_user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'cancelled', 'expired')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ownership_history_agent ON agent_ownership_history(agent_id);
+CREATE INDEX IF NOT EXISTS idx_ownership_transfers_agent ON ownership_transfers(agent_id);
+CREATE INDEX IF NOT EXISTS idx_ownership_transfers_from ON ownership_transfers(from_user_id, status);
+CREATE INDEX IF NOT EXISTS idx_ownership_transfers_to ON ownership_transfers(to_user_id, status);
+
+-- At most one pending transfer per agent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ownership_transfers_pending ON ownership_transfers(agent_id) WHERE status = 'pending';
+
+-- Move an agent and its whole subtree from p_from_user_id (NULL: unclaimed) to p_to_user_id (NULL:
+-- released), clearing its claim code and recording the change. Returns the number of sub-agents
+-- moved, or NULL if the agent doesn't belong to p_from_user_id
+CREATE OR REPLACE FUNCTION change_agent_owner(
+  p_agent_id TEXT,
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_changed_by TEXT,
+  p_transfer_id TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_did TEXT;
+  v_moved INTEGER;
+BEGIN
+  UPDATE agents
+  SET user_id = p_to_user_id, claim_code = NULL, claim_code_expires_at = NULL, updated_at = NOW()
+  WHERE id = p_agent_id AND user_id IS NOT DISTINCT FROM p_from_user_id
+  RETURNING did INTO v_did;
+
+  IF v_did IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO agent_ownership_history (agent_id, from_user_id, to_user_id, changed_by, transfer_id)
+  VALUES (p_agent_id, p_from_user_id, p_to_user_id, p_changed_by, p_transfer_id);
+
+  WITH RECURSIVE subtree(did) AS (
+    SELECT a.did FROM agents a WHERE a.parent_did = v_did
+    UNION ALL
+    SELECT a.did FROM agents a JOIN subtree s ON a.parent_did = s.did
+  )
+  UPDATE agents SET user_id = p_to_user_id, updated_at = NOW()
+  WHERE did IN (SELECT did FROM subtree);
+
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+  RETURN v_moved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Superseded by change_agent_owner
+DROP FUNCTION IF EXISTS claim_agent(TEXT, UUID);
+
+-- Ownership records are private to the service
+ALTER TABLE agent_ownership_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ownership_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON agent_ownership_history
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access" ON ownership_transfers
+  FOR ALL
+  USING (auth.role() = 'service_role');
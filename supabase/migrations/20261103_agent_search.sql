@@ -0,0 +1,116 @@
+-- Agent directory search (GET /agents, see src/utils/directory.ts): filters, reputation scores
+-- decayed in SQL as in src/utils/reputation.ts, and keyset pagination
+
+CREATE INDEX IF NOT EXISTS idx_agents_created ON agents(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_verifications_claim_type ON verifications(claim_type, agent_id);
+
+-- p_search is an AgentSearch (src/db/store.ts); user values only ever reach the query as literals.
+-- Returns {"agents": [{"agent", "sort_value", "reputation_score"}], "total": <matches, ignoring after/offset>}
+CREATE OR REPLACE FUNCTION search_agents(p_search JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_as_of TIMESTAMPTZ := (p_search->>'as_of')::TIMESTAMPTZ;
+  v_model JSONB := p_search->'model';
+  v_desc BOOLEAN := p_search->>'order' IS DISTINCT FROM 'asc';
+  v_from TEXT;
+  v_where TEXT := 'a.created_at <= $1';
+  v_score TEXT;
+  v_key TEXT;
+  v_key_type TEXT;
+  v_item TEXT;
+  v_meta RECORD;
+  v_total BIGINT;
+  v_agents JSONB;
+BEGIN
+  v_from := format(
+    'FROM agents a LEFT JOIN reputation_aggregates ra ON ra.agent_id = a.id AND ra.algorithm = %L',
+    v_model->>'algorithm'
+  );
+  v_score := format(
+    'ROUND(GREATEST(%s, LEAST(%s, %s + COALESCE(ra.score_sum * %s, 0)))::NUMERIC, 2)',
+    (v_model->>'min')::NUMERIC, (v_model->>'max')::NUMERIC, (v_model->>'base')::NUMERIC,
+    CASE WHEN v_model->>'half_life_days' IS NULL THEN '1'
+      ELSE format('POWER(0.5, GREATEST(0, EXTRACT(EPOCH FROM ($1 - ra.last_event_at)) / 86400) / %s)',
+        (v_model->>'half_life_days')::NUMERIC)
+    END
+  );
+
+  CASE p_search->>'sort'
+    WHEN 'reputation' THEN v_key := v_score; v_key_type := 'NUMERIC';
+    WHEN 'activity' THEN v_key := 'COALESCE(ra.last_event_at, a.created_at)'; v_key_type := 'TIMESTAMPTZ';
+    WHEN 'name' THEN v_key := 'LOWER(a.name)'; v_key_type := 'TEXT';
+    ELSE v_key := 'a.created_at'; v_key_type := 'TIMESTAMPTZ';
+  END CASE;
+
+  -- Name words and prefix, with LIKE wildcards matched literally
+  FOR v_item IN SELECT jsonb_array_elements_text(COALESCE(p_search->'terms', '[]'::JSONB)) LOOP
+    v_where := v_where || format(' AND a.name ILIKE %L',
+      '%' || replace(replace(replace(v_item, '\', '\\'), '%', '\%'), '_', '\_') || '%');
+  END LOOP;
+  IF p_search->>'name_prefix' IS NOT NULL THEN
+    v_where := v_where || format(' AND a.name ILIKE %L',
+      replace(replace(replace(p_search->>'name_prefix', '\', '\\'), '%', '\%'), '_', '\_') || '%');
+  END IF;
+
+  IF p_search->>'agent_type' IS NOT NULL THEN
+    v_where := v_where || format(' AND a.agent_type = %L', p_search->>'agent_type');
+  END IF;
+  IF jsonb_array_length(COALESCE(p_search->'statuses', '[]'::JSONB)) > 0 THEN
+    v_where := v_where || format(' AND a.status IN (SELECT jsonb_array_elements_text(%L::JSONB))', p_search->'statuses');
+  END IF;
+  IF p_search->>'owner_id' IS NOT NULL THEN
+    v_where := v_where || format(' AND a.owner_id = %L', p_search->>'owner_id');
+  END IF;
+
+  FOR v_item IN SELECT jsonb_array_elements_text(COALESCE(p_search->'claim_types', '[]'::JSONB)) LOOP
+    v_where := v_where || format(
+      ' AND EXISTS (SELECT 1 FROM verifications v WHERE v.agent_id = a.id AND v.claim_type = %L AND (v.expires_at IS NULL OR v.expires_at > $1))',
+      v_item);
+  END LOOP;
+
+  IF p_search->>'registered_after' IS NOT NULL THEN
+    v_where := v_where || format(' AND a.created_at >= %L::TIMESTAMPTZ', p_search->>'registered_after');
+  END IF;
+  IF p_search->>'registered_before' IS NOT NULL THEN
+    v_where := v_where || format(' AND a.created_at <= %L::TIMESTAMPTZ', p_search->>'registered_before');
+  END IF;
+
+  FOR v_meta IN SELECT key, value FROM jsonb_each_text(COALESCE(p_search->'metadata', '{}'::JSONB)) LOOP
+    v_where := v_where || format(' AND a.metadata->>%L = %L', v_meta.key, v_meta.value);
+  END LOOP;
+
+  IF p_search->>'min_reputation' IS NOT NULL THEN
+    v_where := v_where || format(' AND %s >= %s', v_score, (p_search->>'min_reputation')::NUMERIC);
+  END IF;
+  IF p_search->>'max_reputation' IS NOT NULL THEN
+    v_where := v_where || format(' AND %s <= %s', v_score, (p_search->>'max_reputation')::NUMERIC);
+  END IF;
+
+  EXECUTE format('SELECT COUNT(*) %s WHERE %s', v_from, v_where) INTO v_total USING v_as_of;
+
+  -- Keyset: rows strictly after the previous page's last (sort value, id)
+  IF jsonb_typeof(p_search->'after') = 'object' THEN
+    v_where := v_where || format(' AND (%s, a.id) %s (%L::%s, %L)',
+      v_key, CASE WHEN v_desc THEN '<' ELSE '>' END,
+      p_search->'after'->>'value', v_key_type, p_search->'after'->>'id');
+  END IF;
+
+  EXECUTE format($query$
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'agent', page.agent, 'sort_value', page.sort_value, 'reputation_score', page.score
+    ) ORDER BY page.n), '[]'::JSONB)
+    FROM (
+      SELECT to_jsonb(a) AS agent, to_jsonb(%1$s) AS sort_value, %2$s AS score,
+        ROW_NUMBER() OVER (ORDER BY %1$s %3$s, a.id %3$s) AS n
+      %4$s
+      WHERE %5$s
+      ORDER BY %1$s %3$s, a.id %3$s
+      LIMIT %6$s OFFSET %7$s
+    ) page
+  $query$, v_key, v_score, CASE WHEN v_desc THEN 'DESC' ELSE 'ASC' END, v_from, v_where,
+    (p_search->>'limit')::INTEGER, COALESCE((p_search->>'offset')::INTEGER, 0))
+  INTO v_agents USING v_as_of;
+
+  RETURN jsonb_build_object('agents', v_agents, 'total', v_total);
+END;
+$$ LANGUAGE plpgsql STABLE;
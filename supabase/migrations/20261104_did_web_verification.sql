@@ -0,0 +1,4 @@
+-- did:web agents verify once their domain serves a DID document with the agent's current key
+-- (POST /agents/:id/did-web/verify, see src/utils/didweb.ts); cleared when the key rotates
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS did_web_verified_at TIMESTAMPTZ;
@@ -61,8 +61,7 @@ async function main() {
     agentId: agent.did,
     claimType: 'capability',
     claimValue: 'code-execution',
-    message,
-    signature
+    privateKey: agent.private_key
   });
   console.log(`   ✅ Claim verified: ${claim.claim_type} = ${claim.claim_value}`);
 
@@ -0,0 +1,96 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity } from '../sdk/index';
+import { startServer, call, TestServer } from './helpers';
+
+describe('API keys', () => {
+  let server: TestServer;
+  const owner = { Authorization: 'Bearer owner-token' };
+
+  before(async () => {
+    server = await startServer();
+    server.store.addSession('owner-token', { id: 'owner-1', email: 'owner@example.com' });
+  });
+  after(() => server.close());
+
+  async function createKey(permissions: string[]) {
+    const response = await call(server, 'POST', '/api-keys', { name: permissions.join('+'), permissions }, owner);
+    assert.equal(response.status, 201);
+    return response.body;
+  }
+
+  it('shows a new key once and never its hash', async () => {
+    const created = await createKey(['read']);
+    assert.match(created.key, /^ail_[0-9a-f]{64}$/);
+    assert.equal(created.key_hash, undefined);
+
+    const list = await call(server, 'GET', '/api-keys', undefined, owner);
+    const listed = list.body.api_keys.find((k: any) => k.id === created.id);
+    assert.equal(listed.key, undefined);
+    assert.equal(listed.key_hash, undefined);
+
+    assert.equal((await call(server, 'GET', '/api-keys')).status, 401);
+    assert.equal((await call(server, 'POST', '/api-keys', { permissions: ['root'] }, owner)).status, 400);
+  });
+
+  it('allows only the routes its scopes cover', async () => {
+    const { key } = await createKey(['read']);
+    const agent = await server.client.register({ name: 'Scoped' });
+    const withKey = { Authorization: `Bearer ${key}` };
+
+    assert.equal((await call(server, 'GET', `/agents/${encodeURIComponent(agent.did)}`, undefined, withKey)).status, 200);
+
+    const register = await call(server, 'POST', '/agents/register', { name: 'Denied' }, withKey);
+    assert.equal(register.status, 403);
+    assert.equal(register.body.required_scope, 'write');
+
+    const verify = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/verify`, { message: 'hi', signature: AgentIdentity.sign('hi', agent.private_key!) }, withKey);
+    assert.equal(verify.status, 403);
+  });
+
+  it('counts usage per scope', async () => {
+    const created = await createKey(['read', 'verify']);
+    const client = new AgentIdentity({ apiUrl: server.url, apiKey: created.key });
+    const agent = await server.client.register({ name: 'Counted' });
+
+    await client.get(agent.did);
+    await client.get(agent.did);
+    await client.verify(agent.did, 'hi', AgentIdentity.sign('hi', agent.private_key!));
+
+    const usage = await call(server, 'GET', `/api-keys/${created.id}/usage`, undefined, owner);
+    assert.equal(usage.body.usage_count, 3);
+    assert.ok(usage.body.last_used_at);
+    assert.deepEqual(usage.body.usage.map((u: any) => [u.scope, u.count]), [['read', 2], ['verify', 1]]);
+  });
+
+  it('rejects unknown and revoked keys', async () => {
+    assert.equal((await call(server, 'GET', '/agents', undefined, { 'X-API-Key': 'ail_unknown' })).status, 401);
+
+    const created = await createKey(['read']);
+    assert.equal((await call(server, 'DELETE', `/api-keys/${created.id}`, undefined, owner)).status, 200);
+    assert.equal((await call(server, 'GET', '/agents', undefined, { Authorization: `Bearer ${created.key}` })).status, 401);
+  });
+
+  it('lets only admin keys manage keys', async () => {
+    const admin = await createKey(['admin']);
+    const read = await createKey(['read']);
+
+    const listed = await call(server, 'GET', '/api-keys', undefined, { Authorization: `Bearer ${admin.key}` });
+    assert.equal(listed.status, 200);
+    assert.ok(listed.body.api_keys.some((k: any) => k.id === read.id));
+
+    assert.equal((await call(server, 'GET', '/api-keys', undefined, { Authorization: `Bearer ${read.key}` })).status, 403);
+    assert.equal((await call(server, 'DELETE', `/api-keys/${read.id}`, undefined, { 'X-API-Key': read.key })).status, 403);
+  });
+
+  it('turns anonymous requests away when keys are required', async () => {
+    const { key } = await createKey(['read']);
+    process.env.API_KEYS_REQUIRED = 'true';
+    try {
+      assert.equal((await call(server, 'GET', '/agents')).status, 401);
+      assert.equal((await call(server, 'GET', '/agents', undefined, { 'X-API-Key': key })).status, 200);
+    } finally {
+      delete process.env.API_KEYS_REQUIRED;
+    }
+  });
+});
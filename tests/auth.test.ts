@@ -0,0 +1,100 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity, AgentInfo } from '../sdk/index';
+import { startServer, call, TestServer } from './helpers';
+
+describe('agent auth', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  async function signedHeaders(agent: AgentInfo, method: string, path: string, body?: unknown) {
+    const challenge = await server.client.createChallenge(agent.did);
+    const message = AgentIdentity.createAgentAuthMessage(agent.did, challenge.nonce, method, path, body, challenge.audience);
+    return {
+      'X-Agent-DID': agent.did,
+      'X-Agent-Nonce': challenge.nonce,
+      'X-Agent-Signature': AgentIdentity.sign(message, agent.private_key!)
+    };
+  }
+
+  it('accepts a challenge-signed request once', async () => {
+    const agent = await server.client.register({ name: 'Auth' });
+    const headers = await signedHeaders(agent, 'GET', '/agents/me');
+
+    const first = await call(server, 'GET', '/agents/me', undefined, headers);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.did, agent.did);
+
+    const replay = await call(server, 'GET', '/agents/me', undefined, headers);
+    assert.equal(replay.status, 401);
+    assert.equal(replay.body.error, 'Challenge nonce already used');
+  });
+
+  it('signs in through the SDK', async () => {
+    const agent = await server.client.register({ name: 'SDK' });
+    const me = await server.client.me({ did: agent.did, privateKey: agent.private_key! });
+    assert.equal(me.did, agent.did);
+  });
+
+  it('binds the signature to the method and path', async () => {
+    const agent = await server.client.register({ name: 'Bound' });
+    const headers = await signedHeaders(agent, 'GET', '/agents/me/subagents');
+
+    const response = await call(server, 'GET', '/agents/me', undefined, headers);
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, 'Invalid signature');
+
+    // A failed attempt leaves the nonce for the request it was signed for
+    assert.equal((await call(server, 'GET', '/agents/me/subagents', undefined, headers)).status, 200);
+  });
+
+  it('refuses a nonce issued to another agent', async () => {
+    const agent = await server.client.register({ name: 'Owner of nonce' });
+    const other = await server.client.register({ name: 'Other' });
+    const challenge = await server.client.createChallenge(agent.did);
+    const message = AgentIdentity.createAgentAuthMessage(other.did, challenge.nonce, 'GET', '/agents/me', undefined, challenge.audience);
+
+    const response = await call(server, 'GET', '/agents/me', undefined, {
+      'X-Agent-DID': other.did,
+      'X-Agent-Nonce': challenge.nonce,
+      'X-Agent-Signature': AgentIdentity.sign(message, other.private_key!)
+    });
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, 'Unknown challenge nonce');
+  });
+
+  it('refuses an expired nonce', async () => {
+    const agent = await server.client.register({ name: 'Late' });
+    const { audience } = await server.client.createChallenge(agent.did);
+    const nonce = 'ab'.repeat(32);
+    await server.store.createAuthChallenge({ nonce, did: agent.did, expires_at: new Date(Date.now() - 1000).toISOString() });
+    const message = AgentIdentity.createAgentAuthMessage(agent.did, nonce, 'GET', '/agents/me', undefined, audience);
+
+    const response = await call(server, 'GET', '/agents/me', undefined, {
+      'X-Agent-DID': agent.did,
+      'X-Agent-Nonce': nonce,
+      'X-Agent-Signature': AgentIdentity.sign(message, agent.private_key!)
+    });
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, 'Challenge nonce expired');
+  });
+
+  it('issues no challenges to unknown or retired agents', async () => {
+    assert.equal((await call(server, 'POST', '/auth/challenge', { did: `did:agent:${'0'.repeat(32)}` })).status, 404);
+
+    const agent = await server.client.register({ name: 'Retired' });
+    await server.client.revoke(agent.did, agent.private_key!);
+    assert.equal((await call(server, 'POST', '/auth/challenge', { did: agent.did })).status, 403);
+  });
+
+  it('never takes a private key over the API', async () => {
+    const agent = await server.client.register({ name: 'Keeper' });
+    const response = await fetch(`${server.url}/agents/${encodeURIComponent(agent.did)}/sign`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'hello', privateKey: agent.private_key })
+    });
+    assert.equal(response.status, 404);
+  });
+});
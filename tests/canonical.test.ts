@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity, canonicalize as sdkCanonicalize, signPayload, verifyPayload } from '../sdk/index';
+import { canonicalize, createPayload, PAYLOAD_VERSION } from '../src/utils/crypto';
+
+// Decode an IEEE 754 double from its hex bit pattern, as the RFC 8785 number vectors are given
+function double(bits: string): number {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setBigUint64(0, BigInt(`0x${bits}`));
+  return view.getFloat64(0);
+}
+
+describe('JSON canonicalization (RFC 8785)', () => {
+  it('matches the example of section 3.2.2', () => {
+    const input = String.raw`{
+      "numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+      "string": "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"\/",
+      "literals": [null, true, false]
+    }`;
+    const expected = String.raw`{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\u000f\nA'B\"\\\\\"/"}`;
+    assert.equal(canonicalize(JSON.parse(input)), expected);
+  });
+
+  it('sorts keys by UTF-16 code units (section 3.2.3)', () => {
+    const input = String.raw`{
+      "€": "Euro Sign",
+      "\r": "Carriage Return",
+      "דּ": "Hebrew Letter Dalet With Dagesh",
+      "1": "One",
+      "😀": "Emoji: Grinning Face",
+      "\u0080": "Control",
+      "ö": "Latin Small Letter O With Diaeresis"
+    }`;
+    // Read the values back in output order; JSON.parse would move the integer key "1" to the front
+    const values = [...canonicalize(JSON.parse(input)).matchAll(/:"([^"]*)"/g)].map(match => match[1]);
+    assert.deepEqual(values, [
+      'Carriage Return',
+      'One',
+      'Control',
+      'Latin Small Letter O With Diaeresis',
+      'Euro Sign',
+      'Emoji: Grinning Face',
+      'Hebrew Letter Dalet With Dagesh'
+    ]);
+  });
+
+  it('serializes numbers like the vectors of appendix B', () => {
+    const vectors: [string, string][] = [
+      ['0000000000000000', '0'],
+      ['8000000000000000', '0'],
+      ['0000000000000001', '5e-324'],
+      ['8000000000000001', '-5e-324'],
+      ['7fefffffffffffff', '1.7976931348623157e+308'],
+      ['ffefffffffffffff', '-1.7976931348623157e+308'],
+      ['4340000000000000', '9007199254740992'],
+      ['c340000000000000', '-9007199254740992'],
+      ['4430000000000000', '295147905179352830000'],
+      ['44b52d02c7e14af5', '9.999999999999997e+22'],
+      ['44b52d02c7e14af6', '1e+23'],
+      ['44b52d02c7e14af7', '1.0000000000000001e+23'],
+      ['444b1ae4d6e2ef4e', '999999999999999700000'],
+      ['444b1ae4d6e2ef50', '1e+21'],
+      ['3eb0c6f7a0b5ed8c', '9.999999999999997e-7'],
+      ['3eb0c6f7a0b5ed8d', '0.000001'],
+      ['41b3de4355555555', '333333333.3333333']
+    ];
+    for (const [bits, expected] of vectors) {
+      assert.equal(canonicalize(double(bits)), expected, bits);
+    }
+  });
+
+  it('rejects NaN and Infinity', () => {
+    for (const bits of ['7fffffffffffffff', '7ff0000000000000']) {
+      assert.throws(() => canonicalize({ value: double(bits) }), /non-finite/);
+    }
+  });
+
+  it('produces the same bytes in the SDK and the server', () => {
+    const value = { z: [1, 'two', { b: null, a: true }], a: { nested: -0.5 }, skipped: undefined, '€': 'euro' };
+    assert.equal(canonicalize(value), '{"a":{"nested":-0.5},"z":[1,"two",{"a":true,"b":null}],"€":"euro"}');
+    assert.equal(sdkCanonicalize(value), canonicalize(value));
+  });
+});
+
+describe('Signed payloads', () => {
+  it('carries the action and format version', () => {
+    const payload = createPayload('claim', { did: 'did:agent:abc', claim_type: 'capability' });
+    assert.deepEqual(JSON.parse(payload), { action: 'claim', claim_type: 'capability', did: 'did:agent:abc', version: PAYLOAD_VERSION });
+    assert.equal(payload, createPayload('claim', { claim_type: 'capability', did: 'did:agent:abc' }));
+  });
+
+  it('does not verify a signature under another action', () => {
+    const { publicKey, privateKey } = AgentIdentity.generateKeyPair();
+    const fields = { did: 'did:agent:abc', status: 'suspended' };
+    const { payload, signature } = signPayload('change_status', fields, privateKey);
+
+    assert.equal(payload, createPayload('change_status', fields));
+    assert.equal(verifyPayload('change_status', fields, signature, publicKey), true);
+    assert.equal(verifyPayload('claim', fields, signature, publicKey), false);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateDIDKey, generateKeyPair } from '../src/utils/crypto';
+import { configuredIssuerKeyError } from '../src/utils/issuer';
+import { decodeJwsHeader } from '../src/utils/jws';
+import { AgentIdentity, AgentInfo, signPayload, verifyCredential, verifyCredentialJwt } from '../sdk/index';
+import { call, credentials, startServer, TestServer } from './helpers';
+
+describe('verifiable credentials', () => {
+  let server: TestServer;
+  let issuerPublicKey: string;
+  let agent: AgentInfo;
+
+  before(async () => {
+    server = await startServer();
+    issuerPublicKey = (await server.client.getIssuer()).public_key;
+    agent = await server.client.register({ name: 'Credentialed' });
+  });
+  after(() => server.close());
+
+  it('issues verified claims in both forms, signed by the issuer', async () => {
+    const claim = await server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', claimValue: 'code-execution', privateKey: agent.private_key });
+
+    assert.equal(claim.credential.credentialSubject.id, agent.did);
+    assert.deepEqual(claim.credential.credentialSubject.claim, { type: 'capability', value: 'code-execution', verifier: null, method: 'signature' });
+    assert.deepEqual(verifyCredential(claim.credential, issuerPublicKey), { valid: true });
+    assert.equal(verifyCredentialJwt(claim.credential_jwt, issuerPublicKey).valid, true);
+
+    // Signed like the service's other tokens, with the key ID published in the JWKS
+    const { keys } = await (await fetch(`${server.url}/.well-known/jwks.json`)).json() as any;
+    assert.deepEqual(decodeJwsHeader(claim.credential_jwt), { alg: 'EdDSA', typ: 'vc+jwt', kid: keys[0].kid });
+
+    const { claims } = await server.client.getClaims(agent.did);
+    assert.deepEqual(claims[0].credential, claim.credential);
+  });
+
+  it('takes claims only from the agent itself', async () => {
+    const unsigned = await call(server, 'POST', '/verify', { agent_id: agent.did, claim_type: 'capability', claim_value: 'admin' });
+    assert.equal(unsigned.status, 401);
+    assert.equal(unsigned.body.error, 'Signature or agent auth required');
+
+    const other = await server.client.register({ name: 'Someone else' });
+    await assert.rejects(
+      server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', claimValue: 'admin', agent: credentials(other) }),
+      /Forbidden/
+    );
+
+    const { claims } = await server.client.getClaims(agent.did);
+    assert.equal(claims.some(c => c.claim_value === 'admin'), false);
+    const { id } = (await server.store.getAgentByDid(agent.did))!;
+    assert.equal((await server.store.getReputationEvents(id)).some(e => e.metadata.claim_value === 'admin'), false);
+  });
+
+  it('records how the agent made the claim', async () => {
+    const claim = await server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', claimValue: 'browse', agent: credentials(agent) });
+    assert.equal(claim.verification_method, 'agent_auth');
+    assert.equal(claim.signature_verified, false);
+    assert.equal(claim.credential.credentialSubject.claim.method, 'agent_auth');
+    assert.deepEqual(verifyCredential(claim.credential, issuerPublicKey), { valid: true });
+  });
+
+  it('verifies each signed claim once', async () => {
+    const { signature } = signPayload('claim', { did: agent.did, claim_type: 'capability', claim_value: 'summarize', signed_at: null }, agent.private_key!);
+    const body = { agent_id: agent.did, claim_type: 'capability', claim_value: 'summarize', signature };
+    assert.equal((await call(server, 'POST', '/verify', body)).status, 201);
+
+    const replay = await call(server, 'POST', '/verify', body);
+    assert.equal(replay.status, 409);
+  });
+
+  it('refuses a credential whose claim was changed', async () => {
+    const { credential } = await server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', claimValue: 'read-only', privateKey: agent.private_key });
+    const altered = { ...credential, credentialSubject: { ...credential.credentialSubject, claim: { ...credential.credentialSubject.claim, value: 'admin' } } };
+
+    assert.equal(verifyCredential(altered, issuerPublicKey).error, 'Invalid proof signature');
+  });
+
+  it('stops accepting a credential once it expires', async () => {
+    const claim = await server.client.verifyClaim({ agentId: agent.did, claimType: 'identity', expiresInDays: 30, privateKey: agent.private_key });
+    const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+
+    assert.equal(verifyCredential(claim.credential, issuerPublicKey, later).error, 'Credential has expired');
+    assert.equal(verifyCredentialJwt(claim.credential_jwt, issuerPublicKey, later).error, 'Credential has expired');
+  });
+
+  it('refuses a credential signed by a self-named did:key issuer', async () => {
+    const { credential } = await server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', claimValue: 'deploy', privateKey: agent.private_key });
+    const attacker = AgentIdentity.generateKeyPair();
+    const issuer = generateDIDKey(attacker.publicKey);
+    const payload = { iss: issuer, sub: agent.did, nbf: Math.floor(Date.now() / 1000), vc: { ...credential, issuer } };
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode({ alg: 'EdDSA', typ: 'vc+jwt' })}.${encode(payload)}`;
+    const forged = `${signingInput}.${Buffer.from(AgentIdentity.sign(signingInput, attacker.privateKey), 'hex').toString('base64url')}`;
+
+    assert.equal(verifyCredentialJwt(forged, attacker.publicKey).valid, true);
+    assert.equal(verifyCredentialJwt(forged, issuerPublicKey).valid, false);
+  });
+
+  it('does not take other issuer-signed tokens for credentials', async () => {
+    const { token } = await server.client.getVerification(agent.did) as any;
+    const check = verifyCredentialJwt(token, issuerPublicKey);
+    assert.equal(check.valid, false);
+    assert.equal(check.error, 'Not a credential');
+  });
+
+  it('tells the production server whether the configured issuer key is usable', () => {
+    const configured = process.env.ISSUER_PRIVATE_KEY;
+    try {
+      delete process.env.ISSUER_PRIVATE_KEY;
+      assert.match(configuredIssuerKeyError() ?? '', /not set/);
+      process.env.ISSUER_PRIVATE_KEY = 'not-a-key';
+      assert.match(configuredIssuerKeyError() ?? '', /32-byte Ed25519 private key/);
+      process.env.ISSUER_PRIVATE_KEY = generateKeyPair().privateKey;
+      assert.equal(configuredIssuerKeyError(), null);
+    } finally {
+      if (configured === undefined) delete process.env.ISSUER_PRIVATE_KEY;
+      else process.env.ISSUER_PRIVATE_KEY = configured;
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentInfo, Capability, capabilityCovers, createDelegation } from '../sdk/index';
+import { startServer, credentials, TestServer } from './helpers';
+
+describe('capability delegation', () => {
+  let server: TestServer;
+  let root: AgentInfo;
+  let worker: AgentInfo;
+  let subWorker: AgentInfo;
+  let toWorker: string;
+
+  const board: Capability = { with: 'tasks://board/*', can: 'tasks/*', nb: { team: 'infra' } };
+
+  before(async () => {
+    server = await startServer();
+    root = await server.client.register({ name: 'Root' });
+    worker = await server.client.register({ name: 'Worker', parent: credentials(root) });
+    subWorker = await server.client.register({ name: 'Sub-worker', parent: credentials(worker) });
+    toWorker = createDelegation(credentials(root), { audience: worker.did, capabilities: [board] });
+  });
+  after(() => server.close());
+
+  it('covers narrower resources and actions that keep every caveat', () => {
+    assert.equal(capabilityCovers(board, { with: 'tasks://board/42', can: 'tasks/read', nb: { team: 'infra', max: 10 } }), true);
+    assert.equal(capabilityCovers(board, { with: 'tasks://board/42', can: 'tasks/read' }), false);
+    assert.equal(capabilityCovers(board, { with: 'tasks://other/1', can: 'tasks/read', nb: { team: 'infra' } }), false);
+  });
+
+  it('verifies a re-delegated chain, locally and with the service', async () => {
+    const toSubWorker = createDelegation(credentials(worker), {
+      audience: subWorker.did,
+      capabilities: [{ with: 'tasks://board/42', can: 'tasks/read', nb: { team: 'infra' } }],
+      proof: toWorker
+    });
+
+    const local = await server.client.checkDelegation(toSubWorker);
+    assert.equal(local.valid, true);
+    assert.equal(local.root, root.did);
+
+    const remote = await server.client.verifyDelegation(toSubWorker, { capability: { with: 'tasks://board/42', can: 'tasks/read', nb: { team: 'infra' } } });
+    assert.equal(remote.valid, true);
+    assert.equal(remote.authorized, true);
+
+    const outside = await server.client.verifyDelegation(toSubWorker, { capability: { with: 'tasks://board/42', can: 'tasks/delete', nb: { team: 'infra' } } });
+    assert.equal(outside.valid, true);
+    assert.equal(outside.authorized, false);
+  });
+
+  it('refuses a re-delegation wider than its proof', async () => {
+    const widened = createDelegation(credentials(worker), {
+      audience: subWorker.did,
+      capabilities: [{ with: 'tasks://*', can: '*' }],
+      proof: toWorker
+    });
+    assert.equal((await server.client.checkDelegation(widened)).valid, false);
+    assert.equal((await server.client.verifyDelegation(widened)).valid, false);
+  });
+
+  it('refuses a delegation to an agent outside the tree', async () => {
+    const stranger = await server.client.register({ name: 'Stranger' });
+    const delegation = createDelegation(credentials(root), { audience: stranger.did, capabilities: [board] });
+    const check = await server.client.verifyDelegation(delegation);
+    assert.equal(check.valid, false);
+    assert.match(check.error!, /not a worker/);
+  });
+
+  it('refuses a chain that does not start at a root agent', async () => {
+    const delegation = createDelegation(credentials(worker), { audience: subWorker.did, capabilities: [board] });
+    assert.equal((await server.client.verifyDelegation(delegation)).valid, false);
+  });
+
+  it('refuses an expired delegation', async () => {
+    const expired = createDelegation(credentials(root), { audience: worker.did, capabilities: [board], expiresIn: -60 });
+    assert.equal((await server.client.checkDelegation(expired)).valid, false);
+    assert.equal((await server.client.verifyDelegation(expired)).valid, false);
+  });
+
+  it('stops honoring delegations from a suspended issuer', async () => {
+    const other = await server.client.register({ name: 'Other root' });
+    const otherWorker = await server.client.register({ name: 'Other worker', parent: credentials(other) });
+    const delegation = createDelegation(credentials(other), { audience: otherWorker.did, capabilities: [board] });
+    assert.equal((await server.client.verifyDelegation(delegation)).valid, true);
+
+    await server.client.changeStatus(other.did, other.private_key!, 'suspended');
+    assert.equal((await server.client.verifyDelegation(delegation)).valid, false);
+  });
+});
@@ -0,0 +1,131 @@
+// Read when the did:web module loads: documents from a local HTTP server
+process.env.DID_WEB_ALLOW_INSECURE = 'true';
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { AgentIdentity } from '../sdk/index';
+import { generateDIDKey, parseDIDKey, didWebDocumentUrl, createDIDDocument } from '../src/utils/crypto';
+import { fetchDidWebDocument, documentListsKey } from '../src/utils/didweb';
+import { startServer, call, credentials, TestServer } from './helpers';
+
+describe('DID methods', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  it('round-trips Ed25519 keys through did:key', () => {
+    const { publicKey } = AgentIdentity.generateKeyPair();
+    const did = generateDIDKey(publicKey);
+    assert.match(did, /^did:key:z6Mk/);
+    assert.equal(parseDIDKey(did), publicKey);
+    assert.equal(parseDIDKey('did:key:zQ3shokFTS3brHcDQrn82RUDfCZESWL1ZdCEJwekUDPQiYBme'), null);
+  });
+
+  it('registers an existing did:key with the key it contains', async () => {
+    const keys = AgentIdentity.generateKeyPair();
+    const did = generateDIDKey(keys.publicKey);
+    const agent = await server.client.register({ name: 'Keyed', did });
+
+    assert.equal(agent.did, did);
+    assert.equal(agent.did_method, 'key');
+    assert.equal(agent.public_key, keys.publicKey);
+    assert.equal(agent.private_key, undefined);
+    assert.equal((await server.client.verify(did, 'hello', AgentIdentity.sign('hello', keys.privateKey))).verified, true);
+
+    const document = (await server.client.resolve(did)).didDocument!;
+    assert.equal(document.verificationMethod[0].id, `${did}#${did.slice('did:key:'.length)}`);
+  });
+
+  it('does not rotate a did:key', async () => {
+    const keys = AgentIdentity.generateKeyPair();
+    const agent = await server.client.register({ name: 'Fixed', didMethod: 'key', publicKey: keys.publicKey });
+    await assert.rejects(server.client.rotateKey(agent.did, keys.privateKey, AgentIdentity.generateKeyPair().publicKey), /Key rotation not supported/);
+  });
+
+  it('resolves an unregistered did:key from its key', async () => {
+    const { publicKey } = AgentIdentity.generateKeyPair();
+    const result = await server.client.resolve(generateDIDKey(publicKey));
+    assert.equal(result.didDocument!.verificationMethod[0].publicKeyHex, publicKey);
+  });
+
+  it('registers a did:web and tells the agent where to host its document', async () => {
+    const agent = await server.client.register({ name: 'Web', didMethod: 'web', webDomain: 'agents.example.com:8443', webPath: 'team/alice' });
+    assert.equal(agent.did, 'did:web:agents.example.com%3A8443:team:alice');
+    assert.equal(agent.did_document_url, 'https://agents.example.com:8443/team/alice/did.json');
+    assert.equal(didWebDocumentUrl('did:web:example.com'), 'https://example.com/.well-known/did.json');
+    assert.equal((agent.did_document as any).id, agent.did);
+  });
+
+  it('reports a did:web unverified until its domain serves the agent key', async () => {
+    const agent = await server.client.register({ name: 'Unproven', didMethod: 'web', webDomain: 'agents.example.invalid' });
+    assert.equal(agent.did_web_verified, false);
+
+    const before = await server.client.getVerification(agent.did);
+    assert.equal(before.verified, false);
+    assert.equal(before.did_web_verified, false);
+    assert.equal(before.did_document_url, 'https://agents.example.invalid/.well-known/did.json');
+
+    await assert.rejects(server.client.verifyDidWeb(credentials(agent)), /DID document not verified/);
+
+    // As if the document had been found
+    const stored = (await server.store.getAgentByDid(agent.did))!;
+    await server.store.updateAgent(stored.id, { did_web_verified_at: new Date().toISOString() });
+    const after = await server.client.getVerification(agent.did);
+    assert.equal(after.verified, true);
+    assert.equal(after.did_web_verified, true);
+
+    // The hosted document lists the old key until it is published again
+    await server.client.rotateKey(agent.did, agent.private_key!, AgentIdentity.generateKeyPair().publicKey);
+    assert.equal((await server.client.getVerification(agent.did)).verified, false);
+  });
+
+  it('checks only agents that are verifying their own did:web', async () => {
+    const web = await server.client.register({ name: 'Owner of the domain', didMethod: 'web', webDomain: 'own.example.invalid' });
+    const other = await server.client.register({ name: 'Someone else' });
+
+    const anonymous = await call(server, 'POST', `/agents/${encodeURIComponent(web.did)}/did-web/verify`);
+    assert.equal(anonymous.status, 401);
+    await assert.rejects(server.client.verifyDidWeb({ did: web.did, privateKey: other.private_key! }), /Invalid signature/);
+    await assert.rejects(server.client.verifyDidWeb(credentials(other)), /Not a did:web agent/);
+  });
+
+  it('looks for the agent key in the hosted document', async () => {
+    const keys = AgentIdentity.generateKeyPair();
+    const did = 'did:web:agents.example.com';
+    const hosted = createServer((req, res) => {
+      if (req.url === '/.well-known/did.json') {
+        res.setHeader('Content-Type', 'application/did+json');
+        return res.end(JSON.stringify(createDIDDocument(did, keys.publicKey)));
+      }
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>(resolve => hosted.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(hosted.address() as AddressInfo).port}`;
+
+    try {
+      const document = await fetchDidWebDocument(`${origin}/.well-known/did.json`);
+      assert.equal(documentListsKey(document, did, keys.publicKey), true);
+      assert.equal(documentListsKey(document, did, AgentIdentity.generateKeyPair().publicKey), false);
+      assert.equal(documentListsKey(document, 'did:web:elsewhere.example.com', keys.publicKey), false);
+      await assert.rejects(fetchDidWebDocument(`${origin}/missing/did.json`), /returned 404/);
+    } finally {
+      hosted.close();
+    }
+  });
+
+  it('refuses identifiers it cannot mint', async () => {
+    const keys = AgentIdentity.generateKeyPair();
+    const cases = [
+      { name: 'Mismatch', did: generateDIDKey(keys.publicKey), public_key: AgentIdentity.generateKeyPair().publicKey },
+      { name: 'Assigned', did: `did:agent:${'0'.repeat(32)}` },
+      { name: 'No domain', did_method: 'web', web_domain: 'localhost' },
+      { name: 'Unknown', did_method: 'ion' }
+    ];
+    for (const body of cases) {
+      assert.equal((await call(server, 'POST', '/agents/register', body)).status, 400, body.name);
+    }
+  });
+});
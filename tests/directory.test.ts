@@ -0,0 +1,74 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentInfo } from '../sdk/index';
+import { call, startServer, TestServer } from './helpers';
+
+describe('Agent directory', () => {
+  let server: TestServer;
+  let scout: AgentInfo;
+  let ranger: AgentInfo;
+  let helper: AgentInfo;
+
+  const reward = async (agent: AgentInfo, delta: number) => server.store.createReputationEvent({
+    agent_id: agent.id, event_type: 'manual_adjustment', score_delta: delta, description: null, metadata: {}
+  });
+
+  before(async () => {
+    server = await startServer();
+    scout = await server.client.register({ name: 'Research Scout', metadata: { framework: 'langchain' } });
+    ranger = await server.client.register({ name: 'Research Ranger', metadata: { framework: 'crewai' } });
+    helper = await server.client.register({ name: 'Support Helper', metadata: { framework: 'langchain' } });
+    await reward(ranger, 200);
+    await reward(helper, 100);
+    await server.store.createVerification({
+      id: uuidv4(), agent_id: scout.id, verifier_id: null, claim_type: 'domain', claim_value: 'scout.example',
+      verified_at: new Date().toISOString(), expires_at: null, signature: null, credential: null, credential_jwt: null
+    });
+    await server.client.revoke(helper.did, helper.private_key!);
+  });
+  after(() => server.close());
+
+  const names = (agents: AgentInfo[]) => agents.map(a => a.name);
+
+  it('combines filters', async () => {
+    assert.deepEqual(names((await server.client.search({ q: 'research' })).agents).sort(), ['Research Ranger', 'Research Scout']);
+    assert.deepEqual(names((await server.client.search({ q: 'scout research' })).agents), ['Research Scout']);
+    assert.deepEqual(names((await server.client.search({ name: 'Supp' })).agents), ['Support Helper']);
+    assert.deepEqual(names((await server.client.search({ metadata: { framework: 'langchain' }, status: 'active' })).agents), ['Research Scout']);
+    assert.deepEqual(names((await server.client.search({ claimTypes: ['domain'] })).agents), ['Research Scout']);
+    assert.deepEqual(names((await server.client.search({ status: ['revoked', 'suspended'] })).agents), ['Support Helper']);
+    assert.equal((await server.client.search({ registeredAfter: new Date(Date.now() + 60000) })).pagination.total, 0);
+  });
+
+  it('sorts by reputation and name', async () => {
+    const byReputation = await server.client.search({ sort: 'reputation' });
+    assert.deepEqual(names(byReputation.agents), ['Research Ranger', 'Support Helper', 'Research Scout']);
+    const scores: number[] = byReputation.agents.map((a: any) => a.reputation);
+    const above = await server.client.search({ minReputation: (scores[0] + scores[1]) / 2, sort: 'reputation' });
+    assert.deepEqual(names(above.agents), ['Research Ranger']);
+    assert.deepEqual(names((await server.client.search({ sort: 'name' })).agents), ['Research Ranger', 'Research Scout', 'Support Helper']);
+  });
+
+  it('pages with a cursor that ignores later registrations', async () => {
+    const first = await server.client.search({ sort: 'name', limit: 2 });
+    assert.equal(first.pagination.total, 3);
+    assert.deepEqual(names(first.agents), ['Research Ranger', 'Research Scout']);
+
+    await server.client.register({ name: 'Alpha Late' });
+
+    const second = await server.client.search({ sort: 'name', limit: 2, cursor: first.pagination.next_cursor! });
+    assert.deepEqual(names(second.agents), ['Support Helper']);
+    assert.equal(second.pagination.next_cursor, null);
+
+    const mismatched = await call(server, 'GET', `/agents?sort=created_at&cursor=${first.pagination.next_cursor}`);
+    assert.equal(mismatched.status, 400);
+    assert.match(mismatched.body.message, /different listing/);
+  });
+
+  it('rejects bad parameters', async () => {
+    for (const query of ['sort=size', 'status=sleeping', 'min_reputation=9', 'cursor=nope', 'metadata[registration_ip]=127.0.0.1', 'registered_after=soon']) {
+      assert.equal((await call(server, 'GET', `/agents?${query}`)).status, 400, query);
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentIdentity, AgentInfo, signPayload } from '../sdk/index';
+import { endorsementDelta, endorsementWeight, REPUTATION_MODELS } from '../src/utils/reputation';
+import { call, startServer, TestServer } from './helpers';
+
+describe('Endorsement weighting', () => {
+  const v2 = REPUTATION_MODELS.v2;
+
+  it('centres ratings on 3', () => {
+    assert.equal(endorsementDelta(5, 1, v2), 0.2);
+    assert.equal(endorsementDelta(1, 1, v2), -0.2);
+    assert.equal(endorsementDelta(3, 1, v2), 0);
+    assert.equal(endorsementDelta(4, 0.5, v2), 0.05);
+  });
+
+  it('weights raters by score and confidence', () => {
+    assert.equal(endorsementWeight({ score: 5, confidence: 1, event_count: 100, algorithm: 'v2' }, v2), 1);
+    assert.equal(endorsementWeight({ score: 2.5, confidence: 0.5, event_count: 10, algorithm: 'v2' }, v2), 0.25);
+    assert.equal(endorsementWeight({ score: 3, confidence: 0, event_count: 0, algorithm: 'v2' }, v2), 0);
+  });
+});
+
+describe('Endorsements', () => {
+  let server: TestServer;
+  let rater: AgentInfo;
+  let subject: AgentInfo;
+  before(async () => {
+    server = await startServer();
+    rater = await server.client.register({ name: 'Rater' });
+    subject = await server.client.register({ name: 'Subject' });
+  });
+  after(() => server.close());
+
+  function endorse(from: { did: string; private_key?: string }, to: string, rating: number, fields: Record<string, unknown> = {}) {
+    const { signature } = signPayload('endorsement', {
+      did: from.did,
+      subject: to,
+      rating,
+      context: 'code-review',
+      interaction_ref: null,
+      period: new Date().toISOString().slice(0, 7)
+    }, from.private_key!);
+    return call(server, 'POST', `/agents/${encodeURIComponent(to)}/endorsements`, {
+      rater_did: from.did, rating, context: 'code-review', signature, ...fields
+    });
+  }
+
+  it('records a signed endorsement weighted by the rater', async () => {
+    const before = await server.client.getReputation(subject.did);
+    const result = await server.client.endorse(rater.did, rater.private_key!, subject.did, { rating: 5, context: 'code-review', interactionRef: 'task-42' });
+
+    assert.equal(result.rater_did, rater.did);
+    assert.equal(result.period, new Date().toISOString().slice(0, 7));
+    assert.ok(result.weight > 0 && result.weight < 1);
+    assert.equal(result.delta, endorsementDelta(5, result.weight));
+    assert.ok(result.reputation > before.reputation.score);
+
+    const list = await server.client.getEndorsements(subject.did);
+    assert.equal(list.count, 1);
+    assert.equal(list.average_rating, 5);
+    assert.equal(list.endorsements[0].interaction_ref, 'task-42');
+  });
+
+  it('allows one endorsement per rater and agent per month', async () => {
+    const response = await endorse(rater, subject.did, 4);
+    assert.equal(response.status, 409);
+    assert.equal(response.body.error, 'Already endorsed');
+  });
+
+  it('needs the rater signature over the same fields', async () => {
+    const other = await server.client.register({ name: 'Other rater' });
+    assert.equal((await endorse(other, subject.did, 5, { signature: undefined })).status, 401);
+
+    // Signed a 1, submitted as a 5
+    const { signature } = signPayload('endorsement', {
+      did: other.did, subject: subject.did, rating: 1, context: 'code-review', interaction_ref: null, period: new Date().toISOString().slice(0, 7)
+    }, other.private_key!);
+    const forged = await endorse(other, subject.did, 5, { signature });
+    assert.equal(forged.status, 401);
+    assert.equal(forged.body.error, 'Invalid signature');
+  });
+
+  it('validates the rating and context', async () => {
+    assert.equal((await endorse(rater, rater.did, 6)).status, 400);
+    assert.equal((await endorse(rater, subject.did, 5, { context: 'Code Review!' })).status, 400);
+  });
+
+  it('refuses endorsements between related agents', async () => {
+    assert.equal((await endorse(rater, rater.did, 5)).status, 403);
+
+    // Two workers of the same parent
+    const workers = [];
+    for (const name of ['Worker A', 'Worker B']) {
+      const { publicKey, privateKey } = AgentIdentity.generateKeyPair();
+      const id = uuidv4();
+      const worker = await server.store.createAgent({
+        id, name, owner_id: null, public_key: publicKey, did: `did:agent:${id.replace(/-/g, '')}`, metadata: {},
+        status: 'active', claim_code: null, claim_code_expires_at: null, user_id: null, parent_did: rater.did, agent_type: 'worker'
+      });
+      workers.push({ did: worker.did, private_key: privateKey });
+    }
+    const siblings = await endorse(workers[0], workers[1].did, 5);
+    assert.equal(siblings.status, 403);
+    assert.equal(siblings.body.error, 'Related agents cannot endorse each other');
+    assert.equal((await endorse(workers[0], rater.did, 5)).status, 403);
+  });
+});
@@ -0,0 +1,54 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { createMemoryStore, MemoryStore } from '../src/db/memory';
+import { createApiRouter } from '../src/api';
+import { captureRawBody } from '../src/middleware/auth';
+import { AgentCredentials, AgentIdentity, AgentInfo } from '../sdk/index';
+
+/**
+ * Helpers for the behavior tests: the API on a free local port over an in-memory store
+ */
+
+export interface TestServer {
+  store: MemoryStore;
+  url: string;
+  client: AgentIdentity;
+  close(): Promise<void>;
+}
+
+export async function startServer(): Promise<TestServer> {
+  const store = createMemoryStore();
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.use(createApiRouter(store));
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    store,
+    url,
+    client: new AgentIdentity({ apiUrl: url }),
+    // fetch keeps connections alive, which would hold the server open
+    close: () => new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    })
+  };
+}
+
+// A raw JSON request, for the cases the SDK won't make
+export async function call(server: TestServer, method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${server.url}${path}`, {
+    method,
+    headers: { ...(body !== undefined && { 'Content-Type': 'application/json' }), ...headers },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+// An agent's DID and private key, as the SDK takes them for signed calls
+export function credentials(agent: AgentInfo): AgentCredentials {
+  return { did: agent.did, privateKey: agent.private_key! };
+}
@@ -0,0 +1,107 @@
+// Small limits, read when the hierarchy module loads
+process.env.HIERARCHY_MAX_DEPTH = '3';
+process.env.HIERARCHY_MAX_CHILDREN = '2';
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentInfo } from '../sdk/index';
+import { call, credentials, startServer, TestServer } from './helpers';
+
+describe('Agent hierarchies', () => {
+  let server: TestServer;
+  let root: AgentInfo;
+  let lead: AgentInfo;      // root's worker
+  let member: AgentInfo;    // lead's worker
+  let intern: AgentInfo;    // member's worker, at the depth limit
+  let sibling: AgentInfo;   // root's second worker
+
+  const workerOf = (parent: AgentInfo, name: string) => server.client.register({ name, parent: credentials(parent) });
+
+  before(async () => {
+    server = await startServer();
+    root = await server.client.register({ name: 'Root' });
+    lead = await workerOf(root, 'Lead');
+    member = await workerOf(lead, 'Member');
+    intern = await workerOf(member, 'Intern');
+    sibling = await workerOf(root, 'Sibling');
+  });
+  after(() => server.close());
+
+  it('limits depth and fan-out', async () => {
+    await assert.rejects(workerOf(intern, 'Too deep'), /Hierarchy limit reached/);
+    await assert.rejects(workerOf(root, 'Too many'), /Hierarchy limit reached/);
+  });
+
+  it('shows a subtree to the agent and its ancestors', async () => {
+    const { tree, summary } = await server.client.getTree(lead.did, undefined, credentials(root));
+    assert.equal(tree.did, lead.did);
+    assert.deepEqual(tree.children.map(c => c.did), [member.did]);
+    assert.deepEqual(tree.children[0].children.map(c => [c.did, c.depth]), [[intern.did, 2]]);
+    assert.equal(summary.agent_count, 3);
+    assert.equal(summary.truncated, false);
+
+    const shallow = await server.client.getTree(lead.did, 1, credentials(lead));
+    assert.equal(shallow.summary.agent_count, 2);
+    assert.equal(shallow.summary.truncated, true);
+
+    await assert.rejects(server.client.getTree(lead.did, undefined, credentials(sibling)), /Forbidden/);
+    assert.equal((await call(server, 'GET', `/agents/${encodeURIComponent(lead.did)}/tree`)).status, 401);
+  });
+
+  it('lists descendants flat with their depth', async () => {
+    const all = await server.client.getSubagents(credentials(root), 3);
+    assert.equal(all.count, 4);
+    assert.deepEqual(
+      all.subagents.map(s => [s.name, s.depth, s.parent_did]).sort(),
+      [['Intern', 3, member.did], ['Lead', 1, root.did], ['Member', 2, lead.did], ['Sibling', 1, root.did]]
+    );
+    assert.equal((await server.client.getSubagents(credentials(root))).count, 2);
+  });
+
+  it('needs the parent to register a worker', async () => {
+    const anonymous = await call(server, 'POST', '/agents/register', { name: 'Worker', parent_did: sibling.did });
+    assert.equal(anonymous.status, 401);
+
+    const tokens = await server.client.getAccessToken(credentials(lead));
+    const impostor = await call(server, 'POST', '/agents/register', { name: 'Worker', parent_did: sibling.did }, { Authorization: `Bearer ${tokens.access_token}` });
+    assert.equal(impostor.status, 403);
+
+    const worker = await workerOf(sibling, 'Worker');
+    assert.equal(worker.parent_did, sibling.did);
+    assert.equal(worker.agent_type, 'worker');
+  });
+
+  it('cascades a suspension down the subtree', async () => {
+    await server.client.changeStatus(intern.did, intern.private_key!, 'revoked');
+    await assert.rejects(server.client.changeStatus(lead.did, lead.private_key!, 'active', undefined, true), /Invalid status transition/);
+
+    const result = await server.client.changeStatus(lead.did, lead.private_key!, 'suspended', 'Incident', true);
+    assert.equal(result.status, 'suspended');
+    assert.deepEqual(result.cascaded!.map(c => [c.did, c.status]), [[member.did, 'suspended']]);
+    assert.deepEqual(result.cascade_skipped, [{ did: intern.did, status: 'revoked' }]);
+
+    const [change] = await server.store.getStatusHistory((await server.store.getAgentByDid(member.did))!.id);
+    assert.equal(change.changed_by, `ancestor:${lead.did}`);
+    assert.equal(change.reason, `Cascaded from ${lead.did}: Incident`);
+
+    // Not the worker's to undo
+    await assert.rejects(server.client.changeStatus(member.did, member.private_key!, 'active'), /Set by an ancestor/);
+
+    // Other branches are untouched
+    assert.equal((await server.client.getReputation(sibling.did)).reputation.status, 'active');
+  });
+
+  it('lets the ancestor lift the suspensions it cascaded', async () => {
+    const restored = await server.client.changeStatus(lead.did, lead.private_key!, 'active', undefined, true);
+    assert.equal(restored.status, 'active');
+    assert.deepEqual(restored.cascaded!.map(c => [c.did, c.previous_status, c.status]), [[member.did, 'suspended', 'active']]);
+    assert.deepEqual(restored.cascade_skipped, [{ did: intern.did, status: 'revoked' }]);
+
+    // A worker that suspended itself stays suspended through the ancestor's round trip
+    await server.client.changeStatus(member.did, member.private_key!, 'suspended', 'Maintenance');
+    await server.client.changeStatus(lead.did, lead.private_key!, 'suspended', 'Incident', true);
+    const again = await server.client.changeStatus(lead.did, lead.private_key!, 'active', undefined, true);
+    assert.deepEqual(again.cascaded, []);
+    assert.equal((await server.client.getReputation(member.did)).reputation.status, 'suspended');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { AgentIdentity, AgentInfo, SignRequestOptions, verifyRequest } from '../sdk/index';
+import { captureRawBody, httpSignatureAuth } from '../src/middleware/auth';
+import { startServer, TestServer } from './helpers';
+
+describe('HTTP Message Signatures', () => {
+  let server: TestServer;
+  let agent: AgentInfo;
+  before(async () => {
+    server = await startServer();
+    agent = await server.client.register({ name: 'Signer' });
+  });
+  after(() => server.close());
+
+  // Sign once, send as often as asked
+  function signed(method: string, path: string, options: Partial<SignRequestOptions> = {}) {
+    const body = options.body;
+    const headers = AgentIdentity.signRequest({
+      method,
+      url: `${server.url}${path}`,
+      keyId: agent.did,
+      privateKey: agent.private_key!,
+      ...options
+    });
+    return async () => {
+      const response = await fetch(`${server.url}${path}`, {
+        method,
+        headers: { ...headers, ...(body && { 'Content-Type': 'application/json' }) },
+        body
+      });
+      return { status: response.status, body: await response.json() as any };
+    };
+  }
+
+  it('verifies locally with the SDK', () => {
+    const request = { method: 'GET', url: 'https://example.com/agents/me' };
+    const headers = AgentIdentity.signRequest({ ...request, keyId: agent.did, privateKey: agent.private_key! });
+    assert.equal(verifyRequest({ ...request, headers }, agent.public_key).valid, true);
+    assert.equal(verifyRequest({ ...request, method: 'POST', headers }, agent.public_key).valid, false);
+  });
+
+  it('authenticates a signed request once without a nonce', async () => {
+    const send = signed('GET', '/agents/me');
+    const response = await send();
+    assert.equal(response.status, 200);
+    assert.equal(response.body.did, agent.did);
+
+    const replay = await send();
+    assert.equal(replay.status, 401);
+    assert.equal(replay.body.error, 'Signature already used');
+
+    const keyUrl = await signed('GET', '/agents/me', { keyId: `${agent.did}#key-1` })();
+    assert.equal(keyUrl.status, 200);
+  });
+
+  it('consumes a challenge nonce', async () => {
+    const { nonce } = await server.client.createChallenge(agent.did);
+    const send = signed('GET', '/agents/me', { nonce });
+    assert.equal((await send()).status, 200);
+
+    const replay = await send();
+    assert.equal(replay.status, 401);
+    assert.equal(replay.body.error, 'Challenge nonce already used');
+  });
+
+  it('refuses a signature outside the time window', async () => {
+    const response = await signed('GET', '/agents/me', { created: Math.floor(Date.now() / 1000) - 600 })();
+    assert.equal(response.status, 401);
+  });
+
+  it('needs a challenge nonce for an access token', async () => {
+    const body = JSON.stringify({ grant_type: 'agent_signature' });
+    const withoutNonce = await signed('POST', '/auth/token', { body })();
+    assert.equal(withoutNonce.status, 401);
+
+    const { nonce } = await server.client.createChallenge(agent.did);
+    const send = signed('POST', '/auth/token', { body, nonce });
+    const granted = await send();
+    assert.equal(granted.status, 200);
+    assert.ok(granted.body.access_token);
+    assert.equal((await send()).status, 401);
+  });
+
+  it('refuses signatures by a retired key', async () => {
+    const rotating = await server.client.register({ name: 'Rotating signer' });
+    const headers = AgentIdentity.signRequest({ method: 'GET', url: `${server.url}/agents/me`, keyId: rotating.did, privateKey: rotating.private_key! });
+    await server.client.rotateKey(rotating.did, rotating.private_key!, AgentIdentity.generateKeyPair().publicKey);
+
+    const response = await fetch(`${server.url}/agents/me`, { headers });
+    assert.equal(response.status, 401);
+  });
+
+  describe('middleware', () => {
+    let app: Server;
+    let url: string;
+    before(async () => {
+      const echo = express();
+      echo.use(express.json({ verify: captureRawBody }));
+      echo.post('/echo', httpSignatureAuth(server.store), (req, res) => res.json({ did: res.locals.agent.did, body: req.body }));
+      app = echo.listen(0, '127.0.0.1');
+      await new Promise(resolve => app.once('listening', resolve));
+      url = `http://127.0.0.1:${(app.address() as AddressInfo).port}/echo`;
+    });
+    after(() => { app.close(); app.closeAllConnections(); });
+
+    function post(headers: Record<string, string>, body: string) {
+      return fetch(url, { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body });
+    }
+
+    it('passes the signing agent on', async () => {
+      const body = JSON.stringify({ task: 'deploy' });
+      const response = await post(AgentIdentity.signRequest({ method: 'POST', url, body, keyId: agent.did, privateKey: agent.private_key! }), body);
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { did: agent.did, body: { task: 'deploy' } });
+    });
+
+    it('refuses a tampered body', async () => {
+      const headers = AgentIdentity.signRequest({ method: 'POST', url, body: JSON.stringify({ task: 'deploy' }), keyId: agent.did, privateKey: agent.private_key! });
+      const response = await post(headers, JSON.stringify({ task: 'delete everything' }));
+      assert.equal(response.status, 401);
+      assert.equal(((await response.json()) as any).error, 'Content-Digest does not match the body');
+    });
+
+    it('needs the body digest to be signed', async () => {
+      const headers = AgentIdentity.signRequest({ method: 'POST', url, keyId: agent.did, privateKey: agent.private_key! });
+      const response = await post(headers, JSON.stringify({ task: 'deploy' }));
+      assert.equal(response.status, 401);
+      assert.match(((await response.json()) as any).error, /content-digest/);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity, signPayload } from '../sdk/index';
+import { createRotationMessage } from '../src/utils/crypto';
+import { startServer, call, TestServer } from './helpers';
+
+describe('key rotation', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  it('rotates to a new key under the same DID', async () => {
+    const agent = await server.client.register({ name: 'Rotating' });
+    const next = AgentIdentity.generateKeyPair();
+    const rotation = await server.client.rotateKey(agent.did, agent.private_key!, next.publicKey);
+
+    assert.equal(rotation.did, agent.did);
+    assert.equal(rotation.key_id, `${agent.did}#key-2`);
+    assert.equal(rotation.previous_key_id, `${agent.did}#key-1`);
+
+    const profile = await server.client.get(agent.did);
+    assert.equal(profile.public_key, next.publicKey);
+    const document = profile.did_document as any;
+    assert.deepEqual(document.verificationMethod.map((method: any) => [method.id, !!method.revoked]), [
+      [`${agent.did}#key-1`, true],
+      [`${agent.did}#key-2`, false]
+    ]);
+    assert.deepEqual(document.authentication, [`${agent.did}#key-2`]);
+  });
+
+  it('retires the old key, except for signatures the service recorded', async () => {
+    const agent = await server.client.register({ name: 'Historic' });
+    const claim = signPayload('claim', { did: agent.did, claim_type: 'capability', claim_value: 'search', signed_at: null }, agent.private_key!);
+    await server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', claimValue: 'search', signature: claim.signature });
+    const unrecorded = AgentIdentity.sign('hello', agent.private_key!);
+
+    const next = AgentIdentity.generateKeyPair();
+    await server.client.rotateKey(agent.did, agent.private_key!, next.publicKey);
+
+    const current = await server.client.verify(agent.did, 'hello', AgentIdentity.sign('hello', next.privateKey));
+    assert.equal(current.verified, true);
+    assert.equal(current.key_status, 'current');
+
+    // The retired key no longer verifies fresh signatures
+    assert.equal((await server.client.verify(agent.did, 'hello', unrecorded)).verified, false);
+
+    const backdated = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const recorded = await server.client.verify(agent.did, claim.payload, claim.signature, backdated);
+    assert.equal(recorded.verified, true);
+    assert.equal(recorded.key_status, 'retired');
+    assert.ok((recorded as any).recorded_at);
+
+    await assert.rejects(server.client.verify(agent.did, 'hello', unrecorded, backdated), /signed_at must be within 5 minutes/);
+  });
+
+  it('takes claims only from the current key, signed recently', async () => {
+    const agent = await server.client.register({ name: 'Claimant' });
+    const old = agent.private_key!;
+    await server.client.rotateKey(agent.did, old, AgentIdentity.generateKeyPair().publicKey);
+
+    await assert.rejects(
+      server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', claimValue: 'search', privateKey: old }),
+      /Signature verification failed/
+    );
+
+    const stale = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    await assert.rejects(
+      server.client.verifyClaim({ agentId: agent.did, claimType: 'capability', privateKey: old, signedAt: stale }),
+      /signed_at must be within 5 minutes/
+    );
+  });
+
+  it('needs the current key to sign the rotation', async () => {
+    const agent = await server.client.register({ name: 'Hijacked' });
+    const attacker = AgentIdentity.generateKeyPair();
+    const timestamp = new Date().toISOString();
+    const message = createRotationMessage(agent.did, agent.public_key, attacker.publicKey, timestamp);
+
+    const response = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/rotate-key`, {
+      new_public_key: attacker.publicKey,
+      timestamp,
+      signature: AgentIdentity.sign(message, attacker.privateKey)
+    });
+    assert.equal(response.status, 401);
+    assert.equal((await server.client.get(agent.did)).public_key, agent.public_key);
+  });
+
+  it('refuses stale statements and reused keys', async () => {
+    const agent = await server.client.register({ name: 'Careful' });
+    const next = AgentIdentity.generateKeyPair();
+    const timestamp = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const stale = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/rotate-key`, {
+      new_public_key: next.publicKey,
+      timestamp,
+      signature: AgentIdentity.sign(createRotationMessage(agent.did, agent.public_key, next.publicKey, timestamp), agent.private_key!)
+    });
+    assert.equal(stale.status, 401);
+
+    await server.client.rotateKey(agent.did, agent.private_key!, next.publicKey);
+    await assert.rejects(server.client.rotateKey(agent.did, next.privateKey, agent.public_key), /previously used key/);
+  });
+});
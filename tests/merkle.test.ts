@@ -0,0 +1,231 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { consistencyProof, inclusionProof, leafHash, merkleRoot, verifyConsistency, verifyInclusion } from '../src/utils/merkle';
+import { createReputationCheckpoint, verifyReputationChain, verifyReputationCheckpoint } from '../src/utils/eventchain';
+import { logEntryData } from '../src/utils/transparency';
+import { generateDIDKey } from '../src/utils/crypto';
+import {
+  AgentIdentity,
+  DidLogProof,
+  signPayload,
+  TreeHead,
+  verifyDidLogProof,
+  verifyLogConsistency,
+  verifyReputationProof,
+  verifyTreeHead
+} from '../sdk/index';
+import { startServer, TestServer } from './helpers';
+
+describe('Merkle trees', () => {
+  const leaves = Array.from({ length: 13 }, (_, i) => leafHash(`entry ${i}`));
+
+  it('proves inclusion of every leaf at every tree size', () => {
+    for (let size = 1; size <= leaves.length; size++) {
+      const tree = leaves.slice(0, size);
+      const root = merkleRoot(tree);
+      for (let index = 0; index < size; index++) {
+        assert.equal(verifyInclusion(tree[index], index, size, inclusionProof(tree, index), root), true);
+      }
+    }
+  });
+
+  it('refuses an inclusion proof for another leaf or position', () => {
+    const root = merkleRoot(leaves);
+    const path = inclusionProof(leaves, 5);
+    assert.equal(verifyInclusion(leaves[6], 5, leaves.length, path, root), false);
+    assert.equal(verifyInclusion(leaves[5], 4, leaves.length, path, root), false);
+  });
+
+  it('proves every smaller tree is a prefix of the larger one', () => {
+    const root = merkleRoot(leaves);
+    for (let size = 1; size < leaves.length; size++) {
+      const proof = consistencyProof(leaves, size);
+      assert.equal(verifyConsistency(size, leaves.length, proof, merkleRoot(leaves.slice(0, size)), root), true);
+      assert.equal(verifyConsistency(size, leaves.length, proof, leafHash('forged'), root), false);
+    }
+  });
+});
+
+describe('transparency log', () => {
+  let server: TestServer;
+  let issuerPublicKey: string;
+  const attacker = AgentIdentity.generateKeyPair();
+  const attackerDid = generateDIDKey(attacker.publicKey);
+
+  // A tree head the attacker signs for their own log, naming themselves as the issuer
+  function selfIssuedHead(treeSize: number, rootHash: string): TreeHead {
+    const fields = { tree_size: treeSize, root_hash: rootHash, issuer: attackerDid, created_at: new Date().toISOString() };
+    return { ...fields, signature: signPayload('tree_head', fields, attacker.privateKey).signature };
+  }
+
+  before(async () => {
+    server = await startServer();
+    issuerPublicKey = (await server.client.getIssuer()).public_key;
+  });
+  after(() => server.close());
+
+  it('logs registrations, key rotations and revocations', async () => {
+    const agent = await server.client.register({ name: 'Logged' });
+    const start = (await server.client.getTreeHead()).tree_size - 1;
+    const next = AgentIdentity.generateKeyPair();
+    await server.client.rotateKey(agent.did, agent.private_key!, next.publicKey);
+    await server.client.changeStatus(agent.did, next.privateKey, 'revoked', 'Retired');
+
+    const { entries } = await server.client.getLogEntries(start);
+    assert.deepEqual(entries.map(e => [e.entry_type, e.public_key]), [
+      ['registration', agent.public_key],
+      ['key_rotation', next.publicKey],
+      ['revocation', next.publicKey]
+    ]);
+    assert.ok(entries.every(e => e.did === agent.did));
+  });
+
+  it('verifies a DID log proof and consistency against the issuer key', async () => {
+    const agent = await server.client.register({ name: 'Proven' });
+    const older = await server.client.getTreeHead();
+    const next = AgentIdentity.generateKeyPair();
+    await server.client.rotateKey(agent.did, agent.private_key!, next.publicKey);
+    const head = await server.client.getTreeHead();
+    assert.equal(head.tree_size, older.tree_size + 1);
+    assert.equal(verifyTreeHead(head, issuerPublicKey).valid, true);
+
+    const { proof } = await server.client.getLogConsistencyProof(older.tree_size, head.tree_size);
+    assert.deepEqual(verifyLogConsistency(older, head, proof, issuerPublicKey), { valid: true });
+
+    const check = verifyDidLogProof(await server.client.getDidLogProof(agent.did, head.tree_size), head, issuerPublicKey);
+    assert.equal(check.valid, true);
+    assert.equal(check.public_key, next.publicKey);
+
+    // The proof at the older size still shows the first key
+    const before = verifyDidLogProof(await server.client.getDidLogProof(agent.did, older.tree_size), older, issuerPublicKey);
+    assert.equal(before.public_key, agent.public_key);
+  });
+
+  it('refuses an altered tree head or entry', async () => {
+    const agent = await server.client.register({ name: 'Altered' });
+    const head = await server.client.getTreeHead();
+    assert.equal(verifyTreeHead({ ...head, tree_size: head.tree_size + 1 }, issuerPublicKey).valid, false);
+
+    const proof = await server.client.getDidLogProof(agent.did, head.tree_size);
+    proof.entries[0].public_key = AgentIdentity.generateKeyPair().publicKey;
+    assert.equal(verifyDidLogProof(proof, head, issuerPublicKey).valid, false);
+  });
+
+  it('refuses a tree head signed by anyone but the issuer', async () => {
+    const head = await server.client.getTreeHead();
+    assert.equal(verifyTreeHead(selfIssuedHead(head.tree_size, head.root_hash), issuerPublicKey).valid, false);
+    assert.equal(verifyTreeHead(head, attacker.publicKey).valid, false);
+  });
+
+  it('refuses a self-issued log that binds a DID to another key', async () => {
+    const victim = await server.client.register({ name: 'Victim' });
+    const entry = {
+      leaf_index: 0,
+      entry_type: 'registration' as const,
+      did: victim.did,
+      public_key: attacker.publicKey,
+      key_id: `${victim.did}#key-1`,
+      created_at: new Date().toISOString()
+    };
+    const leaf = leafHash(logEntryData(entry));
+    const head = selfIssuedHead(1, merkleRoot([leaf]));
+    const forged: DidLogProof = {
+      did: victim.did,
+      tree_size: 1,
+      root_hash: head.root_hash,
+      entries: [{ ...entry, leaf_hash: leaf, audit_path: [] }],
+      tree_head: head
+    };
+
+    const check = verifyDidLogProof(forged, forged.tree_head, issuerPublicKey);
+    assert.equal(check.valid, false);
+    assert.equal(check.error, 'Invalid tree head signature');
+  });
+
+  it('refuses a consistency proof between heads of different logs', async () => {
+    const head = await server.client.getTreeHead();
+    const forged = selfIssuedHead(head.tree_size + 1, leafHash('forged'));
+    assert.equal(verifyLogConsistency(head, forged, [], issuerPublicKey).valid, false);
+  });
+});
+
+describe('reputation proofs', () => {
+  let server: TestServer;
+  let issuerPublicKey: string;
+
+  before(async () => {
+    server = await startServer();
+    issuerPublicKey = (await server.client.getIssuer()).public_key;
+  });
+  after(() => server.close());
+
+  it('chains every event to the one before', async () => {
+    const agent = await server.client.register({ name: 'Chained' });
+    await server.client.submitWorkReport(agent.did, agent.private_key!, { period: '2026-10-01', tasksCompleted: 2 });
+    const { id } = (await server.store.getAgentByDid(agent.did))!;
+
+    const chain = await server.store.getReputationChain(id);
+    assert.deepEqual(chain.map(e => e.seq), [1, 2]);
+    assert.equal(chain[1].prev_hash, chain[0].hash);
+    assert.deepEqual(verifyReputationChain(chain).head, await server.store.getReputationChainHead(id));
+
+    const edited = chain.map(e => ({ ...e }));
+    edited[0].description = 'Rewritten history';
+    assert.equal(verifyReputationChain(edited).error, 'Event 1 does not match its hash');
+    assert.equal(verifyReputationChain([chain[1]]).error, 'Chain broken before event 1');
+  });
+
+  it('verifies the score and checkpoint against the issuer key', async () => {
+    const agent = await server.client.register({ name: 'Reputable' });
+    await server.client.submitWorkReport(agent.did, agent.private_key!, { period: '2026-10-01', tasksCompleted: 5 });
+    const checkpoint = await createReputationCheckpoint(server.store);
+    assert.equal(verifyReputationCheckpoint(checkpoint, issuerPublicKey), true);
+    assert.equal(verifyReputationCheckpoint(checkpoint, AgentIdentity.generateKeyPair().publicKey), false);
+
+    const proof = await server.client.getReputationProof(agent.did);
+    const check = verifyReputationProof(proof, issuerPublicKey);
+    assert.equal(check.valid, true);
+    assert.equal(check.checkpointed_seq, 2);
+    assert.equal(check.score, proof.reputation.score);
+  });
+
+  it('refuses a checkpoint re-signed by a self-named issuer', async () => {
+    const agent = await server.client.register({ name: 'Inflated' });
+    await createReputationCheckpoint(server.store);
+    const proof = await server.client.getReputationProof(agent.did);
+    assert.ok(proof.checkpoint);
+
+    const attacker = AgentIdentity.generateKeyPair();
+    const issuer = generateDIDKey(attacker.publicKey);
+    const { checkpoint } = proof;
+    const fields = { root: checkpoint.root, agent_count: checkpoint.agent_count, event_count: checkpoint.event_count, issuer, created_at: checkpoint.created_at };
+    const forged = {
+      ...proof,
+      checkpoint: { ...checkpoint, issuer, signature: signPayload('reputation_checkpoint', fields, attacker.privateKey).signature },
+      issuer: { did: issuer, public_key: attacker.publicKey }
+    };
+
+    const check = verifyReputationProof(forged, issuerPublicKey);
+    assert.equal(check.valid, false);
+    assert.equal(check.error, 'Invalid checkpoint signature');
+  });
+
+  it('refuses tampered events', async () => {
+    const agent = await server.client.register({ name: 'Tampered' });
+    await server.client.submitWorkReport(agent.did, agent.private_key!, { period: '2026-10-01', tasksCompleted: 1 });
+    const proof = await server.client.getReputationProof(agent.did);
+    proof.events[proof.events.length - 1].score_delta += 100;
+
+    assert.equal(verifyReputationProof(proof, issuerPublicKey).valid, false);
+  });
+
+  it('refuses a score the events do not add up to', async () => {
+    const agent = await server.client.register({ name: 'Inflated' });
+    const proof = await server.client.getReputationProof(agent.did);
+    proof.reputation.score = 5;
+
+    const check = verifyReputationProof(proof, issuerPublicKey);
+    assert.equal(check.valid, false);
+    assert.equal(check.error, 'Score does not match the events');
+  });
+});
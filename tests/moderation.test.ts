@@ -0,0 +1,106 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentCredentials, AgentInfo } from '../sdk/index';
+import { call, startServer, TestServer } from './helpers';
+
+describe('Abuse reports and moderation', () => {
+  let server: TestServer;
+  let reporter: AgentCredentials;
+  const moderator = { Authorization: 'Bearer moderator-token' };
+  const owner = { Authorization: 'Bearer owner-token' };
+
+  before(async () => {
+    process.env.MODERATOR_USER_IDS = 'moderator-1';
+    server = await startServer();
+    server.store.addSession('moderator-token', { id: 'moderator-1', email: 'mod@example.com' });
+    server.store.addSession('owner-token', { id: 'owner-1', email: 'owner@example.com' });
+    const agent = await server.client.register({ name: 'Reporter' });
+    reporter = { did: agent.did, privateKey: agent.private_key! };
+  });
+  after(() => {
+    delete process.env.MODERATOR_USER_IDS;
+    server.close();
+  });
+
+  const credentials = (agent: AgentInfo): AgentCredentials => ({ did: agent.did, privateKey: agent.private_key! });
+
+  async function fileReport(subject: AgentInfo) {
+    return server.client.reportAgent(subject.did, { category: 'impersonation', description: 'Claims to be the billing bot', evidence: ['https://example.com/log'] }, reporter);
+  }
+
+  it('files one open report per reporter and agent', async () => {
+    const subject = await server.client.register({ name: 'Suspect' });
+    const report = await fileReport(subject);
+    assert.equal(report.status, 'open');
+
+    await assert.rejects(fileReport(subject), /Report already open/);
+    await assert.rejects(server.client.reportAgent(reporter.did, { category: 'spam', description: 'Me' }, reporter), /cannot report themselves/);
+
+    const anonymous = await call(server, 'POST', `/agents/${encodeURIComponent(subject.did)}/reports`, { category: 'spam', description: 'Spam' });
+    assert.equal(anonymous.status, 401);
+    await assert.rejects(server.client.reportAgent(subject.did, { category: 'rude' as any, description: 'Rude' }, reporter), /category must be one of/);
+  });
+
+  it('lets the reported agent see and answer reports without naming the reporter', async () => {
+    const subject = await server.client.register({ name: 'Answering' });
+    const report = await fileReport(subject);
+
+    const mine = await server.client.getMyReports(false, credentials(subject));
+    assert.equal(mine.total, 1);
+    assert.equal((mine.reports[0] as any).reporter, undefined);
+
+    const answered = await server.client.respondToReport(report.id, 'I am the billing bot', credentials(subject));
+    assert.equal(answered.agent_response, 'I am the billing bot');
+  });
+
+  it('restricts the queue to moderators', async () => {
+    assert.equal((await call(server, 'GET', '/moderation/reports')).status, 401);
+    assert.equal((await call(server, 'GET', '/moderation/reports', undefined, owner)).status, 403);
+
+    const queue = await call(server, 'GET', '/moderation/reports?status=open', undefined, moderator);
+    assert.equal(queue.status, 200);
+    assert.ok(queue.body.reports.length >= 2);
+    assert.ok(queue.body.reports.every((r: any) => r.status === 'open' && r.reporter === reporter.did));
+    assert.equal((await call(server, 'GET', '/moderation/reports?status=closed', undefined, moderator)).status, 400);
+  });
+
+  it('suspends with a penalty that only a moderator can lift', async () => {
+    const subject = await server.client.register({ name: 'Impostor' });
+    const report = await fileReport(subject);
+    const before = await server.client.getReputation(subject.did);
+
+    assert.equal((await call(server, 'POST', `/moderation/reports/${report.id}/review`, {}, moderator)).body.status, 'reviewing');
+    const resolved = await call(server, 'POST', `/moderation/reports/${report.id}/resolve`, { action: 'suspend', note: 'Confirmed', penalty: 1 }, moderator);
+    assert.equal(resolved.status, 200);
+    assert.equal(resolved.body.report.status, 'actioned');
+    assert.equal(resolved.body.report.resolved_by, 'moderator:moderator-1');
+
+    const after = await server.client.getReputation(subject.did);
+    assert.equal(after.reputation.status, 'suspended');
+    assert.ok(after.reputation.score <= before.reputation.score - 0.9);
+
+    // The agent can't undo a moderator's suspension with its own key
+    await assert.rejects(server.client.changeStatus(subject.did, subject.private_key!, 'active'), /Set by a moderator/);
+
+    const again = await call(server, 'POST', `/moderation/reports/${report.id}/resolve`, { action: 'dismiss' }, moderator);
+    assert.equal(again.status, 409);
+
+    const reinstated = await call(server, 'POST', `/moderation/agents/${encodeURIComponent(subject.did)}/reinstate`, { note: 'Appeal upheld' }, moderator);
+    assert.equal(reinstated.status, 200);
+    assert.equal((await server.client.getReputation(subject.did)).reputation.status, 'active');
+  });
+
+  it('counts upheld reports as flags', async () => {
+    const subject = await server.client.register({ name: 'Flagged' });
+    const report = await fileReport(subject);
+
+    const noPenalty = await call(server, 'POST', `/moderation/reports/${report.id}/resolve`, { action: 'dismiss', penalty: 1 }, moderator);
+    assert.equal(noPenalty.status, 400);
+
+    const flagged = await call(server, 'POST', `/moderation/reports/${report.id}/resolve`, { action: 'flag' }, moderator);
+    assert.equal(flagged.status, 200);
+
+    const verification = await call(server, 'GET', `/verify/${encodeURIComponent(subject.did)}`);
+    assert.equal(verification.body.flags, 1);
+  });
+});
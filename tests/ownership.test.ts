@@ -0,0 +1,102 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { call, credentials, startServer, TestServer } from './helpers';
+
+describe('Agent ownership', () => {
+  let server: TestServer;
+  const alice = { Authorization: 'Bearer alice-token' };
+  const bob = { Authorization: 'Bearer bob-token' };
+
+  before(async () => {
+    server = await startServer();
+    server.store.addSession('alice-token', { id: 'user-alice', email: 'alice@example.com' });
+    server.store.addSession('bob-token', { id: 'user-bob', email: 'bob@example.com' });
+  });
+  after(() => server.close());
+
+  it('claims a root agent once with an unexpired code', async () => {
+    const agent = await server.client.register({ name: 'Claimable' });
+    assert.match(agent.claim_code!, /^[A-HJ-NP-Z2-9]{10}$/);
+    assert.ok(new Date(agent.claim_code_expires_at!).getTime() > Date.now());
+
+    const claimed = await call(server, 'POST', '/agents/claim', { claim_code: agent.claim_code!.toLowerCase() }, alice);
+    assert.equal(claimed.status, 200);
+
+    // The code is used up
+    const again = await call(server, 'POST', '/agents/claim', { claim_code: agent.claim_code }, bob);
+    assert.equal(again.status, 404);
+
+    const expiring = await server.client.register({ name: 'Expiring' });
+    const stored = (await server.store.getAgentByDid(expiring.did))!;
+    await server.store.updateAgent(stored.id, { claim_code_expires_at: new Date(Date.now() - 1000).toISOString() });
+    const expired = await call(server, 'POST', '/agents/claim', { claim_code: expiring.claim_code }, alice);
+    assert.equal(expired.status, 400);
+    assert.equal(expired.body.error, 'Claim code expired');
+
+    // The agent replaces the expired code
+    const fresh = await server.client.issueClaimCode(credentials(expiring));
+    assert.notEqual(fresh.claim_code, expiring.claim_code);
+    assert.equal((await call(server, 'POST', '/agents/claim', { claim_code: fresh.claim_code }, alice)).status, 200);
+    await assert.rejects(server.client.issueClaimCode(credentials(expiring)), /Already claimed/);
+  });
+
+  it('transfers an agent and its workers once the recipient accepts', async () => {
+    const root = await server.client.register({ name: 'Transferred' });
+    await server.client.register({ name: 'Transferred worker', parent: credentials(root) });
+    const rootId = (await server.store.getAgentByDid(root.did))!.id;
+    await call(server, 'POST', '/agents/claim', { claim_code: root.claim_code }, alice);
+
+    assert.equal((await call(server, 'POST', `/agents/${rootId}/transfer`, { to_user_id: 'user-bob' }, bob)).status, 403);
+    assert.equal((await call(server, 'POST', `/agents/${rootId}/transfer`, { to_user_id: 'user-alice' }, alice)).status, 400);
+
+    const started = await call(server, 'POST', `/agents/${rootId}/transfer`, { to_user_id: 'user-bob' }, alice);
+    assert.equal(started.status, 201);
+    assert.equal(started.body.status, 'pending');
+    assert.equal((await call(server, 'POST', `/agents/${rootId}/transfer`, { to_user_id: 'user-bob' }, alice)).status, 409);
+
+    const incoming = await call(server, 'GET', '/transfers', undefined, bob);
+    assert.deepEqual(incoming.body.transfers.map((t: any) => [t.id, t.direction]), [[started.body.id, 'incoming']]);
+
+    // Only the recipient accepts
+    assert.equal((await call(server, 'POST', `/transfers/${started.body.id}/accept`, undefined, alice)).status, 403);
+    const accepted = await call(server, 'POST', `/transfers/${started.body.id}/accept`, undefined, bob);
+    assert.equal(accepted.status, 200);
+    assert.equal(accepted.body.sub_agents_transferred, 1);
+    assert.equal(accepted.body.transfer.status, 'accepted');
+    assert.equal((await call(server, 'POST', `/transfers/${started.body.id}/accept`, undefined, bob)).status, 409);
+
+    const ownership = await call(server, 'GET', `/agents/${rootId}/ownership`, undefined, bob);
+    assert.equal(ownership.body.user_id, 'user-bob');
+    assert.deepEqual(ownership.body.history.map((c: any) => [c.from_user_id, c.to_user_id]), [['user-alice', 'user-bob'], [null, 'user-alice']]);
+    assert.equal((await call(server, 'GET', `/agents/${rootId}/ownership`, undefined, alice)).status, 403);
+  });
+
+  it('lets either side cancel a pending transfer', async () => {
+    const agent = await server.client.register({ name: 'Declined' });
+    const id = (await server.store.getAgentByDid(agent.did))!.id;
+    await call(server, 'POST', '/agents/claim', { claim_code: agent.claim_code }, alice);
+
+    const started = await call(server, 'POST', `/agents/${id}/transfer`, { to_user_id: 'user-bob' }, alice);
+    const declined = await call(server, 'POST', `/transfers/${started.body.id}/cancel`, undefined, bob);
+    assert.equal(declined.body.transfer.status, 'cancelled');
+    assert.equal(declined.body.transfer.resolved_by, 'user:user-bob');
+    assert.equal((await call(server, 'POST', `/transfers/${started.body.id}/accept`, undefined, bob)).status, 409);
+    assert.equal((await server.store.getAgentById(id))!.user_id, 'user-alice');
+  });
+
+  it('releases an agent so it can be claimed again', async () => {
+    const agent = await server.client.register({ name: 'Released' });
+    const id = (await server.store.getAgentByDid(agent.did))!.id;
+    await call(server, 'POST', '/agents/claim', { claim_code: agent.claim_code }, alice);
+    const pending = await call(server, 'POST', `/agents/${id}/transfer`, { to_user_id: 'user-bob' }, alice);
+
+    const released = await call(server, 'POST', `/agents/${id}/release`, undefined, alice);
+    assert.equal(released.status, 200);
+    assert.equal((await server.store.getAgentById(id))!.user_id, null);
+    assert.equal((await server.store.getOwnershipTransfer(pending.body.id))!.status, 'cancelled');
+
+    const { claim_code } = await server.client.issueClaimCode(credentials(agent));
+    assert.equal((await call(server, 'POST', '/agents/claim', { claim_code }, bob)).status, 200);
+    assert.equal((await server.store.getAgentById(id))!.user_id, 'user-bob');
+  });
+});
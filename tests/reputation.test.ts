@@ -0,0 +1,199 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentInfo, signPayload } from '../sdk/index';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { NewAgent, ReputationEvent } from '../src/db/store';
+import { createMemoryStore } from '../src/db/memory';
+import { createSqliteStore } from '../src/db/sqlite';
+import {
+  aggregateEvents, computeReputation, eventValue, getReputation, getReputationModel, rebuildReputationAggregates,
+  reputationFromAggregate, workReportDelta, REPUTATION_MODELS
+} from '../src/utils/reputation';
+import { call, startServer, TestServer } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY).toISOString();
+const event = (event_type: string, days = 0, score_delta = 0, metadata: Record<string, any> = {}) =>
+  ({ event_type, score_delta, metadata, created_at: daysAgo(days) });
+
+describe('Reputation engine', () => {
+  const v1 = REPUTATION_MODELS.v1;
+  const v2 = REPUTATION_MODELS.v2;
+
+  it('weights events by type', () => {
+    assert.equal(eventValue(event('registration'), v2), 0.1);
+    assert.equal(eventValue(event('key_rotation', 0, 50), v2), 0);
+    // Types without a weight fall back to their stored delta
+    assert.equal(eventValue(event('manual_adjustment', 0, 25), v2), 0.25);
+  });
+
+  it('caps work reports in both directions', () => {
+    assert.equal(workReportDelta({ tasks_completed: 10, corrections: 0, positive_feedback: 5, errors: 0 }, v2), 0.2);
+    assert.equal(workReportDelta({ tasks_completed: 1000, corrections: 0, positive_feedback: 0, errors: 0 }, v2), 0.5);
+    assert.equal(workReportDelta({ tasks_completed: 0, corrections: 100, positive_feedback: 0, errors: 0 }, v2), -0.5);
+  });
+
+  it('halves an event every half-life in v2 and never decays in v1', () => {
+    const events = [event('manual_adjustment', 180, 100)];
+    assert.equal(computeReputation(events, v2, now).score, 3.5);
+    assert.equal(computeReputation(events, v1, now).score, 4);
+  });
+
+  it('stays between 0 and 5 stars', () => {
+    assert.equal(computeReputation([event('manual_adjustment', 0, 1000)], v2, now).score, 5);
+    assert.equal(computeReputation([event('penalty', 0, -1000)], v2, now).score, 0);
+  });
+
+  it('grows confidence with recent event volume', () => {
+    const few = computeReputation(Array.from({ length: 3 }, () => event('verification_success')), v2, now);
+    const many = computeReputation(Array.from({ length: 100 }, () => event('verification_success')), v2, now);
+    const stale = computeReputation(Array.from({ length: 100 }, () => event('verification_success', 720)), v2, now);
+    assert.ok(few.confidence < many.confidence);
+    assert.ok(stale.confidence < many.confidence);
+    assert.equal(computeReputation([], v2, now).confidence, 0);
+  });
+
+  it('picks the model from REPUTATION_ALGORITHM', () => {
+    assert.equal(getReputationModel()?.version, 'v2');
+    process.env.REPUTATION_ALGORITHM = 'v1';
+    try {
+      assert.equal(getReputationModel()?.version, 'v1');
+    } finally {
+      delete process.env.REPUTATION_ALGORITHM;
+    }
+    assert.equal(getReputationModel('v9'), null);
+  });
+});
+
+function agentRecord(id: string, did: string): NewAgent {
+  return {
+    id, did, name: id, owner_id: null, public_key: 'a'.repeat(64), metadata: {}, status: 'active',
+    claim_code: null, claim_code_expires_at: null, user_id: null, parent_did: null, agent_type: 'main'
+  };
+}
+
+describe('Reputation aggregates', () => {
+  const unsealed = { seq: null, prev_hash: null, hash: null };
+  const history: ReputationEvent[] = [
+    { id: 1, agent_id: 'a', event_type: 'registration', score_delta: 10, description: null, metadata: {}, ...unsealed, created_at: daysAgo(400) },
+    { id: 3, agent_id: 'a', event_type: 'manual_adjustment', score_delta: 40, description: null, metadata: {}, ...unsealed, created_at: daysAgo(30) },
+    { id: 2, agent_id: 'a', event_type: 'work_report', score_delta: 20, description: null, metadata: { tasks_completed: 10, positive_feedback: 5 }, ...unsealed, created_at: daysAgo(90) }
+  ];
+
+  it('give the same reputation as recomputing from events', () => {
+    for (const model of [REPUTATION_MODELS.v1, REPUTATION_MODELS.v2]) {
+      const aggregate = aggregateEvents('a', history, model);
+      assert.equal(aggregate.event_count, 3);
+      assert.equal(aggregate.tasks_completed, 10);
+      assert.deepEqual(reputationFromAggregate(aggregate, model, now), computeReputation(history, model, now));
+    }
+  });
+
+  it('are rebuilt under a new algorithm', async () => {
+    const store = createMemoryStore();
+    const agent = await store.createAgent(agentRecord('agent-1', 'did:agent:rebuild'));
+    await store.createReputationEvent({ agent_id: agent.id, event_type: 'registration', score_delta: 10, description: null, metadata: {} });
+    assert.equal((await store.getReputationAggregate(agent.id))!.algorithm, 'v2');
+
+    assert.equal(await rebuildReputationAggregates(store, REPUTATION_MODELS.v1), 1);
+    assert.equal((await store.getReputationAggregate(agent.id))!.algorithm, 'v1');
+    assert.equal((await getReputation(store, agent.id, REPUTATION_MODELS.v1)).score, 3.1);
+  });
+
+  it('are rebuilt by the rebuild command', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rebuild-'));
+    const dbPath = path.join(dir, 'identity.db');
+    try {
+      const db = new Database(dbPath);
+      const store = createSqliteStore(db);
+      const agent = await store.createAgent(agentRecord('agent-1', 'did:agent:command'));
+      await store.createReputationEvent({ agent_id: agent.id, event_type: 'registration', score_delta: 10, description: null, metadata: {} });
+      db.close();
+
+      const { stdout } = await promisify(execFile)(
+        process.execPath,
+        ['--require', 'ts-node/register', path.join(__dirname, '../src/rebuild-reputation.ts')],
+        { env: { ...process.env, DB_PATH: dbPath, REPUTATION_ALGORITHM: 'v1' } }
+      );
+      assert.match(stdout, /Rebuilding reputation aggregates with algorithm v1/);
+      assert.match(stdout, /Rebuilt 1 agent\(s\)/);
+
+      const reopened = new Database(dbPath);
+      const aggregate = await createSqliteStore(reopened).getReputationAggregate(agent.id);
+      reopened.close();
+      assert.equal(aggregate!.algorithm, 'v1');
+      assert.equal(aggregate!.event_count, 1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Reputation API', () => {
+  let server: TestServer;
+  let agent: AgentInfo;
+  before(async () => {
+    server = await startServer();
+    agent = await server.client.register({ name: 'Worker' });
+  });
+  after(() => server.close());
+
+  it('reports score, confidence and algorithm', async () => {
+    const { reputation } = await server.client.getReputation(agent.did);
+    assert.equal(reputation.score, 3.1);
+    assert.equal(reputation.algorithm, 'v2');
+    assert.ok(reputation.confidence > 0 && reputation.confidence < 1);
+
+    assert.equal((await server.client.getReputation(agent.did, 'v1')).reputation.algorithm, 'v1');
+    const profile = await call(server, 'GET', `/agents/${encodeURIComponent(agent.did)}`);
+    assert.equal(profile.body.reputation_algorithm, 'v2');
+  });
+
+  it('rejects an unknown algorithm', async () => {
+    const response = await call(server, 'GET', `/agents/${encodeURIComponent(agent.did)}/reputation?algorithm=v9`);
+    assert.equal(response.status, 400);
+    assert.deepEqual(response.body.algorithms, ['v1', 'v2']);
+  });
+
+  it('scores a signed work report', async () => {
+    const result = await server.client.submitWorkReport(agent.did, agent.private_key!, { tasksCompleted: 10, positiveFeedback: 5 });
+    assert.equal(result.delta, 0.2);
+    assert.equal(result.old_reputation, 3.1);
+    assert.equal(result.new_reputation, 3.3);
+  });
+
+  it('takes each signed work report once, while it is fresh', async () => {
+    const signed = async (counts: Record<string, unknown>, timestamp = new Date().toISOString()) => {
+      const { nonce } = await server.client.createChallenge(agent.did);
+      const fields = { did: agent.did, period: '2026-10-19', tasks_completed: 1, corrections: 0, positive_feedback: 0, errors: 0, ...counts, timestamp, nonce };
+      return { ...fields, signature: signPayload('work_report', fields, agent.private_key!).signature };
+    };
+    const submit = (body: object) => call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/work-report`, body);
+
+    const report = await signed({});
+    assert.equal((await submit(report)).status, 200);
+    const replayed = await submit(report);
+    assert.equal(replayed.status, 401);
+    assert.equal(replayed.body.error, 'Challenge nonce already used');
+
+    const stale = await submit(await signed({}, new Date(Date.now() - 10 * 60 * 1000).toISOString()));
+    assert.equal(stale.status, 401);
+
+    const { nonce, ...unbound } = await signed({});
+    assert.equal((await submit(unbound)).status, 400);
+  });
+
+  it('refuses work report counts that are not non-negative integers', async () => {
+    for (const counts of [{ tasks_completed: -3 }, { errors: 1.5 }, { corrections: '2' }, { positive_feedback: null }]) {
+      const response = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/work-report`, { ...counts, signature: 'unchecked' });
+      assert.equal(response.status, 400, JSON.stringify(counts));
+      assert.match(response.body.error, /must be a non-negative integer/);
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity } from '../sdk/index';
+import { startServer, TestServer } from './helpers';
+
+describe('DID resolution', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  async function resolve(did: string, accept?: string) {
+    const response = await fetch(`${server.url}/1.0/identifiers/${encodeURIComponent(did)}`, { headers: accept ? { Accept: accept } : {} });
+    return { status: response.status, contentType: response.headers.get('content-type'), body: await response.json() as any };
+  }
+
+  it('resolves a registered DID with its metadata', async () => {
+    const agent = await server.client.register({ name: 'Resolvable' });
+    await server.client.rotateKey(agent.did, agent.private_key!, AgentIdentity.generateKeyPair().publicKey);
+
+    const result = await server.client.resolve(agent.did);
+    assert.equal(result.didDocument!.id, agent.did);
+    assert.equal(result.didDocument!.verificationMethod.length, 2);
+    assert.equal(result.didResolutionMetadata.contentType, 'application/did+ld+json');
+    assert.equal(result.didDocumentMetadata.deactivated, false);
+    assert.equal(result.didDocumentMetadata.versionId, '2');
+  });
+
+  it('returns the bare document when asked for one', async () => {
+    const agent = await server.client.register({ name: 'Bare' });
+    const response = await resolve(agent.did, 'application/did+json');
+    assert.equal(response.status, 200);
+    assert.match(response.contentType!, /^application\/did\+json/);
+    assert.equal(response.body.id, agent.did);
+    assert.equal(response.body.didDocument, undefined);
+  });
+
+  it('answers 410 for a revoked DID', async () => {
+    const agent = await server.client.register({ name: 'Gone' });
+    await server.client.revoke(agent.did, agent.private_key!);
+
+    const response = await resolve(agent.did);
+    assert.equal(response.status, 410);
+    assert.equal(response.body.didDocumentMetadata.deactivated, true);
+    assert.equal(response.body.didDocumentMetadata.agentStatus, 'revoked');
+    assert.ok(response.body.didDocumentMetadata.deactivatedAt);
+  });
+
+  it('reports resolution errors in the metadata', async () => {
+    const cases: Array<[string, string | undefined, number, string]> = [
+      [`did:agent:${'0'.repeat(32)}`, undefined, 404, 'notFound'],
+      ['not-a-did', undefined, 400, 'invalidDid'],
+      ['did:agent:short', undefined, 400, 'invalidDid'],
+      ['did:example:123', undefined, 501, 'methodNotSupported'],
+      [`did:agent:${'0'.repeat(32)}`, 'text/html', 406, 'representationNotSupported']
+    ];
+    for (const [did, accept, status, error] of cases) {
+      const response = await resolve(did, accept);
+      assert.equal(response.status, status, did);
+      assert.equal(response.body.didResolutionMetadata.error, error, did);
+      assert.equal(response.body.didDocument, null);
+    }
+  });
+});
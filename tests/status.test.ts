@@ -0,0 +1,113 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity, createPayload } from '../sdk/index';
+import { createStatusChangeMessage } from '../src/utils/crypto';
+import { startServer, call, TestServer } from './helpers';
+
+describe('status lifecycle', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startServer();
+    server.store.addSession('owner-token', { id: 'owner-1', email: 'owner@example.com' });
+  });
+  after(() => server.close());
+
+  const owner = { Authorization: 'Bearer owner-token' };
+
+  it('lets an agent suspend and reactivate itself', async () => {
+    const agent = await server.client.register({ name: 'Self' });
+    const suspended = await server.client.changeStatus(agent.did, agent.private_key!, 'suspended', 'maintenance');
+    assert.equal(suspended.previous_status, 'active');
+    assert.equal(suspended.status_reason, 'maintenance');
+
+    const verify = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/verify`, {
+      message: 'hello',
+      signature: AgentIdentity.sign('hello', agent.private_key!)
+    });
+    assert.equal(verify.status, 403);
+    assert.equal(verify.body.status, 'suspended');
+
+    assert.equal((await server.client.changeStatus(agent.did, agent.private_key!, 'active')).status, 'active');
+    assert.equal((await server.client.verify(agent.did, 'hello', AgentIdentity.sign('hello', agent.private_key!))).verified, true);
+  });
+
+  it('makes revocation permanent', async () => {
+    const agent = await server.client.register({ name: 'Revoked' });
+    await server.client.revoke(agent.did, agent.private_key!, 'key leaked');
+
+    await assert.rejects(server.client.changeStatus(agent.did, agent.private_key!, 'active'), /Agent is revoked/);
+    await assert.rejects(server.client.rotateKey(agent.did, agent.private_key!, AgentIdentity.generateKeyPair().publicKey), /Agent is revoked/);
+  });
+
+  it('needs the agent key to sign the change', async () => {
+    const agent = await server.client.register({ name: 'Targeted' });
+    const attacker = AgentIdentity.generateKeyPair();
+    const timestamp = new Date().toISOString();
+    const { nonce } = await server.client.createChallenge(agent.did);
+
+    const response = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/status`, {
+      status: 'revoked',
+      timestamp,
+      nonce,
+      signature: AgentIdentity.sign(createStatusChangeMessage(agent.did, 'revoked', null, timestamp, nonce), attacker.privateKey)
+    });
+    assert.equal(response.status, 401);
+    assert.equal((await server.client.get(agent.did)).status, 'active');
+  });
+
+  it('only accepts lifecycle statuses', async () => {
+    const agent = await server.client.register({ name: 'Flagged' });
+    const timestamp = new Date().toISOString();
+    const { nonce } = await server.client.createChallenge(agent.did);
+
+    const response = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/status`, {
+      status: 'flagged',
+      timestamp,
+      nonce,
+      signature: AgentIdentity.sign(createStatusChangeMessage(agent.did, 'flagged', null, timestamp, nonce), agent.private_key!)
+    });
+    assert.equal(response.status, 400);
+  });
+
+  it('refuses a signed change without a nonce', async () => {
+    const agent = await server.client.register({ name: 'No nonce' });
+    const timestamp = new Date().toISOString();
+    const response = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/status`, {
+      status: 'suspended',
+      timestamp,
+      signature: AgentIdentity.sign(createPayload('change_status', { did: agent.did, status: 'suspended', reason: null, timestamp }), agent.private_key!)
+    });
+    assert.equal(response.status, 400);
+  });
+
+  it('refuses a replayed change', async () => {
+    const agent = await server.client.register({ name: 'Replayed' });
+    const { nonce } = await server.client.createChallenge(agent.did);
+    const timestamp = new Date().toISOString();
+    const body = {
+      status: 'suspended',
+      timestamp,
+      nonce,
+      signature: AgentIdentity.sign(createStatusChangeMessage(agent.did, 'suspended', null, timestamp, nonce), agent.private_key!)
+    };
+
+    assert.equal((await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/status`, body)).status, 200);
+    await server.client.changeStatus(agent.did, agent.private_key!, 'active');
+
+    const replay = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/status`, body);
+    assert.equal(replay.status, 401);
+    assert.equal((await server.client.get(agent.did)).status, 'active');
+  });
+
+  it('leaves an owner suspension to the owner', async () => {
+    const agent = await server.client.register({ name: 'Owned' });
+    assert.equal((await call(server, 'POST', '/agents/claim', { claim_code: agent.claim_code }, owner)).status, 200);
+    const suspend = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/status`, { status: 'suspended' }, owner);
+    assert.equal(suspend.status, 200);
+
+    await assert.rejects(server.client.changeStatus(agent.did, agent.private_key!, 'active'), /Set by the owner/);
+
+    const reactivate = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/status`, { status: 'active' }, owner);
+    assert.equal(reactivate.body.status, 'active');
+  });
+});
@@ -0,0 +1,502 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { Store, NewAgent, ConflictError } from '../src/db/store';
+import { createMemoryStore } from '../src/db/memory';
+import { createSqliteStore } from '../src/db/sqlite';
+import { AgentIdentity } from '../sdk/index';
+import { parseAgentSearch } from '../src/utils/directory';
+import { getReputationModel } from '../src/utils/reputation';
+
+/**
+ * The same contract, run against every backend that works without a network
+ */
+
+const backends: Array<[string, () => Store]> = [
+  ['memory', () => createMemoryStore()],
+  ['sqlite', () => createSqliteStore(new Database(':memory:'))]
+];
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+function newAgent(overrides: Partial<NewAgent> = {}): NewAgent {
+  const id = uuidv4();
+  return {
+    id,
+    name: `Agent ${id.slice(0, 8)}`,
+    owner_id: null,
+    public_key: AgentIdentity.generateKeyPair().publicKey,
+    did: `did:agent:${id.replace(/-/g, '')}`,
+    metadata: { team: 'infra' },
+    status: 'active',
+    claim_code: null,
+    claim_code_expires_at: null,
+    user_id: null,
+    parent_did: null,
+    agent_type: 'main',
+    ...overrides
+  };
+}
+
+for (const [backend, createStore] of backends) {
+  describe(`${backend} store`, () => {
+    let store: Store;
+    beforeEach(() => { store = createStore(); });
+
+    it('creates agents with their first key and refuses duplicate DIDs', async () => {
+      const agent = await store.createAgent(newAgent());
+      assert.deepEqual(agent.metadata, { team: 'infra' });
+      assert.equal((await store.getAgentByDid(agent.did))!.id, agent.id);
+      assert.equal(await store.getAgentById('missing'), null);
+
+      const keys = await store.getAgentKeys(agent.id);
+      assert.equal(keys.length, 1);
+      assert.equal(keys[0].key_index, 1);
+      assert.equal(keys[0].public_key, agent.public_key);
+      assert.equal(keys[0].valid_until, null);
+
+      await assert.rejects(store.createAgent(newAgent({ did: agent.did })), ConflictError);
+    });
+
+    it('records when a did:web domain was checked', async () => {
+      const agent = await store.createAgent(newAgent({ did: `did:web:${uuidv4()}.example.com` }));
+      assert.equal(agent.did_web_verified_at, null);
+
+      const checkedAt = new Date().toISOString();
+      await store.updateAgent(agent.id, { did_web_verified_at: checkedAt });
+      assert.equal((await store.getAgentByDid(agent.did))!.did_web_verified_at, checkedAt);
+    });
+
+    it('keeps the key history across rotations', async () => {
+      const agent = await store.createAgent(newAgent());
+      const second = AgentIdentity.generateKeyPair().publicKey;
+      const third = AgentIdentity.generateKeyPair().publicKey;
+      const firstRotation = new Date(Date.now() + 1000).toISOString();
+      const secondRotation = new Date(Date.now() + 2000).toISOString();
+
+      const rotated = await store.rotateAgentKey(agent.id, 2, second, 'sig-2', firstRotation);
+      assert.equal(rotated!.key_index, 2);
+      assert.equal(rotated!.rotation_signature, 'sig-2');
+      await store.rotateAgentKey(agent.id, 3, third, 'sig-3', secondRotation);
+
+      const keys = await store.getAgentKeys(agent.id);
+      assert.deepEqual(keys.map(k => [k.key_index, k.public_key, k.valid_until]), [
+        [1, agent.public_key, firstRotation],
+        [2, second, secondRotation],
+        [3, third, null]
+      ]);
+      assert.equal((await store.getAgentById(agent.id))!.public_key, third);
+    });
+
+    it('records status changes newest first', async () => {
+      const agent = await store.createAgent(newAgent());
+      const suspended = await store.changeAgentStatus(agent, 'suspended', 'maintenance', 'agent', 'sig');
+      assert.equal(suspended!.status, 'suspended');
+      assert.equal(suspended!.status_reason, 'maintenance');
+      await tick();
+      await store.changeAgentStatus(suspended!, 'active', null, 'user:owner-1', null);
+
+      const history = await store.getStatusHistory(agent.id);
+      assert.deepEqual(history.map(h => [h.from_status, h.to_status, h.changed_by]), [
+        ['suspended', 'active', 'user:owner-1'],
+        ['active', 'suspended', 'agent']
+      ]);
+    });
+
+    it('lists agents newest first with a total', async () => {
+      const created = [];
+      for (let i = 0; i < 3; i++) {
+        created.push(await store.createAgent(newAgent()));
+        await tick();
+      }
+      const page = await store.listAgents(2, 1);
+      assert.equal(page.total, 3);
+      assert.deepEqual(page.agents.map(a => a.id), [created[1].id, created[0].id]);
+    });
+
+    it('claims an agent together with its sub-agents', async () => {
+      const parent = await store.createAgent(newAgent({ claim_code: 'K7QM2XW9PA', claim_code_expires_at: new Date(Date.now() + 60000).toISOString() }));
+      await store.createAgent(newAgent({ parent_did: parent.did, agent_type: 'worker' }));
+      await store.createAgent(newAgent({ parent_did: parent.did, agent_type: 'worker' }));
+      await store.createAgent(newAgent());
+
+      assert.equal(await store.changeAgentOwner(parent.id, null, 'user-1', 'user:user-1', null), 2);
+      assert.equal((await store.getAgentsByUser('user-1')).length, 3);
+      assert.equal(await store.getAgentByClaimCode('K7QM2XW9PA'), null);
+      // Only from the expected owner
+      assert.equal(await store.changeAgentOwner(parent.id, null, 'user-2', 'user:user-2', null), null);
+      assert.equal((await store.getChildAgents(parent.did)).length, 2);
+
+      const stats = await store.getStats();
+      assert.equal(stats.total_agents, 4);
+      assert.equal(stats.worker_agents, 2);
+    });
+
+    it('hides expired verifications', async () => {
+      const agent = await store.createAgent(newAgent());
+      const verification = (claim_value: string, expires_at: string | null) => ({
+        id: uuidv4(),
+        agent_id: agent.id,
+        verifier_id: null,
+        claim_type: 'capability',
+        claim_value,
+        verified_at: new Date().toISOString(),
+        expires_at,
+        signature: null,
+        credential: { id: 'urn:uuid:test' },
+        credential_jwt: null
+      });
+      await store.createVerification(verification('expired', new Date(Date.now() - 1000).toISOString()));
+      await store.createVerification(verification('current', new Date(Date.now() + 60000).toISOString()));
+
+      const verifications = await store.getVerificationsByAgent(agent.id);
+      assert.deepEqual(verifications.map(v => v.claim_value), ['current']);
+      assert.deepEqual(verifications[0].credential, { id: 'urn:uuid:test' });
+    });
+
+    it('lists reputation events, all of them unless limited', async () => {
+      const agent = await store.createAgent(newAgent());
+      await store.createReputationEvent({ agent_id: agent.id, event_type: 'registration', score_delta: 10, description: null, metadata: {} });
+      for (let i = 0; i < 120; i++) {
+        await store.createReputationEvent({ agent_id: agent.id, event_type: 'work_report', score_delta: 5, description: null, metadata: { tasks: 3 } });
+      }
+
+      const events = await store.getReputationEvents(agent.id);
+      assert.equal(events.length, 121);
+      assert.equal(events.filter(e => e.event_type === 'registration').length, 1);
+      assert.deepEqual(events.find(e => e.event_type === 'work_report')!.metadata, { tasks: 3 });
+      assert.equal((await store.getReputationEvents(agent.id, 10)).length, 10);
+    });
+
+    it('keeps the reputation aggregate in step with events', async () => {
+      const agent = await store.createAgent(newAgent());
+      assert.equal(await store.getReputationAggregate(agent.id), null);
+
+      await store.createReputationEvent({ agent_id: agent.id, event_type: 'registration', score_delta: 10, description: null, metadata: {} });
+      await store.createReputationEvent({ agent_id: agent.id, event_type: 'work_report', score_delta: 20, description: null, metadata: { tasks_completed: 10, positive_feedback: 5 } });
+
+      const aggregate = await store.getReputationAggregate(agent.id);
+      assert.equal(aggregate!.algorithm, 'v2');
+      assert.equal(aggregate!.event_count, 2);
+      assert.equal(aggregate!.tasks_completed, 10);
+      assert.ok(Math.abs(aggregate!.score_sum - 0.3) < 1e-6);
+    });
+
+    it('saves and batch-loads aggregates', async () => {
+      const first = await store.createAgent(newAgent());
+      const second = await store.createAgent(newAgent());
+      const aggregate = { agent_id: first.id, algorithm: 'v1', score_sum: 1.5, volume: 4, event_count: 4, tasks_completed: 12, last_event_at: '2026-10-01T00:00:00.000Z', updated_at: '2026-10-02T00:00:00.000Z' };
+      await store.saveReputationAggregate(aggregate);
+      await store.saveReputationAggregate({ ...aggregate, score_sum: 2 });
+
+      assert.deepEqual(await store.getReputationAggregate(first.id), { ...aggregate, score_sum: 2 });
+      const loaded = await store.getReputationAggregates([first.id, second.id]);
+      assert.deepEqual(loaded.map(a => a.agent_id), [first.id]);
+    });
+
+    it('stores one endorsement per rater, subject and period', async () => {
+      const rater = await store.createAgent(newAgent());
+      const subject = await store.createAgent(newAgent());
+      const endorsement = (period: string, rating: number) => ({
+        id: uuidv4(), rater_id: rater.id, rater_did: rater.did, subject_id: subject.id, subject_did: subject.did,
+        rating, context: 'code-review', interaction_ref: null, period, weight: 0.5, signature: 'sig'
+      });
+
+      await store.createEndorsement(endorsement('2026-09', 2));
+      await tick();
+      await store.createEndorsement(endorsement('2026-10', 5));
+      await assert.rejects(store.createEndorsement(endorsement('2026-10', 4)), ConflictError);
+
+      assert.deepEqual((await store.getEndorsementsForAgent(subject.id, 10)).map(e => e.period), ['2026-10', '2026-09']);
+      assert.deepEqual(await store.getEndorsementStats(subject.id), { count: 2, average_rating: 3.5 });
+      assert.deepEqual(await store.getEndorsementStats(rater.id), { count: 0, average_rating: null });
+    });
+
+    it('records a report\'s task receipts all or nothing', async () => {
+      const agent = await store.createAgent(newAgent());
+      const receipt = (task_id: string, countersigner = 'did:agent:requester') => ({
+        id: uuidv4(), agent_id: agent.id, task_id, outcome: 'completed', positive_feedback: true, countersigner, signature: 'sig'
+      });
+      const issued = await store.createTaskReceipt({ ...receipt('job-1', 'api_key:key-1'), signature: null, report_id: null });
+      assert.equal((await store.getTaskReceipt(issued.id))!.report_id, null);
+      await assert.rejects(store.createTaskReceipt({ ...receipt('job-1', 'api_key:key-1'), report_id: null }), ConflictError);
+
+      await store.recordReportReceipts('report-1', [receipt('t-1'), receipt('t-2')], [issued.id]);
+      assert.equal((await store.getTaskReceipt(issued.id))!.report_id, 'report-1');
+
+      // One repeated task fails the whole report
+      await assert.rejects(store.recordReportReceipts('report-2', [receipt('t-3'), receipt('t-1')], []), ConflictError);
+      await assert.rejects(store.recordReportReceipts('report-3', [receipt('t-4')], [issued.id]), ConflictError);
+      assert.deepEqual(await store.getTaskReceiptStats(agent.id), { completed: 3, corrected: 0, failed: 0, positive_feedback: 3 });
+    });
+
+    it('queues abuse reports for moderation', async () => {
+      const agent = await store.createAgent(newAgent());
+      const other = await store.createAgent(newAgent());
+      const report = (subject: typeof agent, reporter: string, category: string) => store.createAbuseReport({
+        id: uuidv4(), agent_id: subject.id, agent_did: subject.did, reporter, category, description: 'Details', evidence: ['https://example.com']
+      });
+
+      const first = await report(agent, 'did:agent:one', 'spam');
+      await tick();
+      const second = await report(agent, 'api_key:key-1', 'fraud');
+      await tick();
+      await report(other, 'did:agent:one', 'spam');
+      assert.equal(first.status, 'open');
+      assert.deepEqual(first.evidence, ['https://example.com']);
+
+      // Oldest first, filtered and paged
+      const queue = await store.listAbuseReports({ agent_id: agent.id }, 10, 0);
+      assert.equal(queue.total, 2);
+      assert.deepEqual(queue.reports.map(r => r.id), [first.id, second.id]);
+      assert.equal((await store.listAbuseReports({ category: 'spam' }, 10, 0)).total, 2);
+      assert.equal((await store.listAbuseReports({ reporter: 'did:agent:one' }, 1, 1)).reports.length, 1);
+
+      // Updates apply only from the expected statuses
+      assert.equal((await store.updateAbuseReport(first.id, ['open'], { status: 'reviewing' }))!.status, 'reviewing');
+      assert.equal(await store.updateAbuseReport(first.id, ['open'], { status: 'dismissed' }), null);
+      await store.updateAbuseReport(first.id, ['open', 'reviewing'], { status: 'actioned', resolution_action: 'warn' });
+      await store.updateAbuseReport(second.id, ['open', 'reviewing'], { status: 'dismissed', resolution_action: 'dismiss' });
+
+      assert.deepEqual((await store.listAbuseReports({ status: ['open', 'reviewing'] }, 10, 0)).reports.map(r => r.agent_id), [other.id]);
+      assert.deepEqual(await store.getAbuseReportStats(agent.id), { open: 0, actioned: 1, dismissed: 1 });
+      assert.deepEqual(await store.getAbuseReportStats(other.id), { open: 1, actioned: 0, dismissed: 0 });
+
+      const batch = await store.getAbuseReportStatsForAgents([agent.id, other.id, 'unreported']);
+      assert.deepEqual(batch.sort((a, b) => a.open - b.open), [
+        { agent_id: agent.id, open: 0, actioned: 1, dismissed: 1 },
+        { agent_id: other.id, open: 1, actioned: 0, dismissed: 0 }
+      ]);
+    });
+
+    it('loads agents by DID in bulk', async () => {
+      const first = await store.createAgent(newAgent());
+      const second = await store.createAgent(newAgent());
+      const found = await store.getAgentsByDids([second.did, 'did:agent:missing', first.did]);
+      assert.deepEqual(found.map(a => a.id).sort(), [first.id, second.id].sort());
+      assert.deepEqual(await store.getAgentsByDids([]), []);
+    });
+
+    it('queues webhook deliveries until they are due', async () => {
+      const webhook = await store.createWebhook({
+        id: uuidv4(), owner_id: 'owner-1', url: 'https://hooks.example.com/in', secret: 'whsec_test',
+        event_types: ['claim'], dids: [], owners: ['owner-1'], description: null
+      });
+      assert.deepEqual((await store.getWebhook(webhook.id))!.event_types, ['claim']);
+
+      const delivery = (id: string, next_attempt_at: string | null, status = 'pending') => ({
+        id, subscription_id: webhook.id, event_id: uuidv4(), event_type: 'claim', payload: { id },
+        status, attempts: 0, next_attempt_at, last_attempt_at: null, response_status: null, last_error: null
+      });
+      await store.createWebhookDeliveries([
+        delivery('later', '2026-10-02T00:00:00.000Z'),
+        delivery('due', '2026-10-01T00:00:00.000Z'),
+        delivery('done', null, 'delivered')
+      ]);
+
+      assert.deepEqual((await store.getDueWebhookDeliveries('2026-10-01T12:00:00.000Z', 10)).map(d => d.id), ['due']);
+      assert.deepEqual((await store.getDueWebhookDeliveries('2026-10-03T00:00:00.000Z', 10)).map(d => d.id), ['due', 'later']);
+
+      const updated = await store.updateWebhookDelivery('due', { status: 'dead', attempts: 8, next_attempt_at: null, last_error: 'HTTP 500' });
+      assert.equal(updated!.last_error, 'HTTP 500');
+      assert.deepEqual((await store.getWebhookDelivery('due'))!.payload, { id: 'due' });
+      assert.equal((await store.listWebhookDeliveries(webhook.id, 'dead', 10, 0)).total, 1);
+      assert.equal((await store.listWebhookDeliveries(webhook.id, undefined, 10, 0)).total, 3);
+
+      assert.equal(await store.deleteWebhook(webhook.id), true);
+      assert.equal(await store.getWebhookDelivery('later'), null);
+    });
+
+    it('chains each agent\'s reputation events', async () => {
+      const first = await store.createAgent(newAgent());
+      const second = await store.createAgent(newAgent());
+      for (const agent of [first, second, first]) {
+        await store.createReputationEvent({ agent_id: agent.id, event_type: 'verification_success', score_delta: 1, description: null, metadata: {} });
+      }
+
+      const chain = await store.getReputationChain(first.id);
+      assert.deepEqual(chain.map(e => e.seq), [1, 2]);
+      assert.equal(chain[0].prev_hash, '0'.repeat(64));
+      assert.equal(chain[1].prev_hash, chain[0].hash);
+      assert.deepEqual(await store.getReputationChainHead(first.id), { agent_id: first.id, seq: 2, hash: chain[1].hash });
+      assert.equal(await store.getReputationChainHead(uuidv4()), null);
+
+      const heads = await store.getReputationChainHeads();
+      assert.deepEqual(heads.filter(h => h.agent_id === second.id).map(h => h.seq), [1]);
+      assert.deepEqual(await store.getUnsealedReputationEvents(10), []);
+    });
+
+    it('keeps the latest reputation checkpoint', async () => {
+      assert.equal(await store.getLatestReputationCheckpoint(), null);
+      const checkpoint = (root: string) => ({
+        root, agent_count: 1, event_count: 2, heads: [{ agent_id: 'a', seq: 2, hash: 'h' }],
+        issuer: 'did:key:z6Mk', signature: 'sig', created_at: new Date().toISOString()
+      });
+      const older = await store.createReputationCheckpoint(checkpoint('root-1'));
+      await tick();
+      const newer = await store.createReputationCheckpoint(checkpoint('root-2'));
+      assert.ok(newer.id > older.id);
+      assert.deepEqual(await store.getLatestReputationCheckpoint(), newer);
+    });
+
+    it('appends to the transparency log in order', async () => {
+      assert.equal(await store.getLogSize(), 0);
+      const entry = (did: string, entry_type: string, leaf_hash: string) =>
+        ({ entry_type, did, public_key: 'a'.repeat(64), key_id: `${did}#key-1`, leaf_hash, created_at: new Date().toISOString() });
+
+      const appended = [];
+      for (const [did, type, leaf] of [['did:agent:a', 'registration', 'h0'], ['did:agent:b', 'registration', 'h1'], ['did:agent:a', 'revocation', 'h2']]) {
+        appended.push(await store.appendLogEntry(entry(did, type, leaf)));
+      }
+      assert.deepEqual(appended.map(e => e.leaf_index), [0, 1, 2]);
+      assert.equal(await store.getLogSize(), 3);
+      assert.deepEqual((await store.getLogEntries(1, 3)).map(e => e.leaf_hash), ['h1', 'h2']);
+      assert.deepEqual((await store.getLogEntriesByDid('did:agent:a')).map(e => e.entry_type), ['registration', 'revocation']);
+      assert.deepEqual(await store.getLogLeafHashes(2), ['h0', 'h1']);
+
+      assert.equal(await store.getLatestTreeHead(), null);
+      const head = { tree_size: 3, root_hash: 'root', issuer: 'did:key:z6Mk', signature: 'sig', created_at: new Date().toISOString() };
+      await store.createTreeHead({ ...head, tree_size: 2 });
+      await store.createTreeHead(head);
+      assert.deepEqual(await store.getLatestTreeHead(), head);
+    });
+
+    it('rotates agent session refresh tokens once', async () => {
+      const agent = await store.createAgent(newAgent());
+      const expires_at = new Date(Date.now() + 60000).toISOString();
+      const session = await store.createAgentSession({ id: 'session-1', agent_id: agent.id, did: agent.did, scope: ['read'], refresh_token_hash: 'r1', expires_at });
+      assert.deepEqual(session.scope, ['read']);
+
+      const now = new Date().toISOString();
+      assert.equal(await store.rotateAgentSession(session.id, 'r1', 'r2', now), true);
+      assert.equal(await store.rotateAgentSession(session.id, 'r1', 'r3', now), false);
+      const rotated = await store.getAgentSession(session.id);
+      assert.equal(rotated!.refresh_token_hash, 'r2');
+      assert.equal(rotated!.previous_token_hash, 'r1');
+      assert.equal((await store.getAgentSessionByRefreshToken('r1'))!.id, session.id);
+      assert.equal(await store.getAgentSessionByRefreshToken('r0'), null);
+
+      await store.createAgentSession({ id: 'session-2', agent_id: agent.id, did: agent.did, scope: ['read', 'write'], refresh_token_hash: 's1', expires_at });
+      assert.equal(await store.revokeAgentSession(session.id, now), true);
+      assert.equal(await store.revokeAgentSession(session.id, now), false);
+      assert.equal(await store.rotateAgentSession(session.id, 'r2', 'r4', now), false);
+      await store.revokeAgentSessions(agent.id, now);
+      assert.equal((await store.getAgentSession('session-2'))!.revoked_at, now);
+    });
+
+    it('keeps one pending transfer per agent and the ownership trail', async () => {
+      const agent = await store.createAgent(newAgent());
+      await store.changeAgentOwner(agent.id, null, 'user-1', 'user:user-1', null);
+      const expires_at = new Date(Date.now() + 60000).toISOString();
+
+      const transfer = await store.createOwnershipTransfer({ id: uuidv4(), agent_id: agent.id, from_user_id: 'user-1', to_user_id: 'user-2', expires_at });
+      assert.equal(transfer.status, 'pending');
+      await assert.rejects(
+        store.createOwnershipTransfer({ id: uuidv4(), agent_id: agent.id, from_user_id: 'user-1', to_user_id: 'user-3', expires_at }),
+        ConflictError
+      );
+      assert.deepEqual((await store.getPendingOwnershipTransfers('user-2')).map(t => t.id), [transfer.id]);
+
+      await store.changeAgentOwner(agent.id, 'user-1', 'user-2', 'user:user-2', transfer.id);
+      const accepted = await store.resolveOwnershipTransfer(transfer.id, 'accepted', 'user:user-2', new Date().toISOString());
+      assert.equal(accepted!.status, 'accepted');
+      assert.equal(await store.resolveOwnershipTransfer(transfer.id, 'cancelled', 'user:user-1', new Date().toISOString()), null);
+      assert.deepEqual(await store.getPendingOwnershipTransfers('user-2'), []);
+
+      const history = await store.getOwnershipHistory(agent.id);
+      assert.deepEqual(history.map(c => [c.from_user_id, c.to_user_id, c.transfer_id]), [['user-1', 'user-2', transfer.id], [null, 'user-1', null]]);
+    });
+
+    it('pages directory searches by keyset as of the first page', async () => {
+      const created = [];
+      for (const name of ['Delta bot', 'alpha bot', 'Charlie bot', 'Bravo helper']) {
+        created.push(await store.createAgent(newAgent({ name, metadata: { team: name.endsWith('bot') ? 'infra' : 'support' } })));
+        await tick();
+      }
+      await store.changeAgentStatus(created[2], 'suspended', null, 'agent', null);
+
+      const search = (query: Record<string, unknown>) => {
+        const { search, error } = parseAgentSearch(query, getReputationModel()!);
+        assert.ok(search, error);
+        return search;
+      };
+
+      const byName = search({ sort: 'name', limit: '2' });
+      const first = await store.searchAgents(byName);
+      assert.equal(first.total, 4);
+      assert.deepEqual(first.agents.map(a => a.name), ['alpha bot', 'Bravo helper']);
+
+      // Registered after the first page, so later pages leave it out
+      await tick();
+      await store.createAgent(newAgent({ name: 'Aardvark bot' }));
+      const last = first.agents[1];
+      const second = await store.searchAgents({ ...byName, after: { value: last.sort_value, id: last.id } });
+      assert.deepEqual(second.agents.map(a => a.name), ['Charlie bot', 'Delta bot']);
+      assert.equal(second.total, 4);
+
+      const filtered = await store.searchAgents(search({ q: 'BOT', metadata: { team: 'infra' }, status: 'active' }));
+      assert.deepEqual(filtered.agents.map(a => a.name).sort(), ['Aardvark bot', 'Delta bot', 'alpha bot']);
+      assert.deepEqual((await store.searchAgents(search({ name: 'Bravo' }))).agents.map(a => a.id), [created[3].id]);
+    });
+
+    it('limits actions per identifier within a window', async () => {
+      for (let i = 0; i < 3; i++) {
+        assert.equal(await store.checkRateLimit('ip-1', 'registration', 3, 60000), true);
+      }
+      assert.equal(await store.checkRateLimit('ip-1', 'registration', 3, 60000), false);
+      assert.equal(await store.checkRateLimit('ip-2', 'registration', 3, 60000), true);
+    });
+
+    it('manages API keys by hash and owner', async () => {
+      await store.createApiKey({ id: 'key-1', key_hash: 'hash-1', owner_id: 'owner-1', name: 'ci', permissions: ['read'] });
+      assert.deepEqual((await store.getApiKeyByHash('hash-1'))!.permissions, ['read']);
+      assert.equal((await store.getApiKeysByOwner('owner-1')).length, 1);
+      await assert.rejects(store.createApiKey({ id: 'key-2', key_hash: 'hash-1', owner_id: 'owner-1', name: null, permissions: [] }), ConflictError);
+
+      assert.equal(await store.deleteApiKey('key-1'), true);
+      assert.equal(await store.getApiKeyByHash('hash-1'), null);
+    });
+
+    it('consumes each auth challenge once', async () => {
+      const challenge = await store.createAuthChallenge({ nonce: 'nonce-1', did: 'did:agent:x', expires_at: new Date(Date.now() + 60000).toISOString() });
+      assert.equal(challenge.used_at, null);
+
+      assert.equal(await store.consumeAuthChallenge('nonce-1', new Date().toISOString()), true);
+      assert.equal(await store.consumeAuthChallenge('nonce-1', new Date().toISOString()), false);
+      assert.ok((await store.getAuthChallenge('nonce-1'))!.used_at);
+      assert.equal(await store.getAuthChallenge('unknown'), null);
+
+      const use = { nonce: 'sig:abc', did: 'did:agent:x', expires_at: new Date(Date.now() + 60000).toISOString() };
+      assert.equal(await store.recordSignatureUse(use, new Date().toISOString()), true);
+      assert.equal(await store.recordSignatureUse(use, new Date().toISOString()), false);
+    });
+
+    it('purges expired challenges when creating new ones', async () => {
+      await store.createAuthChallenge({ nonce: 'stale', did: 'did:agent:x', expires_at: new Date(Date.now() - 1000).toISOString() });
+      await store.createAuthChallenge({ nonce: 'fresh', did: 'did:agent:x', expires_at: new Date(Date.now() + 60000).toISOString() });
+      assert.equal(await store.getAuthChallenge('stale'), null);
+      assert.ok(await store.getAuthChallenge('fresh'));
+    });
+
+    it('counts API key usage per scope and day', async () => {
+      await store.createApiKey({ id: 'key-1', key_hash: 'hash-1', owner_id: 'owner-1', name: null, permissions: ['read', 'verify'] });
+      await store.recordApiKeyUsage('key-1', 'read', '2026-10-01T10:00:00.000Z');
+      await store.recordApiKeyUsage('key-1', 'read', '2026-10-01T11:00:00.000Z');
+      await store.recordApiKeyUsage('key-1', 'verify', '2026-10-01T12:00:00.000Z');
+      await store.recordApiKeyUsage('key-1', 'read', '2026-10-02T09:00:00.000Z');
+
+      const apiKey = await store.getApiKeyById('key-1');
+      assert.equal(apiKey!.usage_count, 4);
+      assert.equal(apiKey!.last_used_at, '2026-10-02T09:00:00.000Z');
+      assert.deepEqual((await store.getApiKeyUsage('key-1')).map(u => [u.date, u.scope, u.count]), [
+        ['2026-10-02', 'read', 1],
+        ['2026-10-01', 'read', 2],
+        ['2026-10-01', 'verify', 1]
+      ]);
+
+      await store.deleteApiKey('key-1');
+      assert.deepEqual(await store.getApiKeyUsage('key-1'), []);
+    });
+  });
+}
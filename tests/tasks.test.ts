@@ -0,0 +1,126 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentIdentity, AgentInfo, countersignTask, signPayload } from '../sdk/index';
+import { call, startServer, TestServer } from './helpers';
+
+describe('Counterparty-confirmed tasks', () => {
+  let server: TestServer;
+  let requester: AgentInfo;
+  let platform: AgentIdentity;
+  before(async () => {
+    server = await startServer();
+    requester = await server.client.register({ name: 'Requester' });
+
+    server.store.addSession('platform-token', { id: 'platform-1', email: 'ops@platform.example' });
+    const key = await call(server, 'POST', '/api-keys', { name: 'receipts', permissions: ['read', 'write'] }, { Authorization: 'Bearer platform-token' });
+    platform = new AgentIdentity({ apiUrl: server.url, apiKey: key.body.key });
+  });
+  after(() => server.close());
+
+  // Sign and submit a work report with raw tasks, as a client in another language would
+  async function report(agent: AgentInfo, tasks: unknown[]) {
+    const { nonce } = await server.client.createChallenge(agent.did);
+    const fields = {
+      did: agent.did,
+      period: new Date().toISOString().split('T')[0],
+      tasks_completed: 0,
+      corrections: 0,
+      positive_feedback: 0,
+      errors: 0,
+      tasks,
+      timestamp: new Date().toISOString(),
+      nonce
+    };
+    const { signature } = signPayload('work_report', fields, agent.private_key!);
+    return call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/work-report`, { ...fields, signature });
+  }
+
+  it('weights countersigned tasks above self-reported ones', async () => {
+    const selfReported = await server.client.register({ name: 'Self-reported' });
+    const confirmed = await server.client.register({ name: 'Confirmed' });
+
+    const plain = await server.client.submitWorkReport(selfReported.did, selfReported.private_key!, { tasksCompleted: 2, positiveFeedback: 2 });
+    const result = await server.client.submitWorkReport(confirmed.did, confirmed.private_key!, {
+      tasks: [
+        countersignTask(requester.did, requester.private_key!, confirmed.did, { taskId: 't-1', outcome: 'completed', positiveFeedback: true }),
+        countersignTask(requester.did, requester.private_key!, confirmed.did, { taskId: 't-2', outcome: 'corrected' })
+      ]
+    }) as any;
+
+    assert.equal(result.verified.tasks, 2);
+    assert.equal(result.verified.tasks_completed, 2);
+    assert.equal(result.verified.corrections, 1);
+    assert.ok(result.new_reputation > plain.new_reputation);
+
+    const profile = await call(server, 'GET', `/agents/${encodeURIComponent(confirmed.did)}`);
+    assert.equal(profile.body.work.verified_tasks, 2);
+    assert.equal(profile.body.work.self_reported_tasks, 0);
+    assert.deepEqual(profile.body.work.verified, { completed: 1, corrected: 1, failed: 0, positive_feedback: 1 });
+  });
+
+  it('counts a countersigned task once', async () => {
+    const agent = await server.client.register({ name: 'Repeater' });
+    const task = countersignTask(requester.did, requester.private_key!, agent.did, { taskId: 'once', outcome: 'completed' });
+
+    assert.equal((await report(agent, [task])).status, 200);
+    const again = await report(agent, [task]);
+    assert.equal(again.status, 409);
+    assert.equal(again.body.error, 'Task already counted');
+
+    const duplicate = await report(agent, [
+      countersignTask(requester.did, requester.private_key!, agent.did, { taskId: 'twice', outcome: 'completed' }),
+      countersignTask(requester.did, requester.private_key!, agent.did, { taskId: 'twice', outcome: 'completed' })
+    ]);
+    assert.equal(duplicate.status, 400);
+    assert.equal(duplicate.body.error, 'Duplicate task in report');
+  });
+
+  it('refuses a countersignature over other fields', async () => {
+    const agent = await server.client.register({ name: 'Inflater' });
+    const task = countersignTask(requester.did, requester.private_key!, agent.did, { taskId: 't-1', outcome: 'failed' });
+
+    const response = await report(agent, [{ ...task, outcome: 'completed', positive_feedback: true }]);
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, 'Invalid countersignature');
+    assert.equal(response.body.task_index, 0);
+  });
+
+  it('refuses countersignatures from related agents', async () => {
+    const { publicKey, privateKey } = AgentIdentity.generateKeyPair();
+    const id = uuidv4();
+    const worker = await server.store.createAgent({
+      id, name: 'Own worker', owner_id: null, public_key: publicKey, did: `did:agent:${id.replace(/-/g, '')}`, metadata: {},
+      status: 'active', claim_code: null, claim_code_expires_at: null, user_id: null, parent_did: requester.did, agent_type: 'worker'
+    });
+
+    const response = await report(requester, [countersignTask(worker.did, privateKey, requester.did, { taskId: 't-1', outcome: 'completed' })]);
+    assert.equal(response.status, 403);
+  });
+
+  it('counts a platform receipt once', async () => {
+    const agent = await server.client.register({ name: 'Platform worker' });
+    const receipt = await platform.issueTaskReceipt(agent.did, { taskId: 'job-7', outcome: 'completed', positiveFeedback: true });
+    assert.match(receipt.countersigner, /^api_key:/);
+    assert.equal(receipt.report_id, null);
+
+    const counted = await report(agent, [{ receipt_id: receipt.id }]);
+    assert.equal(counted.status, 200);
+    assert.equal(counted.body.verified.tasks, 1);
+
+    const again = await report(agent, [{ receipt_id: receipt.id }]);
+    assert.equal(again.status, 409);
+    assert.equal(again.body.error, 'Task receipt was already counted');
+
+    assert.equal((await report(agent, [{ receipt_id: uuidv4() }])).status, 400);
+  });
+
+  it('issues receipts only with an API key', async () => {
+    const agent = await server.client.register({ name: 'Keyless' });
+    const response = await call(server, 'POST', `/agents/${encodeURIComponent(agent.did)}/task-receipts`, { task_id: 't-1', outcome: 'completed' });
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, 'API key required');
+
+    await assert.rejects(platform.issueTaskReceipt(agent.did, { taskId: 't-1', outcome: 'done' as any }), /outcome must be one of/);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentCredentials, AgentIdentity, AgentInfo } from '../sdk/index';
+import { call, startServer, TestServer } from './helpers';
+
+describe('Agent access tokens', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  const credentials = (agent: AgentInfo): AgentCredentials => ({ did: agent.did, privateKey: agent.private_key! });
+  const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+  const refresh = (refresh_token: string, scope?: string) => call(server, 'POST', '/auth/token', { grant_type: 'refresh_token', refresh_token, scope });
+
+  it('grants a token for a signed request', async () => {
+    const agent = await server.client.register({ name: 'Token' });
+    const tokens = await server.client.getAccessToken(credentials(agent));
+    assert.equal(tokens.did, agent.did);
+    assert.equal(tokens.scope, 'read write');
+    assert.match(tokens.refresh_token, /^ailr_/);
+
+    const me = await call(server, 'GET', '/agents/me', undefined, bearer(tokens.access_token));
+    assert.equal(me.status, 200);
+    assert.equal(me.body.did, agent.did);
+
+    const unsigned = await call(server, 'POST', '/auth/token', { grant_type: 'agent_signature' });
+    assert.equal(unsigned.status, 401);
+    assert.equal((await call(server, 'POST', '/auth/token', { grant_type: 'password' })).status, 400);
+  });
+
+  it('limits a token to its scope', async () => {
+    const agent = await server.client.register({ name: 'Reader' });
+    const tokens = await server.client.getAccessToken(credentials(agent), ['read']);
+    assert.equal((await call(server, 'GET', '/agents/me', undefined, bearer(tokens.access_token))).status, 200);
+
+    const write = await call(server, 'POST', '/agents/me/reports/none/response', { response: 'Hi' }, bearer(tokens.access_token));
+    assert.equal(write.status, 401);
+    assert.equal(write.body.error, 'Access token lacks the write scope');
+
+    const wider = await refresh(tokens.refresh_token, 'read write');
+    assert.equal(wider.status, 400);
+  });
+
+  it('rotates the refresh token and revokes the session when an old one comes back', async () => {
+    const agent = await server.client.register({ name: 'Refreshing' });
+    const first = await server.client.getAccessToken(credentials(agent));
+    const second = await server.client.refreshAccessToken(first.refresh_token);
+    assert.notEqual(second.refresh_token, first.refresh_token);
+    assert.equal((await call(server, 'GET', '/agents/me', undefined, bearer(second.access_token))).status, 200);
+
+    const reused = await refresh(first.refresh_token);
+    assert.equal(reused.status, 401);
+    assert.equal(reused.body.error, 'Refresh token reused');
+
+    assert.equal((await refresh(second.refresh_token)).body.error, 'Session revoked');
+    const revoked = await call(server, 'GET', '/agents/me', undefined, bearer(second.access_token));
+    assert.equal(revoked.status, 401);
+    assert.equal(revoked.body.error, 'Access token revoked');
+  });
+
+  it('revokes a session on request', async () => {
+    const agent = await server.client.register({ name: 'Logout' });
+    const tokens = await server.client.getAccessToken(credentials(agent));
+    await server.client.revokeToken(tokens.refresh_token);
+
+    assert.equal((await call(server, 'GET', '/agents/me', undefined, bearer(tokens.access_token))).status, 401);
+    assert.equal((await refresh(tokens.refresh_token)).status, 401);
+  });
+
+  it('revokes sessions when the key is rotated', async () => {
+    const agent = await server.client.register({ name: 'Rotating' });
+    const tokens = await server.client.getAccessToken(credentials(agent));
+    await server.client.rotateKey(agent.did, agent.private_key!, AgentIdentity.generateKeyPair().publicKey);
+
+    assert.equal((await call(server, 'GET', '/agents/me', undefined, bearer(tokens.access_token))).status, 401);
+    assert.equal((await refresh(tokens.refresh_token)).status, 401);
+  });
+
+  it('refuses a token that was altered', async () => {
+    const agent = await server.client.register({ name: 'Forger' });
+    const victim = await server.client.register({ name: 'Victim' });
+    const { access_token } = await server.client.getAccessToken(credentials(agent));
+    const [header, payload, signature] = access_token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = `${header}.${Buffer.from(JSON.stringify({ ...claims, sub: victim.did })).toString('base64url')}.${signature}`;
+
+    assert.equal((await call(server, 'GET', '/agents/me', undefined, bearer(forged))).status, 401);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity, AgentInfo, Jwk, verifyVerificationToken } from '../sdk/index';
+import { call, startServer, TestServer } from './helpers';
+
+describe('Signed verification results', () => {
+  let server: TestServer;
+  let agent: AgentInfo;
+  let jwks: { keys: Jwk[] };
+  before(async () => {
+    server = await startServer();
+    agent = await server.client.register({ name: 'Verified' });
+    jwks = await server.client.getJwks();
+  });
+  after(() => server.close());
+
+  it('publishes the issuer key as a JWK Set', async () => {
+    const issuer = await server.client.getIssuer();
+    assert.equal(jwks.keys.length, 1);
+    assert.ok(jwks.keys[0].kid.startsWith(`${issuer.did}#`));
+    assert.equal(Buffer.from(jwks.keys[0].x, 'base64url').toString('hex'), issuer.public_key);
+
+    const response = await fetch(`${server.url}/.well-known/jwks.json`);
+    assert.equal(response.headers.get('cache-control'), 'public, max-age=3600');
+  });
+
+  it('signs the verification result', async () => {
+    const verification = await server.client.getVerification(agent.did) as any;
+    assert.ok(new Date(verification.token_expires_at).getTime() > Date.now());
+
+    const check = verifyVerificationToken(verification.token, jwks, agent.did);
+    assert.equal(check.valid, true);
+    assert.equal(check.verification!.verified, true);
+    assert.equal(check.verification!.did, agent.did);
+
+    const withHexKey = verifyVerificationToken(verification.token, (await server.client.getIssuer()).public_key, agent.did);
+    assert.equal(withHexKey.valid, true);
+  });
+
+  it('signs unverified results too', async () => {
+    await server.client.changeStatus(agent.did, agent.private_key!, 'revoked');
+    const { token } = await call(server, 'GET', `/verify/${encodeURIComponent(agent.did)}`).then(r => r.body);
+    const check = verifyVerificationToken(token, jwks, agent.did);
+    assert.equal(check.valid, true);
+    assert.equal(check.verification!.verified, false);
+  });
+
+  it('refuses altered, expired or misdirected tokens', async () => {
+    const other = await server.client.register({ name: 'Other' });
+    const { token } = await server.client.getVerification(other.did) as any;
+    const [header, payload, signature] = token.split('.');
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    claims.verification.reputation = 5;
+    const altered = `${header}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+    assert.equal(verifyVerificationToken(altered, jwks).error, 'Invalid signature');
+
+    assert.equal(verifyVerificationToken(token, jwks, other.did, new Date(Date.now() + 60 * 60 * 1000)).error, 'Token has expired');
+    assert.equal(verifyVerificationToken(token, jwks, agent.did).error, 'Token is for another DID');
+    assert.equal(verifyVerificationToken(token, { keys: [{ ...jwks.keys[0], kid: 'other' }] }).error, 'No key found for this token');
+    assert.equal(verifyVerificationToken(token, AgentIdentity.generateKeyPair().publicKey).error, 'Invalid signature');
+    assert.equal(verifyVerificationToken('not.a-token', jwks).error, 'Malformed token');
+  });
+});
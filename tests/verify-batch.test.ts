@@ -0,0 +1,61 @@
+// Read when the verify router loads; high enough for a batch to fill the rate limit
+process.env.VERIFY_BATCH_MAX_DIDS = '1000';
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentIdentity, AgentInfo } from '../sdk/index';
+import { call, startServer, TestServer } from './helpers';
+
+describe('Batch verification', () => {
+  let server: TestServer;
+  let active: AgentInfo;
+  let revoked: AgentInfo;
+  const unregistered = `did:key:z${AgentIdentity.generateKeyPair().publicKey}`;
+
+  before(async () => {
+    server = await startServer();
+    active = await server.client.register({ name: 'Listed' });
+    revoked = await server.client.register({ name: 'Delisted' });
+    await server.client.revoke(revoked.did, revoked.private_key!);
+  });
+  after(() => server.close());
+
+  // Runs first: the rate limit is per IP and per minute, so this leaves 10 DIDs for the rest
+  it('charges the rate limit once per unique DID', async () => {
+    const dids = Array.from({ length: 990 }, (_, i) => `not-a-did-${i}`);
+    const batch = await call(server, 'POST', '/verify/batch', { dids: [...dids, ...dids] });
+    assert.equal(batch.status, 200);
+    assert.equal(batch.body.results.length, 990);
+    assert.equal(batch.body.summary.errors, 990);
+
+    const over = await call(server, 'POST', '/verify/batch', { dids: Array.from({ length: 11 }, (_, i) => `also-not-a-did-${i}`) });
+    assert.equal(over.status, 429);
+    assert.equal(over.body.requested, 11);
+  });
+
+  it('limits the DIDs per batch', async () => {
+    const tooMany = await call(server, 'POST', '/verify/batch', { dids: Array.from({ length: 1001 }, (_, i) => `did-${i}`) });
+    assert.equal(tooMany.status, 400);
+    assert.equal(tooMany.body.error, 'Too many DIDs');
+    assert.equal(tooMany.body.provided, 1001);
+
+    for (const dids of [undefined, [], 'did:agent:abc', [1]]) {
+      assert.equal((await call(server, 'POST', '/verify/batch', { dids })).status, 400);
+    }
+  });
+
+  it('verifies DIDs in request order', async () => {
+    const { results, summary } = await server.client.verifyMany([revoked.did, active.did, 'not-a-did', unregistered, active.did], 2);
+    assert.deepEqual(results.map(r => [r.did, r.verified]), [
+      [revoked.did, false], [active.did, true], ['not-a-did', false], [unregistered, false]
+    ]);
+    assert.deepEqual(summary, { requested: 4, verified: 1, not_verified: 1, not_registered: 1, errors: 1 });
+
+    const [delisted, listed, invalid, missing] = results as any[];
+    assert.equal(delisted.revoked, true);
+    assert.equal(listed.name, 'Listed');
+    assert.equal(typeof listed.token, 'string');
+    assert.equal(invalid.error, 'Invalid DID format');
+    assert.equal(missing.message, 'Agent not registered');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { isPrivateAddress } from '../src/utils/webhooks';
+import { startServer, call, TestServer } from './helpers';
+
+describe('webhook receivers', () => {
+  let server: TestServer;
+  const owner = { Authorization: 'Bearer owner-token' };
+  before(async () => {
+    server = await startServer();
+    server.store.addSession('owner-token', { id: 'owner-1', email: 'owner@example.com' });
+  });
+  after(() => server.close());
+
+  it('classifies private and reserved addresses', () => {
+    for (const address of ['127.0.0.1', '10.0.0.8', '172.16.4.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:10.0.0.1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    for (const address of ['1.1.1.1', '93.184.216.34', '2606:4700::1111']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('refuses to subscribe private targets', async () => {
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'http://127.0.0.1:8080/hook', 'http://localhost/hook', 'http://[::1]/hook']) {
+      const response = await call(server, 'POST', '/webhooks', { url }, owner);
+      assert.equal(response.status, 400, url);
+    }
+  });
+
+  it('checks the address again when delivering', async () => {
+    let received = 0;
+    const receiver = createServer((req, res) => { received++; res.end(); }).listen(0, '127.0.0.1');
+    await new Promise(resolve => receiver.once('listening', resolve));
+
+    // As if the URL had passed the check when subscribing and resolved elsewhere since
+    await server.store.createWebhook({
+      id: 'rebound',
+      owner_id: 'owner-1',
+      url: `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`,
+      secret: 'whsec_test',
+      event_types: [],
+      dids: [],
+      owners: [],
+      description: null
+    });
+
+    const delivery = await call(server, 'POST', '/webhooks/rebound/test', {}, owner);
+    receiver.close();
+    assert.equal(delivery.status, 200);
+    assert.equal(delivery.body.status, 'pending');
+    assert.equal(received, 0);
+    assert.equal('last_error' in delivery.body, false);
+    assert.equal('response_status' in delivery.body, false);
+  });
+});
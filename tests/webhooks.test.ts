@@ -0,0 +1,149 @@
+// The receiver below listens on loopback, which webhooks may only reach in local development
+process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AgentIdentity } from '../sdk/index';
+import { signWebhookPayload, subscriptionMatches } from '../src/utils/webhooks';
+import { startServer, call, TestServer } from './helpers';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks', () => {
+  let server: TestServer;
+  let receiver: Server;
+  let receiverUrl: string;
+  let responseStatus = 200;
+  const received: Received[] = [];
+  const owner = { Authorization: 'Bearer owner-token' };
+
+  before(async () => {
+    server = await startServer();
+    server.store.addSession('owner-token', { id: 'owner-1', email: 'owner@example.com' });
+    server.store.addSession('other-token', { id: 'owner-2', email: 'other@example.com' });
+
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    }).listen(0, '127.0.0.1');
+    await new Promise(resolve => receiver.once('listening', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+  after(() => {
+    receiver.close();
+    receiver.closeAllConnections();
+    server.close();
+  });
+
+  async function subscribe(body: Record<string, unknown> = {}) {
+    const response = await call(server, 'POST', '/webhooks', { url: receiverUrl, ...body }, owner);
+    assert.equal(response.status, 201);
+    return response.body;
+  }
+
+  // Events are delivered in the background
+  async function waitFor(predicate: () => boolean) {
+    for (let i = 0; i < 100 && !predicate(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    assert.ok(predicate(), 'timed out waiting for a delivery');
+  }
+
+  it('shows the secret once and signs every delivery with it', async () => {
+    const webhook = await subscribe({ description: 'ping' });
+    assert.match(webhook.secret, /^whsec_[0-9a-f]{64}$/);
+    assert.equal((await call(server, 'GET', `/webhooks/${webhook.id}`, undefined, owner)).body.secret, undefined);
+
+    const delivery = await call(server, 'POST', `/webhooks/${webhook.id}/test`, {}, owner);
+    assert.equal(delivery.body.status, 'delivered');
+    assert.equal(delivery.body.attempts, 1);
+
+    const ping = received[received.length - 1];
+    assert.equal(ping.headers['x-webhook-event'], 'ping');
+    assert.equal(ping.headers['x-webhook-id'], delivery.body.event_id);
+    const timestamp = Number(/^t=(\d+),/.exec(ping.headers['x-webhook-signature'] as string)![1]);
+    assert.equal(ping.headers['x-webhook-signature'], signWebhookPayload(webhook.secret, timestamp, ping.body));
+
+    await call(server, 'DELETE', `/webhooks/${webhook.id}`, undefined, owner);
+  });
+
+  it('delivers only the events and agents subscribed to', async () => {
+    const watched = await server.client.register({ name: 'Watched' });
+    const ignored = await server.client.register({ name: 'Ignored' });
+    const webhook = await subscribe({ event_types: ['key_rotation'], dids: [watched.did] });
+    received.length = 0;
+
+    await server.client.rotateKey(ignored.did, ignored.private_key!, AgentIdentity.generateKeyPair().publicKey);
+    await server.client.rotateKey(watched.did, watched.private_key!, AgentIdentity.generateKeyPair().publicKey);
+    await waitFor(() => received.length > 0);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    assert.equal(received.length, 1);
+    const event = JSON.parse(received[0].body);
+    assert.equal(event.type, 'key_rotation');
+    assert.equal(event.agent.did, watched.did);
+
+    const log = await call(server, 'GET', `/webhooks/${webhook.id}/deliveries?status=delivered`, undefined, owner);
+    assert.equal(log.body.total, 1);
+    await call(server, 'DELETE', `/webhooks/${webhook.id}`, undefined, owner);
+  });
+
+  it('schedules a retry after a failure and redelivers dead letters', async () => {
+    const webhook = await subscribe();
+    responseStatus = 500;
+    const failed = await call(server, 'POST', `/webhooks/${webhook.id}/test`, {}, owner);
+    assert.equal(failed.body.status, 'pending');
+    assert.equal(failed.body.attempts, 1);
+    assert.equal('last_error' in failed.body, false);
+    assert.equal((await server.store.getWebhookDelivery(failed.body.id))!.last_error, 'HTTP 500');
+    assert.ok(new Date(failed.body.next_attempt_at).getTime() > Date.now());
+
+    const notDead = await call(server, 'POST', `/webhooks/${webhook.id}/deliveries/${failed.body.id}/retry`, {}, owner);
+    assert.equal(notDead.status, 409);
+
+    // As if every retry had failed
+    await server.store.updateWebhookDelivery(failed.body.id, { status: 'dead', attempts: 8, next_attempt_at: null });
+    assert.equal((await call(server, 'GET', `/webhooks/${webhook.id}/deliveries?status=dead`, undefined, owner)).body.total, 1);
+
+    responseStatus = 200;
+    const retried = await call(server, 'POST', `/webhooks/${webhook.id}/deliveries/${failed.body.id}/retry`, {}, owner);
+    assert.equal(retried.body.status, 'delivered');
+    assert.equal(retried.body.attempts, 1);
+  });
+
+  it('keeps webhooks private to their account', async () => {
+    const webhook = await subscribe();
+    const other = { Authorization: 'Bearer other-token' };
+    assert.equal((await call(server, 'GET', `/webhooks/${webhook.id}`, undefined, other)).status, 404);
+    assert.equal((await call(server, 'DELETE', `/webhooks/${webhook.id}`, undefined, other)).status, 404);
+    assert.equal((await call(server, 'GET', '/webhooks', undefined, other)).body.total, 0);
+    assert.equal((await call(server, 'GET', '/webhooks')).status, 401);
+  });
+
+  it('validates subscriptions', async () => {
+    for (const body of [{ url: 'ftp://example.com/hook' }, { url: receiverUrl, event_types: ['deleted'] }, { url: receiverUrl, dids: ['alice'] }]) {
+      assert.equal((await call(server, 'POST', '/webhooks', body, owner)).status, 400);
+    }
+  });
+
+  it('matches agents by DID or owner', () => {
+    const subscription = { event_types: ['claim'], dids: ['did:agent:a'], owners: ['user-1'] } as any;
+    const agent = (did: string, owner_id: string | null = null, user_id: string | null = null) => ({ did, owner_id, user_id } as any);
+
+    assert.equal(subscriptionMatches(subscription, 'claim', agent('did:agent:a')), true);
+    assert.equal(subscriptionMatches(subscription, 'claim', agent('did:agent:b', null, 'user-1')), true);
+    assert.equal(subscriptionMatches(subscription, 'claim', agent('did:agent:c', 'user-2')), false);
+    assert.equal(subscriptionMatches(subscription, 'registration', agent('did:agent:a')), false);
+    assert.equal(subscriptionMatches({ event_types: [], dids: [], owners: [] } as any, 'registration', agent('did:agent:z')), true);
+  });
+});